@@ -1,6 +1,17 @@
 import { Env } from './env';
 import { IRequest } from 'itty-router';
-import { createSession, getSessionData, deleteSession, updateSession, addToSession } from './session';
+import {
+    createSession,
+    getSessionData,
+    getSessionMetadata,
+    deleteSession,
+    updateSession,
+    addToSession,
+    listUserSessions,
+    deleteUserSessions,
+    parseSessionPolicy,
+    parseSessionClientInfo
+} from './session';
 
 // Constants for HTTP status codes
 const STATUS_CREATED = 201;
@@ -18,11 +29,13 @@ async function parseJson(request: IRequest): Promise<any> {
     }
 }
 
-// Handle Create Session
+// Handle Create Session - the expiry policy is taken from the idleTimeout and absoluteTimeout query parameters,
+// and the owner and client from the userId, userAgent and ip query parameters
 export async function handleCreateSession(request: IRequest, env: Env): Promise<Response> {
     try {
         const requestData = await parseJson(request);
-        const sessionId = await createSession(requestData, env);
+        const { searchParams } = new URL(request.url);
+        const sessionId = await createSession(requestData, env, parseSessionPolicy(searchParams), parseSessionClientInfo(searchParams));
         return new Response(sessionId, { status: STATUS_CREATED });
     } catch (error) {
         console.error('Error in handleCreateSession:', error);
@@ -30,7 +43,7 @@ export async function handleCreateSession(request: IRequest, env: Env): Promise<
     }
 }
 
-// Handle Get Session
+// Handle Get Session - refuses expired sessions and slides the idle timeout forward
 export async function handleGetSessionData(request: IRequest, env: Env): Promise<Response> {
     try {
         const { sessionId } = request.params;
@@ -45,6 +58,24 @@ export async function handleGetSessionData(request: IRequest, env: Env): Promise
     }
 }
 
+// Handle Get Session Metadata - returns createdAt, lastSeenAt and expiry times without renewing the session
+export async function handleGetSessionMetadata(request: IRequest, env: Env): Promise<Response> {
+    try {
+        const { sessionId } = request.params;
+        const metadata = await getSessionMetadata(sessionId, env);
+        if (!metadata) {
+            return new Response('Session not found', { status: STATUS_NOT_FOUND });
+        }
+        return new Response(JSON.stringify(metadata), {
+            status: STATUS_OK,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error in handleGetSessionMetadata:', error);
+        return new Response('Failed to retrieve session metadata', { status: STATUS_INTERNAL_SERVER_ERROR });
+    }
+}
+
 // Handle Delete Session
 export async function handleDeleteSession(request: IRequest, env: Env): Promise<Response> {
     try {
@@ -62,7 +93,9 @@ export async function handleUpdateSession(request: IRequest, env: Env): Promise<
     try {
         const { sessionId } = request.params;
         const requestData = await parseJson(request);
-        await updateSession(sessionId, requestData, env);
+        if (!await updateSession(sessionId, requestData, env)) {
+            return new Response('Session not found', { status: STATUS_NOT_FOUND });
+        }
         return new Response('Session updated', { status: STATUS_OK });
     } catch (error) {
         console.error('Error in handleUpdateSession:', error);
@@ -75,7 +108,9 @@ export async function handleAddToSession(request: IRequest, env: Env): Promise<R
     try {
         const { sessionId } = request.params;
         const requestData = await parseJson(request);
-        await addToSession(sessionId, requestData, env);
+        if (!await addToSession(sessionId, requestData, env)) {
+            return new Response('Session not found', { status: STATUS_NOT_FOUND });
+        }
         return new Response('Session updated with additional data', { status: STATUS_OK });
     } catch (error) {
         console.error('Error in handleAddToSession:', error);
@@ -83,6 +118,37 @@ export async function handleAddToSession(request: IRequest, env: Env): Promise<R
     }
 }
 
+// Handle List User Sessions - returns the active sessions of a user, most recently used first
+export async function handleListUserSessions(request: IRequest, env: Env): Promise<Response> {
+    try {
+        const { userId } = request.params;
+        const sessions = await listUserSessions(userId, env);
+        return new Response(JSON.stringify(sessions), {
+            status: STATUS_OK,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error in handleListUserSessions:', error);
+        return new Response('Failed to list user sessions', { status: STATUS_INTERNAL_SERVER_ERROR });
+    }
+}
+
+// Handle Delete User Sessions - deletes all sessions of a user except the one named in the optional except query parameter
+export async function handleDeleteUserSessions(request: IRequest, env: Env): Promise<Response> {
+    try {
+        const { userId } = request.params;
+        const exceptSessionId = new URL(request.url).searchParams.get('except') || undefined;
+        const deleted = await deleteUserSessions(userId, env, exceptSessionId);
+        return new Response(JSON.stringify({ deleted }), {
+            status: STATUS_OK,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error in handleDeleteUserSessions:', error);
+        return new Response('Failed to delete user sessions', { status: STATUS_INTERNAL_SERVER_ERROR });
+    }
+}
+
 // Cache TTL in seconds (5 minutes)
 const CACHE_TTL_SECONDS = 300;
 
@@ -3,25 +3,41 @@
  * This module defines methods for creating, retrieving, updating, adding to, and deleting sessions,
  * with each session identified by a unique session ID. Sessions are stored in a Cloudflare KV namespace.
  *
+ * Every session has an idle timeout, which slides forward each time the session is read, and an absolute
+ * lifetime that never moves. Both are set per session when it is created. The expiry times are stored as
+ * KV metadata (createdAt, lastSeenAt, expiresAt) and checked on every read, so an expired session is
+ * refused even if KV has not evicted it yet.
+ *
+ * Sessions created with a `userId` are also recorded in a per-user index (`user-session:<userId>:<sessionId>`)
+ * holding the client's user agent, IP address and creation time, so all of a user's sessions can be listed or revoked.
+ *
  * The `Env` interface represents the expected environment configuration,
  * containing the `sessionstore` KVNamespace for session data storage.
  *
  * Functions (in the session.ts file) include:
  * - `generateSessionId`: Generates a unique session identifier using `crypto.randomUUID`.
- * - `createSession`: Creates a new session with the provided data in the Cloudflare KV store and returns the session ID.
+ * - `parseSessionPolicy`: Builds a session expiry policy from request query parameters.
+ * - `createSession`: Creates a new session with the provided data and expiry policy in the Cloudflare KV store and returns the session ID.
  * - `updateSession`: Updates the data for a given session ID in the Cloudflare KV store.
  * - `addToSession`: Adds data to an existing session in the Cloudflare KV store.
- * - `getSessionData`: Retrieves session data for a given session ID from the Cloudflare KV store.
+ * - `getSessionData`: Retrieves session data for a given session ID from the Cloudflare KV store, renewing its idle timeout.
+ * - `getSessionMetadata`: Retrieves the expiry metadata for a given session ID without renewing it.
  * - `deleteSession`: Deletes a session from the Cloudflare KV store using the session ID.
+ * - `listUserSessions`: Lists the active sessions of a user.
+ * - `deleteUserSessions`: Deletes all sessions of a user, optionally keeping one.
  *
  * The default export is an async `fetch` function that handles HTTP requests to create, get, update, add to, and delete sessions based on the request path.
  * It uses `itty-router` to define the routes and handle the requests.
  * The supported routes are:
- * - POST `/create`: Creates a new session.
+ * - POST `/create`: Creates a new session. Optional `idleTimeout` and `absoluteTimeout` query parameters (seconds) set its expiry policy,
+ *   and optional `userId`, `userAgent` and `ip` query parameters add it to the user's session index.
  * - GET `/get/:sessionId`: Retrieves session data for the given session ID.
+ * - GET `/meta/:sessionId`: Retrieves the expiry metadata for the given session ID.
  * - DELETE `/delete/:sessionId`: Deletes the session with the given session ID.
  * - PUT `/update/:sessionId`: Updates the session data for the given session ID.
  * - PATCH `/add/:sessionId`: Adds data to the existing session with the given session ID.
+ * - GET `/user/:userId/sessions`: Lists the active sessions of the given user.
+ * - DELETE `/user/:userId/sessions`: Deletes all sessions of the given user, except the one in the optional `except` query parameter.
  * - ALL `*`: Catches all other requests and returns a 404 response.
  *
  * It is designed to be deployed as part of a Cloudflare Worker.
@@ -31,9 +47,12 @@ import { Env } from './env';
 import {
 	handleCreateSession,
 	handleGetSessionData,
+	handleGetSessionMetadata,
 	handleAddToSession,
 	handleUpdateSession,
 	handleDeleteSession,
+	handleListUserSessions,
+	handleDeleteUserSessions,
 	handleGetCache,
 	handleSetCache,
 	handleDeleteCache
@@ -45,9 +64,12 @@ router
 	// Session routes
 	.post('/create', (request, env) => handleCreateSession(request, env))
 	.get('/get/:sessionId', (request, env) => handleGetSessionData(request, env))
+	.get('/meta/:sessionId', (request, env) => handleGetSessionMetadata(request, env))
 	.delete('/delete/:sessionId', (request, env) => handleDeleteSession(request, env))
 	.put('/update/:sessionId', (request, env) => handleUpdateSession(request, env))
 	.patch('/add/:sessionId', (request, env) => handleAddToSession(request, env))
+	.get('/user/:userId/sessions', (request, env) => handleListUserSessions(request, env))
+	.delete('/user/:userId/sessions', (request, env) => handleDeleteUserSessions(request, env))
 	// Cache routes
 	.get('/cache/:cacheKey', (request, env) => handleGetCache(request, env))
 	.put('/cache/:cacheKey', (request, env) => handleSetCache(request, env))
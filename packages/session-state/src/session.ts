@@ -5,14 +5,180 @@ const ERROR_CREATING_SESSION = 'Failed to create session';
 const ERROR_UPDATING_SESSION = 'Failed to update session';
 const ERROR_DELETING_SESSION = 'Failed to delete session';
 
+// KV rejects expirations less than 60 seconds in the future
+const MIN_TIMEOUT_SECONDS = 60;
+
+// Upper bound for any session lifetime (30 days)
+const MAX_TIMEOUT_SECONDS = 30 * 24 * 60 * 60;
+
+// Prefix for the per-user session index: user-session:<userId>:<sessionId>
+const USER_SESSION_PREFIX = 'user-session:';
+
+// KV limits metadata to 1024 bytes, so long user agents are truncated
+const MAX_USER_AGENT_LENGTH = 256;
+
+// Sliding renewal rewrites the KV entry, so only renew this often (KV allows one write per key per second)
+const RENEWAL_INTERVAL_SECONDS = 60;
+
+/**
+ * Expiry policy for a session, in seconds.
+ * The idle timeout slides forward on every access; the absolute timeout never moves.
+ */
+export interface SessionPolicy {
+    idleTimeoutSeconds: number;
+    absoluteTimeoutSeconds: number;
+}
+
+/**
+ * Metadata stored alongside each session in KV. Timestamps are epoch milliseconds.
+ */
+export interface SessionMetadata {
+    createdAt: number;
+    lastSeenAt: number;
+    expiresAt: number;
+    absoluteExpiresAt: number;
+    idleTimeoutSeconds: number;
+    userId?: string;
+}
+
+/**
+ * Describes who a session belongs to and the client that created it.
+ */
+export interface SessionClientInfo {
+    userId?: string;
+    userAgent?: string;
+    ip?: string;
+}
+
+/**
+ * Metadata stored on each entry of the per-user session index.
+ */
+interface UserSessionIndexMetadata {
+    userAgent?: string;
+    ip?: string;
+    createdAt: number;
+}
+
+/**
+ * An active session as listed for its user.
+ */
+export interface UserSessionSummary {
+    sessionId: string;
+    userAgent?: string;
+    ip?: string;
+    createdAt: number;
+    lastSeenAt: number;
+    expiresAt: number;
+    absoluteExpiresAt: number;
+}
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+    idleTimeoutSeconds: 30 * 60,
+    absoluteTimeoutSeconds: 24 * 60 * 60,
+};
+
+function clampTimeout(value: number): number {
+    return Math.min(Math.max(Math.floor(value), MIN_TIMEOUT_SECONDS), MAX_TIMEOUT_SECONDS);
+}
+
+/**
+ * Builds a session policy from `idleTimeout` and `absoluteTimeout` query parameters,
+ * falling back to the defaults for missing or invalid values.
+ */
+export function parseSessionPolicy(params: URLSearchParams): SessionPolicy {
+    const idle = parseInt(params.get('idleTimeout') ?? '', 10);
+    const absolute = parseInt(params.get('absoluteTimeout') ?? '', 10);
+    const idleTimeoutSeconds = clampTimeout(isNaN(idle) || idle <= 0 ? DEFAULT_SESSION_POLICY.idleTimeoutSeconds : idle);
+    const absoluteTimeoutSeconds = clampTimeout(isNaN(absolute) || absolute <= 0 ? DEFAULT_SESSION_POLICY.absoluteTimeoutSeconds : absolute);
+    // An idle timeout longer than the absolute lifetime would never apply
+    return { idleTimeoutSeconds: Math.min(idleTimeoutSeconds, absoluteTimeoutSeconds), absoluteTimeoutSeconds };
+}
+
+/**
+ * Builds the session owner and client details from `userId`, `userAgent` and `ip` query parameters.
+ */
+export function parseSessionClientInfo(params: URLSearchParams): SessionClientInfo {
+    return {
+        userId: params.get('userId') || undefined,
+        userAgent: params.get('userAgent')?.slice(0, MAX_USER_AGENT_LENGTH) || undefined,
+        ip: params.get('ip') || undefined,
+    };
+}
+
+function userSessionKey(userId: string, sessionId: string): string {
+    return `${USER_SESSION_PREFIX}${userId}:${sessionId}`;
+}
+
+function createMetadata(policy: SessionPolicy, now: number): SessionMetadata {
+    const absoluteExpiresAt = now + policy.absoluteTimeoutSeconds * 1000;
+    return {
+        createdAt: now,
+        lastSeenAt: now,
+        expiresAt: Math.min(now + policy.idleTimeoutSeconds * 1000, absoluteExpiresAt),
+        absoluteExpiresAt,
+        idleTimeoutSeconds: policy.idleTimeoutSeconds,
+    };
+}
+
+async function putSession(sessionId: string, value: string, metadata: SessionMetadata, env: Env): Promise<void> {
+    // KV evicts the entry at expiresAt; reads check it too because eviction is not immediate
+    const expiration = Math.max(Math.ceil(metadata.expiresAt / 1000), Math.floor(Date.now() / 1000) + MIN_TIMEOUT_SECONDS);
+    await env.sessionstore.put(sessionId, value, { expiration, metadata });
+}
+
+/**
+ * Loads a session that has not expired.
+ * Expired sessions are deleted. Sessions created before expiry tracking existed have no
+ * metadata; they are given the default policy starting now so they expire eventually.
+ */
+async function loadActiveSession(sessionId: string, env: Env): Promise<{ value: string; metadata: SessionMetadata } | null> {
+    const { value, metadata } = await env.sessionstore.getWithMetadata<SessionMetadata>(sessionId);
+    if (value === null) {
+        return null;
+    }
+
+    const now = Date.now();
+    if (!metadata) {
+        const legacyMetadata = createMetadata(DEFAULT_SESSION_POLICY, now);
+        await putSession(sessionId, value, legacyMetadata, env);
+        return { value, metadata: legacyMetadata };
+    }
+
+    if (now >= metadata.expiresAt) {
+        await env.sessionstore.delete(sessionId);
+        return null;
+    }
+
+    return { value, metadata };
+}
+
 export function generateSessionId(): string {
     return crypto.randomUUID();
 }
 
-export async function createSession(data: any, env: Env): Promise<string> {
+export async function createSession(
+    data: any,
+    env: Env,
+    policy: SessionPolicy = DEFAULT_SESSION_POLICY,
+    client: SessionClientInfo = {}
+): Promise<string> {
     const sessionId = generateSessionId();
     try {
-        await env.sessionstore.put(sessionId, JSON.stringify(data));
+        const metadata = createMetadata(policy, Date.now());
+        if (client.userId) {
+            metadata.userId = client.userId;
+            // The index entry can outlive an idle session, so listings re-check the session itself
+            const indexMetadata: UserSessionIndexMetadata = {
+                userAgent: client.userAgent,
+                ip: client.ip,
+                createdAt: metadata.createdAt,
+            };
+            await env.sessionstore.put(userSessionKey(client.userId, sessionId), sessionId, {
+                expiration: Math.ceil(metadata.absoluteExpiresAt / 1000),
+                metadata: indexMetadata,
+            });
+        }
+        await putSession(sessionId, JSON.stringify(data), metadata, env);
         return sessionId;
     } catch (error) {
         console.error("Error creating session:", error);
@@ -21,9 +187,18 @@ export async function createSession(data: any, env: Env): Promise<string> {
     }
 }
 
-export async function updateSession(sessionId: string, data: any, env: Env): Promise<void> {
+/**
+ * Replaces the data of an active session, keeping its expiry metadata.
+ * Returns false if the session does not exist or has expired.
+ */
+export async function updateSession(sessionId: string, data: any, env: Env): Promise<boolean> {
     try {
-        await env.sessionstore.put(sessionId, JSON.stringify(data));
+        const session = await loadActiveSession(sessionId, env);
+        if (!session) {
+            return false;
+        }
+        await putSession(sessionId, JSON.stringify(data), session.metadata, env);
+        return true;
     } catch (error) {
         console.error("Error updating session:", error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -31,10 +206,19 @@ export async function updateSession(sessionId: string, data: any, env: Env): Pro
     }
 }
 
-export async function addToSession(sessionId: string, data: any, env: Env): Promise<void> {
+/**
+ * Merges data into an active session, keeping its expiry metadata.
+ * Returns false if the session does not exist or has expired.
+ */
+export async function addToSession(sessionId: string, data: any, env: Env): Promise<boolean> {
     try {
-        const sessionData = await getSessionData(sessionId, env);
-        await updateSession(sessionId, { ...sessionData, ...data }, env);
+        const session = await loadActiveSession(sessionId, env);
+        if (!session) {
+            return false;
+        }
+        const sessionData = JSON.parse(session.value);
+        await putSession(sessionId, JSON.stringify({ ...sessionData, ...data }), session.metadata, env);
+        return true;
     } catch (error) {
         console.error("Error adding to session:", error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -42,10 +226,29 @@ export async function addToSession(sessionId: string, data: any, env: Env): Prom
     }
 }
 
+/**
+ * Retrieves the data of an active session and slides its idle timeout forward.
+ * Returns null for unknown and expired sessions.
+ */
 export async function getSessionData(sessionId: string, env: Env): Promise<any> {
     try {
-        const data = await env.sessionstore.get(sessionId);
-        return data ? JSON.parse(data) : null;
+        const session = await loadActiveSession(sessionId, env);
+        if (!session) {
+            return null;
+        }
+
+        const now = Date.now();
+        const { metadata } = session;
+        if (now - metadata.lastSeenAt >= RENEWAL_INTERVAL_SECONDS * 1000) {
+            const renewed: SessionMetadata = {
+                ...metadata,
+                lastSeenAt: now,
+                expiresAt: Math.min(now + metadata.idleTimeoutSeconds * 1000, metadata.absoluteExpiresAt),
+            };
+            await putSession(sessionId, session.value, renewed, env);
+        }
+
+        return JSON.parse(session.value);
     } catch (error) {
         console.error("Error retrieving session data:", error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -53,12 +256,100 @@ export async function getSessionData(sessionId: string, env: Env): Promise<any>
     }
 }
 
+/**
+ * Retrieves the expiry metadata of an active session without renewing it.
+ * Returns null for unknown and expired sessions.
+ */
+export async function getSessionMetadata(sessionId: string, env: Env): Promise<SessionMetadata | null> {
+    try {
+        const session = await loadActiveSession(sessionId, env);
+        return session ? session.metadata : null;
+    } catch (error) {
+        console.error("Error retrieving session metadata:", error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        throw new Error(`Failed to retrieve session metadata: ${errorMessage}`);
+    }
+}
+
 export async function deleteSession(sessionId: string, env: Env): Promise<void> {
     try {
+        const { metadata } = await env.sessionstore.getWithMetadata<SessionMetadata>(sessionId);
         await env.sessionstore.delete(sessionId);
+        if (metadata?.userId) {
+            await env.sessionstore.delete(userSessionKey(metadata.userId, sessionId));
+        }
     } catch (error) {
         console.error("Error deleting session:", error);
         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
         throw new Error(`${ERROR_DELETING_SESSION}: ${errorMessage}`);
     }
 }
+
+/**
+ * Lists the entries of a user's session index. KV returns at most 1000 keys per call, so follow the cursor.
+ */
+async function listUserSessionKeys(userId: string, env: Env): Promise<KVNamespaceListKey<UserSessionIndexMetadata>[]> {
+    const keys: KVNamespaceListKey<UserSessionIndexMetadata>[] = [];
+    let cursor: string | undefined;
+    do {
+        const page = await env.sessionstore.list<UserSessionIndexMetadata>({ prefix: `${USER_SESSION_PREFIX}${userId}:`, cursor });
+        keys.push(...page.keys);
+        cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return keys;
+}
+
+/**
+ * Lists a user's active sessions. Index entries for sessions that have expired are removed.
+ */
+export async function listUserSessions(userId: string, env: Env): Promise<UserSessionSummary[]> {
+    try {
+        const sessions: UserSessionSummary[] = [];
+        for (const key of await listUserSessionKeys(userId, env)) {
+            const sessionId = key.name.slice(`${USER_SESSION_PREFIX}${userId}:`.length);
+            const session = await loadActiveSession(sessionId, env);
+            if (!session) {
+                await env.sessionstore.delete(key.name);
+                continue;
+            }
+            sessions.push({
+                sessionId,
+                userAgent: key.metadata?.userAgent,
+                ip: key.metadata?.ip,
+                createdAt: session.metadata.createdAt,
+                lastSeenAt: session.metadata.lastSeenAt,
+                expiresAt: session.metadata.expiresAt,
+                absoluteExpiresAt: session.metadata.absoluteExpiresAt,
+            });
+        }
+        return sessions.sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+    } catch (error) {
+        console.error("Error listing user sessions:", error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        throw new Error(`Failed to list user sessions: ${errorMessage}`);
+    }
+}
+
+/**
+ * Deletes all of a user's sessions, optionally keeping one (e.g. the caller's current session).
+ * Returns the number of sessions deleted.
+ */
+export async function deleteUserSessions(userId: string, env: Env, exceptSessionId?: string): Promise<number> {
+    try {
+        let deleted = 0;
+        for (const key of await listUserSessionKeys(userId, env)) {
+            const sessionId = key.name.slice(`${USER_SESSION_PREFIX}${userId}:`.length);
+            if (sessionId === exceptSessionId) {
+                continue;
+            }
+            await env.sessionstore.delete(sessionId);
+            await env.sessionstore.delete(key.name);
+            deleted++;
+        }
+        return deleted;
+    } catch (error) {
+        console.error("Error deleting user sessions:", error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        throw new Error(`${ERROR_DELETING_SESSION}: ${errorMessage}`);
+    }
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { SELF } from "cloudflare:test";
+
+const BASE_URL = "http://session-state";
+
+async function createSession(query = ""): Promise<string> {
+    const response = await SELF.fetch(`${BASE_URL}/create${query}`, {
+        method: "POST",
+        body: JSON.stringify({ username: "user@test.com" }),
+    });
+    expect(response.status).toBe(201);
+    return response.text();
+}
+
+describe("Session State Worker", () => {
+    describe("GET /meta/:sessionId", () => {
+        it("should return the session's expiry metadata without renewing it", async () => {
+            const sessionId = await createSession("?idleTimeout=600&absoluteTimeout=3600");
+
+            const response = await SELF.fetch(`${BASE_URL}/meta/${sessionId}`);
+
+            expect(response.status).toBe(200);
+            const metadata = (await response.json()) as Record<string, number>;
+            expect(metadata.idleTimeoutSeconds).toBe(600);
+            expect(metadata.absoluteExpiresAt - metadata.createdAt).toBe(3600 * 1000);
+            expect(metadata.lastSeenAt).toBe(metadata.createdAt);
+        });
+
+        it("should return 404 for an unknown session", async () => {
+            const response = await SELF.fetch(`${BASE_URL}/meta/no-such-session`);
+
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe("GET /user/:userId/sessions", () => {
+        it("should list the user's sessions with the client that created them", async () => {
+            const sessionId = await createSession("?userId=41&userAgent=TestAgent&ip=203.0.113.7");
+            await createSession("?userId=99");
+
+            const response = await SELF.fetch(`${BASE_URL}/user/41/sessions`);
+
+            expect(response.status).toBe(200);
+            const sessions = (await response.json()) as { sessionId: string; userAgent: string; ip: string }[];
+            expect(sessions).toEqual([expect.objectContaining({ sessionId, userAgent: "TestAgent", ip: "203.0.113.7" })]);
+        });
+    });
+
+    describe("DELETE /user/:userId/sessions", () => {
+        it("should delete the user's sessions except the one to keep", async () => {
+            const kept = await createSession("?userId=42");
+            const revoked = await createSession("?userId=42");
+            await createSession("?userId=42");
+
+            const response = await SELF.fetch(`${BASE_URL}/user/42/sessions?except=${kept}`, { method: "DELETE" });
+
+            expect(response.status).toBe(200);
+            expect(await response.json()).toEqual({ deleted: 2 });
+            expect((await SELF.fetch(`${BASE_URL}/get/${revoked}`)).status).toBe(404);
+            expect((await SELF.fetch(`${BASE_URL}/get/${kept}`)).status).toBe(200);
+            const remaining = (await (await SELF.fetch(`${BASE_URL}/user/42/sessions`)).json()) as { sessionId: string }[];
+            expect(remaining.map(session => session.sessionId)).toEqual([kept]);
+        });
+    });
+});
@@ -0,0 +1,17 @@
+import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+
+export default defineWorkersConfig({
+    test: {
+        poolOptions: {
+            workers: {
+                main: "./src/index.ts",
+                miniflare: {
+                    compatibilityDate: "2024-01-17",
+                    kvNamespaces: ["sessionstore"],
+                },
+            },
+        },
+        include: ["test/**/*.test.ts"],
+        globals: true,
+    },
+});
@@ -0,0 +1,25 @@
+-- Multi-Factor Authentication Migration
+-- Creates tables for TOTP (RFC 6238) factors and single-use backup codes
+
+-- One TOTP factor per user. totp_enabled is only set once enrollment is confirmed with a valid code.
+CREATE TABLE IF NOT EXISTS user_mfa (
+    user_id INTEGER PRIMARY KEY,
+    totp_secret TEXT NOT NULL,
+    totp_enabled INTEGER DEFAULT 0,
+    totp_last_counter INTEGER,
+    confirmed_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE
+);
+
+-- Backup codes are stored as SHA-256 hashes and marked used on consumption
+CREATE TABLE IF NOT EXISTS mfa_backup_codes (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    user_id INTEGER NOT NULL,
+    code_hash TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    used_at DATETIME,
+    FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_backup_codes_user_id ON mfa_backup_codes(user_id);
@@ -0,0 +1,17 @@
+-- WebAuthn / Passkeys Migration
+-- Creates the table storing passkey credentials registered by users
+
+CREATE TABLE IF NOT EXISTS webauthn_credentials (
+    id TEXT PRIMARY KEY,                -- base64url credential ID
+    user_id INTEGER NOT NULL,
+    public_key TEXT NOT NULL,           -- base64url COSE_Key
+    algorithm INTEGER NOT NULL,         -- COSE algorithm identifier (-7 ES256, -257 RS256)
+    sign_count INTEGER DEFAULT 0,
+    transports TEXT,                    -- comma-separated authenticator transports
+    name TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    last_used_at DATETIME,
+    FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_user_id ON webauthn_credentials(user_id);
@@ -0,0 +1,9 @@
+-- Email Verification Migration
+-- Adds email verification state to the User table
+
+ALTER TABLE User ADD COLUMN EmailVerified INTEGER DEFAULT 0;
+ALTER TABLE User ADD COLUMN EmailVerifiedAt DATETIME;
+
+-- Optional: treat accounts created before verification was introduced as verified,
+-- so enabling REQUIRE_EMAIL_VERIFICATION doesn't lock them out
+-- UPDATE User SET EmailVerified = 1, EmailVerifiedAt = datetime('now') WHERE EmailVerified = 0;
@@ -0,0 +1,10 @@
+-- Permission Management Migration
+-- Adds the permission that guards creating, updating and deleting permissions
+
+INSERT OR IGNORE INTO permissions (id, name, description) VALUES
+    (lower(hex(randomblob(16))), 'permissions:write', 'Create, update and delete permissions');
+
+-- SUPER_ADMIN holds every permission
+INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id FROM roles r, permissions p
+WHERE r.name = 'SUPER_ADMIN' AND p.name = 'permissions:write';
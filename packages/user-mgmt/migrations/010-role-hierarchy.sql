@@ -0,0 +1,6 @@
+-- Role Hierarchy Migration
+-- Lets a role inherit every permission of its parent role (and the parent's ancestors)
+
+ALTER TABLE roles ADD COLUMN parent_role_id TEXT REFERENCES roles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_roles_parent_role_id ON roles(parent_role_id);
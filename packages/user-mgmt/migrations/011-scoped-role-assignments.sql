@@ -0,0 +1,16 @@
+-- Scoped Role Assignments Migration
+-- Grants a role to a user on one resource (e.g. editor of project 42) instead of globally
+
+CREATE TABLE IF NOT EXISTS scoped_user_roles (
+    user_id INTEGER NOT NULL,
+    role_id TEXT NOT NULL,
+    scope_type TEXT NOT NULL,
+    scope_id TEXT NOT NULL,
+    assigned_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, role_id, scope_type, scope_id),
+    FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE,
+    FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_scoped_user_roles_scope ON scoped_user_roles(user_id, scope_type, scope_id);
+CREATE INDEX IF NOT EXISTS idx_scoped_user_roles_role_id ON scoped_user_roles(role_id);
@@ -0,0 +1,7 @@
+-- Role Assignment Expiry Migration
+-- Lets a role assignment start in the future and/or expire; expired assignments are removed by the cron trigger
+
+ALTER TABLE user_roles ADD COLUMN starts_at DATETIME;
+ALTER TABLE user_roles ADD COLUMN expires_at DATETIME;
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_expires_at ON user_roles(expires_at);
@@ -0,0 +1,61 @@
+-- Organizations Migration
+-- Adds organizations (tenant workspaces), their members and pending invitations.
+-- Per-organization roles are scoped role assignments with scope_type 'org' and scope_id set to the organization ID.
+
+CREATE TABLE IF NOT EXISTS organizations (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_by INTEGER REFERENCES User(UserID) ON DELETE SET NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+    org_id TEXT NOT NULL,
+    user_id INTEGER NOT NULL,
+    joined_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (org_id, user_id),
+    FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members(user_id);
+
+-- Only a SHA-256 hash of each invitation token is stored
+CREATE TABLE IF NOT EXISTS organization_invitations (
+    id TEXT PRIMARY KEY,
+    org_id TEXT NOT NULL,
+    email TEXT NOT NULL,
+    role_id TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    invited_by INTEGER REFERENCES User(UserID) ON DELETE SET NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    expires_at DATETIME NOT NULL,
+    accepted_at DATETIME,
+    FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE,
+    FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_org_id ON organization_invitations(org_id);
+
+INSERT OR IGNORE INTO permissions (id, name, description) VALUES
+    (lower(hex(randomblob(16))), 'orgs:create', 'Create organizations'),
+    (lower(hex(randomblob(16))), 'orgs:read', 'View an organization and its members'),
+    (lower(hex(randomblob(16))), 'orgs:manage', 'Invite and remove organization members and manage their roles');
+
+-- Roles granted within an organization; assigning them globally applies them to every organization
+INSERT OR IGNORE INTO roles (id, name, description) VALUES
+    ('00000000000000000000000000000003', 'ORG_ADMIN', 'Organization administrator'),
+    ('00000000000000000000000000000004', 'ORG_MEMBER', 'Organization member');
+
+INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id FROM roles r, permissions p
+WHERE r.name = 'ORG_ADMIN' AND p.name IN ('orgs:read', 'orgs:manage');
+
+INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id FROM roles r, permissions p
+WHERE r.name = 'ORG_MEMBER' AND p.name = 'orgs:read';
+
+-- SUPER_ADMIN holds every permission
+INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id FROM roles r, permissions p
+WHERE r.name = 'SUPER_ADMIN' AND p.name IN ('orgs:create', 'orgs:read', 'orgs:manage');
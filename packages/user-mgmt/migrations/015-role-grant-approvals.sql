@@ -0,0 +1,37 @@
+-- Role Grant Approvals Migration
+-- Roles flagged requires_approval are only granted once a second admin approves the request.
+-- Requests are kept after they are decided or expire, as a record of who asked and who decided.
+
+ALTER TABLE roles ADD COLUMN requires_approval INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS role_grant_requests (
+    id TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    role_id TEXT NOT NULL,
+    scope_type TEXT,
+    scope_id TEXT,
+    starts_at DATETIME,
+    expires_at DATETIME,
+    requested_by INTEGER REFERENCES User(UserID) ON DELETE SET NULL,
+    requested_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    request_expires_at DATETIME NOT NULL,
+    status TEXT NOT NULL DEFAULT 'PENDING',
+    decided_by INTEGER REFERENCES User(UserID) ON DELETE SET NULL,
+    decided_at DATETIME,
+    note TEXT,
+    FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE,
+    FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_grant_requests_status ON role_grant_requests(status, request_expires_at);
+
+INSERT OR IGNORE INTO permissions (id, name, description) VALUES
+    (lower(hex(randomblob(16))), 'roles:approve', 'Approve or reject requests for roles that require approval');
+
+-- SUPER_ADMIN holds every permission
+INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id FROM roles r, permissions p
+WHERE r.name = 'SUPER_ADMIN' AND p.name = 'roles:approve';
+
+-- Granting SUPER_ADMIN needs a second admin's approval
+UPDATE roles SET requires_approval = 1 WHERE name = 'SUPER_ADMIN';
@@ -0,0 +1,18 @@
+-- Role Constraints Migration
+-- Mutually exclusive roles (separation of duties): no user may hold both roles of a constraint,
+-- directly, through a group or through a role inheriting from either. Each pair is stored once, in ID order.
+
+CREATE TABLE IF NOT EXISTS role_constraints (
+    id TEXT PRIMARY KEY,
+    role_a_id TEXT NOT NULL,
+    role_b_id TEXT NOT NULL,
+    description TEXT,
+    created_by INTEGER REFERENCES User(UserID) ON DELETE SET NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (role_a_id, role_b_id),
+    CHECK (role_a_id < role_b_id),
+    FOREIGN KEY (role_a_id) REFERENCES roles(id) ON DELETE CASCADE,
+    FOREIGN KEY (role_b_id) REFERENCES roles(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_constraints_role_b_id ON role_constraints(role_b_id);
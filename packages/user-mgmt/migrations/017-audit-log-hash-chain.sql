@@ -0,0 +1,22 @@
+-- Audit Log Hash Chain Migration
+-- Each audit entry stores its position in the chain, the previous entry's hash and the SHA-256 of its own content
+-- including that hash, so editing or deleting an entry breaks every later link. Entries written before this
+-- migration have no sequence number and aren't part of the chain.
+-- Checkpoints record the chain's head signed with AUDIT_CHECKPOINT_SECRET, which isn't stored in D1, so the chain
+-- can't be rewritten from its start or truncated without detection.
+
+ALTER TABLE audit_logs ADD COLUMN seq INTEGER;
+ALTER TABLE audit_logs ADD COLUMN prev_hash TEXT;
+ALTER TABLE audit_logs ADD COLUMN hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_seq ON audit_logs(seq);
+
+CREATE TABLE IF NOT EXISTS audit_checkpoints (
+    id TEXT PRIMARY KEY,
+    seq INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_checkpoints_seq ON audit_checkpoints(seq);
@@ -1,30 +1,164 @@
 /**
- * Hashes a password using the SHA-256 algorithm.
+ * Password hashing for the user management worker.
+ *
+ * Passwords are stored in a versioned, self-describing format:
+ *
+ *     $pbkdf2-sha256$<iterations>$<base64 salt>$<base64 hash>
+ *
+ * so the algorithm and work factor can be raised later without invalidating existing accounts.
+ * Hashes written before this format existed use a single salted SHA-256 round stored as
+ * `salt:hex`. Those are still accepted by `comparePassword`, and `needsRehash` reports them so
+ * callers can transparently upgrade them after a successful login.
+ */
+
+/** Identifier used in the versioned hash prefix */
+const PBKDF2_ALGORITHM_ID = 'pbkdf2-sha256';
+
+/** Default PBKDF2 iteration count (Cloudflare Workers rejects more than 100,000) */
+export const DEFAULT_PBKDF2_ITERATIONS = 100000;
+
+/** Upper bound for PBKDF2 iterations supported by the Workers runtime */
+export const MAX_PBKDF2_ITERATIONS = 100000;
+
+/** Salt length in bytes */
+const SALT_BYTES = 16;
+
+/** Derived key length in bytes */
+const HASH_BYTES = 32;
+
+/**
+ * Parsed representation of a versioned PBKDF2 hash.
+ */
+interface Pbkdf2Hash {
+    iterations: number;
+    salt: Uint8Array;
+    hash: Uint8Array;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+}
+
+function base64ToBytes(value: string): Uint8Array {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/**
+ * Compares two byte arrays in constant time with respect to their contents.
+ * Only the length comparison short-circuits, which leaks nothing useful since
+ * derived hash lengths are fixed.
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a[i] ^ b[i];
+    }
+    return diff === 0;
+}
+
+async function derivePbkdf2(password: string, salt: Uint8Array, iterations: number, length: number): Promise<Uint8Array> {
+    const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, keyMaterial, length * 8);
+    return new Uint8Array(bits);
+}
+
+/**
+ * Parses a versioned PBKDF2 hash string. Returns null if the string is not in that format.
+ */
+function parsePbkdf2Hash(storedHash: string): Pbkdf2Hash | null {
+    const parts = storedHash.split('$');
+    // Leading '$' yields an empty first element: ['', id, iterations, salt, hash]
+    if (parts.length !== 5 || parts[0] !== '' || parts[1] !== PBKDF2_ALGORITHM_ID) {
+        return null;
+    }
+    const iterations = parseInt(parts[2], 10);
+    if (isNaN(iterations) || iterations <= 0) {
+        return null;
+    }
+    try {
+        return { iterations, salt: base64ToBytes(parts[3]), hash: base64ToBytes(parts[4]) };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Hashes a password using PBKDF2-HMAC-SHA256 with a random salt.
  *
  * @param password - The password to be hashed.
- * @returns A Promise that resolves to the hashed password.
+ * @param iterations - The PBKDF2 iteration count (defaults to DEFAULT_PBKDF2_ITERATIONS).
+ * @returns A Promise that resolves to the versioned hash string.
  */
-export async function hashPassword(password: string): Promise<string> {
-    const salt = crypto.getRandomValues(new Uint8Array(16)).join('');
-    const data = new TextEncoder().encode(salt + password);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-    return `${salt}:${hashHex}`;
+export async function hashPassword(password: string, iterations: number = DEFAULT_PBKDF2_ITERATIONS): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = await derivePbkdf2(password, salt, iterations, HASH_BYTES);
+    return `$${PBKDF2_ALGORITHM_ID}$${iterations}$${bytesToBase64(salt)}$${bytesToBase64(hash)}`;
 }
 
+/**
+ * Verifies a password against a legacy `salt:hex` SHA-256 hash.
+ */
+async function compareLegacyPassword(providedPassword: string, storedHash: string): Promise<boolean> {
+    const [salt, originalHash] = storedHash.split(':');
+    if (!salt || !originalHash) {
+        return false;
+    }
+    const data = new TextEncoder().encode(salt + providedPassword);
+    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+    const hashHex = Array.from(new Uint8Array(hashBuffer))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+    const encoder = new TextEncoder();
+    return timingSafeEqual(encoder.encode(hashHex), encoder.encode(originalHash));
+}
 
 /**
  * Compares a provided password with a stored hash.
+ * Supports both the versioned PBKDF2 format and legacy `salt:hex` SHA-256 hashes.
+ *
  * @param providedPassword - The password provided by the user.
  * @param storedHash - The stored hash of the password.
  * @returns A promise that resolves to a boolean indicating whether the provided password matches the stored hash.
  */
 export async function comparePassword(providedPassword: string, storedHash: string): Promise<boolean> {
-    const [salt, originalHash] = storedHash.split(':');
-    const data = new TextEncoder().encode(salt + providedPassword);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-    return hashHex === originalHash;
+    if (!storedHash) {
+        return false;
+    }
+
+    if (storedHash.startsWith('$')) {
+        const parsed = parsePbkdf2Hash(storedHash);
+        if (!parsed) {
+            return false;
+        }
+        const derived = await derivePbkdf2(providedPassword, parsed.salt, parsed.iterations, parsed.hash.length);
+        return timingSafeEqual(derived, parsed.hash);
+    }
+
+    return compareLegacyPassword(providedPassword, storedHash);
+}
+
+/**
+ * Determines whether a stored hash should be replaced with a fresh one.
+ * True for legacy `salt:hex` hashes and for PBKDF2 hashes with fewer iterations than configured. Hashes with more
+ * are kept, so lowering the configured count never downgrades existing passwords.
+ *
+ * @param storedHash - The stored hash of the password.
+ * @param iterations - The currently configured PBKDF2 iteration count.
+ * @returns True if the password should be rehashed after a successful verification.
+ */
+export function needsRehash(storedHash: string, iterations: number = DEFAULT_PBKDF2_ITERATIONS): boolean {
+    const parsed = parsePbkdf2Hash(storedHash);
+    return !parsed || parsed.iterations < iterations;
 }
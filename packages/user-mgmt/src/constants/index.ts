@@ -7,6 +7,8 @@
 export {
     PERMISSIONS,
     ROLES,
+    ORG_SCOPE_TYPE,
+    POLICY_VERSION,
     VALIDATION,
     type Permission,
     type RoleName,
@@ -18,10 +18,24 @@ export const PERMISSIONS = {
     ROLES_WRITE: 'roles:write',
     /** Permission to assign or remove roles from users */
     ROLES_ASSIGN: 'roles:assign',
+    /** Permission to approve or reject requests for roles that require approval */
+    ROLES_APPROVE: 'roles:approve',
     /** Permission to view user information */
     USERS_READ: 'users:read',
     /** Permission to modify user information */
     USERS_WRITE: 'users:write',
+    /** Permission to delete users */
+    USERS_DELETE: 'users:delete',
+    /** Permission to create, update, and delete permissions */
+    PERMISSIONS_WRITE: 'permissions:write',
+    /** Permission to create and delete groups (membership and group roles require roles:assign) */
+    GROUPS_WRITE: 'groups:write',
+    /** Permission to create organizations */
+    ORGS_CREATE: 'orgs:create',
+    /** Permission to view an organization and its members */
+    ORGS_READ: 'orgs:read',
+    /** Permission to invite and remove organization members and manage their roles */
+    ORGS_MANAGE: 'orgs:manage',
 } as const;
 
 /**
@@ -33,8 +47,18 @@ export const ROLES = {
     SUPER_ADMIN: 'SUPER_ADMIN',
     /** Default member role with basic permissions */
     MEMBER: 'MEMBER',
+    /** Granted within an organization to its creator; can manage the organization's members and roles */
+    ORG_ADMIN: 'ORG_ADMIN',
+    /** Granted within an organization to members who join by invitation */
+    ORG_MEMBER: 'ORG_MEMBER',
 } as const;
 
+/** Version of the RBAC policy document format written by export and accepted by import */
+export const POLICY_VERSION = 1;
+
+/** Scope type of role assignments that apply within one organization */
+export const ORG_SCOPE_TYPE = 'org';
+
 /**
  * Validation constants for RBAC entities.
  * Used for input validation in role and permission operations.
@@ -46,8 +70,41 @@ export const VALIDATION = {
     ROLE_NAME_MAX_LENGTH: 50,
     /** Pattern for valid role names: alphanumeric, underscore, colon, hyphen */
     ROLE_NAME_PATTERN: /^[a-zA-Z0-9_:\-]+$/,
+    /** Maximum length for permission names */
+    PERMISSION_NAME_MAX_LENGTH: 100,
+    /**
+     * Pattern for valid permission names: two or more colon-separated segments (resource[:sub-resource]:action),
+     * each lowercase alphanumeric, underscore, hyphen, or a single `*` wildcard
+     */
+    PERMISSION_NAME_PATTERN: /^(?:[a-z0-9_\-]+|\*)(?::(?:[a-z0-9_\-]+|\*))+$/,
+    /** Pattern for resource scope types used in scoped role assignments, e.g. `project` */
+    SCOPE_TYPE_PATTERN: /^[a-z0-9_\-]+$/,
+    /** Maximum length for resource scope types */
+    SCOPE_TYPE_MAX_LENGTH: 50,
+    /** Maximum length for resource scope IDs */
+    SCOPE_ID_MAX_LENGTH: 100,
+    /** Minimum length for group names */
+    GROUP_NAME_MIN_LENGTH: 2,
+    /** Maximum length for group names */
+    GROUP_NAME_MAX_LENGTH: 100,
+    /** Minimum length for organization names */
+    ORG_NAME_MIN_LENGTH: 2,
+    /** Maximum length for organization names */
+    ORG_NAME_MAX_LENGTH: 100,
+    /** Maximum length for invited email addresses */
+    EMAIL_MAX_LENGTH: 254,
+    /** Maximum number of permissions, roles or user assignments in an imported RBAC policy */
+    POLICY_MAX_ENTRIES: 1000,
+    /** Maximum number of permissions in one authorization check */
+    AUTHZ_MAX_PERMISSIONS: 50,
+    /** Maximum number of checks in one batch authorization request */
+    AUTHZ_MAX_CHECKS: 25,
+    /** Pattern for session IDs accepted by the authorization check API */
+    SESSION_ID_PATTERN: /^[A-Za-z0-9_\-]{1,128}$/,
     /** Maximum length for role descriptions */
     DESCRIPTION_MAX_LENGTH: 500,
+    /** Maximum length for the note recorded when a role request is approved or rejected */
+    ROLE_GRANT_NOTE_MAX_LENGTH: 500,
     /** Maximum length for audit log strings (actor, action, details) */
     AUDIT_STRING_MAX_LENGTH: 255,
 } as const;
@@ -1,3 +1,6 @@
+import { DEFAULT_PBKDF2_ITERATIONS, MAX_PBKDF2_ITERATIONS } from './auth';
+import { LoginThrottlePolicy } from './types/throttle';
+
 /**
  * Represents the environment configuration for the user management module.
  */
@@ -17,6 +20,50 @@ export interface Env {
     SUPER_ADMIN_EMAIL_CONFIRMED?: string;
     /** Enable IP address logging in audit logs (GDPR consideration - disabled by default) */
     LOG_IP_ADDRESS?: string;
+    /** PBKDF2 iteration count for password hashing (max 100000 on Workers) */
+    PASSWORD_HASH_ITERATIONS?: string;
+    /** Issuer name shown in authenticator apps for TOTP (defaults to EMAIL_FROM_NAME) */
+    MFA_ISSUER?: string;
+    /** WebAuthn relying party ID, usually the registrable domain of the front end (e.g. "example.com") */
+    WEBAUTHN_RP_ID?: string;
+    /** WebAuthn relying party display name (defaults to EMAIL_FROM_NAME) */
+    WEBAUTHN_RP_NAME?: string;
+    /** Comma-separated list of origins allowed to perform WebAuthn ceremonies */
+    WEBAUTHN_ORIGINS?: string;
+    /** Failed logins per account before it is temporarily locked (default 5) */
+    LOGIN_MAX_FAILURES?: string;
+    /** Failed logins per client IP before it is temporarily locked (default 20) */
+    LOGIN_IP_MAX_FAILURES?: string;
+    /** First lockout duration in seconds, doubled for each further failure (default 60) */
+    LOGIN_LOCKOUT_SECONDS?: string;
+    /** Maximum lockout duration in seconds (default 3600) */
+    LOGIN_MAX_LOCKOUT_SECONDS?: string;
+    /** Seconds after which failed logins are forgotten (default 900) */
+    LOGIN_FAILURE_WINDOW_SECONDS?: string;
+    /** Secret used to sign email verification links (set with `wrangler secret put`) */
+    EMAIL_VERIFICATION_SECRET?: string;
+    /** Front-end page that receives the verification token as `?token=` */
+    EMAIL_VERIFICATION_URL?: string;
+    /** Hours a verification link stays valid (default 24) */
+    EMAIL_VERIFICATION_TOKEN_HOURS?: string;
+    /** Set to "true" to refuse logins from users who haven't verified their email address */
+    REQUIRE_EMAIL_VERIFICATION?: string;
+    /** Front-end page that receives organization invitation tokens as `?token=`; invitations aren't emailed when unset */
+    ORG_INVITATION_URL?: string;
+    /** Hours an organization invitation stays valid (default 168) */
+    ORG_INVITATION_TTL_HOURS?: string;
+    /** Hours a request for a role that requires approval stays open before it expires (default 72) */
+    ROLE_GRANT_REQUEST_TTL_HOURS?: string;
+    /** Secret used to sign audit log checkpoints (set with `wrangler secret put`); checkpoints aren't created without it */
+    AUDIT_CHECKPOINT_SECRET?: string;
+    /** Minutes between signed audit log checkpoints (default 60) */
+    AUDIT_CHECKPOINT_INTERVAL_MINUTES?: string;
+    /** Shared secret other workers send as `Authorization: Bearer ...` to call /authz/check (set with `wrangler secret put`) */
+    AUTHZ_API_SECRET?: string;
+    /** Seconds of inactivity after which a session expires (default 1800) */
+    SESSION_IDLE_TIMEOUT_SECONDS?: string;
+    /** Maximum session lifetime in seconds, regardless of activity (default 86400) */
+    SESSION_ABSOLUTE_TIMEOUT_SECONDS?: string;
 }
 
 export function getUsersDB(env: Env): D1Database {
@@ -64,9 +111,10 @@ export function getSuperAdminEmail(env: Env): string | undefined {
 }
 
 /**
- * Check if the super admin email has been confirmed.
+ * Check if the super admin email has been confirmed manually.
  * This is a security measure to prevent attackers from registering with a known admin email.
- * The admin must explicitly set SUPER_ADMIN_EMAIL_CONFIRMED=true after verifying email ownership.
+ * Only needed when the admin account has not verified its email address through /verify-email;
+ * set SUPER_ADMIN_EMAIL_CONFIRMED=true after confirming email ownership out of band.
  */
 export function getSuperAdminEmailConfirmed(env: Env): boolean {
     return env.SUPER_ADMIN_EMAIL_CONFIRMED === 'true';
@@ -79,3 +127,140 @@ export function getSuperAdminEmailConfirmed(env: Env): boolean {
 export function getIpLoggingEnabled(env: Env): boolean {
     return env.LOG_IP_ADDRESS === 'true';
 }
+
+/**
+ * Get the PBKDF2 iteration count used when hashing passwords.
+ * Falls back to the default for missing or invalid values and is capped at the
+ * maximum the Workers runtime supports.
+ */
+export function getPasswordHashIterations(env: Env): number {
+    const iterations = parseInt(env.PASSWORD_HASH_ITERATIONS ?? '', 10);
+    if (isNaN(iterations) || iterations <= 0) {
+        return DEFAULT_PBKDF2_ITERATIONS;
+    }
+    return Math.min(iterations, MAX_PBKDF2_ITERATIONS);
+}
+
+/**
+ * Get the issuer name displayed by authenticator apps for TOTP factors.
+ */
+export function getMfaIssuer(env: Env): string {
+    return env.MFA_ISSUER || env.EMAIL_FROM_NAME || 'user-mgmt';
+}
+
+/**
+ * Get the WebAuthn relying party configuration.
+ * Returns null when passkeys are not configured (missing RP ID or origins).
+ */
+export function getWebAuthnRelyingParty(env: Env): { rpId: string; rpName: string; origins: string[] } | null {
+    const origins = (env.WEBAUTHN_ORIGINS ?? '')
+        .split(',')
+        .map(origin => origin.trim())
+        .filter(origin => origin.length > 0);
+    if (!env.WEBAUTHN_RP_ID || origins.length === 0) {
+        return null;
+    }
+    return {
+        rpId: env.WEBAUTHN_RP_ID,
+        rpName: env.WEBAUTHN_RP_NAME || env.EMAIL_FROM_NAME || env.WEBAUTHN_RP_ID,
+        origins,
+    };
+}
+
+/**
+ * Parses a positive integer setting, falling back to a default for missing or invalid values.
+ */
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+    const parsed = parseInt(value ?? '', 10);
+    return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
+
+/**
+ * Get the email verification configuration.
+ * Returns null when verification links can't be sent (missing secret or URL).
+ */
+export function getEmailVerificationConfig(env: Env): { secret: string; url: string; tokenTtlSeconds: number } | null {
+    if (!env.EMAIL_VERIFICATION_SECRET || !env.EMAIL_VERIFICATION_URL) {
+        return null;
+    }
+    return {
+        secret: env.EMAIL_VERIFICATION_SECRET,
+        url: env.EMAIL_VERIFICATION_URL,
+        tokenTtlSeconds: parsePositiveInt(env.EMAIL_VERIFICATION_TOKEN_HOURS, 24) * 60 * 60,
+    };
+}
+
+/**
+ * Get the organization invitation settings.
+ * `url` is null when invitation emails can't be sent, in which case the inviter delivers the token.
+ */
+export function getOrgInvitationConfig(env: Env): { url: string | null; ttlSeconds: number } {
+    return {
+        url: env.ORG_INVITATION_URL || null,
+        ttlSeconds: parsePositiveInt(env.ORG_INVITATION_TTL_HOURS, 168) * 60 * 60,
+    };
+}
+
+/**
+ * Get how long a request for a role that requires approval can wait for a decision, in seconds.
+ */
+export function getRoleGrantRequestTtlSeconds(env: Env): number {
+    return parsePositiveInt(env.ROLE_GRANT_REQUEST_TTL_HOURS, 72) * 60 * 60;
+}
+
+/**
+ * Get the audit log checkpoint settings.
+ * Returns null when checkpoints can't be signed (missing secret).
+ */
+export function getAuditCheckpointConfig(env: Env): { secret: string; intervalSeconds: number } | null {
+    if (!env.AUDIT_CHECKPOINT_SECRET) {
+        return null;
+    }
+    return {
+        secret: env.AUDIT_CHECKPOINT_SECRET,
+        intervalSeconds: parsePositiveInt(env.AUDIT_CHECKPOINT_INTERVAL_MINUTES, 60) * 60,
+    };
+}
+
+/**
+ * Get the shared secret callers of the authorization check API must present.
+ * Returns null when it isn't configured, which disables the API.
+ */
+export function getAuthzApiSecret(env: Env): string | null {
+    return env.AUTHZ_API_SECRET || null;
+}
+
+/**
+ * Check whether users must verify their email address before they can log in.
+ * Defaults to false so existing deployments keep working until verification is configured.
+ */
+export function getRequireEmailVerification(env: Env): boolean {
+    return env.REQUIRE_EMAIL_VERIFICATION === 'true';
+}
+
+/**
+ * Get the login throttling limits.
+ * The maximum lockout is never shorter than the first lockout.
+ */
+export function getLoginThrottlePolicy(env: Env): LoginThrottlePolicy {
+    const baseLockoutSeconds = parsePositiveInt(env.LOGIN_LOCKOUT_SECONDS, 60);
+    return {
+        maxFailuresPerUser: parsePositiveInt(env.LOGIN_MAX_FAILURES, 5),
+        maxFailuresPerIp: parsePositiveInt(env.LOGIN_IP_MAX_FAILURES, 20),
+        baseLockoutSeconds,
+        maxLockoutSeconds: Math.max(parsePositiveInt(env.LOGIN_MAX_LOCKOUT_SECONDS, 3600), baseLockoutSeconds),
+        failureWindowSeconds: parsePositiveInt(env.LOGIN_FAILURE_WINDOW_SECONDS, 900),
+    };
+}
+
+/**
+ * Get the session expiry policy passed to the session service when a session is created.
+ * The idle timeout is never longer than the absolute timeout.
+ */
+export function getSessionPolicy(env: Env): { idleTimeoutSeconds: number; absoluteTimeoutSeconds: number } {
+    const absoluteTimeoutSeconds = parsePositiveInt(env.SESSION_ABSOLUTE_TIMEOUT_SECONDS, 24 * 60 * 60);
+    return {
+        idleTimeoutSeconds: Math.min(parsePositiveInt(env.SESSION_IDLE_TIMEOUT_SECONDS, 30 * 60), absoluteTimeoutSeconds),
+        absoluteTimeoutSeconds,
+    };
+}
@@ -1,9 +1,13 @@
-import { Env, getForgotPasswordUrl, getRbacEnabled } from './env';
-import { getSessionIdFromCookies, checkUserExists, getUser, storeResetToken, storeUser, isTokenExpired, getUserByResetToken, updatePassword, RegistrationData, Credentials } from './utils';
-import { hashPassword, comparePassword } from './auth';
-import { createSession, deleteSession, loadSession } from './session';
+import { Env, getForgotPasswordUrl, getRbacEnabled, getPasswordHashIterations, getRequireEmailVerification } from './env';
+import { getSessionIdFromCookies, checkUserExists, getUser, storeResetToken, storeUser, isTokenExpired, getUserByResetToken, updatePassword, updatePasswordHash, createSessionCookie, RegistrationData, Credentials } from './utils';
+import { hashPassword, comparePassword, needsRehash } from './auth';
+import { createSession, deleteSession, loadSession, revokeUserSessions } from './session';
 import { sendEmail } from './email';
-import { assignDefaultRole, getUserRoles } from './rbac';
+import { assignDefaultRole, getUserRoles, getUserPermissions, logLoginFailure, logAccountLocked, logAccountEvent } from './rbac';
+import { isMfaEnabled, createMfaPendingToken, MFA_PENDING_TTL_SECONDS } from './mfa';
+import { checkLoginThrottle, recordLoginFailure, clearLoginFailures, getThrottleIp } from './throttle';
+import { getAuditIpAddress, createUnverifiedEmailResponse } from './handlers/helpers';
+import { sendVerificationEmail, isEmailVerified } from './verification';
 
 // Handles loading user data based on the session ID extracted from cookies.
 /**
@@ -18,7 +22,7 @@ export async function handleLoadUser(request: Request, env: Env): Promise<Respon
     if (sessionId) {
         const sessionData = await loadSession(env, sessionId);
         if (sessionData) {
-            // Include roles if RBAC is enabled
+            // Include current roles and permissions if RBAC is enabled
             if (getRbacEnabled(env)) {
                 try {
                     // Get user from database to get UserID
@@ -26,6 +30,7 @@ export async function handleLoadUser(request: Request, env: Env): Promise<Respon
                     if (user) {
                         const roles = await getUserRoles(env, user.UserID);
                         sessionData.roles = roles;
+                        sessionData.permissions = await getUserPermissions(env, user.UserID);
                     }
                 } catch (error) {
                     console.error('Error fetching user roles:', error);
@@ -50,7 +55,8 @@ following tasks:
 4. Hashes the user's password for secure storage.
 5. Stores the user's information (username, hashed password, first name, last name) in the
 database.
-6. Returns a response indicating whether the user registration was successful or if any errors
+6. Sends an email verification link when verification is configured.
+7. Returns a response indicating whether the user registration was successful or if any errors
 occurred during the process. */
 export async function handleRegister(request: Request, env: Env): Promise<Response> {
     try {
@@ -66,7 +72,7 @@ export async function handleRegister(request: Request, env: Env): Promise<Respon
             return new Response(JSON.stringify({ error: 'User already exists' }), { status: 409 });
         }
 
-        const hashedPassword = await hashPassword(password);
+        const hashedPassword = await hashPassword(password, getPasswordHashIterations(env));
         const userId = await storeUser(env, { username, hashedPassword, firstName, lastName });
 
         // Assign default role if RBAC is enabled
@@ -79,13 +85,35 @@ export async function handleRegister(request: Request, env: Env): Promise<Respon
             }
         }
 
-        return new Response(JSON.stringify({ message: 'User registered successfully' }), { status: 201 });
+        // Send the verification link; a failure here shouldn't undo the registration
+        // because the user can request a new link via /resend-verification
+        let verificationEmailSent = false;
+        try {
+            verificationEmailSent = await sendVerificationEmail(env, { UserID: userId, Username: username, FirstName: firstName, LastName: lastName });
+            if (verificationEmailSent) {
+                await logAccountEvent(env, 'EMAIL_VERIFICATION_SENT', userId, username, { reason: 'registration' }, getAuditIpAddress(request, env));
+            }
+        } catch (error) {
+            console.error('Error sending verification email:', error);
+        }
+
+        return new Response(JSON.stringify({ message: 'User registered successfully', verificationEmailSent }), { status: 201 });
     } catch (error) {
         console.error('Error during registration:', error);
         return new Response(JSON.stringify({ error: 'Internal server error' }), { status: 500 });
     }
 }
 
+/**
+ * Builds the 429 response returned while an account or client IP is locked out.
+ */
+function createThrottledResponse(retryAfterSeconds: number): Response {
+    return new Response(JSON.stringify({ error: 'Too many failed login attempts, please try again later', retryAfter: retryAfterSeconds }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', 'Retry-After': retryAfterSeconds.toString() }
+    });
+}
+
 // Authenticates users by validating credentials and creating a session on successful login.
 /**
  * Handles the login request.
@@ -103,19 +131,57 @@ export async function handleLogin(request: Request, env: Env): Promise<Response>
             return new Response(JSON.stringify({ error: 'Missing username or password' }), { status: 400 });
         }
 
+        const clientIp = getThrottleIp(request);
+        const throttle = await checkLoginThrottle(env, username, clientIp);
+        if (!throttle.allowed) {
+            return createThrottledResponse(throttle.retryAfterSeconds);
+        }
+
         const user = await getUser(env, username);
-        if (!user) {
+        const passwordMatch = user ? await comparePassword(password, user.Password as string) : false;
+        if (!user || !passwordMatch) {
+            const userId = user ? user.UserID as number : null;
+            const ipAddress = getAuditIpAddress(request, env);
+            const failure = await recordLoginFailure(env, username, clientIp);
+            await logLoginFailure(env, username, userId, { method: 'password', reason: user ? 'invalid_password' : 'unknown_user' }, ipAddress);
+            for (const lockout of failure.lockouts) {
+                await logAccountLocked(env, username, userId, lockout, ipAddress);
+            }
+            if (failure.retryAfterSeconds > 0) {
+                return createThrottledResponse(failure.retryAfterSeconds);
+            }
             return new Response(JSON.stringify({ error: 'Invalid credentials' }), { status: 401 });
         }
 
-        const passwordMatch = await comparePassword(password, user.Password as string);
-        if (!passwordMatch) {
-            return new Response(JSON.stringify({ error: 'Invalid credentials' }), { status: 401 });
+        await clearLoginFailures(env, username);
+
+        if (getRequireEmailVerification(env) && !isEmailVerified(user)) {
+            await logLoginFailure(env, username, user.UserID as number, { method: 'password', reason: 'email_not_verified' }, getAuditIpAddress(request, env));
+            return createUnverifiedEmailResponse();
+        }
+
+        // Transparently upgrade legacy or outdated hashes now that we know the plaintext is correct
+        const iterations = getPasswordHashIterations(env);
+        if (needsRehash(user.Password as string, iterations)) {
+            try {
+                await updatePasswordHash(env, user.UserID as number, await hashPassword(password, iterations));
+            } catch (error) {
+                console.error('Error upgrading password hash:', error);
+                // Continue with login; the hash will be upgraded on a later login
+            }
         }
 
-        const sessionId = await createSession(env, user);
+        // Users with a second factor get a short-lived pending token instead of a session
+        if (await isMfaEnabled(env, user.UserID as number)) {
+            const mfaToken = await createMfaPendingToken(env, user.UserID as number, user.Username as string);
+            return new Response(JSON.stringify({ mfaRequired: true, mfaToken, expiresIn: MFA_PENDING_TTL_SECONDS }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        const sessionId = await createSession(env, user, request);
         return new Response(JSON.stringify({ message: 'Login successful' }), {
-            headers: { 'Set-Cookie': `cfw_session=${sessionId}; Secure; Path=/; SameSite=None; Max-Age=${60 * 30}` }
+            headers: { 'Set-Cookie': createSessionCookie(env, sessionId) }
         });
     } catch (error) {
         console.error('Error during login:', error);
@@ -239,8 +305,14 @@ export async function handleForgotPasswordNewPassword(request: Request, env: Env
             return new Response(JSON.stringify({ error: 'Invalid token' }), { status: 400 });
         }
 
-        const hashedPassword = await hashPassword(password);
+        // Whoever knew the old password may still hold a session, so sign the user out everywhere. This happens before
+        // the password changes, so a failure leaves the old password in place instead of reporting an error for a reset
+        // that was made
+        const revoked = await revokeUserSessions(env, user.UserID);
+
+        const hashedPassword = await hashPassword(password, getPasswordHashIterations(env));
         await updatePassword(env, user.Username, hashedPassword);
+        await logAccountEvent(env, 'SESSIONS_REVOKED', user.UserID, user.Username, { reason: 'password_reset', revoked }, getAuditIpAddress(request, env));
 
         return new Response(JSON.stringify({ message: 'Password reset successful' }));
     } catch (error) {
@@ -253,9 +325,92 @@ export async function handleForgotPasswordNewPassword(request: Request, env: Env
 export {
     handleListRoles,
     handleCreateRole,
+    handleGetRole,
+    handleUpdateRole,
+    handleDeleteRole,
+    handleGetRolePermissions,
+    handleGrantRolePermission,
+    handleRevokeRolePermission,
     handleListPermissions,
+    handleCreatePermission,
+    handleUpdatePermission,
+    handleDeletePermission,
     handleGetUserRoles,
+    handleExplainUserPermission,
     handleAssignRole,
     handleRemoveRole,
-    handleGetAuditLogs
+    handleListRoleGrantRequests,
+    handleApproveRoleGrantRequest,
+    handleRejectRoleGrantRequest,
+    handleListRoleConstraints,
+    handleCreateRoleConstraint,
+    handleDeleteRoleConstraint,
+    handleListRoleConstraintViolations,
+    handleUnlockUser,
+    handleRevokeUserSessions,
+    handleDeleteUser,
+    handleListGroups,
+    handleCreateGroup,
+    handleGetGroup,
+    handleDeleteGroup,
+    handleAddGroupMember,
+    handleRemoveGroupMember,
+    handleAssignGroupRole,
+    handleRemoveGroupRole,
+    handleExportPolicy,
+    handleImportPolicy,
+    handleGetAuditLogs,
+    handleExportAuditLogs,
+    handleVerifyAuditLogs
 } from './handlers/rbac';
+
+// Export session management handlers
+export {
+    handleListSessions,
+    handleRevokeSession,
+    handleRevokeOtherSessions
+} from './handlers/sessions';
+
+// Export organization handlers
+export {
+    handleCreateOrganization,
+    handleListOrganizations,
+    handleGetOrganization,
+    handleListOrganizationMembers,
+    handleRemoveOrganizationMember,
+    handleCreateOrganizationInvitation,
+    handleAcceptOrganizationInvitation,
+    handleAssignOrganizationRole,
+    handleRemoveOrganizationRole,
+    handleActivateOrganization
+} from './handlers/orgs';
+
+// Export authorization check handler
+export { handleAuthzCheck } from './handlers/authz';
+
+// Export MFA handlers
+export {
+    handleMfaStatus,
+    handleTotpEnroll,
+    handleTotpConfirm,
+    handleLoginMfa,
+    handleMfaDisable,
+    handleRegenerateBackupCodes
+} from './handlers/mfa';
+
+// Export WebAuthn (passkey) handlers
+export {
+    handleWebAuthnRegisterOptions,
+    handleWebAuthnRegisterVerify,
+    handleWebAuthnLoginOptions,
+    handleWebAuthnLoginVerify,
+    handleListWebAuthnCredentials,
+    handleRenameWebAuthnCredential,
+    handleDeleteWebAuthnCredential
+} from './handlers/webauthn';
+
+// Export email verification handlers
+export {
+    handleVerifyEmail,
+    handleResendVerification
+} from './handlers/verification';
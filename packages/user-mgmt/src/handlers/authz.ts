@@ -0,0 +1,183 @@
+import { Env, getAuthzApiSecret } from '../env';
+import { VALIDATION } from '../constants/rbac';
+import { timingSafeEqual } from '../auth';
+import { loadSession } from '../session';
+import { createPermissionMatcher, getSessionUserId, getUserPermissions, logAuthorizationDenied } from '../rbac';
+import { createErrorResponse, getAuditIpAddress, isValidSessionData } from './helpers';
+
+/**
+ * One "can session X do Y?" question.
+ */
+interface AuthzCheck {
+    sessionId: string;
+    permissions: string[];
+}
+
+/**
+ * The answer to one check. `allowed` is true only if every permission is granted.
+ */
+interface AuthzCheckResult {
+    authenticated: boolean;
+    allowed: boolean;
+    user: { userId: number; username: string } | null;
+    results: Record<string, boolean>;
+}
+
+/**
+ * Check the caller's `Authorization: Bearer` header against AUTHZ_API_SECRET.
+ * Returns an error response if the API is disabled or the secret doesn't match, null if the caller may proceed.
+ */
+function authenticateCaller(request: Request, env: Env): Response | null {
+    const secret = getAuthzApiSecret(env);
+    if (!secret) {
+        return createErrorResponse('Authorization check API is not enabled', 403);
+    }
+
+    const header = request.headers.get('Authorization') ?? '';
+    const presented = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    const encoder = new TextEncoder();
+    if (!timingSafeEqual(encoder.encode(presented), encoder.encode(secret))) {
+        return createErrorResponse('Invalid API credentials', 401);
+    }
+
+    return null;
+}
+
+/**
+ * Validate one check from the request body, accepting `permission` or `permissions`.
+ * Returns the check, or an error message if invalid.
+ */
+function parseCheck(value: unknown): { check: AuthzCheck } | { error: string } {
+    if (!value || typeof value !== 'object') {
+        return { error: 'Each check must be an object' };
+    }
+    const { sessionId, permission, permissions } = value as Record<string, unknown>;
+
+    if (typeof sessionId !== 'string' || !VALIDATION.SESSION_ID_PATTERN.test(sessionId)) {
+        return { error: 'sessionId is required' };
+    }
+
+    const requested = permission !== undefined ? [permission] : permissions;
+    if (!Array.isArray(requested) || requested.length === 0) {
+        return { error: 'permission or permissions is required' };
+    }
+    if (requested.length > VALIDATION.AUTHZ_MAX_PERMISSIONS) {
+        return { error: `At most ${VALIDATION.AUTHZ_MAX_PERMISSIONS} permissions can be checked at once` };
+    }
+    if (!requested.every(name => typeof name === 'string' && name.length > 0 && name.length <= VALIDATION.PERMISSION_NAME_MAX_LENGTH)) {
+        return { error: 'Permissions must be non-empty strings' };
+    }
+
+    return { check: { sessionId, permissions: [...new Set(requested as string[])] } };
+}
+
+/**
+ * Answer one check against the session's current permissions, read through the permission cache.
+ * Denials are recorded in the audit log without delaying the response, as the RBAC middleware does.
+ */
+async function runCheck(request: Request, env: Env, check: AuthzCheck): Promise<AuthzCheckResult> {
+    const denied: AuthzCheckResult = {
+        authenticated: false,
+        allowed: false,
+        user: null,
+        results: Object.fromEntries(check.permissions.map(permission => [permission, false]))
+    };
+
+    const sessionData = await loadSession(env, check.sessionId);
+    if (!sessionData || !isValidSessionData(sessionData)) {
+        return denied;
+    }
+
+    const userId = await getSessionUserId(env, sessionData);
+    if (userId === null) {
+        return denied;
+    }
+
+    const matcher = createPermissionMatcher(await getUserPermissions(env, userId));
+    const results: Record<string, boolean> = {};
+    for (const permission of check.permissions) {
+        results[permission] = matcher.matches(permission);
+    }
+
+    const deniedPermissions = check.permissions.filter(permission => !results[permission]);
+    if (deniedPermissions.length > 0) {
+        logAuthorizationDenied(
+            env,
+            userId,
+            sessionData.username,
+            deniedPermissions.join(', '),
+            getAuditIpAddress(request, env)
+        ).catch(err => console.error('Failed to log authorization denial:', err));
+    }
+
+    return {
+        authenticated: true,
+        allowed: deniedPermissions.length === 0,
+        user: { userId, username: sessionData.username },
+        results
+    };
+}
+
+/**
+ * POST /authz/check - Check whether sessions hold permissions, for other workers
+ * Requires `Authorization: Bearer <AUTHZ_API_SECRET>`
+ *
+ * Body is a single check, `{ sessionId, permission }` or `{ sessionId, permissions: [...] }`, which is answered
+ * with `{ authenticated, allowed, user, results }`; or a batch, `{ checks: [...] }`, answered with
+ * `{ checks: [...] }` in the same order. Unknown or expired sessions are answered with `authenticated: false`.
+ */
+export async function handleAuthzCheck(request: Request, env: Env): Promise<Response> {
+    try {
+        const callerError = authenticateCaller(request, env);
+        if (callerError) {
+            return callerError;
+        }
+
+        let parsedBody: unknown;
+        try {
+            parsedBody = await request.json();
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        if (!parsedBody || typeof parsedBody !== 'object' || Array.isArray(parsedBody)) {
+            return createErrorResponse('Body must be a JSON object', 400);
+        }
+        const body = parsedBody as Record<string, unknown>;
+
+        if (body.checks !== undefined) {
+            if (!Array.isArray(body.checks) || body.checks.length === 0) {
+                return createErrorResponse('checks must be a non-empty array', 400);
+            }
+            if (body.checks.length > VALIDATION.AUTHZ_MAX_CHECKS) {
+                return createErrorResponse(`At most ${VALIDATION.AUTHZ_MAX_CHECKS} checks can be sent at once`, 400);
+            }
+
+            const checks: AuthzCheck[] = [];
+            for (const value of body.checks) {
+                const parsed = parseCheck(value);
+                if ('error' in parsed) {
+                    return createErrorResponse(parsed.error, 400);
+                }
+                checks.push(parsed.check);
+            }
+
+            const results = await Promise.all(checks.map(check => runCheck(request, env, check)));
+            return new Response(JSON.stringify({ checks: results }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        const parsed = parseCheck(body);
+        if ('error' in parsed) {
+            return createErrorResponse(parsed.error, 400);
+        }
+
+        const result = await runCheck(request, env, parsed.check);
+        return new Response(JSON.stringify(result), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error checking authorization:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
@@ -0,0 +1,142 @@
+/**
+ * Shared helpers for HTTP handlers.
+ *
+ * These utilities are used by multiple handler modules (RBAC, MFA, ...) for
+ * consistent error responses, session validation and audit metadata.
+ */
+
+import { Env, getIpLoggingEnabled } from '../env';
+import { getIpAddressFromRequest } from '../rbac';
+import { getSessionIdFromCookies, getUser } from '../utils';
+import { loadSession } from '../session';
+import { RoleConflict, SessionData } from '../types/rbac';
+
+/**
+ * Helper function to create JSON error responses.
+ * Consolidates the repeated error response pattern.
+ *
+ * @param message - The error message to include in the response
+ * @param status - The HTTP status code
+ * @returns A Response object with the error message
+ */
+export function createErrorResponse(message: string, status: number): Response {
+    return new Response(JSON.stringify({ error: message }), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+/**
+ * Returns the 409 response for a change refused because it would give a user two mutually exclusive roles,
+ * naming the role being granted and the one it conflicts with.
+ */
+export function roleConflictResponse(conflict: RoleConflict): Response {
+    return new Response(JSON.stringify({
+        error: `Role ${conflict.role.name} conflicts with role ${conflict.conflictingRole.name}, which user ${conflict.userId} already holds`,
+        code: 'ROLE_CONFLICT',
+        ...conflict
+    }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+/**
+ * Builds the 403 response returned when a user must verify their email address before logging in.
+ */
+export function createUnverifiedEmailResponse(): Response {
+    return new Response(JSON.stringify({ error: 'Email address has not been verified', emailVerificationRequired: true }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+/**
+ * Type guard to validate session data has the expected shape.
+ * Provides runtime safety for data loaded from session storage.
+ */
+export function isValidSessionData(data: unknown): data is SessionData {
+    if (!data || typeof data !== 'object') {
+        return false;
+    }
+    const obj = data as Record<string, unknown>;
+    return (
+        typeof obj.username === 'string' &&
+        typeof obj.firstName === 'string' &&
+        typeof obj.lastName === 'string' &&
+        (obj.permissions === undefined || Array.isArray(obj.permissions))
+    );
+}
+
+/**
+ * Safely parse an integer from a query parameter with NaN handling.
+ * Returns the default value if parsing fails or result is NaN.
+ */
+export function safeParseInt(value: string | null, defaultValue: number, maxValue?: number): number {
+    if (!value) {
+        return defaultValue;
+    }
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed < 0) {
+        return defaultValue;
+    }
+    if (maxValue !== undefined) {
+        return Math.min(parsed, maxValue);
+    }
+    return parsed;
+}
+
+/**
+ * Get IP address for audit logging if enabled (GDPR-compliant).
+ * Returns undefined if IP logging is disabled.
+ */
+export function getAuditIpAddress(request: Request, env: Env): string | undefined {
+    if (!getIpLoggingEnabled(env)) {
+        return undefined;
+    }
+    return getIpAddressFromRequest(request) ?? undefined;
+}
+
+/**
+ * Result of resolving the authenticated user for a request.
+ */
+export interface SessionAuthResult {
+    authorized: boolean;
+    sessionId?: string;
+    sessionData?: SessionData;
+    user?: any;
+    error?: Response;
+}
+
+/**
+ * Loads and validates the session from the request cookie and resolves the
+ * corresponding user row. Used by handlers that need an authenticated user but
+ * no particular permission.
+ */
+export async function requireSession(request: Request, env: Env): Promise<SessionAuthResult> {
+    const sessionId = getSessionIdFromCookies(request);
+    if (!sessionId) {
+        return {
+            authorized: false,
+            error: createErrorResponse('Authentication required', 401)
+        };
+    }
+
+    const rawSessionData = await loadSession(env, sessionId);
+    if (!rawSessionData || !isValidSessionData(rawSessionData)) {
+        return {
+            authorized: false,
+            error: createErrorResponse('Invalid session', 401)
+        };
+    }
+
+    const user = await getUser(env, rawSessionData.username);
+    if (!user) {
+        return {
+            authorized: false,
+            error: createErrorResponse('User not found', 404)
+        };
+    }
+
+    return { authorized: true, sessionId, sessionData: rawSessionData, user };
+}
@@ -0,0 +1,305 @@
+import { Env, getMfaIssuer } from '../env';
+import { getUser, createSessionCookie } from '../utils';
+import { createSession } from '../session';
+import { logAccountEvent, logAccountLocked } from '../rbac';
+import { recordLoginFailure, getThrottleIp } from '../throttle';
+import {
+    generateTotpSecret,
+    verifyTotp,
+    buildOtpAuthUri,
+    generateBackupCodes,
+    getTotpFactor,
+    savePendingTotpSecret,
+    enableTotpFactor,
+    disableMfa,
+    replaceBackupCodes,
+    getMfaStatus,
+    verifySecondFactor,
+    getMfaPendingLogin,
+    deleteMfaPendingToken,
+    recordMfaPendingFailure
+} from '../mfa';
+import { createErrorResponse, getAuditIpAddress, requireSession } from './helpers';
+
+/**
+ * Request body accepted wherever a second factor must be presented
+ */
+interface SecondFactorBody {
+    code?: string;
+    backupCode?: string;
+}
+
+/**
+ * Extracts the second factor from a request body, ignoring non-string values.
+ */
+function parseSecondFactor(body: SecondFactorBody): SecondFactorBody {
+    return {
+        code: typeof body.code === 'string' ? body.code : undefined,
+        backupCode: typeof body.backupCode === 'string' ? body.backupCode : undefined,
+    };
+}
+
+/**
+ * GET /mfa/status - Get the current user's MFA configuration
+ * Requires authentication
+ */
+export async function handleMfaStatus(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requireSession(request, env);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const status = await getMfaStatus(env, authResult.user.UserID);
+
+        return new Response(JSON.stringify(status), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error getting MFA status:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /mfa/totp/enroll - Start TOTP enrollment
+ * Requires authentication. Returns the secret and an otpauth:// URI for QR rendering.
+ * The factor is not active until confirmed via /mfa/totp/confirm.
+ */
+export async function handleTotpEnroll(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requireSession(request, env);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+        const user = authResult.user;
+
+        const existing = await getTotpFactor(env, user.UserID);
+        if (existing?.enabled) {
+            return createErrorResponse('TOTP is already enabled', 409);
+        }
+
+        const secret = generateTotpSecret();
+        await savePendingTotpSecret(env, user.UserID, secret);
+
+        await logAccountEvent(env, 'MFA_ENROLLMENT_STARTED', user.UserID, user.Username, { factor: 'totp' }, getAuditIpAddress(request, env));
+
+        return new Response(JSON.stringify({
+            secret,
+            otpauthUri: buildOtpAuthUri(secret, user.Username, getMfaIssuer(env)),
+        }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error starting TOTP enrollment:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /mfa/totp/confirm - Confirm TOTP enrollment with a code from the authenticator app
+ * Requires authentication. Activates the factor and returns a fresh set of backup codes,
+ * which are shown only once.
+ */
+export async function handleTotpConfirm(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requireSession(request, env);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+        const user = authResult.user;
+
+        let body: { code?: string };
+        try {
+            body = await request.json() as { code?: string };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        const { code } = body;
+        if (!code || typeof code !== 'string') {
+            return createErrorResponse('Verification code is required', 400);
+        }
+
+        const factor = await getTotpFactor(env, user.UserID);
+        if (!factor) {
+            return createErrorResponse('TOTP enrollment has not been started', 400);
+        }
+        if (factor.enabled) {
+            return createErrorResponse('TOTP is already enabled', 409);
+        }
+
+        const counter = await verifyTotp(factor.secret, code);
+        if (counter === null) {
+            await logAccountEvent(env, 'MFA_VERIFICATION_FAILED', user.UserID, user.Username, { factor: 'totp', stage: 'enrollment' }, getAuditIpAddress(request, env), false);
+            return createErrorResponse('Invalid verification code', 400);
+        }
+
+        await enableTotpFactor(env, user.UserID, counter);
+        const backupCodes = generateBackupCodes();
+        await replaceBackupCodes(env, user.UserID, backupCodes);
+
+        await logAccountEvent(env, 'MFA_ENABLED', user.UserID, user.Username, { factor: 'totp' }, getAuditIpAddress(request, env));
+
+        return new Response(JSON.stringify({ message: 'TOTP enabled', backupCodes }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error confirming TOTP enrollment:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /login/mfa - Complete a two-step login
+ * Accepts the mfaToken returned by /login plus either a TOTP `code` or a `backupCode`.
+ * On success, creates the session and sets the session cookie.
+ */
+export async function handleLoginMfa(request: Request, env: Env): Promise<Response> {
+    try {
+        let body: SecondFactorBody & { mfaToken?: string };
+        try {
+            body = await request.json() as SecondFactorBody & { mfaToken?: string };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        const { mfaToken } = body;
+        const factor = parseSecondFactor(body);
+
+        if (!mfaToken || typeof mfaToken !== 'string' || (!factor.code && !factor.backupCode)) {
+            return createErrorResponse('Missing MFA token or verification code', 400);
+        }
+
+        const pending = await getMfaPendingLogin(env, mfaToken);
+        if (!pending) {
+            return createErrorResponse('Invalid or expired MFA token', 401);
+        }
+
+        const method = await verifySecondFactor(env, pending.userId, factor);
+        if (!method) {
+            const stillValid = await recordMfaPendingFailure(env, mfaToken);
+            const ipAddress = getAuditIpAddress(request, env);
+            await logAccountEvent(env, 'MFA_VERIFICATION_FAILED', pending.userId, pending.username, { stage: 'login' }, ipAddress, false);
+            // Wrong codes count towards the account lockout, so repeated password + guess cycles are throttled
+            const failure = await recordLoginFailure(env, pending.username, getThrottleIp(request));
+            for (const lockout of failure.lockouts) {
+                await logAccountLocked(env, pending.username, pending.userId, lockout, ipAddress);
+            }
+            return createErrorResponse(stillValid ? 'Invalid verification code' : 'Too many failed attempts, please log in again', 401);
+        }
+
+        // Single use: the pending token must not be usable for a second session
+        await deleteMfaPendingToken(env, mfaToken);
+
+        const user = await getUser(env, pending.username);
+        if (!user || user.UserID !== pending.userId) {
+            return createErrorResponse('Invalid or expired MFA token', 401);
+        }
+
+        const ipAddress = getAuditIpAddress(request, env);
+        if (method === 'backup_code') {
+            const status = await getMfaStatus(env, user.UserID);
+            await logAccountEvent(env, 'MFA_BACKUP_CODE_USED', user.UserID, user.Username, { backupCodesRemaining: status.backupCodesRemaining }, ipAddress);
+        }
+        await logAccountEvent(env, 'MFA_VERIFIED', user.UserID, user.Username, { method }, ipAddress);
+
+        const sessionId = await createSession(env, user, request);
+        return new Response(JSON.stringify({ message: 'Login successful' }), {
+            headers: { 'Set-Cookie': createSessionCookie(env, sessionId) }
+        });
+    } catch (error) {
+        console.error('Error during MFA login:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /mfa/disable - Remove all second factors from the current user
+ * Requires authentication plus a valid TOTP `code` or `backupCode`.
+ */
+export async function handleMfaDisable(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requireSession(request, env);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+        const user = authResult.user;
+
+        let body: SecondFactorBody;
+        try {
+            body = await request.json() as SecondFactorBody;
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        const factor = parseSecondFactor(body);
+        if (!factor.code && !factor.backupCode) {
+            return createErrorResponse('Verification code is required', 400);
+        }
+
+        const status = await getMfaStatus(env, user.UserID);
+        if (!status.totpEnabled) {
+            // Discard any half-finished enrollment as well
+            if (status.totpPending) {
+                await disableMfa(env, user.UserID);
+            }
+            return createErrorResponse('MFA is not enabled', 400);
+        }
+
+        const method = await verifySecondFactor(env, user.UserID, factor);
+        if (!method) {
+            await logAccountEvent(env, 'MFA_VERIFICATION_FAILED', user.UserID, user.Username, { stage: 'disable' }, getAuditIpAddress(request, env), false);
+            return createErrorResponse('Invalid verification code', 400);
+        }
+
+        await disableMfa(env, user.UserID);
+        await logAccountEvent(env, 'MFA_DISABLED', user.UserID, user.Username, { method }, getAuditIpAddress(request, env));
+
+        return new Response(JSON.stringify({ message: 'MFA disabled' }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error disabling MFA:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /mfa/backup-codes/regenerate - Replace all backup codes with a new set
+ * Requires authentication plus a valid TOTP `code` or `backupCode`.
+ */
+export async function handleRegenerateBackupCodes(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requireSession(request, env);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+        const user = authResult.user;
+
+        let body: SecondFactorBody;
+        try {
+            body = await request.json() as SecondFactorBody;
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        const factor = parseSecondFactor(body);
+        if (!factor.code && !factor.backupCode) {
+            return createErrorResponse('Verification code is required', 400);
+        }
+
+        const method = await verifySecondFactor(env, user.UserID, factor);
+        if (!method) {
+            await logAccountEvent(env, 'MFA_VERIFICATION_FAILED', user.UserID, user.Username, { stage: 'regenerate_backup_codes' }, getAuditIpAddress(request, env), false);
+            return createErrorResponse('Invalid verification code', 400);
+        }
+
+        const backupCodes = generateBackupCodes();
+        await replaceBackupCodes(env, user.UserID, backupCodes);
+        await logAccountEvent(env, 'MFA_BACKUP_CODES_REGENERATED', user.UserID, user.Username, { count: backupCodes.length }, getAuditIpAddress(request, env));
+
+        return new Response(JSON.stringify({ backupCodes }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error regenerating backup codes:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
@@ -0,0 +1,574 @@
+import { Env, getOrgInvitationConfig } from '../env';
+import { PERMISSIONS, ROLES, VALIDATION } from '../constants/rbac';
+import { sendEmail } from '../email';
+import { updateSessionData } from '../session';
+import {
+    createPermissionMatcher,
+    getUserPermissions,
+    getRolePermissions,
+    getInheritedRolePermissions,
+    roleRequiresApproval,
+    assignScopedRole,
+    removeScopedRole,
+    getOrganizationScope,
+    createOrganization,
+    getOrganizationById,
+    getUserOrganizations,
+    isOrganizationMember,
+    getOrganizationMembers,
+    removeOrganizationMember,
+    getOrganizationPermissions,
+    createOrganizationInvitation,
+    acceptOrganizationInvitation,
+    logOrganizationEvent,
+    logRoleAssigned,
+    logRoleRemoved,
+    findRoleConflict
+} from '../rbac';
+import { createErrorResponse, getAuditIpAddress, requireSession, roleConflictResponse, SessionAuthResult } from './helpers';
+
+/**
+ * Result of authorizing a request against one organization.
+ */
+interface OrgAuthResult extends SessionAuthResult {
+    orgId?: string;
+    /** The caller's global permissions plus those granted by their roles in the organization */
+    permissions?: string[];
+}
+
+/**
+ * Extract the segment following `name` in the request path.
+ */
+function getPathParam(request: Request, name: string): string | null {
+    const pathParts = new URL(request.url).pathname.split('/');
+    const index = pathParts.indexOf(name);
+    const value = index === -1 ? undefined : pathParts[index + 1];
+    return value ? decodeURIComponent(value) : null;
+}
+
+/**
+ * Extract a numeric user ID following `/members/` in the request path.
+ */
+function getMemberIdFromPath(request: Request): number | null {
+    const userIdStr = getPathParam(request, 'members');
+    return userIdStr && /^\d+$/.test(userIdStr) ? parseInt(userIdStr, 10) : null;
+}
+
+/**
+ * Authenticate the caller and check that they hold a permission within the organization named in the path,
+ * either through a role in that organization or globally.
+ */
+async function requireOrgPermission(request: Request, env: Env, permission: string): Promise<OrgAuthResult> {
+    const auth = await requireSession(request, env);
+    if (!auth.authorized) {
+        return auth;
+    }
+
+    const orgId = getPathParam(request, 'orgs');
+    if (!orgId) {
+        return { authorized: false, error: createErrorResponse('Invalid organization ID', 400) };
+    }
+
+    const permissions = await getOrganizationPermissions(env, auth.user.UserID, orgId);
+    if (!createPermissionMatcher(permissions).matches(permission)) {
+        return { authorized: false, error: createErrorResponse('Insufficient permissions', 403) };
+    }
+
+    return { ...auth, orgId, permissions };
+}
+
+/** Roles that require approval are only granted through /rbac/users/:userId/roles, which creates a request */
+const ROLE_REQUIRES_APPROVAL_ERROR = 'This role requires approval and must be requested through the RBAC API';
+
+/**
+ * Check that every permission a role grants, including inherited ones, is also held by the caller,
+ * so organization admins can't hand out (or take away) more access than they have themselves.
+ */
+async function canDelegateRole(env: Env, roleId: string, callerPermissions: string[]): Promise<boolean> {
+    const [direct, inherited] = await Promise.all([
+        getRolePermissions(env, roleId),
+        getInheritedRolePermissions(env, roleId)
+    ]);
+    const matcher = createPermissionMatcher(callerPermissions);
+    return [...direct, ...inherited].every(permission => matcher.matches(permission.name));
+}
+
+/**
+ * POST /orgs - Create an organization
+ * Requires the global orgs:create permission. The creator becomes its first member with the ORG_ADMIN role.
+ */
+export async function handleCreateOrganization(request: Request, env: Env): Promise<Response> {
+    try {
+        const auth = await requireSession(request, env);
+        if (!auth.authorized) {
+            return auth.error!;
+        }
+
+        const permissions = await getUserPermissions(env, auth.user.UserID);
+        if (!createPermissionMatcher(permissions).matches(PERMISSIONS.ORGS_CREATE)) {
+            return createErrorResponse('Insufficient permissions', 403);
+        }
+
+        let body: { name?: unknown };
+        try {
+            body = await request.json() as { name?: unknown };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+        if (name.length < VALIDATION.ORG_NAME_MIN_LENGTH || name.length > VALIDATION.ORG_NAME_MAX_LENGTH) {
+            return createErrorResponse(
+                `Organization name must be between ${VALIDATION.ORG_NAME_MIN_LENGTH} and ${VALIDATION.ORG_NAME_MAX_LENGTH} characters`,
+                400
+            );
+        }
+
+        const organization = await createOrganization(env, name, auth.user.UserID);
+        await logOrganizationEvent(
+            env,
+            'ORG_CREATED',
+            auth.user.UserID,
+            auth.user.Username,
+            organization.id,
+            organization.name,
+            undefined,
+            getAuditIpAddress(request, env)
+        );
+
+        return new Response(JSON.stringify({ organization }), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error creating organization:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * GET /orgs - List the organizations the current user is a member of
+ * Requires an authenticated session. The session's active organization is returned as `activeOrgId`.
+ */
+export async function handleListOrganizations(request: Request, env: Env): Promise<Response> {
+    try {
+        const auth = await requireSession(request, env);
+        if (!auth.authorized) {
+            return auth.error!;
+        }
+
+        const organizations = await getUserOrganizations(env, auth.user.UserID);
+        return new Response(JSON.stringify({
+            organizations,
+            activeOrgId: auth.sessionData!.activeOrgId ?? null
+        }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error listing organizations:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * GET /orgs/:orgId - Get an organization
+ * Requires orgs:read within the organization
+ */
+export async function handleGetOrganization(request: Request, env: Env): Promise<Response> {
+    try {
+        const auth = await requireOrgPermission(request, env, PERMISSIONS.ORGS_READ);
+        if (!auth.authorized) {
+            return auth.error!;
+        }
+
+        const organization = await getOrganizationById(env, auth.orgId!);
+        if (!organization) {
+            return createErrorResponse('Organization not found', 404);
+        }
+
+        return new Response(JSON.stringify({ organization }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error getting organization:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * GET /orgs/:orgId/members - List an organization's members and their roles in it
+ * Requires orgs:read within the organization
+ */
+export async function handleListOrganizationMembers(request: Request, env: Env): Promise<Response> {
+    try {
+        const auth = await requireOrgPermission(request, env, PERMISSIONS.ORGS_READ);
+        if (!auth.authorized) {
+            return auth.error!;
+        }
+
+        const members = await getOrganizationMembers(env, auth.orgId!);
+        return new Response(JSON.stringify({ members }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error listing organization members:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * DELETE /orgs/:orgId/members/:userId - Remove a member and all of their roles in the organization
+ * Requires orgs:manage within the organization, except that members may always remove themselves
+ */
+export async function handleRemoveOrganizationMember(request: Request, env: Env): Promise<Response> {
+    try {
+        const auth = await requireSession(request, env);
+        if (!auth.authorized) {
+            return auth.error!;
+        }
+
+        const userId = getMemberIdFromPath(request);
+        if (userId === null) {
+            return createErrorResponse('Invalid user ID', 400);
+        }
+
+        const orgAuth = userId === auth.user.UserID
+            ? { ...auth, orgId: getPathParam(request, 'orgs') ?? undefined }
+            : await requireOrgPermission(request, env, PERMISSIONS.ORGS_MANAGE);
+        if (!orgAuth.authorized) {
+            return orgAuth.error!;
+        }
+        if (!orgAuth.orgId) {
+            return createErrorResponse('Invalid organization ID', 400);
+        }
+
+        const organization = await getOrganizationById(env, orgAuth.orgId);
+        if (!organization) {
+            return createErrorResponse('Organization not found', 404);
+        }
+
+        if (!await removeOrganizationMember(env, organization.id, userId)) {
+            return createErrorResponse('User is not a member of this organization', 404);
+        }
+
+        await logOrganizationEvent(
+            env,
+            'ORG_MEMBER_REMOVED',
+            auth.user.UserID,
+            auth.user.Username,
+            organization.id,
+            organization.name,
+            { userId },
+            getAuditIpAddress(request, env)
+        );
+
+        return new Response(JSON.stringify({ message: 'Member removed successfully' }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error removing organization member:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /orgs/:orgId/invitations - Invite someone to join the organization
+ * Requires orgs:manage within the organization. Body: `{ email, roleId? }`; the role defaults to ORG_MEMBER
+ * and can't grant permissions the inviter doesn't hold in the organization.
+ * The invitation link is emailed when ORG_INVITATION_URL is configured; otherwise the token is returned
+ * so the inviter can deliver it.
+ */
+export async function handleCreateOrganizationInvitation(request: Request, env: Env): Promise<Response> {
+    try {
+        const auth = await requireOrgPermission(request, env, PERMISSIONS.ORGS_MANAGE);
+        if (!auth.authorized) {
+            return auth.error!;
+        }
+
+        const organization = await getOrganizationById(env, auth.orgId!);
+        if (!organization) {
+            return createErrorResponse('Organization not found', 404);
+        }
+
+        let body: { email?: unknown; roleId?: unknown };
+        try {
+            body = await request.json() as { email?: unknown; roleId?: unknown };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        const email = typeof body.email === 'string' ? body.email.trim() : '';
+        if (!email.includes('@') || email.length > VALIDATION.EMAIL_MAX_LENGTH) {
+            return createErrorResponse('A valid email address is required', 400);
+        }
+        if (body.roleId !== undefined && typeof body.roleId !== 'string') {
+            return createErrorResponse('Role ID must be a string', 400);
+        }
+
+        const role = await env.usersDB
+            .prepare(body.roleId !== undefined ? 'SELECT id, name FROM roles WHERE id = ?' : 'SELECT id, name FROM roles WHERE name = ?')
+            .bind(body.roleId ?? ROLES.ORG_MEMBER)
+            .first<{ id: string; name: string }>();
+        if (!role) {
+            return createErrorResponse('Role not found', 404);
+        }
+        if (!await canDelegateRole(env, role.id, auth.permissions!)) {
+            return createErrorResponse('Cannot grant a role with permissions you do not hold in this organization', 403);
+        }
+        if (await roleRequiresApproval(env, role.id)) {
+            return createErrorResponse(ROLE_REQUIRES_APPROVAL_ERROR, 403);
+        }
+
+        const existingMember = await env.usersDB
+            .prepare(`
+                SELECT 1 as found FROM organization_members m
+                INNER JOIN User u ON m.user_id = u.UserID
+                WHERE m.org_id = ? AND u.Username = ? COLLATE NOCASE
+            `)
+            .bind(organization.id, email)
+            .first<{ found: number }>();
+        if (existingMember) {
+            return createErrorResponse('User is already a member of this organization', 409);
+        }
+
+        const { url, ttlSeconds } = getOrgInvitationConfig(env);
+        const { invitation, token } = await createOrganizationInvitation(
+            env,
+            organization.id,
+            email,
+            role.id,
+            auth.user.UserID,
+            ttlSeconds
+        );
+
+        if (url) {
+            const separator = url.includes('?') ? '&' : '?';
+            const invitationLink = `${url}${separator}token=${encodeURIComponent(token)}`;
+            const subject = `You've been invited to join ${organization.name}`;
+            const contentValue = `Click the following link to join ${organization.name}: ${invitationLink}`;
+            await sendEmail(email, '', subject, contentValue, env);
+        }
+
+        await logOrganizationEvent(
+            env,
+            'ORG_INVITATION_CREATED',
+            auth.user.UserID,
+            auth.user.Username,
+            organization.id,
+            organization.name,
+            { invitationId: invitation.id, email, roleId: role.id, roleName: role.name },
+            getAuditIpAddress(request, env)
+        );
+
+        return new Response(JSON.stringify({
+            invitation,
+            emailSent: url !== null,
+            ...(url ? {} : { token })
+        }), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error creating organization invitation:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /orgs/invitations/accept - Accept an organization invitation
+ * Requires an authenticated session whose username matches the invited email address. Body: `{ token }`
+ * Returns 409, leaving the invitation open, if the invited role is mutually exclusive with a role the user holds.
+ */
+export async function handleAcceptOrganizationInvitation(request: Request, env: Env): Promise<Response> {
+    try {
+        const auth = await requireSession(request, env);
+        if (!auth.authorized) {
+            return auth.error!;
+        }
+
+        let body: { token?: unknown };
+        try {
+            body = await request.json() as { token?: unknown };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        if (typeof body.token !== 'string' || !body.token) {
+            return createErrorResponse('Invitation token is required', 400);
+        }
+
+        let invitation;
+        try {
+            invitation = await acceptOrganizationInvitation(env, body.token, auth.user.UserID, auth.user.Username);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : '';
+            if (errorMessage === 'INVALID_INVITATION') {
+                return createErrorResponse('Invitation is invalid or has expired', 400);
+            }
+            if (errorMessage === 'INVITATION_EMAIL_MISMATCH') {
+                return createErrorResponse('Invitation was sent to a different email address', 403);
+            }
+            if (errorMessage === 'ROLE_CONFLICT') {
+                return createErrorResponse('Invitation role conflicts with a role you already hold', 409);
+            }
+            throw error;
+        }
+
+        const organization = await getOrganizationById(env, invitation.orgId);
+        if (organization) {
+            await logOrganizationEvent(
+                env,
+                'ORG_MEMBER_ADDED',
+                auth.user.UserID,
+                auth.user.Username,
+                organization.id,
+                organization.name,
+                { userId: auth.user.UserID, invitationId: invitation.id, roleId: invitation.roleId },
+                getAuditIpAddress(request, env)
+            );
+        }
+
+        return new Response(JSON.stringify({ organization }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error accepting organization invitation:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * Shared implementation of assigning and removing a member's role within an organization.
+ */
+async function changeOrganizationRole(request: Request, env: Env, assign: boolean): Promise<Response> {
+    const auth = await requireOrgPermission(request, env, PERMISSIONS.ORGS_MANAGE);
+    if (!auth.authorized) {
+        return auth.error!;
+    }
+
+    const userId = getMemberIdFromPath(request);
+    if (userId === null) {
+        return createErrorResponse('Invalid user ID', 400);
+    }
+
+    let roleId: unknown;
+    if (assign) {
+        let body: { roleId?: unknown };
+        try {
+            body = await request.json() as { roleId?: unknown };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        ({ roleId } = body);
+    } else {
+        roleId = getPathParam(request, 'roles');
+    }
+    if (!roleId || typeof roleId !== 'string') {
+        return createErrorResponse('Role ID is required', 400);
+    }
+
+    const [target, role] = await Promise.all([
+        env.usersDB
+            .prepare(`
+                SELECT u.UserID, u.Username FROM organization_members m
+                INNER JOIN User u ON m.user_id = u.UserID
+                WHERE m.org_id = ? AND m.user_id = ?
+            `)
+            .bind(auth.orgId!, userId)
+            .first<{ UserID: number; Username: string }>(),
+        env.usersDB
+            .prepare('SELECT id, name FROM roles WHERE id = ?')
+            .bind(roleId)
+            .first<{ id: string; name: string }>()
+    ]);
+    if (!target) {
+        return createErrorResponse('User is not a member of this organization', 404);
+    }
+    if (!role) {
+        return createErrorResponse('Role not found', 404);
+    }
+    if (!await canDelegateRole(env, role.id, auth.permissions!)) {
+        return createErrorResponse(
+            `Cannot ${assign ? 'grant' : 'remove'} a role with permissions you do not hold in this organization`,
+            403
+        );
+    }
+    if (assign && await roleRequiresApproval(env, role.id)) {
+        return createErrorResponse(ROLE_REQUIRES_APPROVAL_ERROR, 403);
+    }
+
+    const scope = getOrganizationScope(auth.orgId!);
+    if (assign) {
+        const conflict = await findRoleConflict(env, role.id, { userId: target.UserID, scope });
+        if (conflict) {
+            return roleConflictResponse(conflict);
+        }
+        await assignScopedRole(env, target.UserID, role.id, scope);
+        await logRoleAssigned(env, auth.user.UserID, auth.user.Username, target.UserID, target.Username,
+            role.id, role.name, getAuditIpAddress(request, env), { scope });
+    } else {
+        await removeScopedRole(env, target.UserID, role.id, scope);
+        await logRoleRemoved(env, auth.user.UserID, auth.user.Username, target.UserID, target.Username,
+            role.id, role.name, getAuditIpAddress(request, env), scope);
+    }
+
+    return new Response(JSON.stringify({ message: assign ? 'Role assigned successfully' : 'Role removed successfully' }), {
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+/**
+ * POST /orgs/:orgId/members/:userId/roles - Give a member a role within the organization
+ * Requires orgs:manage within the organization. Body: `{ roleId }`.
+ * The role can't grant permissions the caller doesn't hold in the organization, and returns 409 if it is mutually
+ * exclusive with a role the member holds globally or in the organization.
+ */
+export async function handleAssignOrganizationRole(request: Request, env: Env): Promise<Response> {
+    try {
+        return await changeOrganizationRole(request, env, true);
+    } catch (error) {
+        console.error('Error assigning organization role:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * DELETE /orgs/:orgId/members/:userId/roles/:roleId - Remove a member's role within the organization
+ * Requires orgs:manage within the organization, and every permission the role grants
+ */
+export async function handleRemoveOrganizationRole(request: Request, env: Env): Promise<Response> {
+    try {
+        return await changeOrganizationRole(request, env, false);
+    } catch (error) {
+        console.error('Error removing organization role:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /orgs/:orgId/activate - Make an organization the session's active organization
+ * Requires membership of the organization. Org-aware permission checks on routes that don't name an
+ * organization then use the caller's roles in this one.
+ */
+export async function handleActivateOrganization(request: Request, env: Env): Promise<Response> {
+    try {
+        const auth = await requireSession(request, env);
+        if (!auth.authorized) {
+            return auth.error!;
+        }
+
+        const orgId = getPathParam(request, 'orgs');
+        if (!orgId) {
+            return createErrorResponse('Invalid organization ID', 400);
+        }
+        if (!await isOrganizationMember(env, orgId, auth.user.UserID)) {
+            return createErrorResponse('Not a member of this organization', 403);
+        }
+
+        await updateSessionData(env, auth.sessionId!, { activeOrgId: orgId });
+
+        return new Response(JSON.stringify({ message: 'Active organization updated', activeOrgId: orgId }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error activating organization:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
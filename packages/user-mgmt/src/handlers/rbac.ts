@@ -1,110 +1,256 @@
-import { Env, getRbacEnabled, getIpLoggingEnabled } from '../env';
-import { PERMISSIONS, VALIDATION } from '../constants/rbac';
-import { getSessionIdFromCookies } from '../utils';
-import { loadSession } from '../session';
+import { Env, getAuditCheckpointConfig, getRbacEnabled, getRoleGrantRequestTtlSeconds } from '../env';
+import { PERMISSIONS, POLICY_VERSION, ROLES, VALIDATION } from '../constants/rbac';
+import { deleteUser, getSessionIdFromCookies } from '../utils';
 import {
     hasPermission,
+    isValidPermissionName,
+    getUserPermissions,
+    getSessionPermissions,
     getUserRoles,
+    explainUserPermission,
     assignRole,
     removeRole,
     createRole,
+    getRoleById,
+    updateRole,
+    deleteRole,
+    getRolePermissions,
+    getInheritedRolePermissions,
+    getAllRolePermissionNames,
+    setRoleParent,
+    getRoleDescendantIds,
+    grantPermissionToRole,
+    revokePermissionFromRole,
+    getPermissionById,
+    createPermission,
+    updatePermission,
+    deletePermission,
+    getPermissionRoleIds,
+    assignScopedRole,
+    removeScopedRole,
+    getUserScopedRoles,
+    createGroup,
+    getGroupById,
+    listGroups,
+    getGroupMembers,
+    getGroupRoles,
+    addGroupMember,
+    removeGroupMember,
+    assignRoleToGroup,
+    removeRoleFromGroup,
+    deleteGroup,
+    exportPolicy,
+    planPolicyImport,
+    isEmptyPolicyDiff,
+    applyPolicyDiff,
+    getAdminHolderIds,
+    roleRequiresApproval,
+    getRoleGrantRequest,
+    listRoleGrantRequests,
+    createRoleGrantRequest,
+    decideRoleGrantRequest,
+    cancelUserRoleGrantRequests,
+    listRoleConstraints,
+    getRoleConstraint,
+    createRoleConstraint,
+    deleteRoleConstraint,
+    getRoleConstraintViolations,
+    listRoleConstraintViolations,
+    findRoleConflict,
+    findReparentConflict,
+    findGroupMemberConflict,
+    invalidateCachedPermissions,
     logRoleAssigned,
     logRoleRemoved,
     logRoleCreated,
+    logRoleUpdated,
+    logRoleDeleted,
+    logRolePermissionChanged,
+    logPermissionCreated,
+    logPermissionUpdated,
+    logPermissionDeleted,
+    logAccountUnlocked,
+    logSessionsRevoked,
+    logUserDeleted,
+    logGroupEvent,
+    logPolicyImported,
+    logRoleGrantRequestEvent,
+    logRoleConstraintEvent,
+    logAuditLogsExported,
     getAuditLogs,
-    getIpAddressFromRequest
+    verifyAuditChain,
+    getLatestAuditCheckpoint
 } from '../rbac';
-import { Role, Permission, SessionData } from '../types/rbac';
+import { getAccountLockout, unlockAccount } from '../throttle';
+import { loadSession, revokeUserSessions } from '../session';
+import {
+    Role,
+    Permission,
+    SessionData,
+    ResourceScope,
+    RoleAssignmentWindow,
+    RbacPolicy,
+    RoleGrantRequestStatus,
+    RoleConstraint
+} from '../types/rbac';
 import { AuditLogQueryParams } from '../rbac/audit';
+import { decodePageCursor, getNextPageCursor, pageClauses, PageRequest } from '../rbac/pagination';
+import { AuditLogExportFormat, AUDIT_LOG_EXPORT_FORMATS, createAuditLogExportStream } from '../rbac/audit-export';
+import { createErrorResponse, isValidSessionData, safeParseInt, getAuditIpAddress, roleConflictResponse } from './helpers';
 
 /**
- * Helper function to create JSON error responses.
- * Consolidates the repeated error response pattern.
- *
- * @param message - The error message to include in the response
- * @param status - The HTTP status code
- * @returns A Response object with the error message
+ * Validate role name according to security constraints.
+ * Returns error message if invalid, null if valid.
  */
-function createErrorResponse(message: string, status: number): Response {
-    return new Response(JSON.stringify({ error: message }), {
-        status,
-        headers: { 'Content-Type': 'application/json' }
-    });
+function validateRoleName(name: string): string | null {
+    const trimmed = name.trim();
+    if (trimmed.length < VALIDATION.ROLE_NAME_MIN_LENGTH) {
+        return `Role name must be at least ${VALIDATION.ROLE_NAME_MIN_LENGTH} characters`;
+    }
+    if (trimmed.length > VALIDATION.ROLE_NAME_MAX_LENGTH) {
+        return `Role name must be at most ${VALIDATION.ROLE_NAME_MAX_LENGTH} characters`;
+    }
+    if (!VALIDATION.ROLE_NAME_PATTERN.test(trimmed)) {
+        return 'Role name can only contain letters, numbers, underscores, colons, and hyphens';
+    }
+    return null;
 }
 
 /**
- * Type guard to validate session data has the expected shape.
- * Provides runtime safety for data loaded from session storage.
+ * Validate group name length.
+ * Returns error message if invalid, null if valid.
  */
-function isValidSessionData(data: unknown): data is SessionData {
-    if (!data || typeof data !== 'object') {
-        return false;
+function validateGroupName(name: string): string | null {
+    const trimmed = name.trim();
+    if (trimmed.length < VALIDATION.GROUP_NAME_MIN_LENGTH) {
+        return `Group name must be at least ${VALIDATION.GROUP_NAME_MIN_LENGTH} characters`;
     }
-    const obj = data as Record<string, unknown>;
-    return (
-        typeof obj.username === 'string' &&
-        typeof obj.firstName === 'string' &&
-        typeof obj.lastName === 'string' &&
-        (obj.permissions === undefined || Array.isArray(obj.permissions))
-    );
+    if (trimmed.length > VALIDATION.GROUP_NAME_MAX_LENGTH) {
+        return `Group name must be at most ${VALIDATION.GROUP_NAME_MAX_LENGTH} characters`;
+    }
+    return null;
 }
 
 /**
- * Safely parse an integer from a query parameter with NaN handling.
- * Returns the default value if parsing fails or result is NaN.
+ * Validate permission name according to the resource:action convention, allowing `*` wildcard segments.
+ * Returns error message if invalid, null if valid.
  */
-function safeParseInt(value: string | null, defaultValue: number, maxValue?: number): number {
-    if (!value) {
-        return defaultValue;
-    }
-    const parsed = parseInt(value, 10);
-    if (isNaN(parsed) || parsed < 0) {
-        return defaultValue;
+function validatePermissionName(name: string): string | null {
+    if (name.length > VALIDATION.PERMISSION_NAME_MAX_LENGTH) {
+        return `Permission name must be at most ${VALIDATION.PERMISSION_NAME_MAX_LENGTH} characters`;
     }
-    if (maxValue !== undefined) {
-        return Math.min(parsed, maxValue);
+    if (!isValidPermissionName(name)) {
+        return 'Permission name must be in the form resource:action using lowercase letters, numbers, underscores, and hyphens, with at least one segment that is not a * wildcard';
     }
-    return parsed;
+    return null;
 }
 
 /**
- * Get IP address for audit logging if enabled (GDPR-compliant).
- * Returns undefined if IP logging is disabled.
+ * Validate description length.
+ * Returns error message if invalid, null if valid.
  */
-function getAuditIpAddress(request: Request, env: Env): string | undefined {
-    if (!getIpLoggingEnabled(env)) {
-        return undefined;
+function validateDescription(description: string | undefined): string | null {
+    if (description && description.length > VALIDATION.DESCRIPTION_MAX_LENGTH) {
+        return `Description must be at most ${VALIDATION.DESCRIPTION_MAX_LENGTH} characters`;
     }
-    return getIpAddressFromRequest(request) ?? undefined;
+    return null;
 }
 
 /**
- * Validate role name according to security constraints.
- * Returns error message if invalid, null if valid.
+ * Validate an optional resource scope for a role assignment. Both parts must be given together.
+ * Returns the scope (or null for a global assignment), or an error message if invalid.
  */
-function validateRoleName(name: string): string | null {
-    const trimmed = name.trim();
-    if (trimmed.length < VALIDATION.ROLE_NAME_MIN_LENGTH) {
-        return `Role name must be at least ${VALIDATION.ROLE_NAME_MIN_LENGTH} characters`;
+function parseResourceScope(scopeType: unknown, scopeId: unknown): { scope: ResourceScope | null } | { error: string } {
+    if ((scopeType === undefined || scopeType === null) && (scopeId === undefined || scopeId === null)) {
+        return { scope: null };
     }
-    if (trimmed.length > VALIDATION.ROLE_NAME_MAX_LENGTH) {
-        return `Role name must be at most ${VALIDATION.ROLE_NAME_MAX_LENGTH} characters`;
+    if (typeof scopeType !== 'string' || typeof scopeId !== 'string' || scopeId.length === 0) {
+        return { error: 'scopeType and scopeId must both be provided as strings' };
     }
-    if (!VALIDATION.ROLE_NAME_PATTERN.test(trimmed)) {
-        return 'Role name can only contain letters, numbers, underscores, colons, and hyphens';
+    if (scopeType.length > VALIDATION.SCOPE_TYPE_MAX_LENGTH || !VALIDATION.SCOPE_TYPE_PATTERN.test(scopeType)) {
+        return { error: `scopeType must be at most ${VALIDATION.SCOPE_TYPE_MAX_LENGTH} lowercase letters, numbers, underscores, and hyphens` };
     }
-    return null;
+    if (scopeId.length > VALIDATION.SCOPE_ID_MAX_LENGTH) {
+        return { error: `scopeId must be at most ${VALIDATION.SCOPE_ID_MAX_LENGTH} characters` };
+    }
+    return { scope: { type: scopeType, id: scopeId } };
 }
 
 /**
- * Validate description length.
- * Returns error message if invalid, null if valid.
+ * Validate an optional validity window for a role assignment given as ISO 8601 timestamps.
+ * Returns the window, or an error message if invalid.
  */
-function validateDescription(description: string | undefined): string | null {
-    if (description && description.length > VALIDATION.DESCRIPTION_MAX_LENGTH) {
-        return `Description must be at most ${VALIDATION.DESCRIPTION_MAX_LENGTH} characters`;
+function parseAssignmentWindow(startsAt: unknown, expiresAt: unknown): { window: RoleAssignmentWindow } | { error: string } {
+    const window: RoleAssignmentWindow = {};
+    for (const [field, value] of [['startsAt', startsAt], ['expiresAt', expiresAt]] as const) {
+        if (value === undefined || value === null) {
+            continue;
+        }
+        const date = typeof value === 'string' ? new Date(value) : null;
+        if (!date || isNaN(date.getTime())) {
+            return { error: `${field} must be an ISO 8601 timestamp` };
+        }
+        window[field] = date;
     }
-    return null;
+    if (window.expiresAt && window.expiresAt.getTime() <= Date.now()) {
+        return { error: 'expiresAt must be in the future' };
+    }
+    if (window.startsAt && window.expiresAt && window.startsAt >= window.expiresAt) {
+        return { error: 'expiresAt must be after startsAt' };
+    }
+    return { window };
+}
+
+/**
+ * Permissions checked by this worker's own code can't be renamed or deleted.
+ */
+function isSystemPermission(name: string): boolean {
+    return (Object.values(PERMISSIONS) as string[]).includes(name);
+}
+
+/**
+ * Extract the permission ID following `/permissions/` in the request path.
+ */
+function getPermissionIdFromPath(request: Request): string | null {
+    const pathParts = new URL(request.url).pathname.split('/');
+    const permissionId = pathParts[pathParts.indexOf('permissions') + 1];
+    return permissionId ? decodeURIComponent(permissionId) : null;
+}
+
+/**
+ * Built-in roles can't be renamed or deleted: bootstrap, registration and organizations look them up by name.
+ */
+function isBuiltInRole(name: string): boolean {
+    return (Object.values(ROLES) as string[]).includes(name);
+}
+
+/**
+ * Extract the role ID following `/roles/` in the request path.
+ */
+function getRoleIdFromPath(request: Request): string | null {
+    const pathParts = new URL(request.url).pathname.split('/');
+    const roleId = pathParts[pathParts.indexOf('roles') + 1];
+    return roleId ? decodeURIComponent(roleId) : null;
+}
+
+/**
+ * Extract the group ID following `/groups/` in the request path.
+ */
+function getGroupIdFromPath(request: Request): string | null {
+    const pathParts = new URL(request.url).pathname.split('/');
+    const groupId = pathParts[pathParts.indexOf('groups') + 1];
+    return groupId ? decodeURIComponent(groupId) : null;
+}
+
+/**
+ * Look up the ID of the user performing an action, for audit logging.
+ */
+async function getActorId(env: Env, username: string): Promise<number | null> {
+    const actorResult = await env.usersDB
+        .prepare('SELECT UserID FROM User WHERE Username = ?')
+        .bind(username)
+        .first<{ UserID: number }>();
+    return actorResult?.UserID ?? null;
 }
 
 /**
@@ -142,8 +288,9 @@ async function requirePermission(
     }
     const sessionData = rawSessionData;
 
-    // Check permission
-    if (!sessionData.permissions || !hasPermission(sessionData.permissions, permission)) {
+    // Check permission against the user's current roles rather than the login-time snapshot
+    sessionData.permissions = await getSessionPermissions(env, sessionData);
+    if (!hasPermission(sessionData.permissions, permission)) {
         return {
             authorized: false,
             error: createErrorResponse('Insufficient permissions', 403)
@@ -154,9 +301,73 @@ async function requirePermission(
 }
 
 /**
- * GET /rbac/roles - List all roles
+ * Check the users who would hold admin:all after a change against those who hold it now. Refuses a change that
+ * leaves nobody with admin:all (`LAST_ADMIN`), and one that takes it away from the acting user unless the request
+ * has `confirm=true` (`SELF_ADMIN_REMOVAL`).
+ * Returns a 409 response explaining the conflict if the change can't go ahead, null if it can.
+ */
+async function guardAdminAccess(
+    request: Request,
+    env: Env,
+    actorId: number | null,
+    adminsAfter: number[]
+): Promise<Response | null> {
+    const adminsBefore = await getAdminHolderIds(env);
+
+    if (adminsBefore.length > 0 && adminsAfter.length === 0) {
+        return new Response(JSON.stringify({
+            error: `This change would leave no user with ${PERMISSIONS.ADMIN_ALL}`,
+            code: 'LAST_ADMIN',
+            permission: PERMISSIONS.ADMIN_ALL,
+            currentHolders: adminsBefore
+        }), {
+            status: 409,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    const confirmed = new URL(request.url).searchParams.get('confirm') === 'true';
+    if (actorId !== null && adminsBefore.includes(actorId) && !adminsAfter.includes(actorId) && !confirmed) {
+        return new Response(JSON.stringify({
+            error: `This change removes your own ${PERMISSIONS.ADMIN_ALL} permission. Repeat the request with confirm=true to proceed.`,
+            code: 'SELF_ADMIN_REMOVAL',
+            permission: PERMISSIONS.ADMIN_ALL,
+            remainingHolders: adminsAfter
+        }), {
+            status: 409,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    return null;
+}
+
+/**
+ * Parses the pagination query params of a list endpoint: `limit`, and either `cursor`, the `nextCursor` returned
+ * with the previous page (empty for the first page), or `offset`. A cursor takes precedence over an offset.
+ */
+function parsePagination(url: URL, maxLimit: number): PageRequest | { error: string } {
+    const limit = safeParseInt(url.searchParams.get('limit'), 100, maxLimit);
+    const cursor = url.searchParams.get('cursor');
+    if (cursor === null) {
+        return { limit, offset: safeParseInt(url.searchParams.get('offset'), 0), keyset: false };
+    }
+    if (cursor === '') {
+        return { limit, offset: 0, keyset: true };
+    }
+
+    const after = decodePageCursor(cursor);
+    if (!after) {
+        return { error: 'Invalid cursor' };
+    }
+    return { limit, offset: 0, after, keyset: true };
+}
+
+/**
+ * GET /rbac/roles - List all roles with their direct and inherited permission names
  * Requires roles:read permission
- * Supports pagination via limit and offset query params
+ * Supports pagination via limit and cursor query params, oldest first, with the next page's cursor in the response;
+ * or via limit and offset, ordered by name
  */
 export async function handleListRoles(request: Request, env: Env): Promise<Response> {
     try {
@@ -167,25 +378,31 @@ export async function handleListRoles(request: Request, env: Env): Promise<Respo
         }
 
         // Parse pagination parameters with safe integer parsing
-        const url = new URL(request.url);
-        const limit = safeParseInt(url.searchParams.get('limit'), 100, 500);
-        const offset = safeParseInt(url.searchParams.get('offset'), 0);
+        const pagination = parsePagination(new URL(request.url), 500);
+        if ('error' in pagination) {
+            return createErrorResponse(pagination.error, 400);
+        }
+        const { limit, offset } = pagination;
+        const clauses = pageClauses(pagination, 'created_at', 'id', 'asc', 'name');
 
         // Query roles with pagination
         const query = `
-            SELECT id, name, description, created_at as createdAt
+            SELECT id, name, description, parent_role_id as parentRoleId, requires_approval as requiresApproval,
+                   created_at as createdAt
             FROM roles
-            ORDER BY name
-            LIMIT ? OFFSET ?
+            ${clauses.where}
+            ${clauses.orderAndLimit}
         `;
 
         const result = await env.usersDB
             .prepare(query)
-            .bind(limit, offset)
+            .bind(...clauses.bindings)
             .all<{
                 id: string;
                 name: string;
                 description: string;
+                parentRoleId: string | null;
+                requiresApproval: number;
                 createdAt: string;
             }>();
 
@@ -193,15 +410,25 @@ export async function handleListRoles(request: Request, env: Env): Promise<Respo
             throw new Error('Failed to retrieve roles');
         }
 
+        const rolePermissions = await getAllRolePermissionNames(env);
+
         // Convert to Role objects
-        const roles: Role[] = result.results.map(row => ({
+        const roles: (Role & { permissions: string[]; inheritedPermissions: string[] })[] = result.results.map(row => ({
             id: row.id,
             name: row.name,
             description: row.description,
-            createdAt: new Date(row.createdAt)
+            parentRoleId: row.parentRoleId,
+            requiresApproval: row.requiresApproval === 1,
+            createdAt: new Date(row.createdAt),
+            permissions: rolePermissions.get(row.id)?.permissions ?? [],
+            inheritedPermissions: rolePermissions.get(row.id)?.inheritedPermissions ?? []
         }));
 
-        return new Response(JSON.stringify({ roles, limit, offset }), {
+        const nextCursor = pagination.keyset
+            ? getNextPageCursor(roles, limit, role => ({ timestamp: role.createdAt, id: role.id }))
+            : null;
+
+        return new Response(JSON.stringify({ roles, limit, offset, nextCursor }), {
             headers: { 'Content-Type': 'application/json' }
         });
     } catch (error) {
@@ -212,7 +439,7 @@ export async function handleListRoles(request: Request, env: Env): Promise<Respo
 
 /**
  * POST /rbac/roles - Create new role
- * Requires roles:write permission
+ * Requires roles:write permission. Set `requiresApproval` to make assignments of the role wait for approval.
  */
 export async function handleCreateRole(request: Request, env: Env): Promise<Response> {
     try {
@@ -223,13 +450,26 @@ export async function handleCreateRole(request: Request, env: Env): Promise<Resp
         }
 
         // Parse request body
-        const body = await request.json() as { name: string; description?: string };
-        const { name, description } = body;
+        const body = await request.json() as {
+            name: string;
+            description?: string;
+            parentRoleId?: unknown;
+            requiresApproval?: unknown;
+        };
+        const { name, description, parentRoleId, requiresApproval } = body;
 
         if (!name || typeof name !== 'string' || name.trim().length === 0) {
             return new Response(JSON.stringify({ error: 'Role name is required' }), { status: 400 });
         }
 
+        if (parentRoleId !== undefined && typeof parentRoleId !== 'string') {
+            return new Response(JSON.stringify({ error: 'Parent role ID must be a string' }), { status: 400 });
+        }
+
+        if (requiresApproval !== undefined && typeof requiresApproval !== 'boolean') {
+            return new Response(JSON.stringify({ error: 'requiresApproval must be a boolean' }), { status: 400 });
+        }
+
         // Validate role name
         const nameError = validateRoleName(name);
         if (nameError) {
@@ -242,8 +482,12 @@ export async function handleCreateRole(request: Request, env: Env): Promise<Resp
             return new Response(JSON.stringify({ error: descError }), { status: 400 });
         }
 
+        if (parentRoleId !== undefined && !(await getRoleById(env, parentRoleId))) {
+            return new Response(JSON.stringify({ error: 'Parent role not found' }), { status: 400 });
+        }
+
         // Create the role
-        const role = await createRole(env, name.trim(), description);
+        const role = await createRole(env, name.trim(), description, parentRoleId, requiresApproval);
 
         // Get actor information for audit log
         const actorResult = await env.usersDB
@@ -283,281 +527,2368 @@ export async function handleCreateRole(request: Request, env: Env): Promise<Resp
 }
 
 /**
- * GET /rbac/permissions - List all permissions
+ * GET /rbac/roles/:roleId - Get a role with its direct and inherited permissions
  * Requires roles:read permission
- * Supports pagination via limit and offset query params
  */
-export async function handleListPermissions(request: Request, env: Env): Promise<Response> {
+export async function handleGetRole(request: Request, env: Env): Promise<Response> {
     try {
-        // Check permission - requires roles:read
         const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_READ);
         if (!authResult.authorized) {
             return authResult.error!;
         }
 
-        // Parse pagination parameters with safe integer parsing
-        const url = new URL(request.url);
-        const limit = safeParseInt(url.searchParams.get('limit'), 100, 500);
-        const offset = safeParseInt(url.searchParams.get('offset'), 0);
-
-        // Query permissions with pagination
-        const query = `
-            SELECT id, name, description, created_at as createdAt
-            FROM permissions
-            ORDER BY name
-            LIMIT ? OFFSET ?
-        `;
-
-        const result = await env.usersDB
-            .prepare(query)
-            .bind(limit, offset)
-            .all<{
-                id: string;
-                name: string;
-                description: string;
-                createdAt: string;
-            }>();
+        const roleId = getRoleIdFromPath(request);
+        if (!roleId) {
+            return createErrorResponse('Invalid role ID', 400);
+        }
 
-        if (!result.success) {
-            throw new Error('Failed to retrieve permissions');
+        const role = await getRoleById(env, roleId);
+        if (!role) {
+            return createErrorResponse('Role not found', 404);
         }
 
-        // Convert to Permission objects
-        const permissions: Permission[] = result.results.map(row => ({
-            id: row.id,
-            name: row.name,
-            description: row.description,
-            createdAt: new Date(row.createdAt)
-        }));
+        const [permissions, inheritedPermissions] = await Promise.all([
+            getRolePermissions(env, roleId),
+            getInheritedRolePermissions(env, roleId)
+        ]);
 
-        return new Response(JSON.stringify({ permissions, limit, offset }), {
+        return new Response(JSON.stringify({ role, permissions, inheritedPermissions }), {
             headers: { 'Content-Type': 'application/json' }
         });
     } catch (error) {
-        console.error('Error listing permissions:', error);
-        return new Response(JSON.stringify({ error: 'Internal server error' }), { status: 500 });
+        console.error('Error getting role:', error);
+        return createErrorResponse('Internal server error', 500);
     }
 }
 
 /**
- * GET /rbac/users/:userId/roles - Get user's roles
- * Requires authentication and either requesting own roles or roles:read permission
+ * PUT /rbac/roles/:roleId - Update a role's name, description, parent role and/or whether it requires approval
+ * Requires roles:write permission. Built-in roles can't be renamed.
+ * Setting `parentRoleId` to null stops the role inheriting permissions. Like other changes to who holds admin:all, a
+ * parent change is refused if it would leave nobody with it, and needs `confirm=true` to remove the caller's own.
+ * A parent change giving a holder of the role two mutually exclusive roles is refused with 409.
+ * Changing `requiresApproval` also requires roles:approve, so those whose grants need approval can't turn it off,
+ * and so does making the role inherit from one that requires approval, which would grant it to the role's holders.
  */
-export async function handleGetUserRoles(request: Request, env: Env): Promise<Response> {
+export async function handleUpdateRole(request: Request, env: Env): Promise<Response> {
     try {
-        // Extract userId from URL
-        const url = new URL(request.url);
-        const pathParts = url.pathname.split('/');
-        const userIdIndex = pathParts.indexOf('users') + 1;
-        const userIdStr = pathParts[userIdIndex];
-        
-        if (!userIdStr || isNaN(parseInt(userIdStr))) {
-            return new Response(JSON.stringify({ error: 'Invalid user ID' }), { status: 400 });
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_WRITE);
+        if (!authResult.authorized) {
+            return authResult.error!;
         }
-        
-        const userId = parseInt(userIdStr);
 
-        // Check if user is authenticated
-        const sessionId = getSessionIdFromCookies(request);
-        if (!sessionId) {
-            return new Response(JSON.stringify({ error: 'Authentication required' }), { status: 401 });
+        const roleId = getRoleIdFromPath(request);
+        if (!roleId) {
+            return createErrorResponse('Invalid role ID', 400);
         }
 
-        const rawSessionData = await loadSession(env, sessionId);
-        if (!rawSessionData || !isValidSessionData(rawSessionData)) {
-            return new Response(JSON.stringify({ error: 'Invalid session' }), { status: 401 });
+        let body: {
+            name?: unknown;
+            description?: unknown;
+            parentRoleId?: unknown;
+            requiresApproval?: unknown;
+        };
+        try {
+            body = await request.json() as typeof body;
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
         }
-        const sessionData = rawSessionData;
+        if (body.name !== undefined && typeof body.name !== 'string') {
+            return createErrorResponse('Role name must be a string', 400);
+        }
+        if (body.description !== undefined && typeof body.description !== 'string') {
+            return createErrorResponse('Description must be a string', 400);
+        }
+        if (body.parentRoleId !== undefined && body.parentRoleId !== null && typeof body.parentRoleId !== 'string') {
+            return createErrorResponse('Parent role ID must be a string or null', 400);
+        }
+        if (body.requiresApproval !== undefined && typeof body.requiresApproval !== 'boolean') {
+            return createErrorResponse('requiresApproval must be a boolean', 400);
+        }
+        const name = body.name?.trim();
+        const description = body.description;
+        const parentRoleId = body.parentRoleId;
+        const requiresApproval = body.requiresApproval;
 
-        // Get current user's ID for comparison
-        const currentUserResult = await env.usersDB
-            .prepare('SELECT UserID FROM User WHERE Username = ?')
-            .bind(sessionData.username)
-            .first<{ UserID: number }>();
-        
-        if (!currentUserResult) {
-            return new Response(JSON.stringify({ error: 'User not found' }), { status: 404 });
+        if (name === undefined && description === undefined && parentRoleId === undefined && requiresApproval === undefined) {
+            return createErrorResponse('Nothing to update', 400);
         }
 
-        // Check if requesting own roles or has permission
-        const isOwnRoles = currentUserResult.UserID === userId;
-        if (!isOwnRoles && sessionData.permissions && !hasPermission(sessionData.permissions, 'roles:read')) {
-            return new Response(JSON.stringify({ error: 'Insufficient permissions' }), { status: 403 });
+        if (name !== undefined) {
+            const nameError = validateRoleName(name);
+            if (nameError) {
+                return createErrorResponse(nameError, 400);
+            }
+        }
+
+        const descError = validateDescription(description);
+        if (descError) {
+            return createErrorResponse(descError, 400);
+        }
+
+        const role = await getRoleById(env, roleId);
+        if (!role) {
+            return createErrorResponse('Role not found', 404);
+        }
+
+        if (name !== undefined && name !== role.name && isBuiltInRole(role.name)) {
+            return createErrorResponse('Built-in roles cannot be renamed', 403);
+        }
+
+        if (typeof parentRoleId === 'string' && !(await getRoleById(env, parentRoleId))) {
+            return createErrorResponse('Parent role not found', 400);
+        }
+
+        const changes: Record<string, { from: string | boolean | null; to: string | boolean | null }> = {};
+        if (name !== undefined && name !== role.name) {
+            changes.name = { from: role.name, to: name };
+        }
+        if (description !== undefined && description !== role.description) {
+            changes.description = { from: role.description, to: description };
+        }
+        const currentParentRoleId = role.parentRoleId ?? null;
+        if (parentRoleId !== undefined && parentRoleId !== currentParentRoleId) {
+            changes.parentRoleId = { from: currentParentRoleId, to: parentRoleId };
+        }
+        const currentRequiresApproval = role.requiresApproval ?? false;
+        if (requiresApproval !== undefined && requiresApproval !== currentRequiresApproval) {
+            changes.requiresApproval = { from: currentRequiresApproval, to: requiresApproval };
+        }
+
+        const canApprove = hasPermission(authResult.sessionData!.permissions ?? [], PERMISSIONS.ROLES_APPROVE);
+        if (changes.requiresApproval && !canApprove) {
+            return createErrorResponse(`Changing whether a role requires approval needs ${PERMISSIONS.ROLES_APPROVE}`, 403);
+        }
+
+        // The role's holders would gain everything the new parent grants without anyone approving it
+        if (typeof changes.parentRoleId?.to === 'string' && !canApprove && await roleRequiresApproval(env, changes.parentRoleId.to)) {
+            return createErrorResponse(`Inheriting from a role that requires approval needs ${PERMISSIONS.ROLES_APPROVE}`, 403);
+        }
+
+        if (typeof changes.parentRoleId?.to === 'string' && (await getRoleDescendantIds(env, roleId)).includes(changes.parentRoleId.to)) {
+            return createErrorResponse('A role cannot inherit from itself or one of its descendants', 400);
+        }
+
+        if (typeof changes.parentRoleId?.to === 'string') {
+            const conflict = await findReparentConflict(env, roleId, changes.parentRoleId.to);
+            if (conflict) {
+                return roleConflictResponse(conflict);
+            }
+        }
+
+        const actorId = await getActorId(env, authResult.sessionData!.username);
+        if (changes.parentRoleId) {
+            // The role and its descendants lose whatever the old parent granted, which may be admin:all
+            const guardError = await guardAdminAccess(
+                request,
+                env,
+                actorId,
+                await getAdminHolderIds(env, { reparentRole: { roleId, parentRoleId: parentRoleId ?? null } })
+            );
+            if (guardError) {
+                return guardError;
+            }
         }
 
-        // Get user's roles
-        const roles = await getUserRoles(env, userId);
+        if (Object.keys(changes).length > 0) {
+            // Rename first so a duplicate name fails before the parent changes
+            if (changes.name || changes.description || changes.requiresApproval) {
+                await updateRole(env, roleId, { name, description, requiresApproval });
+            }
+            if (changes.parentRoleId) {
+                await setRoleParent(env, roleId, parentRoleId ?? null);
+            }
+
+            // Log the audit event (IP logging is GDPR-configurable)
+            if (actorId !== null) {
+                await logRoleUpdated(
+                    env,
+                    actorId,
+                    authResult.sessionData!.username,
+                    roleId,
+                    name ?? role.name,
+                    changes,
+                    getAuditIpAddress(request, env)
+                );
+            }
+        }
 
-        return new Response(JSON.stringify({ roles }), {
+        const updatedRole = {
+            ...role,
+            name: name ?? role.name,
+            description: description ?? role.description,
+            parentRoleId: parentRoleId !== undefined ? parentRoleId : currentParentRoleId,
+            requiresApproval: requiresApproval ?? currentRequiresApproval
+        };
+        return new Response(JSON.stringify({ role: updatedRole }), {
             headers: { 'Content-Type': 'application/json' }
         });
-    } catch (error) {
-        console.error('Error getting user roles:', error);
-        return new Response(JSON.stringify({ error: 'Internal server error' }), { status: 500 });
+    } catch (error: unknown) {
+        console.error('Error updating role:', error);
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage === 'DUPLICATE_ROLE_NAME') {
+            return createErrorResponse('Role with that name already exists', 409);
+        }
+        if (errorMessage === 'ROLE_HIERARCHY_CYCLE') {
+            return createErrorResponse('A role cannot inherit from itself or one of its descendants', 400);
+        }
+
+        return createErrorResponse('Internal server error', 500);
     }
 }
 
 /**
- * POST /rbac/users/:userId/roles - Assign role to user
- * Requires roles:assign permission
+ * DELETE /rbac/roles/:roleId - Delete a role
+ * Requires roles:write permission. Built-in roles can't be deleted.
+ * Users holding the role lose it, and their cached permissions are invalidated.
  */
-export async function handleAssignRole(request: Request, env: Env): Promise<Response> {
+export async function handleDeleteRole(request: Request, env: Env): Promise<Response> {
     try {
-        // Check permission
-        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_ASSIGN);
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_WRITE);
         if (!authResult.authorized) {
             return authResult.error!;
         }
 
-        // Extract userId from URL
-        const url = new URL(request.url);
-        const pathParts = url.pathname.split('/');
-        const userIdIndex = pathParts.indexOf('users') + 1;
-        const userIdStr = pathParts[userIdIndex];
+        const roleId = getRoleIdFromPath(request);
+        if (!roleId) {
+            return createErrorResponse('Invalid role ID', 400);
+        }
 
-        if (!userIdStr || isNaN(parseInt(userIdStr))) {
-            return new Response(JSON.stringify({ error: 'Invalid user ID' }), { status: 400 });
+        const role = await getRoleById(env, roleId);
+        if (!role) {
+            return createErrorResponse('Role not found', 404);
         }
 
-        const userId = parseInt(userIdStr);
+        if (isBuiltInRole(role.name)) {
+            return createErrorResponse('Built-in roles cannot be deleted', 403);
+        }
 
-        // Parse request body
-        const body = await request.json() as { roleId: string };
-        const { roleId } = body;
+        const actorId = await getActorId(env, authResult.sessionData!.username);
+        const guardError = await guardAdminAccess(
+            request,
+            env,
+            actorId,
+            await getAdminHolderIds(env, { deleteRole: roleId })
+        );
+        if (guardError) {
+            return guardError;
+        }
 
-        if (!roleId || typeof roleId !== 'string') {
+        const affectedUsers = await deleteRole(env, roleId);
+
+        // Log the audit event (IP logging is GDPR-configurable)
+        if (actorId !== null) {
+            await logRoleDeleted(
+                env,
+                actorId,
+                authResult.sessionData!.username,
+                roleId,
+                role.name,
+                affectedUsers,
+                getAuditIpAddress(request, env)
+            );
+        }
+
+        return new Response(JSON.stringify({ message: 'Role deleted successfully', affectedUsers }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error deleting role:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * GET /rbac/roles/:roleId/permissions - List the permissions granted to a role
+ * Requires roles:read permission
+ */
+export async function handleGetRolePermissions(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_READ);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const roleId = getRoleIdFromPath(request);
+        if (!roleId) {
+            return createErrorResponse('Invalid role ID', 400);
+        }
+
+        const role = await getRoleById(env, roleId);
+        if (!role) {
+            return createErrorResponse('Role not found', 404);
+        }
+
+        const permissions = await getRolePermissions(env, roleId);
+
+        return new Response(JSON.stringify({ permissions }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error listing role permissions:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * Shared implementation of granting and revoking a role permission.
+ * The permission is identified by `permissionId` or `permissionName` in the request body.
+ */
+async function changeRolePermission(request: Request, env: Env, grant: boolean): Promise<Response> {
+    const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_WRITE);
+    if (!authResult.authorized) {
+        return authResult.error!;
+    }
+
+    const roleId = getRoleIdFromPath(request);
+    if (!roleId) {
+        return createErrorResponse('Invalid role ID', 400);
+    }
+
+    let body: { permissionId?: unknown; permissionName?: unknown };
+    try {
+        body = await request.json() as { permissionId?: unknown; permissionName?: unknown };
+    } catch {
+        return createErrorResponse('Invalid JSON body', 400);
+    }
+    const permissionId = typeof body.permissionId === 'string' ? body.permissionId : null;
+    const permissionName = typeof body.permissionName === 'string' ? body.permissionName : null;
+    if (!permissionId && !permissionName) {
+        return createErrorResponse('Permission ID or name is required', 400);
+    }
+
+    const [role, permission] = await Promise.all([
+        getRoleById(env, roleId),
+        env.usersDB
+            .prepare('SELECT id, name FROM permissions WHERE id = ? OR name = ?')
+            .bind(permissionId, permissionName)
+            .first<{ id: string; name: string }>()
+    ]);
+
+    if (!role) {
+        return createErrorResponse('Role not found', 404);
+    }
+
+    if (!permission) {
+        return createErrorResponse('Permission not found', 404);
+    }
+
+    // SUPER_ADMIN must always hold every permission
+    if (role.name === ROLES.SUPER_ADMIN) {
+        return createErrorResponse('SUPER_ADMIN permissions cannot be modified', 403);
+    }
+
+    // admin:all gives the role's holders everything SUPER_ADMIN has, which is only granted with approval
+    if (grant && permission.name === PERMISSIONS.ADMIN_ALL
+        && !hasPermission(authResult.sessionData!.permissions ?? [], PERMISSIONS.ROLES_APPROVE)) {
+        return createErrorResponse(`Granting ${PERMISSIONS.ADMIN_ALL} needs ${PERMISSIONS.ROLES_APPROVE}`, 403);
+    }
+
+    const actorId = await getActorId(env, authResult.sessionData!.username);
+    if (!grant && permission.name === PERMISSIONS.ADMIN_ALL) {
+        const guardError = await guardAdminAccess(
+            request,
+            env,
+            actorId,
+            await getAdminHolderIds(env, { revokeAdminFromRole: roleId })
+        );
+        if (guardError) {
+            return guardError;
+        }
+    }
+
+    const changed = grant
+        ? await grantPermissionToRole(env, roleId, permission.id)
+        : await revokePermissionFromRole(env, roleId, permission.id);
+
+    if (!changed) {
+        return grant
+            ? createErrorResponse('Role already has that permission', 409)
+            : createErrorResponse('Role does not have that permission', 404);
+    }
+
+    // Log the audit event (IP logging is GDPR-configurable)
+    if (actorId !== null) {
+        await logRolePermissionChanged(
+            env,
+            grant ? 'ROLE_PERMISSION_GRANTED' : 'ROLE_PERMISSION_REVOKED',
+            actorId,
+            authResult.sessionData!.username,
+            role.id,
+            role.name,
+            permission.id,
+            permission.name,
+            getAuditIpAddress(request, env)
+        );
+    }
+
+    return new Response(JSON.stringify({
+        message: grant ? 'Permission granted successfully' : 'Permission revoked successfully'
+    }), {
+        status: grant ? 201 : 200,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+/**
+ * POST /rbac/roles/:roleId/permissions - Grant a permission to a role
+ * Requires roles:write permission, and roles:approve to grant admin:all. SUPER_ADMIN's permissions can't be changed.
+ */
+export async function handleGrantRolePermission(request: Request, env: Env): Promise<Response> {
+    try {
+        return await changeRolePermission(request, env, true);
+    } catch (error) {
+        console.error('Error granting role permission:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * DELETE /rbac/roles/:roleId/permissions - Revoke a permission from a role
+ * Requires roles:write permission. SUPER_ADMIN's permissions can't be changed.
+ */
+export async function handleRevokeRolePermission(request: Request, env: Env): Promise<Response> {
+    try {
+        return await changeRolePermission(request, env, false);
+    } catch (error) {
+        console.error('Error revoking role permission:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * GET /rbac/permissions - List all permissions
+ * Requires roles:read permission
+ * Supports pagination via limit and cursor query params, oldest first, with the next page's cursor in the response;
+ * or via limit and offset, ordered by name
+ */
+export async function handleListPermissions(request: Request, env: Env): Promise<Response> {
+    try {
+        // Check permission - requires roles:read
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_READ);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        // Parse pagination parameters with safe integer parsing
+        const pagination = parsePagination(new URL(request.url), 500);
+        if ('error' in pagination) {
+            return createErrorResponse(pagination.error, 400);
+        }
+        const { limit, offset } = pagination;
+        const clauses = pageClauses(pagination, 'created_at', 'id', 'asc', 'name');
+
+        // Query permissions with pagination
+        const query = `
+            SELECT id, name, description, created_at as createdAt
+            FROM permissions
+            ${clauses.where}
+            ${clauses.orderAndLimit}
+        `;
+
+        const result = await env.usersDB
+            .prepare(query)
+            .bind(...clauses.bindings)
+            .all<{
+                id: string;
+                name: string;
+                description: string;
+                createdAt: string;
+            }>();
+
+        if (!result.success) {
+            throw new Error('Failed to retrieve permissions');
+        }
+
+        // Convert to Permission objects
+        const permissions: Permission[] = result.results.map(row => ({
+            id: row.id,
+            name: row.name,
+            description: row.description,
+            createdAt: new Date(row.createdAt)
+        }));
+
+        const nextCursor = pagination.keyset
+            ? getNextPageCursor(permissions, limit, permission => ({ timestamp: permission.createdAt, id: permission.id }))
+            : null;
+
+        return new Response(JSON.stringify({ permissions, limit, offset, nextCursor }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error listing permissions:', error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), { status: 500 });
+    }
+}
+
+/**
+ * POST /rbac/permissions - Create a new permission
+ * Requires permissions:write permission
+ */
+export async function handleCreatePermission(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.PERMISSIONS_WRITE);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        let body: { name?: unknown; description?: unknown };
+        try {
+            body = await request.json() as { name?: unknown; description?: unknown };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        if (typeof body.name !== 'string' || body.name.trim().length === 0) {
+            return createErrorResponse('Permission name is required', 400);
+        }
+        if (body.description !== undefined && typeof body.description !== 'string') {
+            return createErrorResponse('Description must be a string', 400);
+        }
+        const name = body.name.trim();
+        const description = body.description;
+
+        const nameError = validatePermissionName(name);
+        if (nameError) {
+            return createErrorResponse(nameError, 400);
+        }
+
+        const descError = validateDescription(description);
+        if (descError) {
+            return createErrorResponse(descError, 400);
+        }
+
+        const permission = await createPermission(env, name, description);
+
+        // Log the audit event (IP logging is GDPR-configurable)
+        const actorId = await getActorId(env, authResult.sessionData!.username);
+        if (actorId !== null) {
+            await logPermissionCreated(
+                env,
+                actorId,
+                authResult.sessionData!.username,
+                permission.id,
+                permission.name,
+                permission.description,
+                getAuditIpAddress(request, env)
+            );
+        }
+
+        return new Response(JSON.stringify({ permission }), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error: unknown) {
+        console.error('Error creating permission:', error);
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage === 'DUPLICATE_PERMISSION_NAME') {
+            return createErrorResponse('Permission with that name already exists', 409);
+        }
+
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * PUT /rbac/permissions/:permissionId - Update a permission's name and/or description
+ * Requires permissions:write permission. Permissions used by this worker can't be renamed.
+ */
+export async function handleUpdatePermission(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.PERMISSIONS_WRITE);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const permissionId = getPermissionIdFromPath(request);
+        if (!permissionId) {
+            return createErrorResponse('Invalid permission ID', 400);
+        }
+
+        let body: { name?: unknown; description?: unknown };
+        try {
+            body = await request.json() as { name?: unknown; description?: unknown };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        if (body.name !== undefined && typeof body.name !== 'string') {
+            return createErrorResponse('Permission name must be a string', 400);
+        }
+        if (body.description !== undefined && typeof body.description !== 'string') {
+            return createErrorResponse('Description must be a string', 400);
+        }
+        const name = body.name?.trim();
+        const description = body.description;
+
+        if (name === undefined && description === undefined) {
+            return createErrorResponse('Nothing to update', 400);
+        }
+
+        if (name !== undefined) {
+            const nameError = validatePermissionName(name);
+            if (nameError) {
+                return createErrorResponse(nameError, 400);
+            }
+        }
+
+        const descError = validateDescription(description);
+        if (descError) {
+            return createErrorResponse(descError, 400);
+        }
+
+        const permission = await getPermissionById(env, permissionId);
+        if (!permission) {
+            return createErrorResponse('Permission not found', 404);
+        }
+
+        if (name !== undefined && name !== permission.name && isSystemPermission(permission.name)) {
+            return createErrorResponse('System permissions cannot be renamed', 403);
+        }
+
+        const changes: Record<string, { from: string; to: string }> = {};
+        if (name !== undefined && name !== permission.name) {
+            changes.name = { from: permission.name, to: name };
+        }
+        if (description !== undefined && description !== permission.description) {
+            changes.description = { from: permission.description, to: description };
+        }
+
+        if (Object.keys(changes).length > 0) {
+            await updatePermission(env, permissionId, {
+                name: changes.name ? name : undefined,
+                description
+            });
+
+            // Log the audit event (IP logging is GDPR-configurable)
+            const actorId = await getActorId(env, authResult.sessionData!.username);
+            if (actorId !== null) {
+                await logPermissionUpdated(
+                    env,
+                    actorId,
+                    authResult.sessionData!.username,
+                    permissionId,
+                    name ?? permission.name,
+                    changes,
+                    getAuditIpAddress(request, env)
+                );
+            }
+        }
+
+        const updatedPermission = {
+            ...permission,
+            name: name ?? permission.name,
+            description: description ?? permission.description
+        };
+        return new Response(JSON.stringify({ permission: updatedPermission }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error: unknown) {
+        console.error('Error updating permission:', error);
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage === 'DUPLICATE_PERMISSION_NAME') {
+            return createErrorResponse('Permission with that name already exists', 409);
+        }
+
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * DELETE /rbac/permissions/:permissionId - Delete a permission
+ * Requires permissions:write permission. Permissions used by this worker can't be deleted.
+ * Permissions still granted to roles are only deleted with `?force=true`, which detaches them first.
+ */
+export async function handleDeletePermission(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.PERMISSIONS_WRITE);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const permissionId = getPermissionIdFromPath(request);
+        if (!permissionId) {
+            return createErrorResponse('Invalid permission ID', 400);
+        }
+
+        const permission = await getPermissionById(env, permissionId);
+        if (!permission) {
+            return createErrorResponse('Permission not found', 404);
+        }
+
+        if (isSystemPermission(permission.name)) {
+            return createErrorResponse('System permissions cannot be deleted', 403);
+        }
+
+        const roleIds = await getPermissionRoleIds(env, permissionId);
+        const force = new URL(request.url).searchParams.get('force') === 'true';
+        if (roleIds.length > 0 && !force) {
+            return new Response(JSON.stringify({
+                error: 'Permission is still granted to roles; use force=true to detach and delete it',
+                roleIds
+            }), {
+                status: 409,
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        await deletePermission(env, permissionId);
+
+        // Log the audit event (IP logging is GDPR-configurable)
+        const actorId = await getActorId(env, authResult.sessionData!.username);
+        if (actorId !== null) {
+            await logPermissionDeleted(
+                env,
+                actorId,
+                authResult.sessionData!.username,
+                permission.id,
+                permission.name,
+                roleIds,
+                getAuditIpAddress(request, env)
+            );
+        }
+
+        return new Response(JSON.stringify({ message: 'Permission deleted successfully', detachedRoleIds: roleIds }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error deleting permission:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * GET /rbac/users/:userId/roles - Get user's roles
+ * Requires authentication and either requesting own roles or roles:read permission
+ */
+export async function handleGetUserRoles(request: Request, env: Env): Promise<Response> {
+    try {
+        // Extract userId from URL
+        const url = new URL(request.url);
+        const pathParts = url.pathname.split('/');
+        const userIdIndex = pathParts.indexOf('users') + 1;
+        const userIdStr = pathParts[userIdIndex];
+        
+        if (!userIdStr || isNaN(parseInt(userIdStr))) {
+            return new Response(JSON.stringify({ error: 'Invalid user ID' }), { status: 400 });
+        }
+        
+        const userId = parseInt(userIdStr);
+
+        // Check if user is authenticated
+        const sessionId = getSessionIdFromCookies(request);
+        if (!sessionId) {
+            return new Response(JSON.stringify({ error: 'Authentication required' }), { status: 401 });
+        }
+
+        const rawSessionData = await loadSession(env, sessionId);
+        if (!rawSessionData || !isValidSessionData(rawSessionData)) {
+            return new Response(JSON.stringify({ error: 'Invalid session' }), { status: 401 });
+        }
+        const sessionData = rawSessionData;
+
+        // Get current user's ID for comparison
+        const currentUserResult = await env.usersDB
+            .prepare('SELECT UserID FROM User WHERE Username = ?')
+            .bind(sessionData.username)
+            .first<{ UserID: number }>();
+        
+        if (!currentUserResult) {
+            return new Response(JSON.stringify({ error: 'User not found' }), { status: 404 });
+        }
+
+        // Check if requesting own roles or has permission
+        const isOwnRoles = currentUserResult.UserID === userId;
+        if (!isOwnRoles && !hasPermission(await getUserPermissions(env, currentUserResult.UserID), 'roles:read')) {
+            return new Response(JSON.stringify({ error: 'Insufficient permissions' }), { status: 403 });
+        }
+
+        // Get user's global and resource-scoped roles
+        const [roles, scopedRoles] = await Promise.all([
+            getUserRoles(env, userId, { includePending: true }),
+            getUserScopedRoles(env, userId)
+        ]);
+
+        return new Response(JSON.stringify({ roles, scopedRoles }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error getting user roles:', error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), { status: 500 });
+    }
+}
+
+/**
+ * GET /rbac/users/:userId/permissions/explain?permission=... - Explain whether a user has a permission
+ * Requires roles:read permission
+ * Returns the user's effective permissions and the grants (role, inheritance, group) behind the permission,
+ * or the reason it is missing
+ */
+export async function handleExplainUserPermission(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_READ);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const url = new URL(request.url);
+        const pathParts = url.pathname.split('/');
+        const userIdStr = pathParts[pathParts.indexOf('users') + 1];
+        if (!userIdStr || !/^\d+$/.test(userIdStr)) {
+            return createErrorResponse('Invalid user ID', 400);
+        }
+        const userId = parseInt(userIdStr, 10);
+
+        const permission = url.searchParams.get('permission')?.trim();
+        if (!permission) {
+            return createErrorResponse('permission query parameter is required', 400);
+        }
+        if (permission.length > VALIDATION.PERMISSION_NAME_MAX_LENGTH) {
+            return createErrorResponse(`Permission name must be at most ${VALIDATION.PERMISSION_NAME_MAX_LENGTH} characters`, 400);
+        }
+
+        const user = await env.usersDB
+            .prepare('SELECT UserID, Username FROM User WHERE UserID = ?')
+            .bind(userId)
+            .first<{ UserID: number; Username: string }>();
+        if (!user) {
+            return createErrorResponse('User not found', 404);
+        }
+
+        const explanation = await explainUserPermission(env, userId, permission);
+
+        return new Response(JSON.stringify({ userId: user.UserID, username: user.Username, ...explanation }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error explaining user permission:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /rbac/users/:userId/roles - Assign role to user
+ * Requires roles:assign permission
+ * Pass `scopeType` and `scopeId` to assign the role on a single resource instead of globally,
+ * or ISO 8601 `startsAt` and/or `expiresAt` to grant a global role for a limited time
+ * Roles that require approval aren't assigned: a pending request is created instead and 202 returned
+ * Global assignments that would give the user two mutually exclusive roles are refused with 409
+ */
+export async function handleAssignRole(request: Request, env: Env): Promise<Response> {
+    try {
+        // Check permission
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_ASSIGN);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        // Extract userId from URL
+        const url = new URL(request.url);
+        const pathParts = url.pathname.split('/');
+        const userIdIndex = pathParts.indexOf('users') + 1;
+        const userIdStr = pathParts[userIdIndex];
+
+        if (!userIdStr || isNaN(parseInt(userIdStr))) {
+            return new Response(JSON.stringify({ error: 'Invalid user ID' }), { status: 400 });
+        }
+
+        const userId = parseInt(userIdStr);
+
+        // Parse request body
+        const body = await request.json() as {
+            roleId: string;
+            scopeType?: unknown;
+            scopeId?: unknown;
+            startsAt?: unknown;
+            expiresAt?: unknown;
+        };
+        const { roleId } = body;
+
+        if (!roleId || typeof roleId !== 'string') {
             return new Response(JSON.stringify({ error: 'Role ID is required' }), { status: 400 });
         }
 
-        // Batch queries: fetch target user, actor user, and role in parallel using separate indexed queries
-        const [targetUserResult, actorUserResult, roleResult] = await Promise.all([
-            // Target user by ID (indexed lookup)
+        const scopeResult = parseResourceScope(body.scopeType, body.scopeId);
+        if ('error' in scopeResult) {
+            return new Response(JSON.stringify({ error: scopeResult.error }), { status: 400 });
+        }
+        const { scope } = scopeResult;
+
+        const windowResult = parseAssignmentWindow(body.startsAt, body.expiresAt);
+        if ('error' in windowResult) {
+            return new Response(JSON.stringify({ error: windowResult.error }), { status: 400 });
+        }
+        const { window } = windowResult;
+        if (scope && (window.startsAt || window.expiresAt)) {
+            return new Response(JSON.stringify({ error: 'Scoped role assignments cannot be time-bound' }), { status: 400 });
+        }
+
+        // Batch queries: fetch target user, actor user, and role in parallel using separate indexed queries
+        const [targetUserResult, actorUserResult, roleResult] = await Promise.all([
+            // Target user by ID (indexed lookup)
+            env.usersDB
+                .prepare('SELECT UserID, Username FROM User WHERE UserID = ?')
+                .bind(userId)
+                .first<{ UserID: number; Username: string }>(),
+            // Actor user by username (indexed lookup)
+            env.usersDB
+                .prepare('SELECT UserID, Username FROM User WHERE Username = ?')
+                .bind(authResult.sessionData!.username)
+                .first<{ UserID: number; Username: string }>(),
+            // Role details
+            env.usersDB
+                .prepare('SELECT id, name FROM roles WHERE id = ?')
+                .bind(roleId)
+                .first<{ id: string; name: string }>()
+        ]);
+
+        if (!targetUserResult) {
+            return new Response(JSON.stringify({ error: 'User not found' }), { status: 404 });
+        }
+
+        if (!roleResult) {
+            return new Response(JSON.stringify({ error: 'Role not found' }), { status: 404 });
+        }
+
+        const conflict = await findRoleConflict(env, roleId, { userId, scope: scope ?? undefined });
+        if (conflict) {
+            return roleConflictResponse(conflict);
+        }
+
+        if (await roleRequiresApproval(env, roleId)) {
+            if (!actorUserResult) {
+                return createErrorResponse('Insufficient permissions', 403);
+            }
+
+            const grantRequest = await createRoleGrantRequest(
+                env,
+                userId,
+                roleId,
+                actorUserResult.UserID,
+                getRoleGrantRequestTtlSeconds(env),
+                { scope, window }
+            );
+            await logRoleGrantRequestEvent(
+                env,
+                'ROLE_GRANT_REQUESTED',
+                actorUserResult.UserID,
+                authResult.sessionData!.username,
+                grantRequest,
+                getAuditIpAddress(request, env)
+            );
+
+            return new Response(JSON.stringify({
+                message: 'Role requires approval; the request is pending',
+                request: grantRequest
+            }), {
+                status: 202,
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        // Assign the role
+        if (scope) {
+            await assignScopedRole(env, userId, roleId, scope);
+        } else {
+            await assignRole(env, userId, roleId, window);
+        }
+
+        // Log the audit event (IP logging is GDPR-configurable)
+        if (actorUserResult) {
+            await logRoleAssigned(
+                env,
+                actorUserResult.UserID,
+                authResult.sessionData!.username,
+                targetUserResult.UserID,
+                targetUserResult.Username,
+                roleResult.id,
+                roleResult.name,
+                getAuditIpAddress(request, env),
+                { scope: scope ?? undefined, ...window }
+            );
+        }
+
+        return new Response(JSON.stringify({ message: 'Role assigned successfully' }), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error assigning role:', error);
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage === 'DUPLICATE_ROLE_GRANT_REQUEST') {
+            return createErrorResponse('A request for this role is already pending', 409);
+        }
+        if (errorMessage === 'ROLE_CONFLICT') {
+            return createErrorResponse('Role conflicts with a role the user already holds', 409);
+        }
+
+        return new Response(JSON.stringify({ error: 'Internal server error' }), { status: 500 });
+    }
+}
+
+/**
+ * DELETE /rbac/users/:userId/roles/:roleId - Remove role from user
+ * Requires roles:assign permission
+ * Pass `?scopeType=&scopeId=` to remove a role assigned on a single resource
+ */
+export async function handleRemoveRole(request: Request, env: Env): Promise<Response> {
+    try {
+        // Check permission
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_ASSIGN);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        // Extract userId and roleId from URL
+        const url = new URL(request.url);
+        const pathParts = url.pathname.split('/');
+        const userIdIndex = pathParts.indexOf('users') + 1;
+        const rolesIndex = pathParts.indexOf('roles', userIdIndex) + 1;
+
+        const userIdStr = pathParts[userIdIndex];
+        const roleId = pathParts[rolesIndex];
+
+        if (!userIdStr || isNaN(parseInt(userIdStr))) {
+            return new Response(JSON.stringify({ error: 'Invalid user ID' }), { status: 400 });
+        }
+
+        if (!roleId) {
+            return new Response(JSON.stringify({ error: 'Invalid role ID' }), { status: 400 });
+        }
+
+        const userId = parseInt(userIdStr);
+
+        const scopeResult = parseResourceScope(
+            url.searchParams.get('scopeType') ?? undefined,
+            url.searchParams.get('scopeId') ?? undefined
+        );
+        if ('error' in scopeResult) {
+            return new Response(JSON.stringify({ error: scopeResult.error }), { status: 400 });
+        }
+        const { scope } = scopeResult;
+
+        // Batch queries: fetch target user, actor user, and role in parallel using separate indexed queries
+        const [targetUserResult, actorUserResult, roleResult] = await Promise.all([
+            // Target user by ID (indexed lookup)
+            env.usersDB
+                .prepare('SELECT UserID, Username FROM User WHERE UserID = ?')
+                .bind(userId)
+                .first<{ UserID: number; Username: string }>(),
+            // Actor user by username (indexed lookup)
+            env.usersDB
+                .prepare('SELECT UserID, Username FROM User WHERE Username = ?')
+                .bind(authResult.sessionData!.username)
+                .first<{ UserID: number; Username: string }>(),
+            // Role details
+            env.usersDB
+                .prepare('SELECT id, name FROM roles WHERE id = ?')
+                .bind(roleId)
+                .first<{ id: string; name: string }>()
+        ]);
+
+        // Scoped roles never grant admin:all, so only global removals can lock administrators out
+        if (!scope) {
+            const guardError = await guardAdminAccess(
+                request,
+                env,
+                actorUserResult?.UserID ?? null,
+                await getAdminHolderIds(env, { removeUserRole: { userId, roleId } })
+            );
+            if (guardError) {
+                return guardError;
+            }
+        }
+
+        // Remove the role
+        if (scope) {
+            await removeScopedRole(env, userId, roleId, scope);
+        } else {
+            await removeRole(env, userId, roleId);
+        }
+
+        // Log the audit event (IP logging is GDPR-configurable)
+        if (actorUserResult && targetUserResult && roleResult) {
+            await logRoleRemoved(
+                env,
+                actorUserResult.UserID,
+                authResult.sessionData!.username,
+                targetUserResult.UserID,
+                targetUserResult.Username,
+                roleResult.id,
+                roleResult.name,
+                getAuditIpAddress(request, env),
+                scope ?? undefined
+            );
+        }
+
+        return new Response(JSON.stringify({ message: 'Role removed successfully' }), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error removing role:', error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), { status: 500 });
+    }
+}
+
+const ROLE_GRANT_REQUEST_STATUSES: RoleGrantRequestStatus[] = ['PENDING', 'APPROVED', 'REJECTED', 'EXPIRED', 'CANCELLED'];
+
+/**
+ * GET /rbac/role-requests - List requests for roles that require approval, newest first
+ * Requires roles:read permission
+ * Filter with `?status=PENDING|APPROVED|REJECTED|EXPIRED|CANCELLED`; supports pagination via limit and cursor (or offset) query
+ * params, and responses include the next page's cursor
+ */
+export async function handleListRoleGrantRequests(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_READ);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const url = new URL(request.url);
+        const status = url.searchParams.get('status') ?? undefined;
+        if (status !== undefined && !ROLE_GRANT_REQUEST_STATUSES.includes(status as RoleGrantRequestStatus)) {
+            return createErrorResponse(`status must be one of ${ROLE_GRANT_REQUEST_STATUSES.join(', ')}`, 400);
+        }
+        const pagination = parsePagination(url, 500);
+        if ('error' in pagination) {
+            return createErrorResponse(pagination.error, 400);
+        }
+        const { limit, offset, after } = pagination;
+
+        const requests = await listRoleGrantRequests(env, status as RoleGrantRequestStatus | undefined, limit, offset, after);
+        const nextCursor = getNextPageCursor(requests, limit, grantRequest => ({ timestamp: grantRequest.requestedAt, id: grantRequest.id }));
+
+        return new Response(JSON.stringify({ requests, limit, offset, nextCursor }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error listing role grant requests:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * Shared implementation of approving and rejecting a role grant request.
+ */
+async function decideRoleGrant(request: Request, env: Env, approve: boolean): Promise<Response> {
+    const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_APPROVE);
+    if (!authResult.authorized) {
+        return authResult.error!;
+    }
+
+    const pathParts = new URL(request.url).pathname.split('/');
+    const requestId = pathParts[pathParts.indexOf('role-requests') + 1];
+    if (!requestId) {
+        return createErrorResponse('Invalid request ID', 400);
+    }
+
+    let note: string | undefined;
+    if (request.headers.get('Content-Type')?.includes('application/json')) {
+        let body: { note?: unknown };
+        try {
+            body = await request.json() as { note?: unknown };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        if (body.note !== undefined && typeof body.note !== 'string') {
+            return createErrorResponse('Note must be a string', 400);
+        }
+        note = body.note?.trim() || undefined;
+    }
+    if (note !== undefined && note.length > VALIDATION.ROLE_GRANT_NOTE_MAX_LENGTH) {
+        return createErrorResponse(`Note must be ${VALIDATION.ROLE_GRANT_NOTE_MAX_LENGTH} characters or less`, 400);
+    }
+
+    const actorId = await getActorId(env, authResult.sessionData!.username);
+    if (actorId === null) {
+        return createErrorResponse('Insufficient permissions', 403);
+    }
+
+    const pendingRequest = await getRoleGrantRequest(env, decodeURIComponent(requestId));
+    if (!pendingRequest) {
+        return createErrorResponse('Role request not found', 404);
+    }
+
+    try {
+        const grantRequest = await decideRoleGrantRequest(env, decodeURIComponent(requestId), actorId, approve, note);
+
+        // Log the audit event (IP logging is GDPR-configurable)
+        await logRoleGrantRequestEvent(
+            env,
+            approve ? 'ROLE_GRANT_APPROVED' : 'ROLE_GRANT_REJECTED',
+            actorId,
+            authResult.sessionData!.username,
+            grantRequest,
+            getAuditIpAddress(request, env)
+        );
+        if (approve) {
+            await logRoleAssigned(
+                env,
+                actorId,
+                authResult.sessionData!.username,
+                grantRequest.userId,
+                grantRequest.username,
+                grantRequest.roleId,
+                grantRequest.roleName,
+                getAuditIpAddress(request, env),
+                {
+                    scope: grantRequest.scope ?? undefined,
+                    startsAt: grantRequest.startsAt ?? undefined,
+                    expiresAt: grantRequest.expiresAt ?? undefined
+                }
+            );
+        }
+
+        return new Response(JSON.stringify({
+            message: approve ? 'Role request approved' : 'Role request rejected',
+            request: grantRequest
+        }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage === 'ROLE_GRANT_SELF_APPROVAL') {
+            return createErrorResponse('Role requests must be decided by someone other than the requester and the recipient', 403);
+        }
+        if (errorMessage === 'ROLE_GRANT_REQUEST_NOT_PENDING') {
+            return createErrorResponse('Role request has already been decided or has expired', 409);
+        }
+        if (errorMessage === 'ROLE_CONFLICT') {
+            const conflict = await findRoleConflict(env, pendingRequest.roleId, {
+                userId: pendingRequest.userId,
+                scope: pendingRequest.scope ?? undefined
+            });
+            return conflict
+                ? roleConflictResponse(conflict)
+                : createErrorResponse('Role conflicts with a role the user already holds', 409);
+        }
+        throw error;
+    }
+}
+
+/**
+ * POST /rbac/role-requests/:requestId/approve - Approve a pending role request, assigning the role
+ * Requires roles:approve permission. The approver can't be the requester or the user receiving the role.
+ * Refused with 409, leaving the request pending, if the user has since gained a conflicting role.
+ * Optional body: `{ note }`
+ */
+export async function handleApproveRoleGrantRequest(request: Request, env: Env): Promise<Response> {
+    try {
+        return await decideRoleGrant(request, env, true);
+    } catch (error) {
+        console.error('Error approving role grant request:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /rbac/role-requests/:requestId/reject - Reject a pending role request
+ * Requires roles:approve permission. The rejecter can't be the requester or the user receiving the role.
+ * Optional body: `{ note }`
+ */
+export async function handleRejectRoleGrantRequest(request: Request, env: Env): Promise<Response> {
+    try {
+        return await decideRoleGrant(request, env, false);
+    } catch (error) {
+        console.error('Error rejecting role grant request:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * GET /rbac/role-constraints - List the pairs of roles that no user may hold together, oldest first
+ * Requires roles:read permission
+ * Supports pagination via limit and cursor (or offset) query params; responses include the next page's cursor
+ */
+export async function handleListRoleConstraints(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_READ);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const pagination = parsePagination(new URL(request.url), 500);
+        if ('error' in pagination) {
+            return createErrorResponse(pagination.error, 400);
+        }
+        const { limit, offset } = pagination;
+
+        const constraints = await listRoleConstraints(env, pagination);
+        const nextCursor = getNextPageCursor(constraints, limit, constraint => ({ timestamp: constraint.createdAt, id: constraint.id }));
+
+        return new Response(JSON.stringify({ constraints, limit, offset, nextCursor }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error listing role constraints:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /rbac/role-constraints - Make two roles mutually exclusive
+ * Requires roles:write permission
+ * Body: `{ roleId, conflictingRoleId, description? }`. Users who already hold both roles keep them and are
+ * returned as `violations`, so they can be resolved by hand.
+ */
+export async function handleCreateRoleConstraint(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_WRITE);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        let body: { roleId?: unknown; conflictingRoleId?: unknown; description?: unknown };
+        try {
+            body = await request.json() as { roleId?: unknown; conflictingRoleId?: unknown; description?: unknown };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        if (typeof body.roleId !== 'string' || !body.roleId || typeof body.conflictingRoleId !== 'string' || !body.conflictingRoleId) {
+            return createErrorResponse('Role ID and conflicting role ID are required', 400);
+        }
+        if (body.description !== undefined && typeof body.description !== 'string') {
+            return createErrorResponse('Description must be a string', 400);
+        }
+        const descriptionError = validateDescription(body.description);
+        if (descriptionError) {
+            return createErrorResponse(descriptionError, 400);
+        }
+
+        const [role, conflictingRole] = await Promise.all([
+            getRoleById(env, body.roleId),
+            getRoleById(env, body.conflictingRoleId)
+        ]);
+        if (!role || !conflictingRole) {
+            return createErrorResponse('Role not found', 404);
+        }
+
+        const actorId = await getActorId(env, authResult.sessionData!.username);
+
+        let constraint: RoleConstraint;
+        try {
+            constraint = await createRoleConstraint(env, role.id, conflictingRole.id, body.description, actorId ?? undefined);
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            if (errorMessage === 'INVALID_ROLE_CONSTRAINT') {
+                return createErrorResponse('A role cannot conflict with itself or with a role it inherits from or passes on', 400);
+            }
+            if (errorMessage === 'DUPLICATE_ROLE_CONSTRAINT') {
+                return createErrorResponse('These roles are already mutually exclusive', 409);
+            }
+            throw error;
+        }
+
+        const violations = await getRoleConstraintViolations(env, constraint.id);
+
+        // Log the audit event (IP logging is GDPR-configurable)
+        if (actorId !== null) {
+            await logRoleConstraintEvent(
+                env,
+                'ROLE_CONSTRAINT_CREATED',
+                actorId,
+                authResult.sessionData!.username,
+                constraint,
+                { violations: violations.length },
+                getAuditIpAddress(request, env)
+            );
+        }
+
+        return new Response(JSON.stringify({
+            message: 'Role constraint created successfully',
+            constraint,
+            violations
+        }), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error creating role constraint:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * DELETE /rbac/role-constraints/:constraintId - Allow two roles to be held together again
+ * Requires roles:write permission
+ */
+export async function handleDeleteRoleConstraint(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_WRITE);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const pathParts = new URL(request.url).pathname.split('/');
+        const constraintId = pathParts[pathParts.indexOf('role-constraints') + 1];
+        if (!constraintId) {
+            return createErrorResponse('Invalid constraint ID', 400);
+        }
+
+        const constraint = await getRoleConstraint(env, decodeURIComponent(constraintId));
+        if (!constraint || !await deleteRoleConstraint(env, constraint.id)) {
+            return createErrorResponse('Role constraint not found', 404);
+        }
+
+        // Log the audit event (IP logging is GDPR-configurable)
+        const actorId = await getActorId(env, authResult.sessionData!.username);
+        if (actorId !== null) {
+            await logRoleConstraintEvent(
+                env,
+                'ROLE_CONSTRAINT_DELETED',
+                actorId,
+                authResult.sessionData!.username,
+                constraint,
+                undefined,
+                getAuditIpAddress(request, env)
+            );
+        }
+
+        return new Response(JSON.stringify({ message: 'Role constraint deleted successfully' }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error deleting role constraint:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * GET /rbac/role-constraints/violations - List the users who hold both roles of a constraint
+ * Requires roles:read permission
+ * Pass `?constraintId=` to report a single constraint. Supports pagination via limit and cursor (or offset) query
+ * params; responses include the next page's cursor. Violations arise when a constraint is added after the roles
+ * were assigned. A user holding one role globally and the other on a resource, or both on the same resource, counts.
+ */
+export async function handleListRoleConstraintViolations(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_READ);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const url = new URL(request.url);
+        const pagination = parsePagination(url, 500);
+        if ('error' in pagination) {
+            return createErrorResponse(pagination.error, 400);
+        }
+        const { limit, offset } = pagination;
+
+        const constraintId = url.searchParams.get('constraintId') ?? undefined;
+        if (constraintId !== undefined && !await getRoleConstraint(env, constraintId)) {
+            return createErrorResponse('Role constraint not found', 404);
+        }
+
+        const { violations, nextCursor } = await listRoleConstraintViolations(env, pagination, constraintId);
+
+        return new Response(JSON.stringify({ violations, limit, offset, nextCursor }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error listing role constraint violations:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * GET /rbac/groups - List groups
+ * Requires roles:read permission
+ * Supports pagination via limit and cursor query params, oldest first, with the next page's cursor in the response;
+ * or via limit and offset, ordered by name
+ */
+export async function handleListGroups(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_READ);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const pagination = parsePagination(new URL(request.url), 500);
+        if ('error' in pagination) {
+            return createErrorResponse(pagination.error, 400);
+        }
+        const { limit, offset } = pagination;
+
+        const groups = await listGroups(env, pagination);
+        const nextCursor = pagination.keyset
+            ? getNextPageCursor(groups, limit, group => ({ timestamp: group.createdAt, id: group.id }))
+            : null;
+
+        return new Response(JSON.stringify({ groups, limit, offset, nextCursor }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error listing groups:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /rbac/groups - Create a group
+ * Requires groups:write permission
+ */
+export async function handleCreateGroup(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.GROUPS_WRITE);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        let body: { name?: unknown; description?: unknown };
+        try {
+            body = await request.json() as { name?: unknown; description?: unknown };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        if (typeof body.name !== 'string' || body.name.trim().length === 0) {
+            return createErrorResponse('Group name is required', 400);
+        }
+        if (body.description !== undefined && typeof body.description !== 'string') {
+            return createErrorResponse('Description must be a string', 400);
+        }
+
+        const nameError = validateGroupName(body.name);
+        if (nameError) {
+            return createErrorResponse(nameError, 400);
+        }
+
+        const descError = validateDescription(body.description);
+        if (descError) {
+            return createErrorResponse(descError, 400);
+        }
+
+        const group = await createGroup(env, body.name.trim(), body.description);
+
+        // Log the audit event (IP logging is GDPR-configurable)
+        const actorId = await getActorId(env, authResult.sessionData!.username);
+        if (actorId !== null) {
+            await logGroupEvent(
+                env,
+                'GROUP_CREATED',
+                actorId,
+                authResult.sessionData!.username,
+                group.id,
+                group.name,
+                group.description ? { description: group.description } : undefined,
+                getAuditIpAddress(request, env)
+            );
+        }
+
+        return new Response(JSON.stringify({ group }), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error: unknown) {
+        console.error('Error creating group:', error);
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage === 'DUPLICATE_GROUP_NAME') {
+            return createErrorResponse('Group with that name already exists', 409);
+        }
+
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * GET /rbac/groups/:groupId - Get a group with its members and roles
+ * Requires roles:read permission
+ */
+export async function handleGetGroup(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_READ);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const groupId = getGroupIdFromPath(request);
+        if (!groupId) {
+            return createErrorResponse('Invalid group ID', 400);
+        }
+
+        const group = await getGroupById(env, groupId);
+        if (!group) {
+            return createErrorResponse('Group not found', 404);
+        }
+
+        const [members, roles] = await Promise.all([
+            getGroupMembers(env, groupId),
+            getGroupRoles(env, groupId)
+        ]);
+
+        return new Response(JSON.stringify({ group, members, roles }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error getting group:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * DELETE /rbac/groups/:groupId - Delete a group, revoking its roles from every member
+ * Requires groups:write permission
+ */
+export async function handleDeleteGroup(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.GROUPS_WRITE);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const groupId = getGroupIdFromPath(request);
+        if (!groupId) {
+            return createErrorResponse('Invalid group ID', 400);
+        }
+
+        const group = await getGroupById(env, groupId);
+        if (!group) {
+            return createErrorResponse('Group not found', 404);
+        }
+
+        const actorId = await getActorId(env, authResult.sessionData!.username);
+        const guardError = await guardAdminAccess(
+            request,
+            env,
+            actorId,
+            await getAdminHolderIds(env, { deleteGroup: groupId })
+        );
+        if (guardError) {
+            return guardError;
+        }
+
+        const affectedUsers = await deleteGroup(env, groupId);
+
+        // Log the audit event (IP logging is GDPR-configurable)
+        if (actorId !== null) {
+            await logGroupEvent(
+                env,
+                'GROUP_DELETED',
+                actorId,
+                authResult.sessionData!.username,
+                group.id,
+                group.name,
+                { affectedUsers },
+                getAuditIpAddress(request, env)
+            );
+        }
+
+        return new Response(JSON.stringify({ message: 'Group deleted successfully', affectedUsers }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error deleting group:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * Add a user to a group or remove them from it, shared by the member handlers.
+ * Requires roles:assign permission, since membership grants the group's roles.
+ */
+async function changeGroupMembership(request: Request, env: Env, add: boolean): Promise<Response> {
+    const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_ASSIGN);
+    if (!authResult.authorized) {
+        return authResult.error!;
+    }
+
+    const groupId = getGroupIdFromPath(request);
+    if (!groupId) {
+        return createErrorResponse('Invalid group ID', 400);
+    }
+
+    let userIdValue: unknown;
+    if (add) {
+        let body: { userId?: unknown };
+        try {
+            body = await request.json() as { userId?: unknown };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        userIdValue = body.userId;
+    } else {
+        const pathParts = new URL(request.url).pathname.split('/');
+        userIdValue = pathParts[pathParts.indexOf('members') + 1];
+    }
+    const userId = typeof userIdValue === 'number' ? userIdValue : parseInt(String(userIdValue ?? ''), 10);
+    if (!Number.isInteger(userId)) {
+        return createErrorResponse(add ? 'User ID is required' : 'Invalid user ID', 400);
+    }
+
+    const [group, targetUser] = await Promise.all([
+        getGroupById(env, groupId),
+        env.usersDB
+            .prepare('SELECT UserID, Username FROM User WHERE UserID = ?')
+            .bind(userId)
+            .first<{ UserID: number; Username: string }>()
+    ]);
+    if (!group) {
+        return createErrorResponse('Group not found', 404);
+    }
+    if (!targetUser) {
+        return createErrorResponse('User not found', 404);
+    }
+
+    if (add) {
+        const groupRoles = await getGroupRoles(env, groupId);
+        const needsApproval = await Promise.all(groupRoles.map(role => roleRequiresApproval(env, role.id)));
+        if (needsApproval.includes(true)) {
+            return createErrorResponse('The group grants a role that requires approval; request the role for the user instead', 403);
+        }
+
+        const conflict = await findGroupMemberConflict(env, groupId, userId);
+        if (conflict) {
+            return roleConflictResponse(conflict);
+        }
+    }
+
+    const actorId = await getActorId(env, authResult.sessionData!.username);
+    if (add) {
+        await addGroupMember(env, groupId, userId);
+    } else {
+        const guardError = await guardAdminAccess(
+            request,
+            env,
+            actorId,
+            await getAdminHolderIds(env, { removeGroupMember: { groupId, userId } })
+        );
+        if (guardError) {
+            return guardError;
+        }
+        await removeGroupMember(env, groupId, userId);
+    }
+
+    // Log the audit event (IP logging is GDPR-configurable)
+    if (actorId !== null) {
+        await logGroupEvent(
+            env,
+            add ? 'GROUP_MEMBER_ADDED' : 'GROUP_MEMBER_REMOVED',
+            actorId,
+            authResult.sessionData!.username,
+            group.id,
+            group.name,
+            { userId: targetUser.UserID, username: targetUser.Username },
+            getAuditIpAddress(request, env)
+        );
+    }
+
+    return new Response(JSON.stringify({ message: add ? 'Member added successfully' : 'Member removed successfully' }), {
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+/**
+ * POST /rbac/groups/:groupId/members - Add a user to a group
+ * Requires roles:assign permission
+ * Refused with 409 if the group's roles conflict with a role the user already holds
+ */
+export async function handleAddGroupMember(request: Request, env: Env): Promise<Response> {
+    try {
+        return await changeGroupMembership(request, env, true);
+    } catch (error) {
+        console.error('Error adding group member:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * DELETE /rbac/groups/:groupId/members/:userId - Remove a user from a group
+ * Requires roles:assign permission
+ */
+export async function handleRemoveGroupMember(request: Request, env: Env): Promise<Response> {
+    try {
+        return await changeGroupMembership(request, env, false);
+    } catch (error) {
+        console.error('Error removing group member:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * Assign a role to a group or remove it, shared by the group role handlers.
+ * Requires roles:assign permission.
+ */
+async function changeGroupRole(request: Request, env: Env, assign: boolean): Promise<Response> {
+    const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_ASSIGN);
+    if (!authResult.authorized) {
+        return authResult.error!;
+    }
+
+    const groupId = getGroupIdFromPath(request);
+    if (!groupId) {
+        return createErrorResponse('Invalid group ID', 400);
+    }
+
+    let roleId: string | null;
+    if (assign) {
+        let body: { roleId?: unknown };
+        try {
+            body = await request.json() as { roleId?: unknown };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        roleId = typeof body.roleId === 'string' && body.roleId.length > 0 ? body.roleId : null;
+    } else {
+        roleId = getRoleIdFromPath(request);
+    }
+    if (!roleId) {
+        return createErrorResponse(assign ? 'Role ID is required' : 'Invalid role ID', 400);
+    }
+
+    const [group, role] = await Promise.all([
+        getGroupById(env, groupId),
+        getRoleById(env, roleId)
+    ]);
+    if (!group) {
+        return createErrorResponse('Group not found', 404);
+    }
+    if (!role) {
+        return createErrorResponse('Role not found', 404);
+    }
+    if (assign && await roleRequiresApproval(env, roleId)) {
+        return createErrorResponse('Roles that require approval can only be requested for individual users', 403);
+    }
+    if (assign) {
+        const conflict = await findRoleConflict(env, roleId, { groupId });
+        if (conflict) {
+            return roleConflictResponse(conflict);
+        }
+    }
+
+    const actorId = await getActorId(env, authResult.sessionData!.username);
+    if (!assign) {
+        const guardError = await guardAdminAccess(
+            request,
+            env,
+            actorId,
+            await getAdminHolderIds(env, { removeGroupRole: { groupId, roleId } })
+        );
+        if (guardError) {
+            return guardError;
+        }
+    }
+
+    const affectedUsers = assign
+        ? await assignRoleToGroup(env, groupId, roleId)
+        : await removeRoleFromGroup(env, groupId, roleId);
+
+    // Log the audit event (IP logging is GDPR-configurable)
+    if (actorId !== null) {
+        await logGroupEvent(
+            env,
+            assign ? 'GROUP_ROLE_ASSIGNED' : 'GROUP_ROLE_REMOVED',
+            actorId,
+            authResult.sessionData!.username,
+            group.id,
+            group.name,
+            { roleId: role.id, roleName: role.name, affectedUsers },
+            getAuditIpAddress(request, env)
+        );
+    }
+
+    return new Response(JSON.stringify({
+        message: assign ? 'Role assigned successfully' : 'Role removed successfully',
+        affectedUsers
+    }), {
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+/**
+ * POST /rbac/groups/:groupId/roles - Assign a role to a group, granting it to every member
+ * Requires roles:assign permission
+ * Refused with 409 if the role conflicts with a role any member already holds
+ */
+export async function handleAssignGroupRole(request: Request, env: Env): Promise<Response> {
+    try {
+        return await changeGroupRole(request, env, true);
+    } catch (error) {
+        console.error('Error assigning role to group:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * DELETE /rbac/groups/:groupId/roles/:roleId - Remove a role from a group
+ * Requires roles:assign permission
+ */
+export async function handleRemoveGroupRole(request: Request, env: Env): Promise<Response> {
+    try {
+        return await changeGroupRole(request, env, false);
+    } catch (error) {
+        console.error('Error removing role from group:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * Validate an RBAC policy document from a request body, filling in omitted descriptions, parents and permissions.
+ * Returns the policy, or every problem found so they can be fixed in one pass.
+ */
+function parsePolicy(value: unknown): { policy: RbacPolicy } | { errors: string[] } {
+    if (!value || typeof value !== 'object') {
+        return { errors: ['Policy must be an object'] };
+    }
+    const body = value as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (body.version !== POLICY_VERSION) {
+        errors.push(`version must be ${POLICY_VERSION}`);
+    }
+    for (const key of ['permissions', 'roles', 'assignments']) {
+        const entries = body[key];
+        if (entries === undefined && key === 'assignments') {
+            continue;
+        }
+        if (!Array.isArray(entries)) {
+            errors.push(`${key} must be an array`);
+        } else if (entries.length > VALIDATION.POLICY_MAX_ENTRIES) {
+            errors.push(`${key} can have at most ${VALIDATION.POLICY_MAX_ENTRIES} entries`);
+        }
+    }
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    const isObject = (entry: unknown): entry is Record<string, unknown> => !!entry && typeof entry === 'object';
+    const isStringArray = (entry: unknown): entry is string[] =>
+        Array.isArray(entry) && entry.every(item => typeof item === 'string');
+    const policy: RbacPolicy = { version: POLICY_VERSION, permissions: [], roles: [] };
+
+    const permissionNames = new Set<string>();
+    for (const entry of body.permissions as unknown[]) {
+        if (!isObject(entry) || typeof entry.name !== 'string') {
+            errors.push('Each permission must have a name');
+            continue;
+        }
+        const description = entry.description ?? '';
+        const error = validatePermissionName(entry.name)
+            ?? (typeof description !== 'string' ? 'Description must be a string' : validateDescription(description));
+        if (error) {
+            errors.push(`Permission ${entry.name}: ${error}`);
+        } else if (permissionNames.has(entry.name)) {
+            errors.push(`Permission ${entry.name} is listed more than once`);
+        }
+        permissionNames.add(entry.name);
+        policy.permissions.push({ name: entry.name, description: description as string });
+    }
+
+    const roleNames = new Set<string>();
+    for (const entry of body.roles as unknown[]) {
+        if (!isObject(entry) || typeof entry.name !== 'string') {
+            errors.push('Each role must have a name');
+            continue;
+        }
+        const description = entry.description ?? '';
+        const parent = entry.parent ?? null;
+        const permissions = entry.permissions ?? [];
+        const error = validateRoleName(entry.name)
+            ?? (typeof description !== 'string' ? 'Description must be a string' : validateDescription(description))
+            ?? (parent !== null && typeof parent !== 'string' ? 'parent must be a role name or null' : null)
+            ?? (!isStringArray(permissions) ? 'permissions must be an array of permission names' : null);
+        if (error) {
+            errors.push(`Role ${entry.name}: ${error}`);
+        } else if (roleNames.has(entry.name)) {
+            errors.push(`Role ${entry.name} is listed more than once`);
+        }
+        roleNames.add(entry.name);
+        policy.roles.push({
+            name: entry.name,
+            description: description as string,
+            parent: parent as string | null,
+            permissions: isStringArray(permissions) ? [...new Set(permissions)] : []
+        });
+    }
+
+    if (body.assignments !== undefined) {
+        policy.assignments = [];
+        const usernames = new Set<string>();
+        for (const entry of body.assignments as unknown[]) {
+            if (!isObject(entry) || typeof entry.username !== 'string' || !isStringArray(entry.roles)) {
+                errors.push('Each assignment must have a username and an array of role names');
+                continue;
+            }
+            if (usernames.has(entry.username)) {
+                errors.push(`User ${entry.username} is listed more than once`);
+            }
+            usernames.add(entry.username);
+            policy.assignments.push({ username: entry.username, roles: [...new Set(entry.roles)] });
+        }
+    }
+
+    return errors.length > 0 ? { errors } : { policy };
+}
+
+/**
+ * GET /rbac/policy - Export the RBAC configuration as a policy document
+ * Requires roles:read permission
+ * Pass `includeAssignments=true` to include each user's directly assigned global roles
+ */
+export async function handleExportPolicy(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_READ);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const includeAssignments = new URL(request.url).searchParams.get('includeAssignments') === 'true';
+        const policy = await exportPolicy(env, includeAssignments);
+
+        return new Response(JSON.stringify(policy), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error exporting RBAC policy:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /rbac/policy/import - Import a policy document, replacing the listed roles' permissions and parents
+ * and the listed users' role assignments
+ * Requires admin:all permission
+ * Pass `dryRun=true` to only return the changes, and `prune=true` to delete roles and permissions the policy
+ * doesn't list (built-in roles and permissions used by this worker are never deleted).
+ * All changes are applied in a single batch.
+ */
+export async function handleImportPolicy(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ADMIN_ALL);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const url = new URL(request.url);
+        const dryRun = url.searchParams.get('dryRun') === 'true';
+        const prune = url.searchParams.get('prune') === 'true';
+
+        let body: unknown;
+        try {
+            body = await request.json();
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+
+        const parsed = parsePolicy(body);
+        if ('errors' in parsed) {
+            return new Response(JSON.stringify({ error: 'Invalid policy', details: parsed.errors }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        const plan = await planPolicyImport(env, parsed.policy, { prune });
+        if ('errors' in plan) {
+            return new Response(JSON.stringify({ error: 'Invalid policy', details: plan.errors }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        const { diff } = plan;
+        const actorId = await getActorId(env, authResult.sessionData!.username);
+        const guardError = await guardAdminAccess(request, env, actorId, plan.adminHolderIds);
+        if (guardError) {
+            return guardError;
+        }
+
+        if (dryRun || isEmptyPolicyDiff(diff)) {
+            return new Response(JSON.stringify({ dryRun, diff, affectedUsers: 0 }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        const affectedUsers = await applyPolicyDiff(env, diff);
+
+        // Log the audit event (IP logging is GDPR-configurable)
+        if (actorId !== null) {
+            await logPolicyImported(
+                env,
+                actorId,
+                authResult.sessionData!.username,
+                {
+                    permissionsCreated: diff.permissions.create.length,
+                    permissionsUpdated: diff.permissions.update.length,
+                    permissionsDeleted: diff.permissions.delete.length,
+                    rolesCreated: diff.roles.create.length,
+                    rolesUpdated: diff.roles.update.length,
+                    rolesDeleted: diff.roles.delete.length,
+                    permissionsGranted: diff.rolePermissions.grant.length,
+                    permissionsRevoked: diff.rolePermissions.revoke.length,
+                    assignmentsAdded: diff.assignments.add.length,
+                    assignmentsRemoved: diff.assignments.remove.length
+                },
+                affectedUsers,
+                getAuditIpAddress(request, env)
+            );
+        }
+
+        return new Response(JSON.stringify({ dryRun, diff, affectedUsers }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error importing RBAC policy:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /rbac/users/:userId/unlock - Clear a login lockout and failure counter for a user
+ * Requires users:write permission
+ */
+export async function handleUnlockUser(request: Request, env: Env): Promise<Response> {
+    try {
+        // Check permission
+        const authResult = await requirePermission(request, env, PERMISSIONS.USERS_WRITE);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        // Extract userId from URL
+        const url = new URL(request.url);
+        const pathParts = url.pathname.split('/');
+        const userIdIndex = pathParts.indexOf('users') + 1;
+        const userIdStr = pathParts[userIdIndex];
+
+        if (!userIdStr || isNaN(parseInt(userIdStr))) {
+            return createErrorResponse('Invalid user ID', 400);
+        }
+
+        const userId = parseInt(userIdStr);
+
+        const [targetUserResult, actorUserResult] = await Promise.all([
             env.usersDB
                 .prepare('SELECT UserID, Username FROM User WHERE UserID = ?')
                 .bind(userId)
                 .first<{ UserID: number; Username: string }>(),
-            // Actor user by username (indexed lookup)
             env.usersDB
                 .prepare('SELECT UserID, Username FROM User WHERE Username = ?')
                 .bind(authResult.sessionData!.username)
-                .first<{ UserID: number; Username: string }>(),
-            // Role details
-            env.usersDB
-                .prepare('SELECT id, name FROM roles WHERE id = ?')
-                .bind(roleId)
-                .first<{ id: string; name: string }>()
+                .first<{ UserID: number; Username: string }>()
         ]);
 
         if (!targetUserResult) {
-            return new Response(JSON.stringify({ error: 'User not found' }), { status: 404 });
-        }
-
-        if (!roleResult) {
-            return new Response(JSON.stringify({ error: 'Role not found' }), { status: 404 });
+            return createErrorResponse('User not found', 404);
         }
 
-        // Assign the role
-        await assignRole(env, userId, roleId);
+        const lockout = await getAccountLockout(env, targetUserResult.Username);
+        const wasLocked = lockout?.lockedUntil != null && lockout.lockedUntil > Date.now();
+        await unlockAccount(env, targetUserResult.Username);
 
         // Log the audit event (IP logging is GDPR-configurable)
         if (actorUserResult) {
-            await logRoleAssigned(
+            await logAccountUnlocked(
                 env,
                 actorUserResult.UserID,
                 authResult.sessionData!.username,
                 targetUserResult.UserID,
                 targetUserResult.Username,
-                roleResult.id,
-                roleResult.name,
                 getAuditIpAddress(request, env)
             );
         }
 
-        return new Response(JSON.stringify({ message: 'Role assigned successfully' }), {
+        return new Response(JSON.stringify({ message: 'User unlocked successfully', wasLocked }), {
             status: 200,
             headers: { 'Content-Type': 'application/json' }
         });
     } catch (error) {
-        console.error('Error assigning role:', error);
-        return new Response(JSON.stringify({ error: 'Internal server error' }), { status: 500 });
+        console.error('Error unlocking user:', error);
+        return createErrorResponse('Internal server error', 500);
     }
 }
 
 /**
- * DELETE /rbac/users/:userId/roles/:roleId - Remove role from user
- * Requires roles:assign permission
+ * POST /rbac/users/:userId/sessions/revoke - Revoke all sessions of a user
+ * Requires users:write permission
  */
-export async function handleRemoveRole(request: Request, env: Env): Promise<Response> {
+export async function handleRevokeUserSessions(request: Request, env: Env): Promise<Response> {
     try {
         // Check permission
-        const authResult = await requirePermission(request, env, PERMISSIONS.ROLES_ASSIGN);
+        const authResult = await requirePermission(request, env, PERMISSIONS.USERS_WRITE);
         if (!authResult.authorized) {
             return authResult.error!;
         }
 
-        // Extract userId and roleId from URL
+        // Extract userId from URL
         const url = new URL(request.url);
         const pathParts = url.pathname.split('/');
         const userIdIndex = pathParts.indexOf('users') + 1;
-        const rolesIndex = pathParts.indexOf('roles', userIdIndex) + 1;
-
         const userIdStr = pathParts[userIdIndex];
-        const roleId = pathParts[rolesIndex];
 
         if (!userIdStr || isNaN(parseInt(userIdStr))) {
-            return new Response(JSON.stringify({ error: 'Invalid user ID' }), { status: 400 });
-        }
-
-        if (!roleId) {
-            return new Response(JSON.stringify({ error: 'Invalid role ID' }), { status: 400 });
+            return createErrorResponse('Invalid user ID', 400);
         }
 
         const userId = parseInt(userIdStr);
 
-        // Batch queries: fetch target user, actor user, and role in parallel using separate indexed queries
-        const [targetUserResult, actorUserResult, roleResult] = await Promise.all([
-            // Target user by ID (indexed lookup)
+        const [targetUserResult, actorUserResult] = await Promise.all([
             env.usersDB
                 .prepare('SELECT UserID, Username FROM User WHERE UserID = ?')
                 .bind(userId)
                 .first<{ UserID: number; Username: string }>(),
-            // Actor user by username (indexed lookup)
             env.usersDB
                 .prepare('SELECT UserID, Username FROM User WHERE Username = ?')
                 .bind(authResult.sessionData!.username)
-                .first<{ UserID: number; Username: string }>(),
-            // Role details
-            env.usersDB
-                .prepare('SELECT id, name FROM roles WHERE id = ?')
-                .bind(roleId)
-                .first<{ id: string; name: string }>()
+                .first<{ UserID: number; Username: string }>()
         ]);
 
-        // Remove the role
-        await removeRole(env, userId, roleId);
+        if (!targetUserResult) {
+            return createErrorResponse('User not found', 404);
+        }
+
+        const revoked = await revokeUserSessions(env, targetUserResult.UserID);
 
         // Log the audit event (IP logging is GDPR-configurable)
-        if (actorUserResult && targetUserResult && roleResult) {
-            await logRoleRemoved(
+        if (actorUserResult) {
+            await logSessionsRevoked(
                 env,
                 actorUserResult.UserID,
                 authResult.sessionData!.username,
                 targetUserResult.UserID,
                 targetUserResult.Username,
-                roleResult.id,
-                roleResult.name,
+                revoked,
                 getAuditIpAddress(request, env)
             );
         }
 
-        return new Response(JSON.stringify({ message: 'Role removed successfully' }), {
+        return new Response(JSON.stringify({ message: 'User sessions revoked successfully', revoked }), {
             status: 200,
             headers: { 'Content-Type': 'application/json' }
         });
     } catch (error) {
-        console.error('Error removing role:', error);
-        return new Response(JSON.stringify({ error: 'Internal server error' }), { status: 500 });
+        console.error('Error revoking user sessions:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * DELETE /rbac/users/:userId - Delete a user, ending their sessions and cancelling their pending role requests
+ * Requires users:delete permission. Refused if it would leave no user with admin:all, and admins deleting
+ * their own account must pass `confirm=true`.
+ */
+export async function handleDeleteUser(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.USERS_DELETE);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const pathParts = new URL(request.url).pathname.split('/');
+        const userIdStr = pathParts[pathParts.indexOf('users') + 1];
+        if (!userIdStr || !/^\d+$/.test(userIdStr)) {
+            return createErrorResponse('Invalid user ID', 400);
+        }
+        const userId = parseInt(userIdStr, 10);
+
+        const targetUser = await env.usersDB
+            .prepare('SELECT UserID, Username FROM User WHERE UserID = ?')
+            .bind(userId)
+            .first<{ UserID: number; Username: string }>();
+        if (!targetUser) {
+            return createErrorResponse('User not found', 404);
+        }
+
+        const actorId = await getActorId(env, authResult.sessionData!.username);
+        const guardError = await guardAdminAccess(
+            request,
+            env,
+            actorId,
+            await getAdminHolderIds(env, { deleteUser: userId })
+        );
+        if (guardError) {
+            return guardError;
+        }
+
+        await revokeUserSessions(env, userId);
+        await cancelUserRoleGrantRequests(
+            env,
+            userId,
+            actorId,
+            authResult.sessionData!.username,
+            getAuditIpAddress(request, env)
+        );
+        await deleteUser(env, userId);
+        await invalidateCachedPermissions(env, userId);
+
+        // Log the audit event (IP logging is GDPR-configurable)
+        if (actorId !== null) {
+            await logUserDeleted(
+                env,
+                actorId,
+                authResult.sessionData!.username,
+                targetUser.UserID,
+                targetUser.Username,
+                getAuditIpAddress(request, env)
+            );
+        }
+
+        return new Response(JSON.stringify({ message: 'User deleted successfully' }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error deleting user:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * Parse the audit log filters shared by the query and export endpoints. Malformed values are ignored, except a
+ * start date after the end date.
+ */
+function parseAuditLogFilters(url: URL): { filters: AuditLogQueryParams } | { error: string } {
+    const filters: AuditLogQueryParams = {};
+
+    const action = url.searchParams.get('action');
+    if (action && action.length <= VALIDATION.AUDIT_STRING_MAX_LENGTH) {
+        filters.action = action as AuditLogQueryParams['action'];
+    }
+
+    const actorId = url.searchParams.get('actorId');
+    if (actorId && /^\d+$/.test(actorId)) {
+        filters.actorId = parseInt(actorId, 10);
+    }
+
+    const actorUsername = url.searchParams.get('actorUsername');
+    if (actorUsername && actorUsername.length <= VALIDATION.AUDIT_STRING_MAX_LENGTH) {
+        filters.actorUsername = actorUsername;
+    }
+
+    const targetType = url.searchParams.get('targetType');
+    if (targetType && targetType.length <= VALIDATION.AUDIT_STRING_MAX_LENGTH) {
+        filters.targetType = targetType as AuditLogQueryParams['targetType'];
+    }
+
+    const targetId = url.searchParams.get('targetId');
+    if (targetId && targetId.length <= VALIDATION.AUDIT_STRING_MAX_LENGTH) {
+        filters.targetId = targetId;
+    }
+
+    const startDate = url.searchParams.get('startDate');
+    if (startDate) {
+        const date = new Date(startDate);
+        if (!isNaN(date.getTime())) {
+            filters.startDate = date;
+        }
+    }
+
+    const endDate = url.searchParams.get('endDate');
+    if (endDate) {
+        const date = new Date(endDate);
+        if (!isNaN(date.getTime())) {
+            filters.endDate = date;
+        }
     }
+
+    // Validate date range: startDate must be before endDate
+    if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+        return { error: 'startDate must be before endDate' };
+    }
+
+    return { filters };
 }
 
 /**
@@ -572,8 +2903,11 @@ export async function handleRemoveRole(request: Request, env: Env): Promise<Resp
  * - targetId: Filter by target ID
  * - startDate: Filter by start date (ISO 8601 format)
  * - endDate: Filter by end date (ISO 8601 format)
- * - limit: Maximum number of results (default: 100)
- * - offset: Pagination offset (default: 0)
+ * - limit: Maximum number of results (default: 100, max: 1000)
+ * - cursor: The nextCursor returned with the previous page
+ * - offset: Pagination offset (default: 0), ignored with a cursor
+ *
+ * Entries are returned newest first.
  */
 export async function handleGetAuditLogs(request: Request, env: Env): Promise<Response> {
     try {
@@ -585,76 +2919,142 @@ export async function handleGetAuditLogs(request: Request, env: Env): Promise<Re
 
         // Parse query parameters with input validation
         const url = new URL(request.url);
-        const queryParams: AuditLogQueryParams = {};
-
-        const action = url.searchParams.get('action');
-        if (action && action.length <= VALIDATION.AUDIT_STRING_MAX_LENGTH) {
-            queryParams.action = action as AuditLogQueryParams['action'];
+        const filterResult = parseAuditLogFilters(url);
+        if ('error' in filterResult) {
+            return new Response(JSON.stringify({ error: filterResult.error }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' }
+            });
         }
-
-        const actorId = url.searchParams.get('actorId');
-        if (actorId && /^\d+$/.test(actorId)) {
-            queryParams.actorId = parseInt(actorId, 10);
+        const pagination = parsePagination(url, 1000);
+        if ('error' in pagination) {
+            return createErrorResponse(pagination.error, 400);
         }
+        const queryParams: AuditLogQueryParams = {
+            ...filterResult.filters,
+            limit: pagination.limit,
+            offset: pagination.offset,
+            after: pagination.after
+        };
+
+        // Fetch audit logs
+        const logs = await getAuditLogs(env, queryParams);
+        const { limit, offset } = pagination;
+        const nextCursor = getNextPageCursor(logs, limit, log => ({ timestamp: log.timestamp, id: log.id }));
+
+        return new Response(JSON.stringify({ logs, limit, offset, nextCursor }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error fetching audit logs:', error);
+        return new Response(JSON.stringify({ error: 'Internal server error' }), { status: 500 });
+    }
+}
 
-        const actorUsername = url.searchParams.get('actorUsername');
-        if (actorUsername && actorUsername.length <= VALIDATION.AUDIT_STRING_MAX_LENGTH) {
-            queryParams.actorUsername = actorUsername;
+/**
+ * GET /rbac/audit-logs/export - Export every audit log entry matching the filters, oldest first
+ * Requires admin:all permission
+ *
+ * Query parameters:
+ * - format: csv or ndjson (required)
+ * - action, actorId, actorUsername, targetType, targetId, startDate, endDate: As for GET /rbac/audit-logs
+ *
+ * The export is streamed, so it has no size limit. The export itself is recorded in the audit log.
+ */
+export async function handleExportAuditLogs(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ADMIN_ALL);
+        if (!authResult.authorized) {
+            return authResult.error!;
         }
 
-        const targetType = url.searchParams.get('targetType');
-        if (targetType && targetType.length <= VALIDATION.AUDIT_STRING_MAX_LENGTH) {
-            queryParams.targetType = targetType as AuditLogQueryParams['targetType'];
+        const url = new URL(request.url);
+        const format = url.searchParams.get('format') as AuditLogExportFormat | null;
+        if (!format || !AUDIT_LOG_EXPORT_FORMATS.includes(format)) {
+            return createErrorResponse(`format must be one of ${AUDIT_LOG_EXPORT_FORMATS.join(', ')}`, 400);
         }
 
-        const targetId = url.searchParams.get('targetId');
-        if (targetId && targetId.length <= VALIDATION.AUDIT_STRING_MAX_LENGTH) {
-            queryParams.targetId = targetId;
+        const filterResult = parseAuditLogFilters(url);
+        if ('error' in filterResult) {
+            return createErrorResponse(filterResult.error, 400);
         }
+        const { filters } = filterResult;
 
-        const startDate = url.searchParams.get('startDate');
-        if (startDate) {
-            const date = new Date(startDate);
-            if (!isNaN(date.getTime())) {
-                queryParams.startDate = date;
-            }
+        // Log the audit event before streaming, so an export is recorded even if the client disconnects
+        const actorId = await getActorId(env, authResult.sessionData!.username);
+        if (actorId !== null) {
+            await logAuditLogsExported(
+                env,
+                actorId,
+                authResult.sessionData!.username,
+                format,
+                filters,
+                getAuditIpAddress(request, env)
+            );
         }
 
-        const endDate = url.searchParams.get('endDate');
-        if (endDate) {
-            const date = new Date(endDate);
-            if (!isNaN(date.getTime())) {
-                queryParams.endDate = date;
+        const filename = `audit-logs-${new Date().toISOString().slice(0, 10)}.${format}`;
+        return new Response(createAuditLogExportStream(env, filters, format), {
+            headers: {
+                'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+                'Content-Disposition': `attachment; filename="${filename}"`
             }
-        }
+        });
+    } catch (error) {
+        console.error('Error exporting audit logs:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
 
-        // Validate date range: startDate must be before endDate
-        if (queryParams.startDate && queryParams.endDate &&
-            queryParams.startDate > queryParams.endDate) {
-            return new Response(JSON.stringify({ error: 'startDate must be before endDate' }), {
-                status: 400,
-                headers: { 'Content-Type': 'application/json' }
-            });
+/**
+ * GET /rbac/audit-logs/verify - Verify the audit log hash chain and report the first broken link
+ * Requires admin:all permission
+ *
+ * Query parameters:
+ * - startDate: Only verify entries logged from this date (ISO 8601 format)
+ * - endDate: Only verify entries logged until this date (ISO 8601 format)
+ *
+ * Signed checkpoints are checked too when AUDIT_CHECKPOINT_SECRET is set. Without an end date, a checkpoint beyond
+ * the last entry reveals entries deleted from the end of the log.
+ */
+export async function handleVerifyAuditLogs(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requirePermission(request, env, PERMISSIONS.ADMIN_ALL);
+        if (!authResult.authorized) {
+            return authResult.error!;
         }
 
-        const limit = url.searchParams.get('limit');
-        if (limit && /^\d+$/.test(limit)) {
-            queryParams.limit = Math.min(parseInt(limit, 10), 1000); // Cap at 1000
+        const url = new URL(request.url);
+        const range: { startDate?: Date; endDate?: Date } = {};
+        for (const name of ['startDate', 'endDate'] as const) {
+            const value = url.searchParams.get(name);
+            if (value) {
+                const date = new Date(value);
+                if (isNaN(date.getTime())) {
+                    return createErrorResponse(`${name} must be an ISO 8601 date`, 400);
+                }
+                range[name] = date;
+            }
         }
-
-        const offset = url.searchParams.get('offset');
-        if (offset && /^\d+$/.test(offset)) {
-            queryParams.offset = parseInt(offset, 10);
+        if (range.startDate && range.endDate && range.startDate > range.endDate) {
+            return createErrorResponse('startDate must be before endDate', 400);
         }
 
-        // Fetch audit logs
-        const logs = await getAuditLogs(env, queryParams);
+        const checkpointSecret = getAuditCheckpointConfig(env)?.secret ?? null;
+        const [verification, latestCheckpoint] = await Promise.all([
+            verifyAuditChain(env, checkpointSecret, range),
+            getLatestAuditCheckpoint(env)
+        ]);
 
-        return new Response(JSON.stringify({ logs }), {
+        return new Response(JSON.stringify({
+            ...verification,
+            checkpointsVerified: checkpointSecret !== null,
+            latestCheckpoint
+        }), {
             headers: { 'Content-Type': 'application/json' }
         });
     } catch (error) {
-        console.error('Error fetching audit logs:', error);
-        return new Response(JSON.stringify({ error: 'Internal server error' }), { status: 500 });
+        console.error('Error verifying audit logs:', error);
+        return createErrorResponse('Internal server error', 500);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+import { Env } from '../env';
+import { listUserSessions, revokeUserSessions, deleteSession } from '../session';
+import { logAccountEvent } from '../rbac';
+import { createErrorResponse, getAuditIpAddress, requireSession } from './helpers';
+
+/**
+ * GET /sessions - List the current user's active sessions
+ * Requires an authenticated session. The caller's own session is flagged with `current: true`.
+ */
+export async function handleListSessions(request: Request, env: Env): Promise<Response> {
+    try {
+        const auth = await requireSession(request, env);
+        if (!auth.authorized) {
+            return auth.error!;
+        }
+
+        const sessions = await listUserSessions(env, auth.user.UserID);
+        return new Response(JSON.stringify({
+            sessions: sessions.map(session => ({ ...session, current: session.sessionId === auth.sessionId }))
+        }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error listing sessions:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * DELETE /sessions/:sessionId - Revoke one of the current user's sessions
+ * Requires an authenticated session. Only sessions belonging to the caller can be revoked.
+ */
+export async function handleRevokeSession(request: Request, env: Env): Promise<Response> {
+    try {
+        const auth = await requireSession(request, env);
+        if (!auth.authorized) {
+            return auth.error!;
+        }
+
+        const url = new URL(request.url);
+        const pathParts = url.pathname.split('/');
+        const sessionId = decodeURIComponent(pathParts[pathParts.indexOf('sessions') + 1] ?? '');
+        if (!sessionId) {
+            return createErrorResponse('Session ID is required', 400);
+        }
+
+        // Look the session up in the caller's own index so other users' sessions can't be revoked
+        const sessions = await listUserSessions(env, auth.user.UserID);
+        if (!sessions.some(session => session.sessionId === sessionId)) {
+            return createErrorResponse('Session not found', 404);
+        }
+
+        await deleteSession(env, sessionId);
+        await logAccountEvent(env, 'SESSION_REVOKED', auth.user.UserID, auth.user.Username, {
+            current: sessionId === auth.sessionId
+        }, getAuditIpAddress(request, env));
+
+        return new Response(JSON.stringify({ message: 'Session revoked' }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error revoking session:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /sessions/revoke-others - Sign out everywhere except the current session
+ * Requires an authenticated session.
+ */
+export async function handleRevokeOtherSessions(request: Request, env: Env): Promise<Response> {
+    try {
+        const auth = await requireSession(request, env);
+        if (!auth.authorized) {
+            return auth.error!;
+        }
+
+        const revoked = await revokeUserSessions(env, auth.user.UserID, auth.sessionId);
+        await logAccountEvent(env, 'SESSIONS_REVOKED', auth.user.UserID, auth.user.Username, {
+            reason: 'user_request',
+            revoked
+        }, getAuditIpAddress(request, env));
+
+        return new Response(JSON.stringify({ message: 'Other sessions revoked', revoked }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error revoking other sessions:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
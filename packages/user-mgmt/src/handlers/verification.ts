@@ -0,0 +1,104 @@
+import { Env, getEmailVerificationConfig, getRbacEnabled, getSuperAdminEmail } from '../env';
+import { getUser, getUserById, markEmailVerified } from '../utils';
+import { logAccountEvent } from '../rbac';
+import { bootstrapSuperAdmin } from '../rbac/bootstrap';
+import {
+    verifyEmailVerificationToken,
+    isEmailVerified,
+    sendVerificationEmail,
+    claimVerificationResend
+} from '../verification';
+import { createErrorResponse, getAuditIpAddress } from './helpers';
+
+/**
+ * POST /verify-email - Confirm an email address using the token from a verification link
+ * Public. The token is signed and bound to the user's current email address.
+ */
+export async function handleVerifyEmail(request: Request, env: Env): Promise<Response> {
+    try {
+        const config = getEmailVerificationConfig(env);
+        if (!config) {
+            return createErrorResponse('Email verification is not configured', 501);
+        }
+
+        let body: { token?: string };
+        try {
+            body = await request.json() as { token?: string };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        const { token } = body;
+        if (!token || typeof token !== 'string') {
+            return createErrorResponse('Verification token is required', 400);
+        }
+
+        const verified = await verifyEmailVerificationToken(config.secret, token);
+        if (!verified) {
+            return createErrorResponse('Invalid or expired verification token', 400);
+        }
+
+        const user = await getUserById(env, verified.userId);
+        if (!user || user.Username !== verified.email) {
+            return createErrorResponse('Invalid or expired verification token', 400);
+        }
+
+        if (isEmailVerified(user)) {
+            return new Response(JSON.stringify({ message: 'Email already verified' }), {
+                headers: { 'Content-Type': 'application/json' }
+            });
+        }
+
+        await markEmailVerified(env, user.UserID);
+        await logAccountEvent(env, 'EMAIL_VERIFIED', user.UserID, user.Username, undefined, getAuditIpAddress(request, env));
+
+        // Bootstrap normally runs once per worker instance, so give the configured
+        // super admin their role as soon as they prove ownership of the address
+        if (getRbacEnabled(env) && user.Username === getSuperAdminEmail(env)) {
+            await bootstrapSuperAdmin(env);
+        }
+
+        return new Response(JSON.stringify({ message: 'Email verified successfully' }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error verifying email:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /resend-verification - Send a new verification link
+ * Public. Always returns the same response so it can't be used to discover accounts;
+ * emails are only sent to existing, unverified accounts and at most once per cooldown period.
+ */
+export async function handleResendVerification(request: Request, env: Env): Promise<Response> {
+    try {
+        if (!getEmailVerificationConfig(env)) {
+            return createErrorResponse('Email verification is not configured', 501);
+        }
+
+        let body: { username?: string };
+        try {
+            body = await request.json() as { username?: string };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        const { username } = body;
+        if (!username || typeof username !== 'string') {
+            return createErrorResponse('Username is required', 400);
+        }
+
+        const user = await getUser(env, username);
+        if (user && !isEmailVerified(user) && await claimVerificationResend(env, user.UserID)) {
+            await sendVerificationEmail(env, user);
+            await logAccountEvent(env, 'EMAIL_VERIFICATION_SENT', user.UserID, user.Username, { reason: 'resend' }, getAuditIpAddress(request, env));
+        }
+
+        return new Response(JSON.stringify({ message: 'If the account exists and is not yet verified, a verification email has been sent' }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error resending verification email:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
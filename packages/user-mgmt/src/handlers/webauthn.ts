@@ -0,0 +1,446 @@
+import { Env, getWebAuthnRelyingParty, getRequireEmailVerification } from '../env';
+import { getUser, getUserById, createSessionCookie } from '../utils';
+import { createSession } from '../session';
+import { logAccountEvent, logLoginFailure } from '../rbac';
+import {
+    verifyRegistrationResponse,
+    verifyAuthenticationResponse,
+    parseClientData,
+    SUPPORTED_ALGORITHMS,
+    createWebAuthnChallenge,
+    consumeWebAuthnChallenge,
+    WEBAUTHN_CHALLENGE_TTL_SECONDS,
+    storeCredential,
+    getCredentialById,
+    getUserCredentials,
+    updateCredentialUsage,
+    renameCredential,
+    deleteCredential,
+    CREDENTIAL_NAME_MAX_LENGTH,
+    base64UrlEncode,
+    WebAuthnCredentialSummary
+} from '../webauthn';
+import { createErrorResponse, createUnverifiedEmailResponse, getAuditIpAddress, requireSession } from './helpers';
+import { isEmailVerified } from '../verification';
+
+/**
+ * Registration response posted by the browser (PublicKeyCredential serialized to JSON)
+ */
+interface RegistrationBody {
+    id?: string;
+    response?: {
+        clientDataJSON?: string;
+        attestationObject?: string;
+        transports?: string[];
+    };
+    name?: string;
+}
+
+/**
+ * Authentication response posted by the browser (PublicKeyCredential serialized to JSON)
+ */
+interface AuthenticationBody {
+    id?: string;
+    response?: {
+        clientDataJSON?: string;
+        authenticatorData?: string;
+        signature?: string;
+        userHandle?: string | null;
+    };
+}
+
+/**
+ * Encodes a user ID as the opaque WebAuthn user handle.
+ * The numeric ID carries no personal information, unlike the username (email).
+ */
+function toUserHandle(userId: number): string {
+    return base64UrlEncode(new TextEncoder().encode(userId.toString()));
+}
+
+/**
+ * Extracts the credential ID from the last path segment.
+ */
+function getCredentialIdFromPath(request: Request): string | null {
+    const pathParts = new URL(request.url).pathname.split('/');
+    const credentialsIndex = pathParts.indexOf('credentials') + 1;
+    const credentialId = credentialsIndex > 0 ? pathParts[credentialsIndex] : undefined;
+    return credentialId ? decodeURIComponent(credentialId) : null;
+}
+
+/**
+ * Strips key material before returning a credential to the client.
+ */
+function toSummary(credential: WebAuthnCredentialSummary): WebAuthnCredentialSummary {
+    return {
+        id: credential.id,
+        name: credential.name,
+        transports: credential.transports,
+        createdAt: credential.createdAt,
+        lastUsedAt: credential.lastUsedAt,
+    };
+}
+
+/**
+ * POST /webauthn/register/options - Begin passkey registration
+ * Requires authentication. Returns PublicKeyCredentialCreationOptions (binary fields base64url-encoded).
+ */
+export async function handleWebAuthnRegisterOptions(request: Request, env: Env): Promise<Response> {
+    try {
+        const rp = getWebAuthnRelyingParty(env);
+        if (!rp) {
+            return createErrorResponse('Passkeys are not configured', 501);
+        }
+
+        const authResult = await requireSession(request, env);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+        const user = authResult.user;
+
+        const challenge = await createWebAuthnChallenge(env, 'registration', user.UserID);
+        const existing = await getUserCredentials(env, user.UserID);
+
+        const options = {
+            challenge,
+            rp: { id: rp.rpId, name: rp.rpName },
+            user: {
+                id: toUserHandle(user.UserID),
+                name: user.Username,
+                displayName: [user.FirstName, user.LastName].filter(Boolean).join(' ') || user.Username,
+            },
+            pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key', alg })),
+            timeout: WEBAUTHN_CHALLENGE_TTL_SECONDS * 1000,
+            attestation: 'none',
+            excludeCredentials: existing.map(credential => ({
+                type: 'public-key',
+                id: credential.id,
+                transports: credential.transports,
+            })),
+            authenticatorSelection: {
+                residentKey: 'required',
+                userVerification: 'required',
+            },
+        };
+
+        return new Response(JSON.stringify(options), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error creating passkey registration options:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /webauthn/register/verify - Complete passkey registration
+ * Requires authentication. Verifies the attestation and stores the credential.
+ */
+export async function handleWebAuthnRegisterVerify(request: Request, env: Env): Promise<Response> {
+    try {
+        const rp = getWebAuthnRelyingParty(env);
+        if (!rp) {
+            return createErrorResponse('Passkeys are not configured', 501);
+        }
+
+        const authResult = await requireSession(request, env);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+        const user = authResult.user;
+
+        let body: RegistrationBody;
+        try {
+            body = await request.json() as RegistrationBody;
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        const clientDataJSON = body.response?.clientDataJSON;
+        const attestationObject = body.response?.attestationObject;
+        if (typeof clientDataJSON !== 'string' || typeof attestationObject !== 'string') {
+            return createErrorResponse('Invalid registration response', 400);
+        }
+
+        const name = typeof body.name === 'string' && body.name.trim().length > 0 ? body.name.trim() : 'Passkey';
+        if (name.length > CREDENTIAL_NAME_MAX_LENGTH) {
+            return createErrorResponse(`Passkey name must be at most ${CREDENTIAL_NAME_MAX_LENGTH} characters`, 400);
+        }
+
+        let verified;
+        try {
+            const { challenge } = parseClientData(clientDataJSON);
+            const record = await consumeWebAuthnChallenge(env, challenge, 'registration');
+            if (!record || record.userId !== user.UserID) {
+                throw new Error('Unknown or expired challenge');
+            }
+            verified = await verifyRegistrationResponse({ clientDataJSON, attestationObject }, challenge, rp);
+        } catch (error) {
+            console.error('Passkey registration verification failed:', error);
+            return createErrorResponse('Passkey verification failed', 400);
+        }
+
+        const transports = Array.isArray(body.response?.transports)
+            ? body.response!.transports!.filter(transport => typeof transport === 'string')
+            : [];
+
+        await storeCredential(env, {
+            id: verified.credentialId,
+            userId: user.UserID,
+            publicKey: verified.publicKey,
+            algorithm: verified.algorithm,
+            signCount: verified.signCount,
+            transports,
+            name,
+        });
+
+        await logAccountEvent(env, 'PASSKEY_REGISTERED', user.UserID, user.Username, { credentialId: verified.credentialId, name }, getAuditIpAddress(request, env));
+
+        const credential = await getCredentialById(env, verified.credentialId);
+        return new Response(JSON.stringify({ credential: credential ? toSummary(credential) : null }), {
+            status: 201,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage === 'DUPLICATE_CREDENTIAL') {
+            return createErrorResponse('Passkey is already registered', 409);
+        }
+        console.error('Error registering passkey:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /webauthn/login/options - Begin passwordless login
+ * Public. If a `username` is supplied, the user's credentials are listed in
+ * allowCredentials; otherwise the browser offers any discoverable passkey.
+ */
+export async function handleWebAuthnLoginOptions(request: Request, env: Env): Promise<Response> {
+    try {
+        const rp = getWebAuthnRelyingParty(env);
+        if (!rp) {
+            return createErrorResponse('Passkeys are not configured', 501);
+        }
+
+        let username: string | undefined;
+        try {
+            const body = await request.json() as { username?: string };
+            username = typeof body.username === 'string' ? body.username : undefined;
+        } catch {
+            // Empty body is allowed for usernameless (discoverable credential) login
+        }
+
+        let allowCredentials: { type: string; id: string; transports: string[] }[] = [];
+        if (username) {
+            const user = await getUser(env, username);
+            // Unknown users get the same response shape to avoid account enumeration
+            if (user) {
+                const credentials = await getUserCredentials(env, user.UserID);
+                allowCredentials = credentials.map(credential => ({
+                    type: 'public-key',
+                    id: credential.id,
+                    transports: credential.transports,
+                }));
+            }
+        }
+
+        const challenge = await createWebAuthnChallenge(env, 'authentication');
+
+        return new Response(JSON.stringify({
+            challenge,
+            rpId: rp.rpId,
+            timeout: WEBAUTHN_CHALLENGE_TTL_SECONDS * 1000,
+            userVerification: 'required',
+            allowCredentials,
+        }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error creating passkey login options:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * POST /webauthn/login/verify - Complete passwordless login
+ * Public. Verifies the assertion, checks the signature counter and creates a
+ * session exactly like a password login (including RBAC permissions).
+ */
+export async function handleWebAuthnLoginVerify(request: Request, env: Env): Promise<Response> {
+    try {
+        const rp = getWebAuthnRelyingParty(env);
+        if (!rp) {
+            return createErrorResponse('Passkeys are not configured', 501);
+        }
+
+        let body: AuthenticationBody;
+        try {
+            body = await request.json() as AuthenticationBody;
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        const credentialId = body.id;
+        const clientDataJSON = body.response?.clientDataJSON;
+        const authenticatorData = body.response?.authenticatorData;
+        const signature = body.response?.signature;
+        if (typeof credentialId !== 'string' || typeof clientDataJSON !== 'string' ||
+            typeof authenticatorData !== 'string' || typeof signature !== 'string') {
+            return createErrorResponse('Invalid authentication response', 400);
+        }
+
+        const credential = await getCredentialById(env, credentialId);
+        if (!credential) {
+            return createErrorResponse('Passkey verification failed', 401);
+        }
+
+        const user = await getUserById(env, credential.userId);
+        if (!user) {
+            return createErrorResponse('Passkey verification failed', 401);
+        }
+
+        const ipAddress = getAuditIpAddress(request, env);
+        let signCount: number;
+        try {
+            const userHandle = body.response?.userHandle;
+            if (userHandle && userHandle !== toUserHandle(credential.userId)) {
+                throw new Error('User handle does not match credential owner');
+            }
+            const { challenge } = parseClientData(clientDataJSON);
+            const record = await consumeWebAuthnChallenge(env, challenge, 'authentication');
+            if (!record) {
+                throw new Error('Unknown or expired challenge');
+            }
+            ({ signCount } = await verifyAuthenticationResponse(
+                { clientDataJSON, authenticatorData, signature },
+                challenge,
+                rp,
+                { publicKey: credential.publicKey, signCount: credential.signCount }
+            ));
+        } catch (error) {
+            console.error('Passkey authentication verification failed:', error);
+            await logLoginFailure(env, user.Username, user.UserID, {
+                method: 'passkey',
+                credentialId,
+                reason: error instanceof Error ? error.message : 'Verification failed',
+            }, ipAddress);
+            return createErrorResponse('Passkey verification failed', 401);
+        }
+
+        await updateCredentialUsage(env, credential.id, signCount);
+
+        if (getRequireEmailVerification(env) && !isEmailVerified(user)) {
+            await logLoginFailure(env, user.Username, user.UserID, { method: 'passkey', credentialId, reason: 'email_not_verified' }, ipAddress);
+            return createUnverifiedEmailResponse();
+        }
+        await logAccountEvent(env, 'LOGIN_SUCCESS', user.UserID, user.Username, { method: 'passkey', credentialId }, ipAddress);
+
+        const sessionId = await createSession(env, user, request);
+        return new Response(JSON.stringify({ message: 'Login successful' }), {
+            headers: { 'Set-Cookie': createSessionCookie(env, sessionId) }
+        });
+    } catch (error) {
+        console.error('Error during passkey login:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * GET /webauthn/credentials - List the current user's passkeys
+ * Requires authentication
+ */
+export async function handleListWebAuthnCredentials(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requireSession(request, env);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+
+        const credentials = await getUserCredentials(env, authResult.user.UserID);
+
+        return new Response(JSON.stringify({ credentials: credentials.map(toSummary) }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error listing passkeys:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * PUT /webauthn/credentials/:credentialId - Rename one of the current user's passkeys
+ * Requires authentication
+ */
+export async function handleRenameWebAuthnCredential(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requireSession(request, env);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+        const user = authResult.user;
+
+        const credentialId = getCredentialIdFromPath(request);
+        if (!credentialId) {
+            return createErrorResponse('Invalid credential ID', 400);
+        }
+
+        let body: { name?: string };
+        try {
+            body = await request.json() as { name?: string };
+        } catch {
+            return createErrorResponse('Invalid JSON body', 400);
+        }
+        const { name } = body;
+        if (!name || typeof name !== 'string' || name.trim().length === 0) {
+            return createErrorResponse('Passkey name is required', 400);
+        }
+        if (name.trim().length > CREDENTIAL_NAME_MAX_LENGTH) {
+            return createErrorResponse(`Passkey name must be at most ${CREDENTIAL_NAME_MAX_LENGTH} characters`, 400);
+        }
+
+        const renamed = await renameCredential(env, user.UserID, credentialId, name.trim());
+        if (!renamed) {
+            return createErrorResponse('Passkey not found', 404);
+        }
+
+        await logAccountEvent(env, 'PASSKEY_RENAMED', user.UserID, user.Username, { credentialId, name: name.trim() }, getAuditIpAddress(request, env));
+
+        return new Response(JSON.stringify({ message: 'Passkey renamed' }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error renaming passkey:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
+
+/**
+ * DELETE /webauthn/credentials/:credentialId - Delete one of the current user's passkeys
+ * Requires authentication
+ */
+export async function handleDeleteWebAuthnCredential(request: Request, env: Env): Promise<Response> {
+    try {
+        const authResult = await requireSession(request, env);
+        if (!authResult.authorized) {
+            return authResult.error!;
+        }
+        const user = authResult.user;
+
+        const credentialId = getCredentialIdFromPath(request);
+        if (!credentialId) {
+            return createErrorResponse('Invalid credential ID', 400);
+        }
+
+        const deleted = await deleteCredential(env, user.UserID, credentialId);
+        if (!deleted) {
+            return createErrorResponse('Passkey not found', 404);
+        }
+
+        await logAccountEvent(env, 'PASSKEY_DELETED', user.UserID, user.Username, { credentialId }, getAuditIpAddress(request, env));
+
+        return new Response(JSON.stringify({ message: 'Passkey deleted' }), {
+            headers: { 'Content-Type': 'application/json' }
+        });
+    } catch (error) {
+        console.error('Error deleting passkey:', error);
+        return createErrorResponse('Internal server error', 500);
+    }
+}
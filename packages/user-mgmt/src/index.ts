@@ -5,9 +5,9 @@
  * authentication (login), session termination (logout), password reset functionalities, and retrieving user
  * session information, catering to the foundational needs of secure and stateful web applications.
  *
- * Utilizing SHA-256 for password hashing, this worker prioritizes security while acknowledging the operational
- * constraints of Cloudflare Workers, such as the impracticality of employing bcrypt for hashing due to its
- * computational intensity. Additionally, the worker implements essential Cross-Origin Resource Sharing (CORS)
+ * Passwords are hashed with PBKDF2-HMAC-SHA256 via WebCrypto in a versioned format, which balances security
+ * against the operational constraints of Cloudflare Workers, such as the impracticality of employing bcrypt
+ * due to its computational intensity. Legacy SHA-256 hashes are upgraded transparently on login. Additionally, the worker implements essential Cross-Origin Resource Sharing (CORS)
  * handling capabilities to ensure seamless interaction with web clients across different origins.
  *
  * By defining a structured `Env` interface, the worker enforces type checking on environment variables,
@@ -16,12 +16,19 @@
  * authentication and session management tasks.
  *
  * Features:
- * - Registration: Validates user data and stores it securely in the database.
- * - Login: Authenticates users by validating credentials and initiating a session.
+ * - Registration: Validates user data, stores it securely in the database and sends an email verification link.
+ * - Login: Authenticates users by validating credentials and initiating a session, with per-account and
+ *   per-IP throttling of failed attempts.
+ * - Multi-Factor Authentication: TOTP enrollment, two-step login and single-use backup codes.
+ * - Passkeys: WebAuthn registration, passwordless login and credential management.
  * - Logout: Terminates an active user session and clears related data.
- * - Password Reset: Facilitates password recovery processes for users.
+ * - Session Management: Lists a user's active sessions and revokes one or all others ("sign out everywhere").
+ * - Organizations: Tenant workspaces with invitations and per-organization roles.
+ * - Authorization Checks: Lets other workers ask whether a session holds permissions.
+ * - Password Reset: Facilitates password recovery processes for users and revokes all existing sessions.
  * - Session Data Retrieval: Demonstrates real-time session management by fetching session data.
  * - CORS Handling: Manages CORS preflight requests to support diverse web clients.
+ * - Scheduled Cleanup: A cron trigger removes expired time-bound role assignments.
  *
  * This worker is architected to serve as a secure, scalable foundation for building web applications on the
  * Cloudflare platform, showcasing the feasibility of leveraging serverless architectures for complex
@@ -31,6 +38,7 @@ import { AutoRouter, cors, IRequest } from 'itty-router';
 // Defines the environment variables required by the worker.
 import { Env, getRbacEnabled } from './env';
 import { bootstrapSuperAdmin } from './rbac/bootstrap';
+import { handleScheduled } from './scheduled';
 
 import {
 	handleRegister,
@@ -40,13 +48,74 @@ import {
 	handleForgotPasswordValidate,
 	handleForgotPasswordNewPassword,
 	handleLoadUser,
+	handleVerifyEmail,
+	handleResendVerification,
 	handleListRoles,
 	handleCreateRole,
+	handleGetRole,
+	handleUpdateRole,
+	handleDeleteRole,
+	handleGetRolePermissions,
+	handleGrantRolePermission,
+	handleRevokeRolePermission,
 	handleListPermissions,
+	handleCreatePermission,
+	handleUpdatePermission,
+	handleDeletePermission,
 	handleGetUserRoles,
+	handleExplainUserPermission,
 	handleAssignRole,
 	handleRemoveRole,
+	handleListRoleGrantRequests,
+	handleApproveRoleGrantRequest,
+	handleRejectRoleGrantRequest,
+	handleListRoleConstraints,
+	handleCreateRoleConstraint,
+	handleDeleteRoleConstraint,
+	handleListRoleConstraintViolations,
+	handleUnlockUser,
+	handleRevokeUserSessions,
+	handleDeleteUser,
+	handleListGroups,
+	handleCreateGroup,
+	handleGetGroup,
+	handleDeleteGroup,
+	handleAddGroupMember,
+	handleRemoveGroupMember,
+	handleAssignGroupRole,
+	handleRemoveGroupRole,
+	handleExportPolicy,
+	handleImportPolicy,
+	handleListSessions,
+	handleRevokeSession,
+	handleRevokeOtherSessions,
 	handleGetAuditLogs,
+	handleExportAuditLogs,
+	handleVerifyAuditLogs,
+	handleMfaStatus,
+	handleTotpEnroll,
+	handleTotpConfirm,
+	handleLoginMfa,
+	handleMfaDisable,
+	handleRegenerateBackupCodes,
+	handleWebAuthnRegisterOptions,
+	handleWebAuthnRegisterVerify,
+	handleWebAuthnLoginOptions,
+	handleWebAuthnLoginVerify,
+	handleListWebAuthnCredentials,
+	handleRenameWebAuthnCredential,
+	handleDeleteWebAuthnCredential,
+	handleCreateOrganization,
+	handleListOrganizations,
+	handleGetOrganization,
+	handleListOrganizationMembers,
+	handleRemoveOrganizationMember,
+	handleCreateOrganizationInvitation,
+	handleAcceptOrganizationInvitation,
+	handleAssignOrganizationRole,
+	handleRemoveOrganizationRole,
+	handleActivateOrganization,
+	handleAuthzCheck,
 } from './handlers';
 
 // Middleware for CORS preflight and response handling
@@ -98,7 +167,28 @@ router
 	.post('*/forgot-password', (request, env, ctx) => handleForgotPassword(request, env))
 	.post('*/forgot-password-validate', (request, env, ctx) => handleForgotPasswordValidate(request, env))
 	.post('*/forgot-password-new-password', (request, env, ctx) => handleForgotPasswordNewPassword(request, env))
-	.get('*/load-user', (request, env, ctx) => handleLoadUser(request, env));
+	.get('*/load-user', (request, env, ctx) => handleLoadUser(request, env))
+	.post('*/verify-email', (request, env, ctx) => handleVerifyEmail(request, env))
+	.post('*/resend-verification', (request, env, ctx) => handleResendVerification(request, env))
+	// Session management routes
+	.get('*/sessions', (request, env, ctx) => handleListSessions(request, env))
+	.post('*/sessions/revoke-others', (request, env, ctx) => handleRevokeOtherSessions(request, env))
+	.delete('*/sessions/:sessionId', (request, env, ctx) => handleRevokeSession(request, env))
+	// Multi-factor authentication routes
+	.post('*/login/mfa', (request, env, ctx) => handleLoginMfa(request, env))
+	.get('*/mfa/status', (request, env, ctx) => handleMfaStatus(request, env))
+	.post('*/mfa/totp/enroll', (request, env, ctx) => handleTotpEnroll(request, env))
+	.post('*/mfa/totp/confirm', (request, env, ctx) => handleTotpConfirm(request, env))
+	.post('*/mfa/disable', (request, env, ctx) => handleMfaDisable(request, env))
+	.post('*/mfa/backup-codes/regenerate', (request, env, ctx) => handleRegenerateBackupCodes(request, env))
+	// WebAuthn (passkey) routes
+	.post('*/webauthn/register/options', (request, env, ctx) => handleWebAuthnRegisterOptions(request, env))
+	.post('*/webauthn/register/verify', (request, env, ctx) => handleWebAuthnRegisterVerify(request, env))
+	.post('*/webauthn/login/options', (request, env, ctx) => handleWebAuthnLoginOptions(request, env))
+	.post('*/webauthn/login/verify', (request, env, ctx) => handleWebAuthnLoginVerify(request, env))
+	.get('*/webauthn/credentials', (request, env, ctx) => handleListWebAuthnCredentials(request, env))
+	.put('*/webauthn/credentials/:credentialId', (request, env, ctx) => handleRenameWebAuthnCredential(request, env))
+	.delete('*/webauthn/credentials/:credentialId', (request, env, ctx) => handleDeleteWebAuthnCredential(request, env));
 
 // Middleware to check if RBAC is enabled
 function requireRbacEnabled(request: IRequest, env: Env): Response | void {
@@ -114,11 +204,56 @@ function requireRbacEnabled(request: IRequest, env: Env): Response | void {
 router
 	.get('*/rbac/roles', requireRbacEnabled, (request, env) => handleListRoles(request, env))
 	.post('*/rbac/roles', requireRbacEnabled, (request, env) => handleCreateRole(request, env))
+	.get('*/rbac/roles/:roleId', requireRbacEnabled, (request, env) => handleGetRole(request, env))
+	.put('*/rbac/roles/:roleId', requireRbacEnabled, (request, env) => handleUpdateRole(request, env))
+	.delete('*/rbac/roles/:roleId', requireRbacEnabled, (request, env) => handleDeleteRole(request, env))
+	.get('*/rbac/roles/:roleId/permissions', requireRbacEnabled, (request, env) => handleGetRolePermissions(request, env))
+	.post('*/rbac/roles/:roleId/permissions', requireRbacEnabled, (request, env) => handleGrantRolePermission(request, env))
+	.delete('*/rbac/roles/:roleId/permissions', requireRbacEnabled, (request, env) => handleRevokeRolePermission(request, env))
 	.get('*/rbac/permissions', requireRbacEnabled, (request, env) => handleListPermissions(request, env))
+	.post('*/rbac/permissions', requireRbacEnabled, (request, env) => handleCreatePermission(request, env))
+	.put('*/rbac/permissions/:permissionId', requireRbacEnabled, (request, env) => handleUpdatePermission(request, env))
+	.delete('*/rbac/permissions/:permissionId', requireRbacEnabled, (request, env) => handleDeletePermission(request, env))
 	.get('*/rbac/users/:userId/roles', requireRbacEnabled, (request, env) => handleGetUserRoles(request, env))
 	.post('*/rbac/users/:userId/roles', requireRbacEnabled, (request, env) => handleAssignRole(request, env))
 	.delete('*/rbac/users/:userId/roles/:roleId', requireRbacEnabled, (request, env) => handleRemoveRole(request, env))
+	.get('*/rbac/users/:userId/permissions/explain', requireRbacEnabled, (request, env) => handleExplainUserPermission(request, env))
+	.post('*/rbac/users/:userId/unlock', requireRbacEnabled, (request, env) => handleUnlockUser(request, env))
+	.post('*/rbac/users/:userId/sessions/revoke', requireRbacEnabled, (request, env) => handleRevokeUserSessions(request, env))
+	.delete('*/rbac/users/:userId', requireRbacEnabled, (request, env) => handleDeleteUser(request, env))
+	.get('*/rbac/role-requests', requireRbacEnabled, (request, env) => handleListRoleGrantRequests(request, env))
+	.post('*/rbac/role-requests/:requestId/approve', requireRbacEnabled, (request, env) => handleApproveRoleGrantRequest(request, env))
+	.post('*/rbac/role-requests/:requestId/reject', requireRbacEnabled, (request, env) => handleRejectRoleGrantRequest(request, env))
+	.get('*/rbac/role-constraints', requireRbacEnabled, (request, env) => handleListRoleConstraints(request, env))
+	.post('*/rbac/role-constraints', requireRbacEnabled, (request, env) => handleCreateRoleConstraint(request, env))
+	.get('*/rbac/role-constraints/violations', requireRbacEnabled, (request, env) => handleListRoleConstraintViolations(request, env))
+	.delete('*/rbac/role-constraints/:constraintId', requireRbacEnabled, (request, env) => handleDeleteRoleConstraint(request, env))
+	.get('*/rbac/groups', requireRbacEnabled, (request, env) => handleListGroups(request, env))
+	.post('*/rbac/groups', requireRbacEnabled, (request, env) => handleCreateGroup(request, env))
+	.get('*/rbac/groups/:groupId', requireRbacEnabled, (request, env) => handleGetGroup(request, env))
+	.delete('*/rbac/groups/:groupId', requireRbacEnabled, (request, env) => handleDeleteGroup(request, env))
+	.post('*/rbac/groups/:groupId/members', requireRbacEnabled, (request, env) => handleAddGroupMember(request, env))
+	.delete('*/rbac/groups/:groupId/members/:userId', requireRbacEnabled, (request, env) => handleRemoveGroupMember(request, env))
+	.post('*/rbac/groups/:groupId/roles', requireRbacEnabled, (request, env) => handleAssignGroupRole(request, env))
+	.delete('*/rbac/groups/:groupId/roles/:roleId', requireRbacEnabled, (request, env) => handleRemoveGroupRole(request, env))
+	.get('*/rbac/policy', requireRbacEnabled, (request, env) => handleExportPolicy(request, env))
+	.post('*/rbac/policy/import', requireRbacEnabled, (request, env) => handleImportPolicy(request, env))
 	.get('*/rbac/audit-logs', requireRbacEnabled, (request, env) => handleGetAuditLogs(request, env))
+	.get('*/rbac/audit-logs/export', requireRbacEnabled, (request, env) => handleExportAuditLogs(request, env))
+	.get('*/rbac/audit-logs/verify', requireRbacEnabled, (request, env) => handleVerifyAuditLogs(request, env))
+	// Organization routes - per-organization roles are part of RBAC
+	.post('*/orgs', requireRbacEnabled, (request, env) => handleCreateOrganization(request, env))
+	.get('*/orgs', requireRbacEnabled, (request, env) => handleListOrganizations(request, env))
+	.post('*/orgs/invitations/accept', requireRbacEnabled, (request, env) => handleAcceptOrganizationInvitation(request, env))
+	.get('*/orgs/:orgId', requireRbacEnabled, (request, env) => handleGetOrganization(request, env))
+	.post('*/orgs/:orgId/activate', requireRbacEnabled, (request, env) => handleActivateOrganization(request, env))
+	.get('*/orgs/:orgId/members', requireRbacEnabled, (request, env) => handleListOrganizationMembers(request, env))
+	.delete('*/orgs/:orgId/members/:userId', requireRbacEnabled, (request, env) => handleRemoveOrganizationMember(request, env))
+	.post('*/orgs/:orgId/members/:userId/roles', requireRbacEnabled, (request, env) => handleAssignOrganizationRole(request, env))
+	.delete('*/orgs/:orgId/members/:userId/roles/:roleId', requireRbacEnabled, (request, env) => handleRemoveOrganizationRole(request, env))
+	.post('*/orgs/:orgId/invitations', requireRbacEnabled, (request, env) => handleCreateOrganizationInvitation(request, env))
+	// Authorization check API for other workers
+	.post('*/authz/check', requireRbacEnabled, (request, env) => handleAuthzCheck(request, env))
 	.all('*', () => new Response('Not Found', { status: 404 }));
 
-export default { ...router }; // Export the router
+export default { ...router, scheduled: handleScheduled }; // Export the router and cron handler
@@ -0,0 +1,48 @@
+/**
+ * Single-use MFA backup codes.
+ *
+ * Codes are generated from 50 bits of randomness, shown to the user exactly once
+ * and stored only as SHA-256 hashes. Because the codes are high-entropy random
+ * values (unlike passwords) a fast hash is sufficient.
+ */
+
+import { base32Encode } from './totp';
+
+/** Number of backup codes issued per generation */
+export const BACKUP_CODE_COUNT = 10;
+
+/**
+ * Normalizes user input so formatting differences (case, dashes, spaces) don't matter.
+ */
+export function normalizeBackupCode(code: string): string {
+    return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Generates a set of human-friendly backup codes in the form `xxxxx-xxxxx`.
+ *
+ * @param count - Number of codes to generate
+ * @returns The plaintext codes
+ */
+export function generateBackupCodes(count: number = BACKUP_CODE_COUNT): string[] {
+    const codes: string[] = [];
+    for (let i = 0; i < count; i++) {
+        const raw = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+        codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+    }
+    return codes;
+}
+
+/**
+ * Hashes a backup code for storage or lookup.
+ *
+ * @param code - The plaintext code (any formatting)
+ * @returns The hex-encoded SHA-256 hash of the normalized code
+ */
+export async function hashBackupCode(code: string): Promise<string> {
+    const data = new TextEncoder().encode(normalizeBackupCode(code));
+    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(hashBuffer))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
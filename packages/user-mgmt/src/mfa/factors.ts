@@ -0,0 +1,250 @@
+import { Env } from '../env';
+import { TotpFactor, MfaStatus } from '../types/mfa';
+import { hashBackupCode } from './backup-codes';
+import { verifyTotp } from './totp';
+
+/**
+ * Retrieves the TOTP factor for a user, whether confirmed or still pending enrollment.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ * @returns The TOTP factor, or null if the user has never started enrollment
+ */
+export async function getTotpFactor(env: Env, userId: number): Promise<TotpFactor | null> {
+    const row = await env.usersDB
+        .prepare(`
+            SELECT user_id, totp_secret, totp_enabled, totp_last_counter, confirmed_at, created_at
+            FROM user_mfa
+            WHERE user_id = ?
+        `)
+        .bind(userId)
+        .first<{
+            user_id: number;
+            totp_secret: string;
+            totp_enabled: number;
+            totp_last_counter: number | null;
+            confirmed_at: string | null;
+            created_at: string;
+        }>();
+
+    if (!row) {
+        return null;
+    }
+
+    return {
+        userId: row.user_id,
+        secret: row.totp_secret,
+        enabled: row.totp_enabled === 1,
+        lastCounter: row.totp_last_counter,
+        confirmedAt: row.confirmed_at ? new Date(row.confirmed_at) : null,
+        createdAt: new Date(row.created_at),
+    };
+}
+
+/**
+ * Checks whether a user has a confirmed second factor and must complete MFA on login.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ */
+export async function isMfaEnabled(env: Env, userId: number): Promise<boolean> {
+    const factor = await getTotpFactor(env, userId);
+    return factor?.enabled === true;
+}
+
+/**
+ * Stores a new, unconfirmed TOTP secret for a user, replacing any previous pending enrollment.
+ * Confirmed factors are not replaced; callers must disable MFA first.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ * @param secret - The base32-encoded TOTP secret
+ */
+export async function savePendingTotpSecret(env: Env, userId: number, secret: string): Promise<void> {
+    const result = await env.usersDB
+        .prepare(`
+            INSERT INTO user_mfa (user_id, totp_secret, totp_enabled, created_at)
+            VALUES (?, ?, 0, datetime('now'))
+            ON CONFLICT(user_id) DO UPDATE SET
+                totp_secret = excluded.totp_secret,
+                totp_last_counter = NULL,
+                created_at = excluded.created_at
+            WHERE user_mfa.totp_enabled = 0
+        `)
+        .bind(userId, secret)
+        .run();
+
+    if (!result.success) {
+        throw new Error('Failed to save TOTP secret');
+    }
+}
+
+/**
+ * Marks a user's pending TOTP factor as confirmed and records the counter used to confirm it.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ * @param counter - The TOTP counter of the confirmation code
+ */
+export async function enableTotpFactor(env: Env, userId: number, counter: number): Promise<void> {
+    const result = await env.usersDB
+        .prepare(`
+            UPDATE user_mfa
+            SET totp_enabled = 1, totp_last_counter = ?, confirmed_at = datetime('now')
+            WHERE user_id = ?
+        `)
+        .bind(counter, userId)
+        .run();
+
+    if (!result.success) {
+        throw new Error('Failed to enable TOTP factor');
+    }
+}
+
+/**
+ * Records the counter of the last accepted TOTP code so it cannot be replayed.
+ * The update only succeeds if the counter moves forward, which also guards against
+ * two concurrent logins accepting the same code.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ * @param counter - The TOTP counter that was just accepted
+ * @returns True if the counter was recorded, false if it had already been used
+ */
+export async function recordTotpCounter(env: Env, userId: number, counter: number): Promise<boolean> {
+    const result = await env.usersDB
+        .prepare(`
+            UPDATE user_mfa
+            SET totp_last_counter = ?
+            WHERE user_id = ? AND (totp_last_counter IS NULL OR totp_last_counter < ?)
+        `)
+        .bind(counter, userId, counter)
+        .run();
+
+    return result.success && result.meta.changes === 1;
+}
+
+/**
+ * Removes all second factors (TOTP and backup codes) for a user.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ */
+export async function disableMfa(env: Env, userId: number): Promise<void> {
+    const results = await env.usersDB.batch([
+        env.usersDB.prepare('DELETE FROM user_mfa WHERE user_id = ?').bind(userId),
+        env.usersDB.prepare('DELETE FROM mfa_backup_codes WHERE user_id = ?').bind(userId),
+    ]);
+
+    if (results.some(result => !result.success)) {
+        throw new Error('Failed to disable MFA');
+    }
+}
+
+/**
+ * Replaces all backup codes for a user with a new set.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ * @param codes - The new plaintext codes (only their hashes are stored)
+ */
+export async function replaceBackupCodes(env: Env, userId: number, codes: string[]): Promise<void> {
+    const hashes = await Promise.all(codes.map(code => hashBackupCode(code)));
+    const insert = env.usersDB.prepare(`
+        INSERT INTO mfa_backup_codes (user_id, code_hash, created_at)
+        VALUES (?, ?, datetime('now'))
+    `);
+
+    const results = await env.usersDB.batch([
+        env.usersDB.prepare('DELETE FROM mfa_backup_codes WHERE user_id = ?').bind(userId),
+        ...hashes.map(hash => insert.bind(userId, hash)),
+    ]);
+
+    if (results.some(result => !result.success)) {
+        throw new Error('Failed to store backup codes');
+    }
+}
+
+/**
+ * Consumes a backup code. Each code can be used exactly once.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ * @param code - The plaintext code entered by the user
+ * @returns True if an unused matching code was found and marked used
+ */
+export async function consumeBackupCode(env: Env, userId: number, code: string): Promise<boolean> {
+    const codeHash = await hashBackupCode(code);
+    const result = await env.usersDB
+        .prepare(`
+            UPDATE mfa_backup_codes
+            SET used_at = datetime('now')
+            WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+        `)
+        .bind(userId, codeHash)
+        .run();
+
+    return result.success && result.meta.changes === 1;
+}
+
+/**
+ * Returns a summary of a user's MFA configuration.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ */
+export async function getMfaStatus(env: Env, userId: number): Promise<MfaStatus> {
+    const [factor, remaining] = await Promise.all([
+        getTotpFactor(env, userId),
+        env.usersDB
+            .prepare('SELECT COUNT(*) as count FROM mfa_backup_codes WHERE user_id = ? AND used_at IS NULL')
+            .bind(userId)
+            .first<{ count: number }>(),
+    ]);
+
+    return {
+        totpEnabled: factor?.enabled === true,
+        totpPending: factor !== null && !factor.enabled,
+        backupCodesRemaining: remaining?.count ?? 0,
+    };
+}
+
+/**
+ * Which factor satisfied a second-factor check.
+ */
+export type SecondFactorMethod = 'totp' | 'backup_code';
+
+/**
+ * Verifies a second factor for a user with MFA enabled.
+ * A TOTP code is checked first (and its counter recorded to prevent replay);
+ * otherwise a backup code is consumed.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ * @param input - The TOTP code and/or backup code supplied by the user
+ * @returns The method that succeeded, or null if verification failed
+ */
+export async function verifySecondFactor(
+    env: Env,
+    userId: number,
+    input: { code?: string; backupCode?: string }
+): Promise<SecondFactorMethod | null> {
+    const factor = await getTotpFactor(env, userId);
+    if (!factor || !factor.enabled) {
+        return null;
+    }
+
+    if (input.code) {
+        const counter = await verifyTotp(factor.secret, input.code, factor.lastCounter);
+        if (counter !== null && await recordTotpCounter(env, userId, counter)) {
+            return 'totp';
+        }
+        return null;
+    }
+
+    if (input.backupCode && await consumeBackupCode(env, userId, input.backupCode)) {
+        return 'backup_code';
+    }
+
+    return null;
+}
@@ -0,0 +1,54 @@
+/**
+ * MFA (Multi-Factor Authentication) module
+ *
+ * This module provides TOTP enrollment and verification, single-use backup
+ * codes and the short-lived pending-login tokens used by the two-step login.
+ */
+
+// Export TOTP primitives
+export {
+    generateTotpSecret,
+    generateTotp,
+    verifyTotp,
+    buildOtpAuthUri,
+    base32Encode,
+    base32Decode
+} from './totp';
+
+// Export backup code helpers
+export {
+    generateBackupCodes,
+    hashBackupCode,
+    BACKUP_CODE_COUNT
+} from './backup-codes';
+
+// Export factor storage functions
+export {
+    getTotpFactor,
+    isMfaEnabled,
+    savePendingTotpSecret,
+    enableTotpFactor,
+    recordTotpCounter,
+    disableMfa,
+    replaceBackupCodes,
+    consumeBackupCode,
+    getMfaStatus,
+    verifySecondFactor,
+    type SecondFactorMethod
+} from './factors';
+
+// Export pending login token functions
+export {
+    createMfaPendingToken,
+    getMfaPendingLogin,
+    deleteMfaPendingToken,
+    recordMfaPendingFailure,
+    MFA_PENDING_TTL_SECONDS
+} from './pending';
+
+// Re-export MFA types for convenience
+export type {
+    TotpFactor,
+    MfaStatus,
+    MfaPendingLogin
+} from '../types/mfa';
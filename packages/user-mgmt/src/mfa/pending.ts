@@ -0,0 +1,124 @@
+/**
+ * Short-lived "MFA pending" login tokens.
+ *
+ * After a user with MFA enabled passes the password step, no session is created.
+ * Instead an opaque token is stored in KV (via the session-state worker's cache
+ * routes) and returned to the client, which must present it together with a
+ * TOTP or backup code to complete the login.
+ */
+
+import { Env } from '../env';
+import { MfaPendingLogin } from '../types/mfa';
+
+/** Lifetime of a pending MFA login in seconds */
+export const MFA_PENDING_TTL_SECONDS = 300;
+
+/** Maximum number of wrong codes accepted for one pending login before it is discarded */
+export const MFA_MAX_ATTEMPTS = 5;
+
+/**
+ * Stored shape of a pending login, including the failed attempt counter.
+ */
+interface StoredPendingLogin extends MfaPendingLogin {
+    attempts: number;
+}
+
+function getPendingCacheUrl(token: string): string {
+    return `https://session-service/cache/${encodeURIComponent(`mfa:pending:${token}`)}`;
+}
+
+async function putPendingLogin(env: Env, token: string, pending: StoredPendingLogin): Promise<void> {
+    const elapsedSeconds = Math.floor((Date.now() - pending.createdAt) / 1000);
+    // KV requires a TTL of at least 60 seconds
+    const ttl = Math.max(MFA_PENDING_TTL_SECONDS - elapsedSeconds, 60);
+    const response = await env.sessionService.fetch(
+        new Request(getPendingCacheUrl(token), {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ data: pending, ttl }),
+        })
+    );
+    if (!response.ok) {
+        throw new Error(`Failed to store pending MFA login (status ${response.status})`);
+    }
+}
+
+/**
+ * Creates a pending MFA login for a user.
+ *
+ * @param env - The environment configuration
+ * @param userId - The ID of the user who passed the password step
+ * @param username - The username of that user
+ * @returns The opaque token the client must present with the second factor
+ */
+export async function createMfaPendingToken(env: Env, userId: number, username: string): Promise<string> {
+    const token = crypto.randomUUID();
+    await putPendingLogin(env, token, { userId, username, createdAt: Date.now(), attempts: 0 });
+    return token;
+}
+
+/**
+ * Loads a pending MFA login. Returns null if the token is unknown or expired.
+ *
+ * @param env - The environment configuration
+ * @param token - The pending login token
+ */
+export async function getMfaPendingLogin(env: Env, token: string): Promise<MfaPendingLogin | null> {
+    try {
+        const response = await env.sessionService.fetch(new Request(getPendingCacheUrl(token), { method: 'GET' }));
+        if (!response.ok) {
+            return null;
+        }
+        const pending = await response.json() as StoredPendingLogin;
+        if (Date.now() - pending.createdAt > MFA_PENDING_TTL_SECONDS * 1000) {
+            return null;
+        }
+        return { userId: pending.userId, username: pending.username, createdAt: pending.createdAt };
+    } catch (error) {
+        console.error('Error loading pending MFA login:', error);
+        return null;
+    }
+}
+
+/**
+ * Deletes a pending MFA login. Called once the login completes so the token can't be reused.
+ *
+ * @param env - The environment configuration
+ * @param token - The pending login token
+ */
+export async function deleteMfaPendingToken(env: Env, token: string): Promise<void> {
+    try {
+        await env.sessionService.fetch(new Request(getPendingCacheUrl(token), { method: 'DELETE' }));
+    } catch (error) {
+        console.error('Error deleting pending MFA login:', error);
+    }
+}
+
+/**
+ * Records a failed second-factor attempt. Once MFA_MAX_ATTEMPTS is reached the
+ * pending login is discarded and the user must start over with their password.
+ *
+ * @param env - The environment configuration
+ * @param token - The pending login token
+ * @returns True if the pending login is still usable, false if it was discarded
+ */
+export async function recordMfaPendingFailure(env: Env, token: string): Promise<boolean> {
+    try {
+        const response = await env.sessionService.fetch(new Request(getPendingCacheUrl(token), { method: 'GET' }));
+        if (!response.ok) {
+            return false;
+        }
+        const pending = await response.json() as StoredPendingLogin;
+        const attempts = (pending.attempts ?? 0) + 1;
+        if (attempts >= MFA_MAX_ATTEMPTS) {
+            await deleteMfaPendingToken(env, token);
+            return false;
+        }
+        await putPendingLogin(env, token, { ...pending, attempts });
+        return true;
+    } catch (error) {
+        console.error('Error recording MFA failure:', error);
+        await deleteMfaPendingToken(env, token);
+        return false;
+    }
+}
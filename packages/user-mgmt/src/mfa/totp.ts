@@ -0,0 +1,176 @@
+/**
+ * TOTP (RFC 6238) implementation using WebCrypto.
+ *
+ * Secrets are 160-bit random values encoded as RFC 4648 base32, which is the
+ * format authenticator apps expect in otpauth:// URIs. Codes use HMAC-SHA1,
+ * 6 digits and a 30 second period, the defaults every major app supports.
+ */
+
+/** Number of secret bytes (160 bits, as recommended by RFC 4226) */
+const SECRET_BYTES = 20;
+
+/** Time step in seconds */
+export const TOTP_PERIOD_SECONDS = 30;
+
+/** Number of digits in a code */
+export const TOTP_DIGITS = 6;
+
+/** Number of time steps before/after the current one that are accepted to tolerate clock drift */
+export const TOTP_DRIFT_WINDOW = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encodes bytes as unpadded RFC 4648 base32.
+ */
+export function base32Encode(bytes: Uint8Array): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+/**
+ * Decodes RFC 4648 base32 (case-insensitive, padding and spaces ignored).
+ *
+ * @throws Error if the input contains characters outside the base32 alphabet
+ */
+export function base32Decode(input: string): Uint8Array {
+    const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+    let bits = 0;
+    let value = 0;
+    const output: number[] = [];
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error('Invalid base32 character');
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            output.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return new Uint8Array(output);
+}
+
+/**
+ * Generates a new random TOTP secret.
+ *
+ * @returns The base32-encoded secret
+ */
+export function generateTotpSecret(): string {
+    return base32Encode(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+}
+
+/**
+ * Computes an HOTP value (RFC 4226) for the given key and counter.
+ */
+async function hotp(key: Uint8Array, counter: number, digits: number): Promise<string> {
+    const counterBytes = new Uint8Array(8);
+    // Counters fit comfortably in 53 bits; split into high/low 32-bit words
+    const high = Math.floor(counter / 0x100000000);
+    const low = counter >>> 0;
+    new DataView(counterBytes.buffer).setUint32(0, high);
+    new DataView(counterBytes.buffer).setUint32(4, low);
+
+    const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+    const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, counterBytes));
+
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+        ((hmac[offset] & 0x7f) << 24) |
+        ((hmac[offset + 1] & 0xff) << 16) |
+        ((hmac[offset + 2] & 0xff) << 8) |
+        (hmac[offset + 3] & 0xff);
+
+    return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Returns the TOTP time-step counter for a timestamp.
+ *
+ * @param timestampMs - Unix time in milliseconds (defaults to now)
+ */
+export function getTotpCounter(timestampMs: number = Date.now()): number {
+    return Math.floor(timestampMs / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Generates the TOTP code for a secret at a given time.
+ *
+ * @param secret - The base32-encoded secret
+ * @param timestampMs - Unix time in milliseconds (defaults to now)
+ * @param digits - Number of digits (defaults to TOTP_DIGITS)
+ * @returns The TOTP code as a zero-padded string
+ */
+export async function generateTotp(secret: string, timestampMs: number = Date.now(), digits: number = TOTP_DIGITS): Promise<string> {
+    return hotp(base32Decode(secret), getTotpCounter(timestampMs), digits);
+}
+
+/**
+ * Verifies a TOTP code, allowing TOTP_DRIFT_WINDOW steps of clock drift.
+ * Returns the matching counter so callers can reject replays of the same code.
+ *
+ * @param secret - The base32-encoded secret
+ * @param code - The code entered by the user
+ * @param lastUsedCounter - The counter of the last accepted code; codes at or before it are rejected
+ * @param timestampMs - Unix time in milliseconds (defaults to now)
+ * @returns The matched counter, or null if the code is invalid or replayed
+ */
+export async function verifyTotp(
+    secret: string,
+    code: string,
+    lastUsedCounter: number | null = null,
+    timestampMs: number = Date.now()
+): Promise<number | null> {
+    const normalized = code.replace(/\s/g, '');
+    if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+        return null;
+    }
+
+    const key = base32Decode(secret);
+    const current = getTotpCounter(timestampMs);
+    for (let drift = -TOTP_DRIFT_WINDOW; drift <= TOTP_DRIFT_WINDOW; drift++) {
+        const counter = current + drift;
+        if (lastUsedCounter !== null && counter <= lastUsedCounter) {
+            continue;
+        }
+        if ((await hotp(key, counter, TOTP_DIGITS)) === normalized) {
+            return counter;
+        }
+    }
+    return null;
+}
+
+/**
+ * Builds an otpauth:// URI suitable for rendering as a QR code.
+ *
+ * @param secret - The base32-encoded secret
+ * @param accountName - The account label shown in the authenticator app (usually the username)
+ * @param issuer - The service name shown in the authenticator app
+ * @returns The otpauth URI
+ */
+export function buildOtpAuthUri(secret: string, accountName: string, issuer: string): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: TOTP_DIGITS.toString(),
+        period: TOTP_PERIOD_SECONDS.toString(),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -16,5 +16,7 @@ export {
     requirePermission,
     requireAnyPermission,
     requireAllPermissions,
-    requireAuth
+    requireOrgPermission,
+    requireAuth,
+    type RequirePermissionOptions
 } from './rbac';
\ No newline at end of file
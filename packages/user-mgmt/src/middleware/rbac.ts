@@ -5,9 +5,22 @@
  */
 
 import { Env, getRbacEnabled, getIpLoggingEnabled } from '../env';
-import { hasPermission, logAuthorizationDenied, getIpAddressFromRequest } from '../rbac';
+import { hasPermission, createPermissionMatcher, hasScopedPermission, getOrganizationScope, logAuthorizationDenied, getIpAddressFromRequest } from '../rbac';
+import { ResourceScope } from '../types/rbac';
 import { RequestWithSession } from './session';
 
+/**
+ * Options for requirePermission.
+ */
+export interface RequirePermissionOptions {
+    /**
+     * Extracts the resource the request acts on, e.g. `req => ({ type: 'project', id: req.params.projectId })`.
+     * When it returns a scope, roles assigned to the user on that resource also satisfy the check.
+     * Returning null or undefined limits the check to global permissions.
+     */
+    scopeFrom?: (request: RequestWithSession) => ResourceScope | null | undefined;
+}
+
 /**
  * Helper function to log permission denial events.
  * Consolidates the repeated logging pattern across middleware functions.
@@ -36,12 +49,14 @@ function logPermissionDenialEvent(
  * Middleware that requires the user to have a specific permission.
  * 
  * If RBAC is disabled, this middleware allows all requests to pass through.
- * Otherwise, it checks if the user has the required permission.
+ * Otherwise, it checks if the user has the required permission, either globally or
+ * (with `options.scopeFrom`) through a role assigned on the resource the request targets.
  * 
  * @param permission - The permission name required to access the route
+ * @param options - Optional settings, such as how to extract the resource scope from the request
  * @returns Middleware function that checks for the specified permission
  */
-export function requirePermission(permission: string) {
+export function requirePermission(permission: string, options: RequirePermissionOptions = {}) {
     return async (
         request: RequestWithSession,
         env: Env
@@ -67,13 +82,33 @@ export function requirePermission(permission: string) {
         // Extract permissions from session data
         const userPermissions = request.sessionData.permissions || [];
         
-        // Check if user has the required permission
-        if (!hasPermission(userPermissions, permission)) {
+        // Check if user has the required permission globally, then on the request's resource
+        let authorized = hasPermission(userPermissions, permission);
+        const scope = authorized ? null : options.scopeFrom?.(request);
+        if (scope) {
+            try {
+                authorized = await hasScopedPermission(env, request.sessionData, permission, scope);
+            } catch (error) {
+                console.error('Error checking scoped permission:', error);
+                return new Response(
+                    JSON.stringify({
+                        error: 'Failed to check permissions'
+                    }),
+                    {
+                        status: 500,
+                        headers: { 'Content-Type': 'application/json' }
+                    }
+                );
+            }
+        }
+
+        if (!authorized) {
             // Log the required permission server-side for debugging
-            console.log(`Permission denied: user lacks '${permission}' permission`);
+            const target = scope ? `${permission} on ${scope.type}:${scope.id}` : permission;
+            console.log(`Permission denied: user lacks '${target}' permission`);
 
             // Log failed authorization attempt for security monitoring
-            logPermissionDenialEvent(env, request, permission);
+            logPermissionDenialEvent(env, request, target);
 
             return new Response(
                 JSON.stringify({
@@ -91,6 +126,26 @@ export function requirePermission(permission: string) {
     };
 }
 
+/**
+ * Middleware that requires the user to have a permission within an organization.
+ *
+ * The organization is taken from the route's `:orgId` parameter, falling back to the session's
+ * active organization. Roles the user holds in that organization satisfy the check, as do global
+ * permissions, so a user can be ORG_ADMIN in one organization and ORG_MEMBER in another.
+ * Without an organization only global permissions apply.
+ *
+ * @param permission - The permission name required within the organization
+ * @returns Middleware function that checks for the specified permission
+ */
+export function requireOrgPermission(permission: string) {
+    return requirePermission(permission, {
+        scopeFrom: request => {
+            const orgId = request.params?.orgId ?? request.sessionData?.activeOrgId;
+            return orgId ? getOrganizationScope(orgId) : null;
+        }
+    });
+}
+
 /**
  * Middleware that requires the user to have ANY of the specified permissions (OR logic).
  * 
@@ -126,9 +181,10 @@ export function requireAnyPermission(permissions: string[]) {
         // Extract permissions from session data
         const userPermissions = request.sessionData.permissions || [];
         
-        // Check if user has any of the required permissions
+        // Check if user has any of the required permissions (wildcard grants apply as in hasPermission)
+        const matcher = createPermissionMatcher(userPermissions);
         const hasAnyRequiredPermission = permissions.some(permission => 
-            hasPermission(userPermissions, permission)
+            matcher.matches(permission)
         );
         
         if (!hasAnyRequiredPermission) {
@@ -189,9 +245,10 @@ export function requireAllPermissions(permissions: string[]) {
         // Extract permissions from session data
         const userPermissions = request.sessionData.permissions || [];
         
-        // Check if user has all of the required permissions
+        // Check if user has all of the required permissions (wildcard grants apply as in hasPermission)
+        const matcher = createPermissionMatcher(userPermissions);
         const missingPermissions = permissions.filter(permission => 
-            !hasPermission(userPermissions, permission)
+            !matcher.matches(permission)
         );
         
         if (missingPermissions.length > 0) {
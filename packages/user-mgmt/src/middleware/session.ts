@@ -5,9 +5,10 @@
  */
 
 import { IRequest } from 'itty-router';
-import { Env } from '../env';
+import { Env, getRbacEnabled } from '../env';
 import { getSessionIdFromCookies } from '../utils';
 import { loadSession } from '../session';
+import { getSessionPermissions } from '../rbac';
 import { SessionData } from '../types/rbac';
 
 /**
@@ -24,6 +25,7 @@ export interface RequestWithSession extends IRequest {
  * This middleware:
  * - Extracts the session ID from request cookies
  * - Loads session data from the session-state worker
+ * - Replaces the login-time permission snapshot with the user's current permissions (when RBAC is enabled)
  * - Attaches both session ID and data to the request for downstream use
  * - Returns 401 Unauthorized if no valid session is found
  * 
@@ -62,6 +64,11 @@ export async function withSession(
             );
         }
         
+        // Resolve current permissions so role changes apply without logging in again
+        if (getRbacEnabled(env)) {
+            sessionData.permissions = await getSessionPermissions(env, sessionData);
+        }
+
         // Attach session data to request for downstream use
         request.sessionId = sessionId;
         request.sessionData = sessionData;
@@ -97,6 +104,9 @@ export async function withOptionalSession(
         try {
             const sessionData = await loadSession(env, sessionId);
             if (sessionData) {
+                if (getRbacEnabled(env)) {
+                    sessionData.permissions = await getSessionPermissions(env, sessionData);
+                }
                 request.sessionId = sessionId;
                 request.sessionData = sessionData;
             }
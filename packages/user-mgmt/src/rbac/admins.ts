@@ -0,0 +1,79 @@
+import { Env } from '../env';
+import { PERMISSIONS } from '../constants/rbac';
+import { AdminAccessChange } from '../types/rbac';
+import { ACTIVE_ROLE_ASSIGNMENT } from './roles';
+
+/**
+ * Gets the IDs of users who hold admin:all, directly or through a group, from a role granting it or inheriting
+ * from one. Pass a change to get the users who would still hold it once the change is made, so a change that
+ * would leave the system without an administrator can be refused before anything is written.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param change - Optional change to apply hypothetically
+ * @returns A promise that resolves to the user IDs, in ascending order
+ * @throws Error if the database query fails
+ */
+export async function getAdminHolderIds(env: Env, change: AdminAccessChange = {}): Promise<number[]> {
+    const deletedRole = change.deleteRole ?? null;
+
+    // A re-parented role inherits from its new parent. Roles inheriting from a deleted role are re-parented to its
+    // parent, as deleteRole() does
+    const result = await env.usersDB
+        .prepare(`
+            WITH RECURSIVE admin_roles(id) AS (
+                SELECT rp.role_id
+                FROM role_permissions rp
+                INNER JOIN permissions p ON rp.permission_id = p.id
+                WHERE p.name = ? AND rp.role_id IS NOT ? AND rp.role_id IS NOT ?
+                UNION
+                SELECT r.id
+                FROM roles r
+                INNER JOIN admin_roles a
+                    ON (CASE WHEN r.id IS ? THEN ? ELSE r.parent_role_id END) = a.id
+                    OR (r.parent_role_id = ? AND a.id = (SELECT parent_role_id FROM roles WHERE id = ?))
+                WHERE r.id IS NOT ?
+            )
+            SELECT ur.user_id
+            FROM user_roles ur
+            INNER JOIN admin_roles a ON ur.role_id = a.id
+            WHERE ${ACTIVE_ROLE_ASSIGNMENT}
+                AND ur.user_id IS NOT ?
+                AND NOT (ur.user_id IS ? AND ur.role_id IS ?)
+            UNION
+            SELECT gm.user_id
+            FROM group_members gm
+            INNER JOIN group_roles gr ON gm.group_id = gr.group_id
+            INNER JOIN admin_roles a ON gr.role_id = a.id
+            WHERE gm.user_id IS NOT ?
+                AND gm.group_id IS NOT ?
+                AND NOT (gm.group_id IS ? AND gm.user_id IS ?)
+                AND NOT (gr.group_id IS ? AND gr.role_id IS ?)
+            ORDER BY 1
+        `)
+        .bind(
+            PERMISSIONS.ADMIN_ALL,
+            change.revokeAdminFromRole ?? null,
+            deletedRole,
+            change.reparentRole?.roleId ?? null,
+            change.reparentRole?.parentRoleId ?? null,
+            deletedRole,
+            deletedRole,
+            deletedRole,
+            change.deleteUser ?? null,
+            change.removeUserRole?.userId ?? null,
+            change.removeUserRole?.roleId ?? null,
+            change.deleteUser ?? null,
+            change.deleteGroup ?? null,
+            change.removeGroupMember?.groupId ?? null,
+            change.removeGroupMember?.userId ?? null,
+            change.removeGroupRole?.groupId ?? null,
+            change.removeGroupRole?.roleId ?? null
+        )
+        .all<{ user_id: number }>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve admin holders');
+    }
+
+    return result.results.map(row => row.user_id);
+}
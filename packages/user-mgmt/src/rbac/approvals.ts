@@ -0,0 +1,375 @@
+/**
+ * Approval of privileged role grants.
+ *
+ * Assigning a role flagged `requires_approval` (or one inheriting from a flagged role) to a user creates a pending
+ * request instead of the assignment. A second user with roles:approve, who is neither the requester nor the user
+ * receiving the role, approves or rejects it. Requests that aren't decided in time expire. Requests are kept once
+ * decided so the audit trail can be reconstructed from them as well as from the audit log.
+ */
+
+import { Env } from '../env';
+import { ResourceScope, RoleAssignmentWindow, RoleGrantRequest, RoleGrantRequestStatus } from '../types/rbac';
+import { assignRole } from './roles';
+import { assignScopedRole } from './scopes';
+import { findRoleConflict } from './constraints';
+import { logRoleGrantRequestEvent } from './audit';
+import { afterPageCondition, PagePosition } from './pagination';
+
+/**
+ * Parses a DATETIME column written by SQLite, which is UTC without a zone suffix.
+ */
+function parseDbDate(value: string): Date {
+    return new Date(`${value.replace(' ', 'T')}Z`);
+}
+
+interface RoleGrantRequestRow {
+    id: string;
+    userId: number;
+    username: string | null;
+    roleId: string;
+    roleName: string | null;
+    scopeType: string | null;
+    scopeId: string | null;
+    startsAt: string | null;
+    expiresAt: string | null;
+    status: RoleGrantRequestStatus;
+    requestedBy: number | null;
+    requestedAt: string;
+    requestExpiresAt: string;
+    decidedBy: number | null;
+    decidedAt: string | null;
+    note: string | null;
+}
+
+const ROLE_GRANT_REQUEST_COLUMNS = `
+    g.id, g.user_id as userId, u.Username as username, g.role_id as roleId, r.name as roleName,
+    g.scope_type as scopeType, g.scope_id as scopeId, g.starts_at as startsAt, g.expires_at as expiresAt,
+    g.status, g.requested_by as requestedBy, g.requested_at as requestedAt, g.request_expires_at as requestExpiresAt,
+    g.decided_by as decidedBy, g.decided_at as decidedAt, g.note
+    FROM role_grant_requests g
+    LEFT JOIN User u ON g.user_id = u.UserID
+    LEFT JOIN roles r ON g.role_id = r.id
+`;
+
+function toRoleGrantRequest(row: RoleGrantRequestRow): RoleGrantRequest {
+    return {
+        id: row.id,
+        userId: row.userId,
+        username: row.username ?? '',
+        roleId: row.roleId,
+        roleName: row.roleName ?? '',
+        scope: row.scopeType !== null && row.scopeId !== null ? { type: row.scopeType, id: row.scopeId } : null,
+        startsAt: row.startsAt ? parseDbDate(row.startsAt) : null,
+        expiresAt: row.expiresAt ? parseDbDate(row.expiresAt) : null,
+        status: row.status,
+        requestedBy: row.requestedBy,
+        requestedAt: parseDbDate(row.requestedAt),
+        requestExpiresAt: parseDbDate(row.requestExpiresAt),
+        decidedBy: row.decidedBy,
+        decidedAt: row.decidedAt ? parseDbDate(row.decidedAt) : null,
+        note: row.note
+    };
+}
+
+/**
+ * Whether assigning a role needs approval: the role, or a role it inherits from, is flagged `requires_approval`.
+ * Inheriting from a flagged role grants everything it does, so it can't be used to bypass the approval.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role
+ * @returns A promise that resolves to true if the role requires approval
+ */
+export async function roleRequiresApproval(env: Env, roleId: string): Promise<boolean> {
+    const row = await env.usersDB
+        .prepare(`
+            WITH RECURSIVE ancestors(id, requires_approval, parent_role_id) AS (
+                SELECT id, requires_approval, parent_role_id FROM roles WHERE id = ?
+                UNION
+                SELECT r.id, r.requires_approval, r.parent_role_id
+                FROM roles r
+                INNER JOIN ancestors a ON r.id = a.parent_role_id
+            )
+            SELECT 1 as found FROM ancestors WHERE requires_approval = 1 LIMIT 1
+        `)
+        .bind(roleId)
+        .first<{ found: number }>();
+    return row !== null;
+}
+
+/**
+ * Retrieves a role grant request by its ID.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param requestId - The ID of the request
+ * @returns A promise that resolves to the request, or null if it doesn't exist
+ */
+export async function getRoleGrantRequest(env: Env, requestId: string): Promise<RoleGrantRequest | null> {
+    const row = await env.usersDB
+        .prepare(`SELECT ${ROLE_GRANT_REQUEST_COLUMNS} WHERE g.id = ?`)
+        .bind(requestId)
+        .first<RoleGrantRequestRow>();
+    return row ? toRoleGrantRequest(row) : null;
+}
+
+/**
+ * Lists role grant requests, newest first.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param status - Only list requests in this state; all requests when omitted
+ * @param limit - The maximum number of requests to return
+ * @param offset - The number of requests to skip
+ * @param after - Only list requests after this position, the last request of the previous page
+ * @returns A promise that resolves to the requests
+ * @throws Error if the database query fails
+ */
+export async function listRoleGrantRequests(
+    env: Env,
+    status: RoleGrantRequestStatus | undefined,
+    limit: number,
+    offset: number,
+    after?: PagePosition
+): Promise<RoleGrantRequest[]> {
+    const condition = after ? afterPageCondition('g.requested_at', 'g.id', after, 'desc') : null;
+    const result = await env.usersDB
+        .prepare(`
+            SELECT ${ROLE_GRANT_REQUEST_COLUMNS}
+            WHERE (? IS NULL OR g.status = ?)${condition ? ` AND ${condition.sql}` : ''}
+            ORDER BY g.requested_at DESC, g.id DESC
+            LIMIT ? OFFSET ?
+        `)
+        .bind(status ?? null, status ?? null, ...(condition?.bindings ?? []), limit, offset)
+        .all<RoleGrantRequestRow>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve role grant requests');
+    }
+
+    return result.results.map(toRoleGrantRequest);
+}
+
+/**
+ * Requests a role that requires approval for a user. Nothing is assigned until the request is approved.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user who would receive the role
+ * @param roleId - The ID of the requested role
+ * @param requestedBy - The ID of the user making the request
+ * @param ttlSeconds - How long the request can wait for a decision
+ * @param assignment - The resource the role is requested on, or the validity window of a global assignment
+ * @returns A promise that resolves to the pending request
+ * @throws Error with code DUPLICATE_ROLE_GRANT_REQUEST if the same assignment is already pending
+ */
+export async function createRoleGrantRequest(
+    env: Env,
+    userId: number,
+    roleId: string,
+    requestedBy: number,
+    ttlSeconds: number,
+    assignment: { scope?: ResourceScope | null; window?: RoleAssignmentWindow } = {}
+): Promise<RoleGrantRequest> {
+    const scope = assignment.scope ?? null;
+    const window = assignment.window ?? {};
+
+    const pending = await env.usersDB
+        .prepare(`
+            SELECT id FROM role_grant_requests
+            WHERE user_id = ? AND role_id = ? AND scope_type IS ? AND scope_id IS ?
+                AND status = 'PENDING' AND request_expires_at > datetime('now')
+        `)
+        .bind(userId, roleId, scope?.type ?? null, scope?.id ?? null)
+        .first<{ id: string }>();
+    if (pending) {
+        throw new Error('DUPLICATE_ROLE_GRANT_REQUEST');
+    }
+
+    const requestId = crypto.randomUUID();
+    const requestExpiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+    // datetime() normalises ISO timestamps to SQLite's format so they compare correctly with datetime('now')
+    const result = await env.usersDB
+        .prepare(`
+            INSERT INTO role_grant_requests
+                (id, user_id, role_id, scope_type, scope_id, starts_at, expires_at, requested_by, requested_at, request_expires_at)
+            VALUES (?, ?, ?, ?, ?, datetime(?), datetime(?), ?, datetime('now'), datetime(?))
+        `)
+        .bind(
+            requestId,
+            userId,
+            roleId,
+            scope?.type ?? null,
+            scope?.id ?? null,
+            window.startsAt?.toISOString() ?? null,
+            window.expiresAt?.toISOString() ?? null,
+            requestedBy,
+            requestExpiresAt.toISOString()
+        )
+        .run();
+
+    if (!result.success) {
+        throw new Error('Failed to create role grant request');
+    }
+
+    const request = await getRoleGrantRequest(env, requestId);
+    if (!request) {
+        throw new Error('Failed to create role grant request');
+    }
+    return request;
+}
+
+/**
+ * Approves or rejects a pending role grant request. Approving assigns the role as requested.
+ * The request is claimed before the role is assigned, so it can only be decided once.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param requestId - The ID of the request
+ * @param decidedBy - The ID of the user approving or rejecting the request
+ * @param approve - True to approve the request, false to reject it
+ * @param note - Optional note recorded with the decision
+ * @returns A promise that resolves to the decided request
+ * @throws Error with code ROLE_GRANT_REQUEST_NOT_FOUND if the request doesn't exist,
+ *   ROLE_GRANT_SELF_APPROVAL if the decider made the request or would receive the role,
+ *   ROLE_GRANT_REQUEST_NOT_PENDING if it was already decided or has expired,
+ *   or ROLE_CONFLICT if approving would give the user mutually exclusive roles (the request stays pending)
+ */
+export async function decideRoleGrantRequest(
+    env: Env,
+    requestId: string,
+    decidedBy: number,
+    approve: boolean,
+    note?: string
+): Promise<RoleGrantRequest> {
+    const request = await getRoleGrantRequest(env, requestId);
+    if (!request) {
+        throw new Error('ROLE_GRANT_REQUEST_NOT_FOUND');
+    }
+    if (decidedBy === request.requestedBy || decidedBy === request.userId) {
+        throw new Error('ROLE_GRANT_SELF_APPROVAL');
+    }
+    if (approve && await findRoleConflict(env, request.roleId, { userId: request.userId, scope: request.scope ?? undefined })) {
+        throw new Error('ROLE_CONFLICT');
+    }
+
+    const status: RoleGrantRequestStatus = approve ? 'APPROVED' : 'REJECTED';
+    const claimResult = await env.usersDB
+        .prepare(`
+            UPDATE role_grant_requests
+            SET status = ?, decided_by = ?, decided_at = datetime('now'), note = ?
+            WHERE id = ? AND status = 'PENDING' AND request_expires_at > datetime('now')
+        `)
+        .bind(status, decidedBy, note ?? null, requestId)
+        .run();
+    if (claimResult.meta.changes === 0) {
+        throw new Error('ROLE_GRANT_REQUEST_NOT_PENDING');
+    }
+
+    if (approve) {
+        if (request.scope) {
+            await assignScopedRole(env, request.userId, request.roleId, request.scope);
+        } else {
+            await assignRole(env, request.userId, request.roleId, {
+                startsAt: request.startsAt ?? undefined,
+                expiresAt: request.expiresAt ?? undefined
+            });
+        }
+    }
+
+    return { ...request, status, decidedBy, decidedAt: new Date(), note: note ?? null };
+}
+
+/**
+ * Marks every pending request that wasn't decided in time as expired and records a ROLE_GRANT_EXPIRED audit
+ * entry for each. Run by the worker's cron trigger; expired requests can't be approved even before it runs.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @returns A promise that resolves to the number of requests expired
+ * @throws Error if the database operation fails
+ */
+export async function expireRoleGrantRequests(env: Env): Promise<number> {
+    const result = await env.usersDB
+        .prepare(`
+            SELECT ${ROLE_GRANT_REQUEST_COLUMNS}
+            WHERE g.status = 'PENDING' AND g.request_expires_at <= datetime('now')
+        `)
+        .all<RoleGrantRequestRow>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve expired role grant requests');
+    }
+
+    const expired = result.results.map(toRoleGrantRequest);
+    if (expired.length === 0) {
+        return 0;
+    }
+
+    await env.usersDB.batch(expired.map(request =>
+        env.usersDB
+            .prepare(`UPDATE role_grant_requests SET status = 'EXPIRED' WHERE id = ? AND status = 'PENDING'`)
+            .bind(request.id)
+    ));
+
+    for (const request of expired) {
+        await logRoleGrantRequestEvent(env, 'ROLE_GRANT_EXPIRED', null, 'SYSTEM', { ...request, status: 'EXPIRED' });
+    }
+
+    return expired.length;
+}
+
+/**
+ * Cancels the pending requests a user made or would receive a role through, before the user is deleted, and records
+ * a ROLE_GRANT_CANCELLED audit entry for each. Cancelled requests can't be approved.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user being deleted
+ * @param actorId - The ID of the user deleting them
+ * @param actorUsername - The username of the user deleting them
+ * @param ipAddress - Optional IP address of the actor
+ * @returns A promise that resolves to the number of requests cancelled
+ * @throws Error if the database operation fails
+ */
+export async function cancelUserRoleGrantRequests(
+    env: Env,
+    userId: number,
+    actorId: number | null,
+    actorUsername: string,
+    ipAddress?: string
+): Promise<number> {
+    const result = await env.usersDB
+        .prepare(`
+            SELECT ${ROLE_GRANT_REQUEST_COLUMNS}
+            WHERE g.status = 'PENDING' AND (g.user_id = ? OR g.requested_by = ?)
+        `)
+        .bind(userId, userId)
+        .all<RoleGrantRequestRow>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve role grant requests');
+    }
+
+    const pending = result.results.map(toRoleGrantRequest);
+    if (pending.length === 0) {
+        return 0;
+    }
+
+    const note = `User ${userId} was deleted`;
+    await env.usersDB.batch(pending.map(request =>
+        env.usersDB
+            .prepare(`
+                UPDATE role_grant_requests SET status = 'CANCELLED', decided_by = ?, decided_at = datetime('now'), note = ?
+                WHERE id = ? AND status = 'PENDING'
+            `)
+            .bind(actorId, note, request.id)
+    ));
+
+    for (const request of pending) {
+        await logRoleGrantRequestEvent(
+            env,
+            'ROLE_GRANT_CANCELLED',
+            actorId,
+            actorUsername,
+            { ...request, status: 'CANCELLED', decidedBy: actorId, decidedAt: new Date(), note },
+            ipAddress
+        );
+    }
+
+    return pending.length;
+}
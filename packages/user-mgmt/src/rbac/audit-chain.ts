@@ -0,0 +1,340 @@
+/**
+ * Tamper-evident audit log.
+ *
+ * Audit entries form a hash chain: each stores its sequence number, the previous entry's hash and the SHA-256 of its
+ * own canonical content including that hash. Editing an entry changes its hash and deleting one leaves a gap, so
+ * either breaks the chain from that point on. Someone able to rewrite D1 could recompute every later hash, so the
+ * chain's head is periodically recorded in a checkpoint signed with AUDIT_CHECKPOINT_SECRET, which isn't stored in
+ * D1. Verification checks entries against the checkpoints as it walks past them, which also detects a truncated chain.
+ */
+
+import { Env } from '../env';
+import { AuditChainBreakReason, AuditChainVerification, AuditCheckpoint } from '../types/rbac';
+import { base64UrlEncode, base64UrlDecode } from '../webauthn/encoding';
+
+/** Domain separation so the secret can't be used to sign other kinds of data */
+const CHECKPOINT_PURPOSE = 'audit-checkpoint';
+
+/** Entries read per query while walking the chain */
+const VERIFY_PAGE_SIZE = 500;
+
+/**
+ * The stored content of an audit entry that its hash covers
+ */
+export interface AuditChainEntry {
+    seq: number;
+    id: string;
+    timestamp: string;
+    action: string;
+    actorId: number | null;
+    actorUsername: string | null;
+    targetType: string;
+    targetId: string | null;
+    targetName: string | null;
+    details: string | null;
+    ipAddress: string | null;
+    success: number;
+    prevHash: string | null;
+}
+
+interface AuditCheckpointRow {
+    id: string;
+    seq: number;
+    hash: string;
+    signature: string;
+    createdAt: string;
+}
+
+/**
+ * Formats a date the way SQLite's CURRENT_TIMESTAMP does, so it compares correctly with stored timestamps.
+ */
+export function toDbTimestamp(date: Date): string {
+    return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function toAuditCheckpoint(row: AuditCheckpointRow): AuditCheckpoint {
+    return {
+        id: row.id,
+        sequence: row.seq,
+        hash: row.hash,
+        signature: row.signature,
+        createdAt: new Date(`${row.createdAt.replace(' ', 'T')}Z`)
+    };
+}
+
+/**
+ * Computes the hash of an audit entry: the hex SHA-256 of a JSON array of its fields in a fixed order, ending with
+ * the previous entry's hash.
+ *
+ * @param entry - The entry's stored content
+ * @returns A promise that resolves to the hash
+ */
+export async function computeAuditEntryHash(entry: AuditChainEntry): Promise<string> {
+    const canonical = JSON.stringify([
+        entry.seq,
+        entry.id,
+        entry.timestamp,
+        entry.action,
+        entry.actorId,
+        entry.actorUsername,
+        entry.targetType,
+        entry.targetId,
+        entry.targetName,
+        entry.details,
+        entry.ipAddress,
+        entry.success,
+        entry.prevHash
+    ]);
+    const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+    return Array.from(new Uint8Array(hashBuffer))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * Retrieves the last entry in the chain, which the next entry links to.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @returns A promise that resolves to the entry's sequence number and hash, or null if the chain is empty
+ */
+export async function getAuditChainHead(env: Env): Promise<{ seq: number; hash: string } | null> {
+    return env.usersDB
+        .prepare('SELECT seq, hash FROM audit_logs WHERE seq IS NOT NULL ORDER BY seq DESC LIMIT 1')
+        .first<{ seq: number; hash: string }>();
+}
+
+async function importCheckpointKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        [usage]
+    );
+}
+
+function checkpointData(seq: number, hash: string): Uint8Array {
+    return new TextEncoder().encode(`${CHECKPOINT_PURPOSE}.${seq}.${hash}`);
+}
+
+async function isValidCheckpointSignature(key: CryptoKey, checkpoint: AuditCheckpointRow): Promise<boolean> {
+    try {
+        return await crypto.subtle.verify(
+            'HMAC',
+            key,
+            base64UrlDecode(checkpoint.signature),
+            checkpointData(checkpoint.seq, checkpoint.hash)
+        );
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Retrieves the most recent checkpoint.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @returns A promise that resolves to the checkpoint, or null if none has been created
+ */
+export async function getLatestAuditCheckpoint(env: Env): Promise<AuditCheckpoint | null> {
+    const row = await env.usersDB
+        .prepare(`
+            SELECT id, seq, hash, signature, created_at as createdAt
+            FROM audit_checkpoints
+            ORDER BY seq DESC, created_at DESC
+            LIMIT 1
+        `)
+        .first<AuditCheckpointRow>();
+    return row ? toAuditCheckpoint(row) : null;
+}
+
+/**
+ * Walks the chain from `startSeq` to `endSeq`, checking each entry's link and hash and every checkpoint along the way.
+ * Checkpoints past `endSeq` are checked too when `checkTruncation` is set, as they prove later entries existed.
+ */
+async function walkAuditChain(
+    env: Env,
+    startSeq: number,
+    endSeq: number,
+    checkpointSecret: string | null,
+    checkTruncation: boolean
+): Promise<AuditChainVerification> {
+    const verification: AuditChainVerification = {
+        valid: true,
+        entriesChecked: 0,
+        checkpointsChecked: 0,
+        firstSequence: null,
+        lastSequence: null,
+        brokenLink: null
+    };
+    const fail = (sequence: number, entryId: string | null, reason: AuditChainBreakReason): AuditChainVerification => {
+        return { ...verification, valid: false, brokenLink: { sequence, entryId, reason } };
+    };
+
+    const checkpointsResult = await env.usersDB
+        .prepare(`
+            SELECT id, seq, hash, signature, created_at as createdAt
+            FROM audit_checkpoints
+            WHERE seq >= ? AND (? = 1 OR seq <= ?)
+            ORDER BY seq
+        `)
+        .bind(startSeq, checkTruncation ? 1 : 0, endSeq)
+        .all<AuditCheckpointRow>();
+    const checkpoints = checkpointSecret ? checkpointsResult.results : [];
+    const key = checkpointSecret ? await importCheckpointKey(checkpointSecret, 'verify') : null;
+    let nextCheckpoint = 0;
+
+    let expectedPrevHash: string | null = null;
+    if (startSeq > 1) {
+        const previous = await env.usersDB
+            .prepare('SELECT hash FROM audit_logs WHERE seq = ?')
+            .bind(startSeq - 1)
+            .first<{ hash: string }>();
+        if (!previous) {
+            return fail(startSeq - 1, null, 'MISSING_ENTRY');
+        }
+        expectedPrevHash = previous.hash;
+    }
+
+    let expectedSeq = startSeq;
+    while (expectedSeq <= endSeq) {
+        const page = await env.usersDB
+            .prepare(`
+                SELECT seq, id, timestamp, action, actor_id as actorId, actor_username as actorUsername,
+                       target_type as targetType, target_id as targetId, target_name as targetName, details,
+                       ip_address as ipAddress, success, prev_hash as prevHash, hash
+                FROM audit_logs
+                WHERE seq >= ? AND seq <= ?
+                ORDER BY seq
+                LIMIT ?
+            `)
+            .bind(expectedSeq, endSeq, VERIFY_PAGE_SIZE)
+            .all<AuditChainEntry & { hash: string }>();
+
+        if (page.results.length === 0) {
+            return fail(expectedSeq, null, 'MISSING_ENTRY');
+        }
+
+        for (const entry of page.results) {
+            if (entry.seq !== expectedSeq) {
+                return fail(expectedSeq, null, 'MISSING_ENTRY');
+            }
+            if (entry.prevHash !== expectedPrevHash) {
+                return fail(entry.seq, entry.id, 'PREVIOUS_HASH_MISMATCH');
+            }
+            if (await computeAuditEntryHash(entry) !== entry.hash) {
+                return fail(entry.seq, entry.id, 'HASH_MISMATCH');
+            }
+
+            while (nextCheckpoint < checkpoints.length && checkpoints[nextCheckpoint].seq === entry.seq) {
+                const checkpoint = checkpoints[nextCheckpoint++];
+                if (!await isValidCheckpointSignature(key!, checkpoint)) {
+                    return fail(entry.seq, entry.id, 'INVALID_CHECKPOINT_SIGNATURE');
+                }
+                if (checkpoint.hash !== entry.hash) {
+                    return fail(entry.seq, entry.id, 'CHECKPOINT_MISMATCH');
+                }
+                verification.checkpointsChecked++;
+            }
+
+            verification.firstSequence ??= entry.seq;
+            verification.lastSequence = entry.seq;
+            verification.entriesChecked++;
+            expectedPrevHash = entry.hash;
+            expectedSeq++;
+        }
+    }
+
+    // A checkpoint beyond the last entry means entries were removed from the end of the chain
+    if (nextCheckpoint < checkpoints.length) {
+        return fail(expectedSeq, null, 'MISSING_ENTRY');
+    }
+
+    return verification;
+}
+
+/**
+ * Verifies the audit log hash chain, reporting the first broken link. Without a date range the whole chain is walked
+ * from its first entry, and checkpoints beyond its end reveal entries deleted from the end. With a range, only the
+ * entries logged in it are walked, starting from the link to the entry before them.
+ * Checkpoints are only checked when the checkpoint secret is configured.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param checkpointSecret - The secret checkpoints are signed with, or null to skip checkpoints
+ * @param range - Optional start and end of the period to verify
+ * @returns A promise that resolves to the verification result
+ * @throws Error if a database query fails
+ */
+export async function verifyAuditChain(
+    env: Env,
+    checkpointSecret: string | null,
+    range: { startDate?: Date; endDate?: Date } = {}
+): Promise<AuditChainVerification> {
+    const bounds = await env.usersDB
+        .prepare(`
+            SELECT MIN(seq) as firstSeq, MAX(seq) as lastSeq
+            FROM audit_logs
+            WHERE seq IS NOT NULL AND (? IS NULL OR timestamp >= ?) AND (? IS NULL OR timestamp <= ?)
+        `)
+        .bind(
+            range.startDate ? toDbTimestamp(range.startDate) : null,
+            range.startDate ? toDbTimestamp(range.startDate) : null,
+            range.endDate ? toDbTimestamp(range.endDate) : null,
+            range.endDate ? toDbTimestamp(range.endDate) : null
+        )
+        .first<{ firstSeq: number | null; lastSeq: number | null }>();
+
+    const startSeq = range.startDate ? bounds?.firstSeq ?? null : 1;
+    const endSeq = bounds?.lastSeq ?? 0;
+    if (startSeq === null) {
+        return { valid: true, entriesChecked: 0, checkpointsChecked: 0, firstSequence: null, lastSequence: null, brokenLink: null };
+    }
+
+    return walkAuditChain(env, startSeq, endSeq, checkpointSecret, !range.endDate);
+}
+
+/**
+ * Signs the chain's current head and records it as a checkpoint. Nothing is recorded when the chain hasn't grown
+ * since the last checkpoint, when that checkpoint is more recent than `minIntervalSeconds`, or when the entries since
+ * it don't verify, as signing would vouch for tampered entries.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param secret - The secret checkpoints are signed with
+ * @param minIntervalSeconds - Minimum time between checkpoints
+ * @returns A promise that resolves to the new checkpoint, or null if none was created
+ * @throws Error if a database operation fails
+ */
+export async function createAuditCheckpoint(
+    env: Env,
+    secret: string,
+    minIntervalSeconds: number
+): Promise<AuditCheckpoint | null> {
+    const [head, latest] = await Promise.all([getAuditChainHead(env), getLatestAuditCheckpoint(env)]);
+    if (!head || (latest && latest.sequence >= head.seq)) {
+        return null;
+    }
+    if (latest && Date.now() - latest.createdAt.getTime() < minIntervalSeconds * 1000) {
+        return null;
+    }
+
+    const verification = await walkAuditChain(env, latest?.sequence ?? 1, head.seq, secret, false);
+    if (!verification.valid) {
+        console.error('Audit log hash chain is broken; not signing a checkpoint:', verification.brokenLink);
+        return null;
+    }
+
+    const key = await importCheckpointKey(secret, 'sign');
+    const signature = base64UrlEncode(new Uint8Array(await crypto.subtle.sign('HMAC', key, checkpointData(head.seq, head.hash))));
+    const checkpointId = crypto.randomUUID();
+
+    const result = await env.usersDB
+        .prepare(`INSERT INTO audit_checkpoints (id, seq, hash, signature, created_at) VALUES (?, ?, ?, ?, datetime('now'))`)
+        .bind(checkpointId, head.seq, head.hash, signature)
+        .run();
+
+    if (!result.success) {
+        throw new Error('Failed to create audit checkpoint');
+    }
+
+    return getLatestAuditCheckpoint(env);
+}
@@ -0,0 +1,109 @@
+/**
+ * Audit log export.
+ *
+ * Exports are streamed: entries are read from D1 one page at a time, oldest first, each page starting after the last
+ * entry of the previous one (keyset pagination), and written out as they are read. Any number of entries can be
+ * exported without holding them in memory, and entries logged during the export don't shift the pages.
+ */
+
+import { Env } from '../env';
+import { AuditLogEntry } from '../types/rbac';
+import { AuditLogQueryParams, getAuditLogs } from './audit';
+
+/**
+ * Formats the audit log can be exported in
+ */
+export type AuditLogExportFormat = 'csv' | 'ndjson';
+
+export const AUDIT_LOG_EXPORT_FORMATS: AuditLogExportFormat[] = ['csv', 'ndjson'];
+
+/** Entries read from D1 per query */
+const EXPORT_PAGE_SIZE = 500;
+
+const CSV_COLUMNS: (keyof AuditLogEntry)[] = [
+    'id',
+    'timestamp',
+    'action',
+    'actorId',
+    'actorUsername',
+    'targetType',
+    'targetId',
+    'targetName',
+    'details',
+    'ipAddress',
+    'success',
+    'sequence',
+    'previousHash',
+    'hash'
+];
+
+/**
+ * Quotes a CSV field when needed. Text starting with a character spreadsheets treat as a formula is prefixed with
+ * an apostrophe, so opening an export can't run a formula smuggled into, say, a role name.
+ */
+function toCsvField(value: AuditLogEntry[keyof AuditLogEntry]): string {
+    if (value === null) {
+        return '';
+    }
+    let text = value instanceof Date ? value.toISOString() : String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatEntry(entry: AuditLogEntry, format: AuditLogExportFormat): string {
+    if (format === 'ndjson') {
+        return `${JSON.stringify(entry)}\n`;
+    }
+    return `${CSV_COLUMNS.map(column => toCsvField(entry[column])).join(',')}\r\n`;
+}
+
+/**
+ * Creates a stream of the audit log entries matching the filters, oldest first, in CSV (with a header row) or
+ * newline-delimited JSON. `limit`, `offset` and `order` in the filters are ignored.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param filters - The filters selecting the entries to export
+ * @param format - The export format
+ * @returns A stream of the encoded export; it errors if a database query fails part way through
+ */
+export function createAuditLogExportStream(
+    env: Env,
+    filters: AuditLogQueryParams,
+    format: AuditLogExportFormat
+): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let after: AuditLogQueryParams['after'];
+    let headerWritten = format !== 'csv';
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                if (!headerWritten) {
+                    controller.enqueue(encoder.encode(`${CSV_COLUMNS.join(',')}\r\n`));
+                    headerWritten = true;
+                }
+
+                const page = await getAuditLogs(env, {
+                    ...filters,
+                    limit: EXPORT_PAGE_SIZE,
+                    offset: 0,
+                    order: 'asc',
+                    after
+                });
+                if (page.length > 0) {
+                    controller.enqueue(encoder.encode(page.map(entry => formatEntry(entry, format)).join('')));
+                    const last = page[page.length - 1];
+                    after = { timestamp: last.timestamp, id: last.id };
+                }
+                if (page.length < EXPORT_PAGE_SIZE) {
+                    controller.close();
+                }
+            } catch (error) {
+                console.error('Error exporting audit logs:', error);
+                controller.error(error);
+            }
+        }
+    }, { highWaterMark: 0 });
+}
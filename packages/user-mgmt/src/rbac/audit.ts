@@ -1,8 +1,13 @@
 import { Env } from '../env';
-import { AuditLogEntry, AuditLogParams, AuditAction, AuditTargetType } from '../types/rbac';
+import { AuditLogEntry, AuditLogParams, AuditAction, AuditTargetType, ResourceScope, RoleConstraint, RoleGrantRequest } from '../types/rbac';
+import { AuditChainEntry, computeAuditEntryHash, getAuditChainHead, toDbTimestamp } from './audit-chain';
+import { afterPageCondition, PageOrder, PagePosition } from './pagination';
+
+/** Attempts to append an entry when concurrent writers race for the same position in the hash chain */
+const MAX_CHAIN_APPEND_ATTEMPTS = 5;
 
 /**
- * Logs an audit event to the database.
+ * Logs an audit event to the database, appending it to the hash chain (see audit-chain.ts).
  * This function is designed to fail gracefully - it will log errors but not throw,
  * to avoid disrupting the main operation.
  *
@@ -13,6 +18,8 @@ export async function logAuditEvent(env: Env, params: AuditLogParams): Promise<v
     try {
         const query = `
             INSERT INTO audit_logs (
+                id,
+                timestamp,
                 action,
                 actor_id,
                 actor_username,
@@ -21,24 +28,60 @@ export async function logAuditEvent(env: Env, params: AuditLogParams): Promise<v
                 target_name,
                 details,
                 ip_address,
-                success
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+                success,
+                seq,
+                prev_hash,
+                hash
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `;
 
-        await env.usersDB
-            .prepare(query)
-            .bind(
-                params.action,
-                params.actorId ?? null,
-                params.actorUsername ?? null,
-                params.targetType,
-                params.targetId ?? null,
-                params.targetName ?? null,
-                params.details ?? null,
-                params.ipAddress ?? null,
-                params.success !== false ? 1 : 0
-            )
-            .run();
+        for (let attempt = 1; ; attempt++) {
+            const head = await getAuditChainHead(env);
+            const entry: AuditChainEntry = {
+                seq: (head?.seq ?? 0) + 1,
+                id: Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join(''),
+                timestamp: toDbTimestamp(new Date()),
+                action: params.action,
+                actorId: params.actorId ?? null,
+                actorUsername: params.actorUsername ?? null,
+                targetType: params.targetType,
+                targetId: params.targetId ?? null,
+                targetName: params.targetName ?? null,
+                details: params.details ?? null,
+                ipAddress: params.ipAddress ?? null,
+                success: params.success !== false ? 1 : 0,
+                prevHash: head?.hash ?? null
+            };
+
+            try {
+                await env.usersDB
+                    .prepare(query)
+                    .bind(
+                        entry.id,
+                        entry.timestamp,
+                        entry.action,
+                        entry.actorId,
+                        entry.actorUsername,
+                        entry.targetType,
+                        entry.targetId,
+                        entry.targetName,
+                        entry.details,
+                        entry.ipAddress,
+                        entry.success,
+                        entry.seq,
+                        entry.prevHash,
+                        await computeAuditEntryHash(entry)
+                    )
+                    .run();
+                return;
+            } catch (error: unknown) {
+                // Another entry took this position in the chain first; link to it instead
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                if (!errorMessage.includes('UNIQUE constraint') || attempt >= MAX_CHAIN_APPEND_ATTEMPTS) {
+                    throw error;
+                }
+            }
+        }
     } catch (error) {
         // Log error but don't throw - audit logging should not break the main operation
         console.error('Error logging audit event:', error);
@@ -56,6 +99,7 @@ export async function logAuditEvent(env: Env, params: AuditLogParams): Promise<v
  * @param roleId - The ID of the role being assigned
  * @param roleName - The name of the role being assigned
  * @param ipAddress - Optional IP address of the actor
+ * @param assignment - The resource the role was assigned on, and the assignment's validity window, if any
  */
 export async function logRoleAssigned(
     env: Env,
@@ -65,7 +109,8 @@ export async function logRoleAssigned(
     targetUsername: string,
     roleId: string,
     roleName: string,
-    ipAddress?: string
+    ipAddress?: string,
+    assignment: { scope?: ResourceScope; startsAt?: Date; expiresAt?: Date } = {}
 ): Promise<void> {
     await logAuditEvent(env, {
         action: 'ROLE_ASSIGNED',
@@ -74,7 +119,7 @@ export async function logRoleAssigned(
         targetType: 'USER',
         targetId: targetUserId.toString(),
         targetName: targetUsername,
-        details: JSON.stringify({ roleId, roleName }),
+        details: JSON.stringify({ roleId, roleName, ...assignment }),
         ipAddress: ipAddress ?? null,
         success: true,
     });
@@ -91,6 +136,7 @@ export async function logRoleAssigned(
  * @param roleId - The ID of the role being removed
  * @param roleName - The name of the role being removed
  * @param ipAddress - Optional IP address of the actor
+ * @param scope - The resource the role was removed from, for scoped assignments
  */
 export async function logRoleRemoved(
     env: Env,
@@ -100,7 +146,8 @@ export async function logRoleRemoved(
     targetUsername: string,
     roleId: string,
     roleName: string,
-    ipAddress?: string
+    ipAddress?: string,
+    scope?: ResourceScope
 ): Promise<void> {
     await logAuditEvent(env, {
         action: 'ROLE_REMOVED',
@@ -109,12 +156,44 @@ export async function logRoleRemoved(
         targetType: 'USER',
         targetId: targetUserId.toString(),
         targetName: targetUsername,
-        details: JSON.stringify({ roleId, roleName }),
+        details: JSON.stringify({ roleId, roleName, scope }),
         ipAddress: ipAddress ?? null,
         success: true,
     });
 }
 
+/**
+ * Logs the automatic removal of a time-bound role assignment once it has expired.
+ * Recorded as ROLE_REMOVED by the system, with reason "expired".
+ *
+ * @param env - The environment configuration
+ * @param targetUserId - The ID of the user who lost the role
+ * @param targetUsername - The username of the user who lost the role
+ * @param roleId - The ID of the expired role
+ * @param roleName - The name of the expired role
+ * @param expiresAt - When the assignment expired
+ */
+export async function logRoleExpired(
+    env: Env,
+    targetUserId: number,
+    targetUsername: string,
+    roleId: string,
+    roleName: string,
+    expiresAt: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'ROLE_REMOVED',
+        actorId: null,
+        actorUsername: 'SYSTEM',
+        targetType: 'USER',
+        targetId: targetUserId.toString(),
+        targetName: targetUsername,
+        details: JSON.stringify({ roleId, roleName, reason: 'expired', expiresAt }),
+        ipAddress: null,
+        success: true,
+    });
+}
+
 /**
  * Logs a role creation event.
  *
@@ -148,6 +227,208 @@ export async function logRoleCreated(
     });
 }
 
+/**
+ * Logs a role update event.
+ *
+ * @param env - The environment configuration
+ * @param actorId - The ID of the user performing the action
+ * @param actorUsername - The username of the user performing the action
+ * @param roleId - The ID of the updated role
+ * @param roleName - The name of the role after the update
+ * @param changes - The changed fields with their previous and new values
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logRoleUpdated(
+    env: Env,
+    actorId: number,
+    actorUsername: string,
+    roleId: string,
+    roleName: string,
+    changes: Record<string, { from: string | boolean | null; to: string | boolean | null }>,
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'ROLE_UPDATED',
+        actorId,
+        actorUsername,
+        targetType: 'ROLE',
+        targetId: roleId,
+        targetName: roleName,
+        details: JSON.stringify({ changes }),
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs a role deletion event.
+ *
+ * @param env - The environment configuration
+ * @param actorId - The ID of the user performing the action
+ * @param actorUsername - The username of the user performing the action
+ * @param roleId - The ID of the deleted role
+ * @param roleName - The name of the deleted role
+ * @param affectedUsers - The number of users who held the role
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logRoleDeleted(
+    env: Env,
+    actorId: number,
+    actorUsername: string,
+    roleId: string,
+    roleName: string,
+    affectedUsers: number,
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'ROLE_DELETED',
+        actorId,
+        actorUsername,
+        targetType: 'ROLE',
+        targetId: roleId,
+        targetName: roleName,
+        details: JSON.stringify({ affectedUsers }),
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs a permission being granted to or revoked from a role.
+ *
+ * @param env - The environment configuration
+ * @param action - ROLE_PERMISSION_GRANTED or ROLE_PERMISSION_REVOKED
+ * @param actorId - The ID of the user performing the action
+ * @param actorUsername - The username of the user performing the action
+ * @param roleId - The ID of the role
+ * @param roleName - The name of the role
+ * @param permissionId - The ID of the permission
+ * @param permissionName - The name of the permission
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logRolePermissionChanged(
+    env: Env,
+    action: 'ROLE_PERMISSION_GRANTED' | 'ROLE_PERMISSION_REVOKED',
+    actorId: number,
+    actorUsername: string,
+    roleId: string,
+    roleName: string,
+    permissionId: string,
+    permissionName: string,
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action,
+        actorId,
+        actorUsername,
+        targetType: 'ROLE',
+        targetId: roleId,
+        targetName: roleName,
+        details: JSON.stringify({ permissionId, permissionName }),
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs a permission creation event.
+ *
+ * @param env - The environment configuration
+ * @param actorId - The ID of the user performing the action
+ * @param actorUsername - The username of the user performing the action
+ * @param permissionId - The ID of the newly created permission
+ * @param permissionName - The name of the newly created permission
+ * @param permissionDescription - Optional description of the permission
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logPermissionCreated(
+    env: Env,
+    actorId: number,
+    actorUsername: string,
+    permissionId: string,
+    permissionName: string,
+    permissionDescription?: string,
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'PERMISSION_CREATED',
+        actorId,
+        actorUsername,
+        targetType: 'PERMISSION',
+        targetId: permissionId,
+        targetName: permissionName,
+        details: permissionDescription ? JSON.stringify({ description: permissionDescription }) : null,
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs a permission update event.
+ *
+ * @param env - The environment configuration
+ * @param actorId - The ID of the user performing the action
+ * @param actorUsername - The username of the user performing the action
+ * @param permissionId - The ID of the updated permission
+ * @param permissionName - The name of the permission after the update
+ * @param changes - The changed fields with their previous and new values
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logPermissionUpdated(
+    env: Env,
+    actorId: number,
+    actorUsername: string,
+    permissionId: string,
+    permissionName: string,
+    changes: Record<string, { from: string; to: string }>,
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'PERMISSION_UPDATED',
+        actorId,
+        actorUsername,
+        targetType: 'PERMISSION',
+        targetId: permissionId,
+        targetName: permissionName,
+        details: JSON.stringify({ changes }),
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs a permission deletion event.
+ *
+ * @param env - The environment configuration
+ * @param actorId - The ID of the user performing the action
+ * @param actorUsername - The username of the user performing the action
+ * @param permissionId - The ID of the deleted permission
+ * @param permissionName - The name of the deleted permission
+ * @param detachedRoleIds - The roles the permission was removed from
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logPermissionDeleted(
+    env: Env,
+    actorId: number,
+    actorUsername: string,
+    permissionId: string,
+    permissionName: string,
+    detachedRoleIds: string[],
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'PERMISSION_DELETED',
+        actorId,
+        actorUsername,
+        targetType: 'PERMISSION',
+        targetId: permissionId,
+        targetName: permissionName,
+        details: detachedRoleIds.length > 0 ? JSON.stringify({ detachedRoleIds }) : null,
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
 /**
  * Logs a bootstrap super admin event (system-level action).
  *
@@ -173,6 +454,403 @@ export async function logBootstrapSuperAdmin(
     });
 }
 
+/**
+ * Logs the import of an RBAC policy document, recording how many changes of each kind it made.
+ *
+ * @param env - The environment configuration
+ * @param actorId - The ID of the user who imported the policy
+ * @param actorUsername - The username of the user who imported the policy
+ * @param changes - The number of changes of each kind
+ * @param affectedUsers - Number of users whose permissions may have changed
+ * @param ipAddress - Optional IP address of the request
+ */
+export async function logPolicyImported(
+    env: Env,
+    actorId: number,
+    actorUsername: string,
+    changes: Record<string, number>,
+    affectedUsers: number,
+    ipAddress?: string | null
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'POLICY_IMPORTED',
+        actorId,
+        actorUsername,
+        targetType: 'SYSTEM',
+        details: JSON.stringify({ changes, affectedUsers }),
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs an export of the audit log, recording the format and the filters that selected the exported entries.
+ *
+ * @param env - The environment configuration
+ * @param actorId - The ID of the user who exported the audit log
+ * @param actorUsername - The username of the user who exported the audit log
+ * @param format - The export format
+ * @param filters - The filters applied to the export
+ * @param ipAddress - Optional IP address of the request
+ */
+export async function logAuditLogsExported(
+    env: Env,
+    actorId: number,
+    actorUsername: string,
+    format: string,
+    filters: AuditLogQueryParams,
+    ipAddress?: string | null
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'AUDIT_LOGS_EXPORTED',
+        actorId,
+        actorUsername,
+        targetType: 'SYSTEM',
+        details: JSON.stringify({ format, filters }),
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs an event a user performs on their own account (MFA, passkeys, login).
+ * The user is recorded as both actor and target.
+ *
+ * @param env - The environment configuration
+ * @param action - The audit action
+ * @param userId - The ID of the user
+ * @param username - The username of the user
+ * @param details - Optional structured details (never secrets or codes)
+ * @param ipAddress - Optional IP address of the user
+ * @param success - Whether the action succeeded (defaults to true)
+ */
+export async function logAccountEvent(
+    env: Env,
+    action: AuditAction,
+    userId: number,
+    username: string,
+    details?: Record<string, unknown>,
+    ipAddress?: string,
+    success: boolean = true
+): Promise<void> {
+    await logAuditEvent(env, {
+        action,
+        actorId: userId,
+        actorUsername: username,
+        targetType: 'USER',
+        targetId: userId.toString(),
+        targetName: username,
+        details: details ? JSON.stringify(details) : null,
+        ipAddress: ipAddress ?? null,
+        success,
+    });
+}
+
+/**
+ * Logs a failed login attempt. The username is recorded even if no such account
+ * exists, so the actor and target IDs may be null.
+ *
+ * @param env - The environment configuration
+ * @param username - The username the attempt was made for
+ * @param userId - The ID of the matching user, or null if unknown
+ * @param details - Structured details such as the method and reason (never the password)
+ * @param ipAddress - Optional IP address of the client
+ */
+export async function logLoginFailure(
+    env: Env,
+    username: string,
+    userId: number | null,
+    details: Record<string, unknown>,
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'LOGIN_FAILURE',
+        actorId: userId,
+        actorUsername: username,
+        targetType: 'USER',
+        targetId: userId !== null ? userId.toString() : null,
+        targetName: username,
+        details: JSON.stringify(details),
+        ipAddress: ipAddress ?? null,
+        success: false,
+    });
+}
+
+/**
+ * Logs the start of a login lockout, either for an account or for a client IP.
+ *
+ * @param env - The environment configuration
+ * @param username - The username of the attempt that triggered the lockout
+ * @param userId - The ID of the matching user, or null if unknown
+ * @param lockout - Which counter was locked, after how many failures and for how long
+ * @param ipAddress - Optional IP address of the client
+ */
+export async function logAccountLocked(
+    env: Env,
+    username: string,
+    userId: number | null,
+    lockout: { scope: 'user' | 'ip'; failures: number; lockoutSeconds: number },
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'ACCOUNT_LOCKED',
+        actorId: null,
+        actorUsername: 'SYSTEM',
+        targetType: lockout.scope === 'user' ? 'USER' : 'SYSTEM',
+        targetId: lockout.scope === 'user' && userId !== null ? userId.toString() : null,
+        targetName: lockout.scope === 'user' ? username : null,
+        details: JSON.stringify(lockout),
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs an administrative account unlock.
+ *
+ * @param env - The environment configuration
+ * @param actorId - The ID of the admin performing the unlock
+ * @param actorUsername - The username of the admin performing the unlock
+ * @param targetUserId - The ID of the unlocked user
+ * @param targetUsername - The username of the unlocked user
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logAccountUnlocked(
+    env: Env,
+    actorId: number,
+    actorUsername: string,
+    targetUserId: number,
+    targetUsername: string,
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'ACCOUNT_UNLOCKED',
+        actorId,
+        actorUsername,
+        targetType: 'USER',
+        targetId: targetUserId.toString(),
+        targetName: targetUsername,
+        details: null,
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs an admin revoking all of another user's sessions.
+ *
+ * @param env - The environment configuration
+ * @param actorId - The ID of the admin who revoked the sessions
+ * @param actorUsername - The username of the admin
+ * @param targetUserId - The ID of the user whose sessions were revoked
+ * @param targetUsername - The username of the user whose sessions were revoked
+ * @param revoked - The number of sessions revoked
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logSessionsRevoked(
+    env: Env,
+    actorId: number,
+    actorUsername: string,
+    targetUserId: number,
+    targetUsername: string,
+    revoked: number,
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'SESSIONS_REVOKED',
+        actorId,
+        actorUsername,
+        targetType: 'USER',
+        targetId: targetUserId.toString(),
+        targetName: targetUsername,
+        details: JSON.stringify({ reason: 'admin', revoked }),
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs an admin deleting a user.
+ *
+ * @param env - The environment configuration
+ * @param actorId - The ID of the admin who deleted the user
+ * @param actorUsername - The username of the admin
+ * @param targetUserId - The ID of the deleted user
+ * @param targetUsername - The username of the deleted user
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logUserDeleted(
+    env: Env,
+    actorId: number,
+    actorUsername: string,
+    targetUserId: number,
+    targetUsername: string,
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action: 'USER_DELETED',
+        actorId,
+        actorUsername,
+        targetType: 'USER',
+        targetId: targetUserId.toString(),
+        targetName: targetUsername,
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs a step in the life of a request for a role that requires approval: its creation, approval, rejection or expiry.
+ * The entry targets the user who would receive the role and records the whole request, including any decision note.
+ *
+ * @param env - The environment configuration
+ * @param action - The request action being logged
+ * @param actorId - The ID of the user performing the action; null for expiry by the system
+ * @param actorUsername - The username of the user performing the action
+ * @param request - The request after the action
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logRoleGrantRequestEvent(
+    env: Env,
+    action: AuditAction,
+    actorId: number | null,
+    actorUsername: string,
+    request: RoleGrantRequest,
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action,
+        actorId,
+        actorUsername,
+        targetType: 'USER',
+        targetId: request.userId.toString(),
+        targetName: request.username,
+        details: JSON.stringify({
+            requestId: request.id,
+            roleId: request.roleId,
+            roleName: request.roleName,
+            scope: request.scope ?? undefined,
+            startsAt: request.startsAt ?? undefined,
+            expiresAt: request.expiresAt ?? undefined,
+            requestedBy: request.requestedBy,
+            note: request.note ?? undefined
+        }),
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs the creation or deletion of a constraint making two roles mutually exclusive.
+ * The entry targets the constraint's first role and names the other in its details.
+ *
+ * @param env - The environment configuration
+ * @param action - The constraint action being logged
+ * @param actorId - The ID of the user performing the action
+ * @param actorUsername - The username of the user performing the action
+ * @param constraint - The constraint created or deleted
+ * @param details - Optional structured details, e.g. the number of users already violating a new constraint
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logRoleConstraintEvent(
+    env: Env,
+    action: AuditAction,
+    actorId: number,
+    actorUsername: string,
+    constraint: RoleConstraint,
+    details?: Record<string, unknown>,
+    ipAddress?: string
+): Promise<void> {
+    const [role, conflictingRole] = constraint.roles;
+    await logAuditEvent(env, {
+        action,
+        actorId,
+        actorUsername,
+        targetType: 'ROLE',
+        targetId: role.id,
+        targetName: role.name,
+        details: JSON.stringify({
+            constraintId: constraint.id,
+            conflictingRoleId: conflictingRole.id,
+            conflictingRoleName: conflictingRole.name,
+            description: constraint.description || undefined,
+            ...details
+        }),
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs a group event: its creation or deletion, a membership change or a role assigned to or removed from it.
+ *
+ * @param env - The environment configuration
+ * @param action - The group action being logged
+ * @param actorId - The ID of the user performing the action
+ * @param actorUsername - The username of the user performing the action
+ * @param groupId - The ID of the group
+ * @param groupName - The name of the group
+ * @param details - Optional structured details, e.g. the member or role affected
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logGroupEvent(
+    env: Env,
+    action: AuditAction,
+    actorId: number,
+    actorUsername: string,
+    groupId: string,
+    groupName: string,
+    details?: Record<string, unknown>,
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action,
+        actorId,
+        actorUsername,
+        targetType: 'GROUP',
+        targetId: groupId,
+        targetName: groupName,
+        details: details ? JSON.stringify(details) : null,
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
+/**
+ * Logs an organization event such as its creation or a membership change.
+ *
+ * @param env - The environment configuration
+ * @param action - The organization action being logged
+ * @param actorId - The ID of the user performing the action
+ * @param actorUsername - The username of the user performing the action
+ * @param orgId - The ID of the organization
+ * @param orgName - The name of the organization
+ * @param details - Optional structured details, e.g. the member affected (never invitation tokens)
+ * @param ipAddress - Optional IP address of the actor
+ */
+export async function logOrganizationEvent(
+    env: Env,
+    action: AuditAction,
+    actorId: number,
+    actorUsername: string,
+    orgId: string,
+    orgName: string,
+    details?: Record<string, unknown>,
+    ipAddress?: string
+): Promise<void> {
+    await logAuditEvent(env, {
+        action,
+        actorId,
+        actorUsername,
+        targetType: 'ORGANIZATION',
+        targetId: orgId,
+        targetName: orgName,
+        details: details ? JSON.stringify(details) : null,
+        ipAddress: ipAddress ?? null,
+        success: true,
+    });
+}
+
 /**
  * Query parameters for fetching audit logs
  */
@@ -186,10 +864,16 @@ export interface AuditLogQueryParams {
     endDate?: Date;
     limit?: number;
     offset?: number;
+    /** Only return entries after this position in the requested order */
+    after?: PagePosition;
+    /** Newest first (the default) or oldest first */
+    order?: PageOrder;
 }
 
 /**
- * Retrieves audit log entries from the database with optional filtering.
+ * Retrieves audit log entries from the database with optional filtering, ordered by timestamp and then ID.
+ * Pass the last entry of a page as `after` to fetch the next one; unlike `offset`, this stays correct and fast
+ * as new entries are logged.
  *
  * @param env - The environment configuration
  * @param params - Optional query parameters for filtering
@@ -227,14 +911,22 @@ export async function getAuditLogs(
         bindings.push(params.targetId);
     }
 
+    // Timestamps are stored in SQLite's format, which doesn't compare correctly with ISO 8601 strings
     if (params.startDate) {
         conditions.push('timestamp >= ?');
-        bindings.push(params.startDate.toISOString());
+        bindings.push(toDbTimestamp(params.startDate));
     }
 
     if (params.endDate) {
         conditions.push('timestamp <= ?');
-        bindings.push(params.endDate.toISOString());
+        bindings.push(toDbTimestamp(params.endDate));
+    }
+
+    const order = params.order ?? 'desc';
+    if (params.after) {
+        const after = afterPageCondition('timestamp', 'id', params.after, order);
+        conditions.push(after.sql);
+        bindings.push(...after.bindings);
     }
 
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
@@ -253,10 +945,13 @@ export async function getAuditLogs(
             target_name as targetName,
             details,
             ip_address as ipAddress,
-            success
+            success,
+            seq,
+            prev_hash as previousHash,
+            hash
         FROM audit_logs
         ${whereClause}
-        ORDER BY timestamp DESC
+        ORDER BY timestamp ${order.toUpperCase()}, id ${order.toUpperCase()}
         LIMIT ? OFFSET ?
     `;
 
@@ -278,6 +973,9 @@ export async function getAuditLogs(
                 details: string | null;
                 ipAddress: string | null;
                 success: number;
+                seq: number | null;
+                previousHash: string | null;
+                hash: string | null;
             }>();
 
         if (!result.success) {
@@ -286,7 +984,7 @@ export async function getAuditLogs(
 
         return result.results.map(row => ({
             id: row.id,
-            timestamp: new Date(row.timestamp),
+            timestamp: new Date(`${row.timestamp.replace(' ', 'T')}Z`),
             action: row.action,
             actorId: row.actorId,
             actorUsername: row.actorUsername,
@@ -296,6 +994,9 @@ export async function getAuditLogs(
             details: row.details,
             ipAddress: row.ipAddress,
             success: row.success === 1,
+            sequence: row.seq,
+            previousHash: row.previousHash,
+            hash: row.hash,
         }));
     } catch (error) {
         console.error('Error retrieving audit logs:', error);
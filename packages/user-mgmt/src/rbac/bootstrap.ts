@@ -4,19 +4,18 @@
  * This module provides functions to bootstrap the RBAC system,
  * particularly for setting up the initial super admin user.
  *
- * SECURITY NOTE: The current User table does not have an email verification
- * column. This means the bootstrap process cannot verify that the user has
- * confirmed ownership of their email address. For production deployments,
- * consider:
- * 1. Adding email verification to the registration flow
- * 2. Manually verifying the super admin before enabling RBAC
- * 3. Using a separate secure channel to confirm admin identity
+ * SECURITY NOTE: The super admin role is only assigned once ownership of
+ * SUPER_ADMIN_EMAIL has been established, either because the account has
+ * verified its email address (EmailVerified) or because an operator has set
+ * SUPER_ADMIN_EMAIL_CONFIRMED=true after confirming it out of band. Otherwise
+ * an attacker could register the known admin address before the real admin.
  */
 
 import { Env, getSuperAdminEmail, getSuperAdminEmailConfirmed, getUsersDB } from '../env';
 import { assignRole } from './roles';
 import { logBootstrapSuperAdmin } from './audit';
 import { ROLES } from '../constants/rbac';
+import { isEmailVerified } from '../verification';
 
 /**
  * Gets the super admin role ID
@@ -56,6 +55,7 @@ async function userHasSuperAdminRole(env: Env, userId: string): Promise<boolean>
  * This function:
  * - Checks if SUPER_ADMIN_EMAIL is configured
  * - Finds the user with that email
+ * - Requires the email to be verified, or SUPER_ADMIN_EMAIL_CONFIRMED to be set
  * - Assigns the SUPER_ADMIN role if not already assigned
  * - Logs the bootstrap action
  * 
@@ -69,23 +69,12 @@ export async function bootstrapSuperAdmin(env: Env): Promise<void> {
         return;
     }
 
-    // Security check: Require explicit confirmation that the admin email has been verified
-    // This prevents attackers from registering with a known admin email before the real admin
-    if (!getSuperAdminEmailConfirmed(env)) {
-        console.warn(
-            'RBAC Bootstrap: RBAC_ADMIN_EMAIL_CONFIRMED is not set to "true". ' +
-            'For security, super admin role will NOT be assigned automatically. ' +
-            'Set RBAC_ADMIN_EMAIL_CONFIRMED=true after verifying the admin email ownership.'
-        );
-        return;
-    }
-    
     try {
         const db = getUsersDB(env);
 
         // Find user by email
         const user = await db.prepare(
-            'SELECT UserID FROM User WHERE Username = ?'
+            'SELECT * FROM User WHERE Username = ?'
         ).bind(superAdminEmail).first();
 
         if (!user) {
@@ -93,6 +82,18 @@ export async function bootstrapSuperAdmin(env: Env): Promise<void> {
             return;
         }
 
+        // Security check: Require proof of email ownership
+        // This prevents attackers from registering with a known admin email before the real admin
+        if (!isEmailVerified(user) && !getSuperAdminEmailConfirmed(env)) {
+            console.warn(
+                `RBAC Bootstrap: ${superAdminEmail} has not verified its email address and ` +
+                'SUPER_ADMIN_EMAIL_CONFIRMED is not set to "true". ' +
+                'For security, super admin role will NOT be assigned automatically. ' +
+                'Verify the email address, or set SUPER_ADMIN_EMAIL_CONFIRMED=true after confirming ownership.'
+            );
+            return;
+        }
+
         const userId = user.UserID as number;
 
         // Check if user already has super admin role
@@ -0,0 +1,438 @@
+/**
+ * Separation-of-duties constraints between roles.
+ *
+ * A constraint makes two roles mutually exclusive: no user may hold both. A user holds a role when it is assigned to
+ * them globally, directly or through a group, or when they hold a role inheriting from it. A role assigned on a
+ * resource is held within that resource only, so it conflicts with the user's global roles and their other roles on
+ * the same resource. Assignments and role parent changes are checked when they are made; constraints added later
+ * don't remove existing assignments, so the users already holding both roles are reported instead.
+ */
+
+import { Env } from '../env';
+import { ResourceScope, RoleConflict, RoleConstraint, RoleConstraintViolation } from '../types/rbac';
+import { afterPageCondition, getNextPageCursor, pageClauses, PageRequest } from './pagination';
+
+interface RoleConstraintRow {
+    id: string;
+    roleAId: string;
+    roleAName: string;
+    roleBId: string;
+    roleBName: string;
+    description: string | null;
+    createdBy: number | null;
+    createdAt: string;
+}
+
+const ROLE_CONSTRAINT_COLUMNS = `
+    c.id, c.role_a_id as roleAId, ra.name as roleAName, c.role_b_id as roleBId, rb.name as roleBName,
+    c.description, c.created_by as createdBy, c.created_at as createdAt
+    FROM role_constraints c
+    INNER JOIN roles ra ON c.role_a_id = ra.id
+    INNER JOIN roles rb ON c.role_b_id = rb.id
+`;
+
+function toRoleConstraint(row: RoleConstraintRow): RoleConstraint {
+    return {
+        id: row.id,
+        roles: [{ id: row.roleAId, name: row.roleAName }, { id: row.roleBId, name: row.roleBName }],
+        description: row.description ?? '',
+        createdBy: row.createdBy,
+        createdAt: new Date(`${row.createdAt.replace(' ', 'T')}Z`)
+    };
+}
+
+/**
+ * Recursive CTE `held_roles(user_id, scope_type, scope_id, id, parent_role_id)` of every role the matching users hold:
+ * their unexpired global assignments and their groups' roles, which have no scope, their scoped assignments, and the
+ * ancestors of all of them in the same scope. `userFilter` is a SQL condition on `user_id`. `rolesTable` names the
+ * table or CTE with the `id` and `parent_role_id` of every role, for checking a hierarchy change before it's made.
+ */
+function heldRolesCte(userFilter: string, rolesTable = 'roles'): string {
+    return `
+        held_roles(user_id, scope_type, scope_id, id, parent_role_id) AS (
+            SELECT h.user_id, h.scope_type, h.scope_id, r.id, r.parent_role_id
+            FROM (
+                SELECT ur.user_id, NULL AS scope_type, NULL AS scope_id, ur.role_id
+                FROM user_roles ur
+                WHERE (ur.expires_at IS NULL OR ur.expires_at > datetime('now'))
+                UNION
+                SELECT gm.user_id, NULL, NULL, gr.role_id
+                FROM group_members gm
+                INNER JOIN group_roles gr ON gm.group_id = gr.group_id
+                UNION
+                SELECT sr.user_id, sr.scope_type, sr.scope_id, sr.role_id
+                FROM scoped_user_roles sr
+            ) h
+            INNER JOIN ${rolesTable} r ON h.role_id = r.id
+            WHERE ${userFilter}
+            UNION
+            SELECT hr.user_id, hr.scope_type, hr.scope_id, r.id, r.parent_role_id
+            FROM ${rolesTable} r
+            INNER JOIN held_roles hr ON r.id = hr.parent_role_id
+        )
+    `;
+}
+
+/**
+ * SQL condition that two `held_roles` rows apply together: either is global, or both are on the same resource
+ */
+function heldTogether(a: string, b: string): string {
+    return `(${a}.scope_type IS NULL OR ${b}.scope_type IS NULL OR (${a}.scope_type = ${b}.scope_type AND ${a}.scope_id = ${b}.scope_id))`;
+}
+
+/**
+ * Lists role constraints, oldest first.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param page - Optional page to list; all constraints when omitted
+ * @returns A promise that resolves to the constraints
+ * @throws Error if the database query fails
+ */
+export async function listRoleConstraints(env: Env, page?: PageRequest): Promise<RoleConstraint[]> {
+    const clauses = page ? pageClauses(page, 'c.created_at', 'c.id', 'asc') : null;
+    const result = await env.usersDB
+        .prepare(`SELECT ${ROLE_CONSTRAINT_COLUMNS} ${clauses?.where ?? ''} ${clauses?.orderAndLimit ?? 'ORDER BY c.created_at, c.id'}`)
+        .bind(...(clauses?.bindings ?? []))
+        .all<RoleConstraintRow>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve role constraints');
+    }
+
+    return result.results.map(toRoleConstraint);
+}
+
+/**
+ * Retrieves a role constraint by its ID.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param constraintId - The ID of the constraint
+ * @returns A promise that resolves to the constraint, or null if it doesn't exist
+ */
+export async function getRoleConstraint(env: Env, constraintId: string): Promise<RoleConstraint | null> {
+    const row = await env.usersDB
+        .prepare(`SELECT ${ROLE_CONSTRAINT_COLUMNS} WHERE c.id = ?`)
+        .bind(constraintId)
+        .first<RoleConstraintRow>();
+    return row ? toRoleConstraint(row) : null;
+}
+
+/**
+ * Makes two roles mutually exclusive. Users who already hold both keep them; see getRoleConstraintViolations().
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of one role
+ * @param conflictingRoleId - The ID of the other role
+ * @param description - Optional reason for the constraint
+ * @param createdBy - Optional ID of the user adding the constraint
+ * @returns A promise that resolves to the created constraint
+ * @throws Error with code INVALID_ROLE_CONSTRAINT if the roles are the same or one inherits from the other,
+ *   or DUPLICATE_ROLE_CONSTRAINT if the roles are already mutually exclusive
+ */
+export async function createRoleConstraint(
+    env: Env,
+    roleId: string,
+    conflictingRoleId: string,
+    description?: string,
+    createdBy?: number
+): Promise<RoleConstraint> {
+    const [roleAId, roleBId] = [roleId, conflictingRoleId].sort();
+
+    // Holding a role means holding every role it inherits from, so related roles could never be held apart
+    const related = await env.usersDB
+        .prepare(`
+            WITH RECURSIVE ancestors(start_id, id, parent_role_id) AS (
+                SELECT id, id, parent_role_id FROM roles WHERE id IN (?, ?)
+                UNION
+                SELECT a.start_id, r.id, r.parent_role_id
+                FROM roles r
+                INNER JOIN ancestors a ON r.id = a.parent_role_id
+            )
+            SELECT 1 as found FROM ancestors WHERE id <> start_id AND id IN (?, ?) LIMIT 1
+        `)
+        .bind(roleAId, roleBId, roleAId, roleBId)
+        .first<{ found: number }>();
+    if (roleAId === roleBId || related) {
+        throw new Error('INVALID_ROLE_CONSTRAINT');
+    }
+
+    const constraintId = crypto.randomUUID();
+    try {
+        const result = await env.usersDB
+            .prepare(`
+                INSERT INTO role_constraints (id, role_a_id, role_b_id, description, created_by, created_at)
+                VALUES (?, ?, ?, ?, ?, datetime('now'))
+            `)
+            .bind(constraintId, roleAId, roleBId, description ?? '', createdBy ?? null)
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to create role constraint');
+        }
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage.includes('UNIQUE constraint')) {
+            throw new Error('DUPLICATE_ROLE_CONSTRAINT');
+        }
+        console.error('Error creating role constraint:', error);
+        throw new Error('Failed to create role constraint');
+    }
+
+    const constraint = await getRoleConstraint(env, constraintId);
+    if (!constraint) {
+        throw new Error('Failed to create role constraint');
+    }
+    return constraint;
+}
+
+/**
+ * Deletes a role constraint, so the two roles can be held together again.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param constraintId - The ID of the constraint
+ * @returns A promise that resolves to true if the constraint existed
+ * @throws Error if the database operation fails
+ */
+export async function deleteRoleConstraint(env: Env, constraintId: string): Promise<boolean> {
+    const result = await env.usersDB
+        .prepare('DELETE FROM role_constraints WHERE id = ?')
+        .bind(constraintId)
+        .run();
+
+    if (!result.success) {
+        throw new Error('Failed to delete role constraint');
+    }
+
+    return result.meta.changes > 0;
+}
+
+/**
+ * Key ordering violations within a constraint, and identifying a violation in a cursor's position
+ */
+const VIOLATION_KEY = `c.id || '/' || printf('%012d', u.UserID)`;
+
+/**
+ * Queries the users who hold both roles of a constraint, ordered by constraint, oldest first, and then by user.
+ * With `reparent`, the roles are checked as if that role's parent had already been changed.
+ */
+async function queryRoleConstraintViolations(
+    env: Env,
+    constraintId: string | undefined,
+    page?: PageRequest,
+    reparent?: { roleId: string; parentRoleId: string | null }
+): Promise<(RoleConstraintViolation & { constraintCreatedAt: string; violationKey: string })[]> {
+    const after = page?.after ? afterPageCondition('c.created_at', VIOLATION_KEY, page.after, 'asc') : null;
+    const result = await env.usersDB
+        .prepare(`
+            WITH RECURSIVE role_parents(id, parent_role_id) AS (
+                SELECT id, CASE WHEN id IS ? THEN ? ELSE parent_role_id END FROM roles
+            ),
+            ${heldRolesCte('1 = 1', 'role_parents')}
+            SELECT DISTINCT c.id as constraintId, u.UserID as userId, u.Username as username,
+                   c.created_at as constraintCreatedAt, ${VIOLATION_KEY} as violationKey
+            FROM role_constraints c
+            INNER JOIN held_roles a ON a.id = c.role_a_id
+            INNER JOIN held_roles b ON b.id = c.role_b_id AND b.user_id = a.user_id AND ${heldTogether('a', 'b')}
+            INNER JOIN User u ON u.UserID = a.user_id
+            WHERE (? IS NULL OR c.id = ?)${after ? ` AND ${after.sql}` : ''}
+            ORDER BY c.created_at, violationKey
+            ${page ? 'LIMIT ? OFFSET ?' : ''}
+        `)
+        .bind(
+            reparent?.roleId ?? null,
+            reparent?.parentRoleId ?? null,
+            constraintId ?? null,
+            constraintId ?? null,
+            ...(after?.bindings ?? []),
+            ...(page ? [page.limit, page.offset] : [])
+        )
+        .all<RoleConstraintViolation & { constraintCreatedAt: string; violationKey: string }>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve role constraint violations');
+    }
+
+    return result.results;
+}
+
+/**
+ * Lists the users who currently hold both roles of a constraint.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param constraintId - Only report violations of this constraint; all constraints when omitted
+ * @returns A promise that resolves to the violations, ordered by constraint and user
+ * @throws Error if the database query fails
+ */
+export async function getRoleConstraintViolations(env: Env, constraintId?: string): Promise<RoleConstraintViolation[]> {
+    const rows = await queryRoleConstraintViolations(env, constraintId);
+    return rows.map(row => ({ constraintId: row.constraintId, userId: row.userId, username: row.username }));
+}
+
+/**
+ * Lists a page of the users who currently hold both roles of a constraint, with the cursor of the next page.
+ * A violation is a (constraint, user) pair rather than a row of its own, so its position in a cursor is the
+ * constraint's creation time and a key combining the constraint and user IDs.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param page - The page to list
+ * @param constraintId - Only report violations of this constraint; all constraints when omitted
+ * @returns A promise that resolves to the violations, ordered by constraint and user, and the next page's cursor
+ * @throws Error if the database query fails
+ */
+export async function listRoleConstraintViolations(
+    env: Env,
+    page: PageRequest,
+    constraintId?: string
+): Promise<{ violations: RoleConstraintViolation[]; nextCursor: string | null }> {
+    const rows = await queryRoleConstraintViolations(env, constraintId, page);
+    return {
+        violations: rows.map(row => ({ constraintId: row.constraintId, userId: row.userId, username: row.username })),
+        nextCursor: getNextPageCursor(rows, page.limit, row => ({
+            timestamp: new Date(`${row.constraintCreatedAt.replace(' ', 'T')}Z`),
+            id: row.violationKey
+        }))
+    };
+}
+
+/**
+ * Checks whether granting a role would give a user two mutually exclusive roles. The role counts as every role it
+ * inherits from. Pass a user to check a direct assignment, with the resource for a scoped one, or a group to check
+ * every member. A global grant conflicts with the roles a user holds on any resource, and a scoped grant with their
+ * global roles and their roles on the same resource.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role being granted
+ * @param target - The user receiving the role and the resource it applies to, or the group whose members would receive it
+ * @returns A promise that resolves to the first conflict found, or null if there is none
+ * @throws Error if the database query fails
+ */
+export async function findRoleConflict(
+    env: Env,
+    roleId: string,
+    target: { userId: number; scope?: ResourceScope } | { groupId: string }
+): Promise<RoleConflict | null> {
+    const scope = 'userId' in target ? target.scope : undefined;
+    const userFilter = 'userId' in target
+        ? 'h.user_id = ?'
+        : 'h.user_id IN (SELECT user_id FROM group_members WHERE group_id = ?)';
+
+    const row = await env.usersDB
+        .prepare(`
+            WITH RECURSIVE granted(id, parent_role_id) AS (
+                SELECT id, parent_role_id FROM roles WHERE id = ?
+                UNION
+                SELECT r.id, r.parent_role_id
+                FROM roles r
+                INNER JOIN granted g ON r.id = g.parent_role_id
+            ),
+            conflicts(constraint_id, role_id, conflicting_role_id) AS (
+                SELECT id, role_a_id, role_b_id FROM role_constraints WHERE role_a_id IN (SELECT id FROM granted)
+                UNION ALL
+                SELECT id, role_b_id, role_a_id FROM role_constraints WHERE role_b_id IN (SELECT id FROM granted)
+            ),
+            ${heldRolesCte(userFilter)}
+            SELECT c.constraint_id as constraintId, hr.user_id as userId,
+                   r.id as roleId, r.name as roleName, cr.id as conflictingRoleId, cr.name as conflictingRoleName
+            FROM conflicts c
+            INNER JOIN held_roles hr ON hr.id = c.conflicting_role_id
+            INNER JOIN roles r ON r.id = c.role_id
+            INNER JOIN roles cr ON cr.id = c.conflicting_role_id
+            WHERE (? IS NULL OR hr.scope_type IS NULL OR (hr.scope_type = ? AND hr.scope_id = ?))
+            ORDER BY hr.user_id, r.name, cr.name
+            LIMIT 1
+        `)
+        .bind(
+            roleId,
+            'userId' in target ? target.userId : target.groupId,
+            scope?.type ?? null,
+            scope?.type ?? null,
+            scope?.id ?? null
+        )
+        .first<{
+            constraintId: string;
+            userId: number;
+            roleId: string;
+            roleName: string;
+            conflictingRoleId: string;
+            conflictingRoleName: string;
+        }>();
+
+    if (!row) {
+        return null;
+    }
+
+    return {
+        constraintId: row.constraintId,
+        userId: row.userId,
+        role: { id: row.roleId, name: row.roleName },
+        conflictingRole: { id: row.conflictingRoleId, name: row.conflictingRoleName }
+    };
+}
+
+/**
+ * Checks whether adding a user to a group would give them two mutually exclusive roles through the group's roles.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param groupId - The ID of the group
+ * @param userId - The ID of the user joining it
+ * @returns A promise that resolves to the first conflict found, or null if there is none
+ * @throws Error if a database query fails
+ */
+export async function findGroupMemberConflict(env: Env, groupId: string, userId: number): Promise<RoleConflict | null> {
+    const groupRoles = await env.usersDB
+        .prepare('SELECT role_id FROM group_roles WHERE group_id = ? ORDER BY role_id')
+        .bind(groupId)
+        .all<{ role_id: string }>();
+
+    for (const { role_id } of groupRoles.results) {
+        const conflict = await findRoleConflict(env, role_id, { userId });
+        if (conflict) {
+            return conflict;
+        }
+    }
+    return null;
+}
+
+/**
+ * Checks whether changing a role's parent would give a user two mutually exclusive roles. Every holder of the role,
+ * or of a role inheriting from it, would inherit the new parent and its ancestors. Users who already hold both roles
+ * of a constraint aren't reported, since the change doesn't cause those violations.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role being re-parented
+ * @param parentRoleId - The ID of its new parent
+ * @returns A promise that resolves to the first conflict found, with the role newly inherited first, or null if there is none
+ * @throws Error if a database query fails
+ */
+export async function findReparentConflict(env: Env, roleId: string, parentRoleId: string): Promise<RoleConflict | null> {
+    const [current, reparented] = await Promise.all([
+        queryRoleConstraintViolations(env, undefined),
+        queryRoleConstraintViolations(env, undefined, undefined, { roleId, parentRoleId })
+    ]);
+    const existing = new Set(current.map(violation => violation.violationKey));
+    const violation = reparented.find(row => !existing.has(row.violationKey));
+    if (!violation) {
+        return null;
+    }
+
+    const constraint = await getRoleConstraint(env, violation.constraintId);
+    if (!constraint) {
+        return null;
+    }
+    const inherited = await env.usersDB
+        .prepare(`
+            WITH RECURSIVE ancestors(id, parent_role_id) AS (
+                SELECT id, parent_role_id FROM roles WHERE id = ?
+                UNION
+                SELECT r.id, r.parent_role_id
+                FROM roles r
+                INNER JOIN ancestors a ON r.id = a.parent_role_id
+            )
+            SELECT 1 as found FROM ancestors WHERE id = ?
+        `)
+        .bind(parentRoleId, constraint.roles[1].id)
+        .first<{ found: number }>();
+    const [role, conflictingRole] = inherited ? [constraint.roles[1], constraint.roles[0]] : constraint.roles;
+
+    return { constraintId: constraint.id, userId: violation.userId, role, conflictingRole };
+}
@@ -0,0 +1,341 @@
+import { Env } from '../env';
+import { Group, GroupMember, Role } from '../types/rbac';
+import { invalidateCachedPermissions } from './cache';
+import { findGroupMemberConflict, findRoleConflict } from './constraints';
+import { pageClauses, PageRequest } from './pagination';
+
+/**
+ * Creates a new group.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param name - The unique name of the group
+ * @param description - Optional description of the group
+ * @returns A promise that resolves to the created group
+ * @throws Error with code DUPLICATE_GROUP_NAME if the name is taken
+ */
+export async function createGroup(env: Env, name: string, description?: string): Promise<Group> {
+    try {
+        const groupId = crypto.randomUUID();
+        const groupDescription = description || '';
+
+        const result = await env.usersDB
+            .prepare(`INSERT INTO groups (id, name, description, created_at) VALUES (?, ?, ?, datetime('now'))`)
+            .bind(groupId, name, groupDescription)
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to create group');
+        }
+
+        return {
+            id: groupId,
+            name,
+            description: groupDescription,
+            createdAt: new Date()
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage.includes('UNIQUE constraint')) {
+            console.error('Group name already exists:', name);
+            throw new Error('DUPLICATE_GROUP_NAME');
+        }
+        console.error('Error creating group:', error);
+        throw new Error('Failed to create group');
+    }
+}
+
+/**
+ * Retrieves a group by its ID.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param groupId - The ID of the group
+ * @returns A promise that resolves to the group, or null if it doesn't exist
+ */
+export async function getGroupById(env: Env, groupId: string): Promise<Group | null> {
+    const row = await env.usersDB
+        .prepare('SELECT id, name, description, created_at as createdAt FROM groups WHERE id = ?')
+        .bind(groupId)
+        .first<{ id: string; name: string; description: string; createdAt: string }>();
+
+    if (!row) {
+        return null;
+    }
+
+    return {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        createdAt: new Date(row.createdAt)
+    };
+}
+
+/**
+ * Lists groups, ordered by name for pages requested by offset and oldest first for pages requested by cursor.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param page - The page to list
+ * @returns A promise that resolves to the groups
+ * @throws Error if the database query fails
+ */
+export async function listGroups(env: Env, page: PageRequest): Promise<Group[]> {
+    const clauses = pageClauses(page, 'created_at', 'id', 'asc', 'name');
+    const result = await env.usersDB
+        .prepare(`
+            SELECT id, name, description, created_at as createdAt
+            FROM groups
+            ${clauses.where}
+            ${clauses.orderAndLimit}
+        `)
+        .bind(...clauses.bindings)
+        .all<{ id: string; name: string; description: string; createdAt: string }>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve groups');
+    }
+
+    return result.results.map(row => ({
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        createdAt: new Date(row.createdAt)
+    }));
+}
+
+/**
+ * Gets the IDs of a group's members.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param groupId - The ID of the group
+ * @returns A promise that resolves to the user IDs
+ */
+export async function getGroupMemberIds(env: Env, groupId: string): Promise<number[]> {
+    const result = await env.usersDB
+        .prepare('SELECT user_id FROM group_members WHERE group_id = ?')
+        .bind(groupId)
+        .all<{ user_id: number }>();
+
+    return result.results.map(row => row.user_id);
+}
+
+/**
+ * Retrieves a group's members, ordered by username.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param groupId - The ID of the group
+ * @returns A promise that resolves to the members
+ * @throws Error if the database query fails
+ */
+export async function getGroupMembers(env: Env, groupId: string): Promise<GroupMember[]> {
+    const result = await env.usersDB
+        .prepare(`
+            SELECT u.UserID as userId, u.Username as username, gm.added_at as addedAt
+            FROM group_members gm
+            INNER JOIN User u ON gm.user_id = u.UserID
+            WHERE gm.group_id = ?
+            ORDER BY u.Username
+        `)
+        .bind(groupId)
+        .all<{ userId: number; username: string; addedAt: string }>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve group members');
+    }
+
+    return result.results.map(row => ({
+        userId: row.userId,
+        username: row.username,
+        addedAt: new Date(row.addedAt)
+    }));
+}
+
+/**
+ * Retrieves the roles assigned to a group, ordered by name.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param groupId - The ID of the group
+ * @returns A promise that resolves to the roles
+ * @throws Error if the database query fails
+ */
+export async function getGroupRoles(env: Env, groupId: string): Promise<Role[]> {
+    const result = await env.usersDB
+        .prepare(`
+            SELECT r.id, r.name, r.description, r.parent_role_id as parentRoleId, r.created_at as createdAt
+            FROM group_roles gr
+            INNER JOIN roles r ON gr.role_id = r.id
+            WHERE gr.group_id = ?
+            ORDER BY r.name
+        `)
+        .bind(groupId)
+        .all<{ id: string; name: string; description: string; parentRoleId: string | null; createdAt: string }>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve group roles');
+    }
+
+    return result.results.map(row => ({
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        parentRoleId: row.parentRoleId,
+        createdAt: new Date(row.createdAt)
+    }));
+}
+
+/**
+ * Adds a user to a group, so they gain the group's roles. Adding an existing member does nothing.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param groupId - The ID of the group
+ * @param userId - The ID of the user to add
+ * @returns A promise that resolves when the user is added
+ * @throws Error with code ROLE_CONFLICT if the group's roles and the user's would include mutually exclusive roles,
+ *   or if the database operation fails
+ */
+export async function addGroupMember(env: Env, groupId: string, userId: number): Promise<void> {
+    if (await findGroupMemberConflict(env, groupId, userId)) {
+        throw new Error('ROLE_CONFLICT');
+    }
+
+    try {
+        // Invalidate cache BEFORE DB write to prevent race condition where
+        // a concurrent request reads old data and re-caches it
+        await invalidateCachedPermissions(env, userId);
+
+        const result = await env.usersDB
+            .prepare(`INSERT OR IGNORE INTO group_members (group_id, user_id, added_at) VALUES (?, ?, datetime('now'))`)
+            .bind(groupId, userId)
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to add group member');
+        }
+    } catch (error) {
+        console.error('Error adding group member:', error);
+        throw new Error('Failed to add group member');
+    }
+}
+
+/**
+ * Removes a user from a group, so they lose the roles they held only through it.
+ * Returns successfully even if the user wasn't a member (idempotent).
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param groupId - The ID of the group
+ * @param userId - The ID of the user to remove
+ * @returns A promise that resolves when the user is removed
+ * @throws Error if the database operation fails
+ */
+export async function removeGroupMember(env: Env, groupId: string, userId: number): Promise<void> {
+    try {
+        // Invalidate cache BEFORE DB write to prevent race condition where
+        // a concurrent request reads old data and re-caches it
+        await invalidateCachedPermissions(env, userId);
+
+        const result = await env.usersDB
+            .prepare('DELETE FROM group_members WHERE group_id = ? AND user_id = ?')
+            .bind(groupId, userId)
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to remove group member');
+        }
+    } catch (error) {
+        console.error('Error removing group member:', error);
+        throw new Error('Failed to remove group member');
+    }
+}
+
+/**
+ * Invalidates the cached permissions of every member of a group.
+ */
+async function invalidateGroupMembersPermissions(env: Env, groupId: string): Promise<number> {
+    const userIds = await getGroupMemberIds(env, groupId);
+    await Promise.all(userIds.map(userId => invalidateCachedPermissions(env, userId)));
+    return userIds.length;
+}
+
+/**
+ * Assigns a role to a group, granting it to every member. Assigning a role the group already has does nothing.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param groupId - The ID of the group
+ * @param roleId - The ID of the role to assign
+ * @returns A promise that resolves to the number of members affected
+ * @throws Error with code ROLE_CONFLICT if a member holds a role that is mutually exclusive with it,
+ *   or if the database operation fails
+ */
+export async function assignRoleToGroup(env: Env, groupId: string, roleId: string): Promise<number> {
+    if (await findRoleConflict(env, roleId, { groupId })) {
+        throw new Error('ROLE_CONFLICT');
+    }
+
+    try {
+        const result = await env.usersDB
+            .prepare(`INSERT OR IGNORE INTO group_roles (group_id, role_id, assigned_at) VALUES (?, ?, datetime('now'))`)
+            .bind(groupId, roleId)
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to assign role to group');
+        }
+
+        return await invalidateGroupMembersPermissions(env, groupId);
+    } catch (error) {
+        console.error('Error assigning role to group:', error);
+        throw new Error('Failed to assign role to group');
+    }
+}
+
+/**
+ * Removes a role from a group. Returns successfully even if the group didn't have it (idempotent).
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param groupId - The ID of the group
+ * @param roleId - The ID of the role to remove
+ * @returns A promise that resolves to the number of members affected
+ * @throws Error if the database operation fails
+ */
+export async function removeRoleFromGroup(env: Env, groupId: string, roleId: string): Promise<number> {
+    try {
+        const result = await env.usersDB
+            .prepare('DELETE FROM group_roles WHERE group_id = ? AND role_id = ?')
+            .bind(groupId, roleId)
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to remove role from group');
+        }
+
+        return await invalidateGroupMembersPermissions(env, groupId);
+    } catch (error) {
+        console.error('Error removing role from group:', error);
+        throw new Error('Failed to remove role from group');
+    }
+}
+
+/**
+ * Deletes a group along with its memberships and role assignments.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param groupId - The ID of the group to delete
+ * @returns A promise that resolves to the number of members who lost the group's roles
+ * @throws Error if the database operation fails
+ */
+export async function deleteGroup(env: Env, groupId: string): Promise<number> {
+    try {
+        // Collect members before the memberships disappear so their caches can be invalidated
+        const userIds = await getGroupMemberIds(env, groupId);
+
+        await env.usersDB.batch([
+            env.usersDB.prepare('DELETE FROM group_members WHERE group_id = ?').bind(groupId),
+            env.usersDB.prepare('DELETE FROM group_roles WHERE group_id = ?').bind(groupId),
+            env.usersDB.prepare('DELETE FROM groups WHERE id = ?').bind(groupId)
+        ]);
+
+        await Promise.all(userIds.map(userId => invalidateCachedPermissions(env, userId)));
+        return userIds.length;
+    } catch (error) {
+        console.error('Error deleting group:', error);
+        throw new Error('Failed to delete group');
+    }
+}
@@ -9,8 +9,19 @@
 export {
     getUserPermissions,
     getUserPermissionsFromDB,
+    getUserPermissionGrants,
+    explainUserPermission,
+    getSessionUserId,
+    getSessionPermissions,
     hasPermission,
-    getUserRoles
+    createPermissionMatcher,
+    isValidPermissionName,
+    getUserRoles,
+    getPermissionById,
+    createPermission,
+    updatePermission,
+    deletePermission,
+    getPermissionRoleIds
 } from './permissions';
 
 // Export cache functions
@@ -26,10 +37,100 @@ export {
     assignRole,
     removeRole,
     createRole,
+    getRoleById,
+    updateRole,
+    deleteRole,
+    getRoleUserIds,
+    getRoleHolderIds,
+    getRoleDescendantIds,
+    setRoleParent,
+    invalidateRoleMembersPermissions,
+    getRolePermissions,
+    getInheritedRolePermissions,
+    getAllRolePermissionNames,
+    grantPermissionToRole,
+    revokePermissionFromRole,
+    removeExpiredRoleAssignments,
     getDefaultRoleId,
     assignDefaultRole
 } from './roles';
 
+// Export scoped role assignment functions
+export {
+    assignScopedRole,
+    removeScopedRole,
+    getUserScopedRoles,
+    getUserScopedPermissions,
+    hasScopedPermission
+} from './scopes';
+
+// Export group functions
+export {
+    createGroup,
+    getGroupById,
+    listGroups,
+    getGroupMemberIds,
+    getGroupMembers,
+    getGroupRoles,
+    addGroupMember,
+    removeGroupMember,
+    assignRoleToGroup,
+    removeRoleFromGroup,
+    deleteGroup
+} from './groups';
+
+// Export organization functions
+export {
+    getOrganizationScope,
+    createOrganization,
+    getOrganizationById,
+    getUserOrganizations,
+    isOrganizationMember,
+    getOrganizationMembers,
+    removeOrganizationMember,
+    getOrganizationPermissions,
+    createOrganizationInvitation,
+    acceptOrganizationInvitation
+} from './organizations';
+
+// Export policy import/export functions
+export {
+    exportPolicy,
+    diffPolicy,
+    planPolicyImport,
+    isEmptyPolicyDiff,
+    applyPolicyDiff
+} from './policy';
+
+// Export role grant approval functions
+export {
+    roleRequiresApproval,
+    getRoleGrantRequest,
+    listRoleGrantRequests,
+    createRoleGrantRequest,
+    decideRoleGrantRequest,
+    expireRoleGrantRequests,
+    cancelUserRoleGrantRequests
+} from './approvals';
+
+// Export separation-of-duties constraint functions
+export {
+    listRoleConstraints,
+    getRoleConstraint,
+    createRoleConstraint,
+    deleteRoleConstraint,
+    getRoleConstraintViolations,
+    listRoleConstraintViolations,
+    findRoleConflict,
+    findGroupMemberConflict,
+    findReparentConflict
+} from './constraints';
+
+// Export admin access guard functions
+export {
+    getAdminHolderIds
+} from './admins';
+
 // Export bootstrap functions
 export {
     bootstrapSuperAdmin
@@ -40,21 +141,87 @@ export {
     logAuditEvent,
     logRoleAssigned,
     logRoleRemoved,
+    logRoleExpired,
     logRoleCreated,
+    logRoleUpdated,
+    logRoleDeleted,
+    logRolePermissionChanged,
+    logPermissionCreated,
+    logPermissionUpdated,
+    logPermissionDeleted,
     logBootstrapSuperAdmin,
+    logPolicyImported,
     logAuthorizationDenied,
+    logAccountEvent,
+    logLoginFailure,
+    logAccountLocked,
+    logAccountUnlocked,
+    logSessionsRevoked,
+    logUserDeleted,
+    logRoleGrantRequestEvent,
+    logRoleConstraintEvent,
+    logAuditLogsExported,
+    logOrganizationEvent,
+    logGroupEvent,
     getAuditLogs,
     getIpAddressFromRequest
 } from './audit';
 
+// Export audit log hash chain functions
+export {
+    verifyAuditChain,
+    createAuditCheckpoint,
+    getLatestAuditCheckpoint
+} from './audit-chain';
+
+// Export keyset pagination functions
+export {
+    encodePageCursor,
+    decodePageCursor,
+    afterPageCondition,
+    pageClauses,
+    getNextPageCursor
+} from './pagination';
+export type { PagePosition, PageOrder, PageRequest } from './pagination';
+
 // Re-export RBAC types for convenience
 export type {
     Role,
     Permission,
     UserRole,
+    AssignedRole,
+    RoleGrantSource,
+    PermissionGrant,
+    PermissionExplanation,
+    PermissionExplanationReason,
+    RoleAssignmentWindow,
+    RoleGrantRequest,
+    RoleGrantRequestStatus,
+    RoleConstraint,
+    RoleConflict,
+    RoleConstraintViolation,
+    AdminAccessChange,
+    Group,
+    GroupMember,
+    PolicyPermission,
+    PolicyRole,
+    PolicyAssignment,
+    RbacPolicy,
+    PolicyDiff,
+    ResourceScope,
+    ScopedRole,
     SessionData,
     AuditAction,
     AuditTargetType,
     AuditLogEntry,
-    AuditLogParams
-} from '../types/rbac';
\ No newline at end of file
+    AuditLogParams,
+    AuditCheckpoint,
+    AuditChainBreakReason,
+    AuditChainVerification
+} from '../types/rbac';
+export type {
+    Organization,
+    OrganizationMember,
+    OrganizationInvitation
+} from '../types/organizations';
+export type { PermissionMatcher } from './permissions';
@@ -0,0 +1,387 @@
+/**
+ * Organizations (tenant workspaces).
+ *
+ * An organization has members and pending invitations. Roles within an organization are scoped role
+ * assignments with scope type `org` and the organization ID as scope ID, so the same user can be
+ * ORG_ADMIN in one organization and ORG_MEMBER in another. Removing a member removes those roles too.
+ */
+
+import { Env } from '../env';
+import { ORG_SCOPE_TYPE, ROLES } from '../constants/rbac';
+import { Organization, OrganizationInvitation, OrganizationMember } from '../types/organizations';
+import { ResourceScope } from '../types/rbac';
+import { base64UrlEncode } from '../webauthn/encoding';
+import { findRoleConflict } from './constraints';
+import { getUserPermissions } from './permissions';
+import { getUserScopedPermissions } from './scopes';
+
+/**
+ * Returns the resource scope that roles within an organization are assigned on.
+ */
+export function getOrganizationScope(orgId: string): ResourceScope {
+    return { type: ORG_SCOPE_TYPE, id: orgId };
+}
+
+/**
+ * Parses a DATETIME column written by SQLite, which is UTC without a zone suffix.
+ */
+function parseDbDate(value: string): Date {
+    return new Date(`${value.replace(' ', 'T')}Z`);
+}
+
+/**
+ * Hashes an invitation token for storage or lookup. Tokens are high-entropy random values, so a fast hash is sufficient.
+ */
+async function hashInvitationToken(token: string): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return Array.from(new Uint8Array(hashBuffer))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * Creates an organization and makes its creator a member with the ORG_ADMIN role in it.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param name - The organization name
+ * @param creatorId - The ID of the user creating the organization
+ * @returns A promise that resolves to the created organization
+ * @throws Error if the database operation fails
+ */
+export async function createOrganization(env: Env, name: string, creatorId: number): Promise<Organization> {
+    try {
+        const orgId = crypto.randomUUID();
+        await env.usersDB.batch([
+            env.usersDB
+                .prepare(`INSERT INTO organizations (id, name, created_by, created_at) VALUES (?, ?, ?, datetime('now'))`)
+                .bind(orgId, name, creatorId),
+            env.usersDB
+                .prepare(`INSERT INTO organization_members (org_id, user_id, joined_at) VALUES (?, ?, datetime('now'))`)
+                .bind(orgId, creatorId),
+            env.usersDB
+                .prepare(`
+                    INSERT INTO scoped_user_roles (user_id, role_id, scope_type, scope_id, assigned_at)
+                    SELECT ?, id, ?, ?, datetime('now') FROM roles WHERE name = ?
+                `)
+                .bind(creatorId, ORG_SCOPE_TYPE, orgId, ROLES.ORG_ADMIN)
+        ]);
+
+        return {
+            id: orgId,
+            name,
+            createdBy: creatorId,
+            createdAt: new Date()
+        };
+    } catch (error) {
+        console.error('Error creating organization:', error);
+        throw new Error('Failed to create organization');
+    }
+}
+
+/**
+ * Retrieves an organization by its ID.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param orgId - The ID of the organization
+ * @returns A promise that resolves to the organization, or null if not found
+ * @throws Error if the database query fails
+ */
+export async function getOrganizationById(env: Env, orgId: string): Promise<Organization | null> {
+    const row = await env.usersDB
+        .prepare('SELECT id, name, created_by as createdBy, created_at as createdAt FROM organizations WHERE id = ?')
+        .bind(orgId)
+        .first<{ id: string; name: string; createdBy: number | null; createdAt: string }>();
+
+    if (!row) {
+        return null;
+    }
+
+    return {
+        id: row.id,
+        name: row.name,
+        createdBy: row.createdBy,
+        createdAt: parseDbDate(row.createdAt)
+    };
+}
+
+/**
+ * Retrieves the organizations a user is a member of, ordered by name.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ * @returns A promise that resolves to the user's organizations
+ * @throws Error if the database query fails
+ */
+export async function getUserOrganizations(env: Env, userId: number): Promise<Organization[]> {
+    const result = await env.usersDB
+        .prepare(`
+            SELECT o.id, o.name, o.created_by as createdBy, o.created_at as createdAt
+            FROM organization_members m
+            INNER JOIN organizations o ON m.org_id = o.id
+            WHERE m.user_id = ?
+            ORDER BY o.name
+        `)
+        .bind(userId)
+        .all<{ id: string; name: string; createdBy: number | null; createdAt: string }>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve organizations');
+    }
+
+    return result.results.map(row => ({
+        id: row.id,
+        name: row.name,
+        createdBy: row.createdBy,
+        createdAt: parseDbDate(row.createdAt)
+    }));
+}
+
+/**
+ * Checks whether a user is a member of an organization.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param orgId - The ID of the organization
+ * @param userId - The ID of the user
+ * @returns A promise that resolves to true if the user is a member
+ */
+export async function isOrganizationMember(env: Env, orgId: string, userId: number): Promise<boolean> {
+    const row = await env.usersDB
+        .prepare('SELECT 1 as found FROM organization_members WHERE org_id = ? AND user_id = ?')
+        .bind(orgId, userId)
+        .first<{ found: number }>();
+    return row !== null;
+}
+
+/**
+ * Retrieves an organization's members with the roles they hold in it, ordered by username.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param orgId - The ID of the organization
+ * @returns A promise that resolves to the members
+ * @throws Error if the database query fails
+ */
+export async function getOrganizationMembers(env: Env, orgId: string): Promise<OrganizationMember[]> {
+    const [membersResult, rolesResult] = await Promise.all([
+        env.usersDB
+            .prepare(`
+                SELECT u.UserID as userId, u.Username as username, u.FirstName as firstName, u.LastName as lastName,
+                       m.joined_at as joinedAt
+                FROM organization_members m
+                INNER JOIN User u ON m.user_id = u.UserID
+                WHERE m.org_id = ?
+                ORDER BY u.Username
+            `)
+            .bind(orgId)
+            .all<{ userId: number; username: string; firstName: string; lastName: string; joinedAt: string }>(),
+        env.usersDB
+            .prepare(`
+                SELECT sur.user_id as userId, r.id, r.name
+                FROM scoped_user_roles sur
+                INNER JOIN roles r ON sur.role_id = r.id
+                WHERE sur.scope_type = ? AND sur.scope_id = ?
+                ORDER BY r.name
+            `)
+            .bind(ORG_SCOPE_TYPE, orgId)
+            .all<{ userId: number; id: string; name: string }>()
+    ]);
+
+    if (!membersResult.success || !rolesResult.success) {
+        throw new Error('Failed to retrieve organization members');
+    }
+
+    const rolesByUser = new Map<number, { id: string; name: string }[]>();
+    for (const row of rolesResult.results) {
+        const roles = rolesByUser.get(row.userId) ?? [];
+        roles.push({ id: row.id, name: row.name });
+        rolesByUser.set(row.userId, roles);
+    }
+
+    return membersResult.results.map(row => ({
+        userId: row.userId,
+        username: row.username,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        joinedAt: parseDbDate(row.joinedAt),
+        roles: rolesByUser.get(row.userId) ?? []
+    }));
+}
+
+/**
+ * Removes a user from an organization along with every role they hold in it.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param orgId - The ID of the organization
+ * @param userId - The ID of the member to remove
+ * @returns A promise that resolves to true if the user was a member
+ * @throws Error if the database operation fails
+ */
+export async function removeOrganizationMember(env: Env, orgId: string, userId: number): Promise<boolean> {
+    try {
+        const [memberResult] = await env.usersDB.batch([
+            env.usersDB
+                .prepare('DELETE FROM organization_members WHERE org_id = ? AND user_id = ?')
+                .bind(orgId, userId),
+            env.usersDB
+                .prepare('DELETE FROM scoped_user_roles WHERE user_id = ? AND scope_type = ? AND scope_id = ?')
+                .bind(userId, ORG_SCOPE_TYPE, orgId)
+        ]);
+        return memberResult.meta.changes > 0;
+    } catch (error) {
+        console.error('Error removing organization member:', error);
+        throw new Error('Failed to remove organization member');
+    }
+}
+
+/**
+ * Retrieves the permissions a user holds within an organization: their global permissions plus those
+ * granted by roles they hold in the organization.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ * @param orgId - The ID of the organization
+ * @returns A promise that resolves to the permission names
+ * @throws Error if the database query fails
+ */
+export async function getOrganizationPermissions(env: Env, userId: number, orgId: string): Promise<string[]> {
+    const [globalPermissions, orgPermissions] = await Promise.all([
+        getUserPermissions(env, userId),
+        getUserScopedPermissions(env, userId, getOrganizationScope(orgId))
+    ]);
+    return [...new Set([...globalPermissions, ...orgPermissions])];
+}
+
+/**
+ * Creates an invitation to join an organization with a role.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param orgId - The ID of the organization
+ * @param email - The email address the invitation is for; only the account with this username can accept it
+ * @param roleId - The role the invitee receives in the organization
+ * @param invitedBy - The ID of the user sending the invitation
+ * @param ttlSeconds - How long the invitation stays valid
+ * @returns A promise that resolves to the invitation and its token, which is not stored and can't be retrieved later
+ * @throws Error if the database operation fails
+ */
+export async function createOrganizationInvitation(
+    env: Env,
+    orgId: string,
+    email: string,
+    roleId: string,
+    invitedBy: number,
+    ttlSeconds: number
+): Promise<{ invitation: OrganizationInvitation; token: string }> {
+    try {
+        const invitationId = crypto.randomUUID();
+        const token = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+        const tokenHash = await hashInvitationToken(token);
+        const createdAt = new Date();
+        const expiresAt = new Date(createdAt.getTime() + ttlSeconds * 1000);
+
+        await env.usersDB
+            .prepare(`
+                INSERT INTO organization_invitations (id, org_id, email, role_id, token_hash, invited_by, created_at, expires_at)
+                VALUES (?, ?, ?, ?, ?, ?, datetime('now'), datetime(?))
+            `)
+            .bind(invitationId, orgId, email, roleId, tokenHash, invitedBy, expiresAt.toISOString())
+            .run();
+
+        return {
+            invitation: {
+                id: invitationId,
+                orgId,
+                email,
+                roleId,
+                invitedBy,
+                createdAt,
+                expiresAt,
+                acceptedAt: null
+            },
+            token
+        };
+    } catch (error) {
+        console.error('Error creating organization invitation:', error);
+        throw new Error('Failed to create organization invitation');
+    }
+}
+
+/**
+ * Accepts an organization invitation, adding the user as a member with the invited role.
+ * Each invitation can be accepted once.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param token - The invitation token
+ * @param userId - The ID of the user accepting the invitation
+ * @param email - The accepting user's email address (username), which must match the invitation
+ * @returns A promise that resolves to the accepted invitation
+ * @throws Error with message 'INVALID_INVITATION' if the token is unknown, expired or already used,
+ *   'INVITATION_EMAIL_MISMATCH' if it was issued to a different address,
+ *   or 'ROLE_CONFLICT' if the user holds a role that is mutually exclusive with the invited role (the invitation
+ *   stays open)
+ */
+export async function acceptOrganizationInvitation(
+    env: Env,
+    token: string,
+    userId: number,
+    email: string
+): Promise<OrganizationInvitation> {
+    const tokenHash = await hashInvitationToken(token);
+    const row = await env.usersDB
+        .prepare(`
+            SELECT id, org_id as orgId, email, role_id as roleId, invited_by as invitedBy,
+                   created_at as createdAt, expires_at as expiresAt
+            FROM organization_invitations
+            WHERE token_hash = ? AND accepted_at IS NULL AND expires_at > datetime('now')
+        `)
+        .bind(tokenHash)
+        .first<{
+            id: string;
+            orgId: string;
+            email: string;
+            roleId: string;
+            invitedBy: number | null;
+            createdAt: string;
+            expiresAt: string;
+        }>();
+
+    if (!row) {
+        throw new Error('INVALID_INVITATION');
+    }
+    if (row.email.toLowerCase() !== email.toLowerCase()) {
+        throw new Error('INVITATION_EMAIL_MISMATCH');
+    }
+    if (await findRoleConflict(env, row.roleId, { userId, scope: { type: ORG_SCOPE_TYPE, id: row.orgId } })) {
+        throw new Error('ROLE_CONFLICT');
+    }
+
+    // Claim the invitation first so a token can't be redeemed twice by concurrent requests
+    const claimResult = await env.usersDB
+        .prepare(`UPDATE organization_invitations SET accepted_at = datetime('now') WHERE id = ? AND accepted_at IS NULL`)
+        .bind(row.id)
+        .run();
+    if (claimResult.meta.changes === 0) {
+        throw new Error('INVALID_INVITATION');
+    }
+
+    await env.usersDB.batch([
+        env.usersDB
+            .prepare(`INSERT OR IGNORE INTO organization_members (org_id, user_id, joined_at) VALUES (?, ?, datetime('now'))`)
+            .bind(row.orgId, userId),
+        env.usersDB
+            .prepare(`
+                INSERT OR IGNORE INTO scoped_user_roles (user_id, role_id, scope_type, scope_id, assigned_at)
+                VALUES (?, ?, ?, ?, datetime('now'))
+            `)
+            .bind(userId, row.roleId, ORG_SCOPE_TYPE, row.orgId)
+    ]);
+
+    return {
+        id: row.id,
+        orgId: row.orgId,
+        email: row.email,
+        roleId: row.roleId,
+        invitedBy: row.invitedBy,
+        createdAt: parseDbDate(row.createdAt),
+        expiresAt: parseDbDate(row.expiresAt),
+        acceptedAt: new Date()
+    };
+}
@@ -0,0 +1,143 @@
+/**
+ * Keyset (cursor) pagination.
+ *
+ * Lists are ordered by a timestamp column and then by ID, and each page starts after the last row of the previous
+ * one instead of skipping `offset` rows. Rows inserted or deleted between requests don't shift the pages, so nothing
+ * is returned twice or skipped, and the database seeks straight to the position instead of reading the skipped rows.
+ * The position is handed to clients as an opaque cursor.
+ */
+
+import { base64UrlDecode, base64UrlEncode } from '../webauthn/encoding';
+import { toDbTimestamp } from './audit-chain';
+
+/**
+ * Position of a row in (timestamp, id) order
+ */
+export interface PagePosition {
+    timestamp: Date;
+    id: string;
+}
+
+/** Oldest first or newest first */
+export type PageOrder = 'asc' | 'desc';
+
+/**
+ * A page of a list: up to `limit` rows, skipping `offset` rows or, for pages requested by cursor, following `after`,
+ * the position of the last row of the previous page. `keyset` is set for every page requested by cursor, including
+ * the first, which has no `after`.
+ */
+export interface PageRequest {
+    limit: number;
+    offset: number;
+    after?: PagePosition;
+    keyset: boolean;
+}
+
+const DB_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+const MAX_CURSOR_LENGTH = 512;
+
+/**
+ * Encodes a position as an opaque cursor.
+ *
+ * @param position - The position of the last row of a page
+ * @returns The cursor
+ */
+export function encodePageCursor(position: PagePosition): string {
+    return base64UrlEncode(new TextEncoder().encode(JSON.stringify([toDbTimestamp(position.timestamp), position.id])));
+}
+
+/**
+ * Decodes a cursor created by encodePageCursor.
+ *
+ * @param cursor - The cursor from the client
+ * @returns The position, or null if the cursor is malformed
+ */
+export function decodePageCursor(cursor: string): PagePosition | null {
+    if (cursor.length > MAX_CURSOR_LENGTH) {
+        return null;
+    }
+    try {
+        const decoded: unknown = JSON.parse(new TextDecoder().decode(base64UrlDecode(cursor)));
+        if (!Array.isArray(decoded) || decoded.length !== 2) {
+            return null;
+        }
+        const [timestamp, id] = decoded;
+        if (typeof timestamp !== 'string' || !DB_TIMESTAMP_PATTERN.test(timestamp) || typeof id !== 'string') {
+            return null;
+        }
+        const date = new Date(`${timestamp.replace(' ', 'T')}Z`);
+        return isNaN(date.getTime()) ? null : { timestamp: date, id };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Builds the condition selecting the rows after a position, for a query ordered by the given columns.
+ *
+ * @param timestampColumn - The timestamp column the query is ordered by, holding SQLite timestamps
+ * @param idColumn - The ID column breaking ties between equal timestamps
+ * @param position - The position to continue after
+ * @param order - The order of the query, applied to both columns
+ * @returns The SQL condition and its bindings
+ */
+export function afterPageCondition(
+    timestampColumn: string,
+    idColumn: string,
+    position: PagePosition,
+    order: PageOrder
+): { sql: string; bindings: string[] } {
+    const comparison = order === 'asc' ? '>' : '<';
+    const timestamp = toDbTimestamp(position.timestamp);
+    return {
+        sql: `(${timestampColumn} ${comparison} ? OR (${timestampColumn} = ? AND ${idColumn} ${comparison} ?))`,
+        bindings: [timestamp, timestamp, position.id]
+    };
+}
+
+/**
+ * Builds the clauses selecting a page of a table with no other filters. Pages requested by cursor are in
+ * (timestamp, id) order. Pages requested by offset are in `offsetOrderBy` order when given, the order those lists had
+ * before cursors were added, so clients paging by offset see the same order as before.
+ *
+ * @param page - The requested page
+ * @param timestampColumn - The timestamp column to order by, holding SQLite timestamps
+ * @param idColumn - The ID column breaking ties between equal timestamps
+ * @param order - The order of the (timestamp, id) columns
+ * @param offsetOrderBy - Optional ORDER BY expression for pages requested by offset
+ * @returns The WHERE clause (empty when every row qualifies), the ORDER BY, LIMIT and OFFSET clauses, and their bindings
+ */
+export function pageClauses(
+    page: PageRequest,
+    timestampColumn: string,
+    idColumn: string,
+    order: PageOrder,
+    offsetOrderBy?: string
+): { where: string; orderAndLimit: string; bindings: (string | number)[] } {
+    const condition = page.after ? afterPageCondition(timestampColumn, idColumn, page.after, order) : null;
+    const orderBy = !page.keyset && offsetOrderBy
+        ? offsetOrderBy
+        : `${timestampColumn} ${order.toUpperCase()}, ${idColumn} ${order.toUpperCase()}`;
+
+    return {
+        where: condition ? `WHERE ${condition.sql}` : '',
+        orderAndLimit: `ORDER BY ${orderBy} LIMIT ? OFFSET ?`,
+        bindings: [...(condition?.bindings ?? []), page.limit, page.offset]
+    };
+}
+
+/**
+ * Gets the cursor for the page after the given one.
+ *
+ * @param items - The page
+ * @param limit - The page size that was requested
+ * @param position - Gets the position of an item
+ * @returns The cursor, or null when the page is short so there is nothing after it
+ */
+export function getNextPageCursor<T>(items: T[], limit: number, position: (item: T) => PagePosition): string | null {
+    if (items.length === 0 || items.length < limit) {
+        return null;
+    }
+    return encodePageCursor(position(items[items.length - 1]));
+}
@@ -1,6 +1,15 @@
 import { Env } from '../env';
-import { Role } from '../types/rbac';
-import { getCachedPermissions, setCachedPermissions } from './cache';
+import { PERMISSIONS, VALIDATION } from '../constants/rbac';
+import {
+    AssignedRole,
+    Permission,
+    PermissionExplanation,
+    PermissionExplanationReason,
+    PermissionGrant,
+    SessionData
+} from '../types/rbac';
+import { getCachedPermissions, setCachedPermissions, invalidateCachedPermissions } from './cache';
+import { ACTIVE_ROLE_ASSIGNMENT } from './roles';
 
 /**
  * Retrieves all permissions for a user based on their assigned roles.
@@ -39,7 +48,8 @@ export async function getUserPermissions(env: Env, userId: number): Promise<stri
 }
 
 /**
- * Retrieves all permissions for a user directly from the database.
+ * Retrieves all permissions for a user directly from the database, from roles assigned to them directly
+ * and roles assigned to groups they belong to.
  * This is the internal function that bypasses the cache.
  *
  * @param env - The environment configuration containing the database connection
@@ -47,35 +57,247 @@ export async function getUserPermissions(env: Env, userId: number): Promise<stri
  * @returns A promise that resolves to an array of permission names
  */
 export async function getUserPermissionsFromDB(env: Env, userId: number): Promise<string[]> {
+    return toEffectivePermissions(await getUserPermissionGrants(env, userId));
+}
+
+/**
+ * Reduces a user's grants to the permission names permission checks use.
+ * If the user has admin:all permission, returns only that for efficiency.
+ */
+function toEffectivePermissions(grants: PermissionGrant[]): string[] {
+    const permissions = [...new Set(grants.map(grant => grant.permission))];
+
+    if (permissions.includes(PERMISSIONS.ADMIN_ALL)) {
+        return [PERMISSIONS.ADMIN_ALL];
+    }
+
+    return permissions;
+}
+
+/**
+ * Retrieves every grant behind a user's permissions: which role grants each permission, which role the user
+ * holds to get it and whether they hold that role directly or through a group.
+ * This is the resolution getUserPermissionsFromDB() is built on, so it always agrees with permission checks.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user whose grants to retrieve
+ * @returns A promise that resolves to the grants, ordered by permission name
+ * @throws Error if the database query fails
+ */
+export async function getUserPermissionGrants(env: Env, userId: number): Promise<PermissionGrant[]> {
+    // Walk up the role hierarchy so roles also grant the permissions of their ancestors, remembering the
+    // role the user holds and how they hold it. UNION (rather than UNION ALL) stops the recursion if the
+    // data ever contains a cycle. Assignments outside their validity window are ignored even before the
+    // cron job removes them.
     const query = `
-        SELECT DISTINCT p.name
-        FROM user_roles ur
-        INNER JOIN role_permissions rp ON ur.role_id = rp.role_id
+        WITH RECURSIVE user_role_tree(role_id, assigned_role_id, group_id, group_name) AS (
+            SELECT ur.role_id, ur.role_id, NULL, NULL FROM user_roles ur
+            WHERE ur.user_id = ? AND ${ACTIVE_ROLE_ASSIGNMENT}
+            UNION
+            SELECT gr.role_id, gr.role_id, g.id, g.name FROM group_roles gr
+            INNER JOIN group_members gm ON gr.group_id = gm.group_id
+            INNER JOIN groups g ON gr.group_id = g.id
+            WHERE gm.user_id = ?
+            UNION
+            SELECT r.parent_role_id, t.assigned_role_id, t.group_id, t.group_name
+            FROM roles r
+            INNER JOIN user_role_tree t ON r.id = t.role_id
+            WHERE r.parent_role_id IS NOT NULL
+        )
+        SELECT p.name as permission, t.role_id as roleId, r.name as roleName,
+               t.assigned_role_id as assignedRoleId, a.name as assignedRoleName,
+               t.group_id as groupId, t.group_name as groupName
+        FROM user_role_tree t
+        INNER JOIN role_permissions rp ON t.role_id = rp.role_id
         INNER JOIN permissions p ON rp.permission_id = p.id
-        WHERE ur.user_id = ?
+        LEFT JOIN roles r ON t.role_id = r.id
+        LEFT JOIN roles a ON t.assigned_role_id = a.id
+        ORDER BY p.name, a.name, r.name
     `;
 
     const result = await env.usersDB
         .prepare(query)
-        .bind(userId)
-        .all<{ name: string }>();
+        .bind(userId, userId)
+        .all<{
+            permission: string;
+            roleId: string;
+            roleName: string | null;
+            assignedRoleId: string;
+            assignedRoleName: string | null;
+            groupId: string | null;
+            groupName: string | null;
+        }>();
 
     if (!result.success) {
         throw new Error('Failed to retrieve user permissions');
     }
 
-    const permissions = result.results.map(row => row.name);
+    return result.results.map(row => ({
+        permission: row.permission,
+        role: { id: row.roleId, name: row.roleName ?? row.roleId },
+        assignedRole: { id: row.assignedRoleId, name: row.assignedRoleName ?? row.assignedRoleId },
+        source: row.groupId !== null
+            ? { type: 'group', groupId: row.groupId, groupName: row.groupName ?? row.groupId }
+            : { type: 'direct' }
+    }));
+}
 
-    // If user has admin:all permission, return only that for efficiency
-    if (permissions.includes('admin:all')) {
-        return ['admin:all'];
+/**
+ * Explains whether a user has a permission and why, for support and debugging.
+ * Resolves the user's grants from the database and matches them exactly as permission checks do, so the
+ * explanation can't disagree with enforcement (except for the permission cache TTL).
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ * @param permission - The permission to explain
+ * @returns A promise that resolves to the explanation
+ * @throws Error if the database query fails
+ */
+export async function explainUserPermission(
+    env: Env,
+    userId: number,
+    permission: string
+): Promise<PermissionExplanation> {
+    const [grants, roles] = await Promise.all([
+        getUserPermissionGrants(env, userId),
+        getUserRoles(env, userId)
+    ]);
+    const permissions = toEffectivePermissions(grants);
+    const granted = hasPermission(permissions, permission);
+
+    // Every grant whose permission would satisfy the check on its own, including admin:all and wildcards
+    const matchingGrants = grants.filter(grant => hasPermission([grant.permission], permission));
+
+    let reason: PermissionExplanationReason;
+    if (permissions.includes(PERMISSIONS.ADMIN_ALL)) {
+        reason = 'ADMIN_ALL';
+    } else if (granted) {
+        reason = 'GRANTED';
+    } else if (roles.length === 0) {
+        reason = 'NO_ROLES';
+    } else {
+        reason = 'NOT_GRANTED';
     }
 
-    return permissions;
+    return { permission, granted, reason, grants: matchingGrants, permissions, roles };
+}
+
+/**
+ * Resolves the user ID of a session's user.
+ * Sessions created before the user ID was stored in the session are resolved by username.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param sessionData - The session whose user to resolve
+ * @returns A promise that resolves to the user ID, or null if the user no longer exists
+ * @throws Error if the database query fails
+ */
+export async function getSessionUserId(env: Env, sessionData: SessionData): Promise<number | null> {
+    if (sessionData.userId !== undefined) {
+        return sessionData.userId;
+    }
+    const user = await env.usersDB
+        .prepare('SELECT UserID FROM User WHERE Username = ?')
+        .bind(sessionData.username)
+        .first<{ UserID: number }>();
+    return user?.UserID ?? null;
 }
 
 /**
- * Checks if a user has a specific permission.
+ * Resolves the current permissions of a session's user.
+ * Sessions only hold the permissions snapshotted at login, so authorization checks use this
+ * instead to pick up role changes within the permission cache TTL, across all of the user's sessions.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param sessionData - The session whose user to resolve
+ * @returns A promise that resolves to the user's current permissions, or an empty array if the user no longer exists
+ * @throws Error if the database query fails
+ */
+export async function getSessionPermissions(env: Env, sessionData: SessionData): Promise<string[]> {
+    const userId = await getSessionUserId(env, sessionData);
+    if (userId === null) {
+        return [];
+    }
+    return getUserPermissions(env, userId);
+}
+
+/**
+ * Checks a required permission against a set of granted permissions.
+ * Build one with createPermissionMatcher() when checking several permissions against the same grants.
+ */
+export interface PermissionMatcher {
+    matches(required: string): boolean;
+}
+
+/**
+ * Checks whether a granted permission name is a well-formed name or wildcard pattern.
+ * Names are two or more colon-separated segments, each either lowercase letters, digits, `_` and `-`,
+ * or a single `*`. Patterns must keep at least one literal segment; `admin:all` is the only grant of everything.
+ *
+ * @param name - The permission name or pattern to check
+ * @returns True if the name can be stored and granted
+ */
+export function isValidPermissionName(name: string): boolean {
+    return VALIDATION.PERMISSION_NAME_PATTERN.test(name) && name.split(':').some(segment => segment !== '*');
+}
+
+/**
+ * Matches the segments of a wildcard grant against the segments of a required permission.
+ * A `*` in the last position matches one or more remaining segments; anywhere else it matches exactly one.
+ */
+function matchesPattern(pattern: string[], required: string[]): boolean {
+    if (pattern[pattern.length - 1] === '*' ? required.length < pattern.length : required.length !== pattern.length) {
+        return false;
+    }
+    return pattern.every((segment, index) => segment === '*' || segment === required[index]);
+}
+
+/**
+ * Precomputes a matcher for a user's granted permissions.
+ * Exact grants are checked with a set lookup; wildcard grants are split into segments once, up front.
+ *
+ * Matching grammar, with permissions written as colon-separated segments:
+ * - `admin:all` grants every permission
+ * - a grant without `*` matches only the identical permission (case-sensitive)
+ * - `*` as the last segment matches one or more trailing segments: `users:*` matches `users:read`
+ *   and `users:profile:read`
+ * - `*` anywhere else matches exactly one segment: `reports:*:read` matches `reports:sales:read`,
+ *   and `*:read` matches `users:read` but not `reports:sales:read`
+ *
+ * @param permissions - Array of permission names and patterns the user has
+ * @returns A matcher that checks required permissions against the grants
+ */
+export function createPermissionMatcher(permissions: string[]): PermissionMatcher {
+    // Admin has all permissions
+    if (permissions.includes(PERMISSIONS.ADMIN_ALL)) {
+        return { matches: () => true };
+    }
+
+    const exact = new Set<string>();
+    const patterns: string[][] = [];
+    for (const permission of permissions) {
+        if (permission.includes('*')) {
+            patterns.push(permission.split(':'));
+        } else {
+            exact.add(permission);
+        }
+    }
+
+    return {
+        matches(required: string): boolean {
+            if (exact.has(required)) {
+                return true;
+            }
+            if (patterns.length === 0) {
+                return false;
+            }
+            const requiredSegments = required.split(':');
+            return patterns.some(pattern => matchesPattern(pattern, requiredSegments));
+        }
+    };
+}
+
+/**
+ * Checks if a user has a specific permission, honouring wildcard grants (see createPermissionMatcher).
  * If the user has 'admin:all' permission, they automatically have all permissions.
  * 
  * @param permissions - Array of permission names the user has
@@ -83,56 +305,281 @@ export async function getUserPermissionsFromDB(env: Env, userId: number): Promis
  * @returns True if the user has the required permission, false otherwise
  */
 export function hasPermission(permissions: string[], required: string): boolean {
-    // Admin has all permissions
-    if (permissions.includes('admin:all')) {
-        return true;
-    }
-    
-    // Check for specific permission
-    return permissions.includes(required);
+    return createPermissionMatcher(permissions).matches(required);
 }
 
 /**
- * Retrieves all roles assigned to a user with full role details.
+ * Retrieves all roles a user holds, directly or through groups, with full role details.
+ * Each role is listed once with every source it is held through; the validity window is that of the direct assignment.
+ * Only direct assignments in effect now are included unless `includePending` is set, which adds those starting later.
+ * Expired assignments are never returned.
  * 
  * @param env - The environment configuration containing the database connection
  * @param userId - The ID of the user whose roles to retrieve
- * @returns A promise that resolves to an array of Role objects
+ * @param options - Set `includePending` to also return assignments that haven't started yet
+ * @returns A promise that resolves to an array of AssignedRole objects, ordered by role name
  * @throws Error if the database query fails
  */
-export async function getUserRoles(env: Env, userId: number): Promise<Role[]> {
+export async function getUserRoles(
+    env: Env,
+    userId: number,
+    options: { includePending?: boolean } = {}
+): Promise<AssignedRole[]> {
     try {
-        const query = `
-            SELECT r.id, r.name, r.description, r.created_at as createdAt
+        const windowCondition = options.includePending
+            ? `(ur.expires_at IS NULL OR ur.expires_at > datetime('now'))`
+            : ACTIVE_ROLE_ASSIGNMENT;
+        const directQuery = `
+            SELECT r.id, r.name, r.description, r.parent_role_id as parentRoleId, r.created_at as createdAt,
+                   ur.starts_at as startsAt, ur.expires_at as expiresAt
             FROM user_roles ur
             INNER JOIN roles r ON ur.role_id = r.id
-            WHERE ur.user_id = ?
-            ORDER BY r.name
+            WHERE ur.user_id = ? AND ${windowCondition}
         `;
+        const groupQuery = `
+            SELECT r.id, r.name, r.description, r.parent_role_id as parentRoleId, r.created_at as createdAt,
+                   g.id as groupId, g.name as groupName
+            FROM group_members gm
+            INNER JOIN groups g ON gm.group_id = g.id
+            INNER JOIN group_roles gr ON gr.group_id = g.id
+            INNER JOIN roles r ON gr.role_id = r.id
+            WHERE gm.user_id = ?
+            ORDER BY g.name
+        `;
+
+        type RoleRow = {
+            id: string;
+            name: string;
+            description: string;
+            parentRoleId: string | null;
+            createdAt: string;
+        };
+        const [directResult, groupResult] = await Promise.all([
+            env.usersDB
+                .prepare(directQuery)
+                .bind(userId)
+                .all<RoleRow & { startsAt: string | null; expiresAt: string | null }>(),
+            env.usersDB
+                .prepare(groupQuery)
+                .bind(userId)
+                .all<RoleRow & { groupId: string; groupName: string }>()
+        ]);
         
-        const result = await env.usersDB
-            .prepare(query)
-            .bind(userId)
-            .all<{
-                id: string;
-                name: string;
-                description: string;
-                createdAt: string;
-            }>();
-        
-        if (!result.success) {
+        if (!directResult.success || !groupResult.success) {
             throw new Error('Failed to retrieve user roles');
         }
         
-        // Convert to Role objects with proper Date objects
-        return result.results.map(row => ({
+        // Convert to AssignedRole objects with proper Date objects (SQLite datetimes are UTC)
+        const roles = new Map<string, AssignedRole>();
+        const toAssignedRole = (row: RoleRow): AssignedRole => ({
             id: row.id,
             name: row.name,
             description: row.description,
-            createdAt: new Date(row.createdAt)
-        }));
+            parentRoleId: row.parentRoleId,
+            createdAt: new Date(row.createdAt),
+            startsAt: null,
+            expiresAt: null,
+            sources: []
+        });
+        for (const row of directResult.results) {
+            roles.set(row.id, {
+                ...toAssignedRole(row),
+                startsAt: row.startsAt ? new Date(`${row.startsAt.replace(' ', 'T')}Z`) : null,
+                expiresAt: row.expiresAt ? new Date(`${row.expiresAt.replace(' ', 'T')}Z`) : null,
+                sources: [{ type: 'direct' }]
+            });
+        }
+        for (const row of groupResult.results) {
+            const role = roles.get(row.id) ?? toAssignedRole(row);
+            role.sources.push({ type: 'group', groupId: row.groupId, groupName: row.groupName });
+            roles.set(row.id, role);
+        }
+
+        return [...roles.values()].sort((a, b) => a.name.localeCompare(b.name));
     } catch (error) {
         console.error('Error getting user roles:', error);
         throw new Error('Failed to retrieve user roles');
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Retrieves a permission by its ID.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param permissionId - The ID of the permission
+ * @returns A promise that resolves to the Permission, or null if it doesn't exist
+ */
+export async function getPermissionById(env: Env, permissionId: string): Promise<Permission | null> {
+    const row = await env.usersDB
+        .prepare('SELECT id, name, description, created_at as createdAt FROM permissions WHERE id = ?')
+        .bind(permissionId)
+        .first<{ id: string; name: string; description: string; createdAt: string }>();
+
+    if (!row) {
+        return null;
+    }
+
+    return {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        createdAt: new Date(row.createdAt)
+    };
+}
+
+/**
+ * Creates a new permission in the permissions table.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param name - The name of the permission (resource:action)
+ * @param description - Optional description for the permission
+ * @returns A promise that resolves to the created Permission object
+ * @throws Error with code DUPLICATE_PERMISSION_NAME if the name already exists
+ */
+export async function createPermission(env: Env, name: string, description?: string): Promise<Permission> {
+    try {
+        const permissionId = crypto.randomUUID();
+        const permissionDescription = description || '';
+
+        const result = await env.usersDB
+            .prepare(`
+                INSERT INTO permissions (id, name, description, created_at)
+                VALUES (?, ?, ?, datetime('now'))
+            `)
+            .bind(permissionId, name, permissionDescription)
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to create permission');
+        }
+
+        return {
+            id: permissionId,
+            name,
+            description: permissionDescription,
+            createdAt: new Date()
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage.includes('UNIQUE constraint')) {
+            console.error('Permission name already exists:', name);
+            throw new Error('DUPLICATE_PERMISSION_NAME');
+        }
+        console.error('Error creating permission:', error);
+        throw new Error('Failed to create permission');
+    }
+}
+
+/**
+ * Gets the IDs of all roles a permission is granted to.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param permissionId - The ID of the permission
+ * @returns A promise that resolves to the role IDs
+ */
+export async function getPermissionRoleIds(env: Env, permissionId: string): Promise<string[]> {
+    const result = await env.usersDB
+        .prepare('SELECT role_id FROM role_permissions WHERE permission_id = ?')
+        .bind(permissionId)
+        .all<{ role_id: string }>();
+
+    return result.results.map(row => row.role_id);
+}
+
+/**
+ * Gets the IDs of all users holding a role that grants a permission, directly or by inheritance.
+ * Includes users who hold the role through a group.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param permissionId - The ID of the permission
+ * @returns A promise that resolves to the user IDs
+ */
+async function getPermissionHolderIds(env: Env, permissionId: string): Promise<number[]> {
+    const result = await env.usersDB
+        .prepare(`
+            WITH RECURSIVE granting_roles(id) AS (
+                SELECT role_id FROM role_permissions WHERE permission_id = ?
+                UNION
+                SELECT r.id
+                FROM roles r
+                INNER JOIN granting_roles g ON r.parent_role_id = g.id
+            )
+            SELECT ur.user_id
+            FROM user_roles ur
+            INNER JOIN granting_roles g ON ur.role_id = g.id
+            UNION
+            SELECT gm.user_id
+            FROM group_members gm
+            INNER JOIN group_roles gr ON gm.group_id = gr.group_id
+            INNER JOIN granting_roles g ON gr.role_id = g.id
+        `)
+        .bind(permissionId)
+        .all<{ user_id: number }>();
+
+    return result.results.map(row => row.user_id);
+}
+
+/**
+ * Updates a permission's name and/or description.
+ * Renaming invalidates the cached permissions of everyone who holds it.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param permissionId - The ID of the permission to update
+ * @param updates - The fields to change; omitted fields are left as they are
+ * @returns A promise that resolves when the permission is updated
+ * @throws Error with code DUPLICATE_PERMISSION_NAME if the new name is taken
+ */
+export async function updatePermission(
+    env: Env,
+    permissionId: string,
+    updates: { name?: string; description?: string }
+): Promise<void> {
+    try {
+        const result = await env.usersDB
+            .prepare('UPDATE permissions SET name = COALESCE(?, name), description = COALESCE(?, description) WHERE id = ?')
+            .bind(updates.name ?? null, updates.description ?? null, permissionId)
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to update permission');
+        }
+
+        if (updates.name !== undefined) {
+            const holderIds = await getPermissionHolderIds(env, permissionId);
+            await Promise.all(holderIds.map(userId => invalidateCachedPermissions(env, userId)));
+        }
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage.includes('UNIQUE constraint')) {
+            console.error('Permission name already exists:', updates.name);
+            throw new Error('DUPLICATE_PERMISSION_NAME');
+        }
+        console.error('Error updating permission:', error);
+        throw new Error('Failed to update permission');
+    }
+}
+
+/**
+ * Deletes a permission, detaching it from every role that grants it.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param permissionId - The ID of the permission to delete
+ * @returns A promise that resolves when the permission is deleted
+ * @throws Error if the database operation fails
+ */
+export async function deletePermission(env: Env, permissionId: string): Promise<void> {
+    try {
+        // Collect holders before the grants disappear so their caches can be invalidated
+        const holderIds = await getPermissionHolderIds(env, permissionId);
+
+        await env.usersDB.batch([
+            env.usersDB.prepare('DELETE FROM role_permissions WHERE permission_id = ?').bind(permissionId),
+            env.usersDB.prepare('DELETE FROM permissions WHERE id = ?').bind(permissionId)
+        ]);
+
+        await Promise.all(holderIds.map(userId => invalidateCachedPermissions(env, userId)));
+    } catch (error) {
+        console.error('Error deleting permission:', error);
+        throw new Error('Failed to delete permission');
+    }
+}
@@ -0,0 +1,683 @@
+import { Env } from '../env';
+import { PERMISSIONS, POLICY_VERSION, ROLES } from '../constants/rbac';
+import { PolicyDiff, RbacPolicy } from '../types/rbac';
+import { invalidateCachedPermissions } from './cache';
+import { ACTIVE_ROLE_ASSIGNMENT, getRoleHolderIds } from './roles';
+
+/**
+ * Reads the current RBAC configuration as a policy document, ordered by name so exports diff cleanly.
+ * Assignments are the global roles assigned directly to each user, including ones that haven't started yet.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param includeAssignments - Whether to include user role assignments
+ * @returns A promise that resolves to the policy
+ * @throws Error if a database query fails
+ */
+export async function exportPolicy(env: Env, includeAssignments = false): Promise<RbacPolicy> {
+    const [permissionsResult, rolesResult, grantsResult] = await Promise.all([
+        env.usersDB
+            .prepare('SELECT name, description FROM permissions ORDER BY name')
+            .all<{ name: string; description: string | null }>(),
+        env.usersDB
+            .prepare(`
+                SELECT r.name, r.description, parent.name as parent
+                FROM roles r
+                LEFT JOIN roles parent ON r.parent_role_id = parent.id
+                ORDER BY r.name
+            `)
+            .all<{ name: string; description: string | null; parent: string | null }>(),
+        env.usersDB
+            .prepare(`
+                SELECT r.name as role, p.name as permission
+                FROM role_permissions rp
+                INNER JOIN roles r ON rp.role_id = r.id
+                INNER JOIN permissions p ON rp.permission_id = p.id
+                ORDER BY p.name
+            `)
+            .all<{ role: string; permission: string }>()
+    ]);
+
+    if (!permissionsResult.success || !rolesResult.success || !grantsResult.success) {
+        throw new Error('Failed to export RBAC policy');
+    }
+
+    const rolePermissions = groupByFirst(grantsResult.results.map(row => [row.role, row.permission]));
+    const policy: RbacPolicy = {
+        version: POLICY_VERSION,
+        permissions: permissionsResult.results.map(row => ({ name: row.name, description: row.description ?? '' })),
+        roles: rolesResult.results.map(row => ({
+            name: row.name,
+            description: row.description ?? '',
+            parent: row.parent,
+            permissions: rolePermissions.get(row.name) ?? []
+        }))
+    };
+
+    if (includeAssignments) {
+        const assignmentsResult = await env.usersDB
+            .prepare(`
+                SELECT u.Username as username, r.name as role
+                FROM user_roles ur
+                INNER JOIN User u ON ur.user_id = u.UserID
+                INNER JOIN roles r ON ur.role_id = r.id
+                WHERE ur.expires_at IS NULL OR ur.expires_at > datetime('now')
+                ORDER BY u.Username, r.name
+            `)
+            .all<{ username: string; role: string }>();
+
+        if (!assignmentsResult.success) {
+            throw new Error('Failed to export RBAC policy');
+        }
+
+        const userRoles = groupByFirst(assignmentsResult.results.map(row => [row.username, row.role]));
+        policy.assignments = [...userRoles].map(([username, roles]) => ({ username, roles }));
+    }
+
+    return policy;
+}
+
+/**
+ * Groups [key, value] pairs by key, keeping the order of first appearance.
+ */
+function groupByFirst(pairs: [string, string][]): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    for (const [key, value] of pairs) {
+        const values = groups.get(key) ?? [];
+        values.push(value);
+        groups.set(key, values);
+    }
+    return groups;
+}
+
+/**
+ * Permissions checked by this worker's own code, which importing a policy never deletes.
+ */
+function isSystemPermission(name: string): boolean {
+    return (Object.values(PERMISSIONS) as string[]).includes(name);
+}
+
+/**
+ * Built-in roles, which importing a policy never deletes.
+ */
+function isBuiltInRole(name: string): boolean {
+    return (Object.values(ROLES) as string[]).includes(name);
+}
+
+/**
+ * Computes the changes that turn the current configuration into the desired one.
+ *
+ * Permissions and roles are matched by name. Each role in the desired policy gets exactly the permissions and
+ * parent it lists; roles and permissions it doesn't mention are left alone unless `prune` is set, which deletes
+ * them (except built-in roles and permissions used by this worker). When the desired policy has assignments, each
+ * user listed gets exactly the roles listed for them; other users are left alone.
+ *
+ * @param current - The current configuration, with assignments if the desired policy has them
+ * @param desired - The policy to import
+ * @param options - Set `prune` to delete roles and permissions missing from the desired policy
+ * @returns The changes, by name
+ */
+export function diffPolicy(current: RbacPolicy, desired: RbacPolicy, options: { prune?: boolean } = {}): PolicyDiff {
+    const diff: PolicyDiff = {
+        permissions: { create: [], update: [], delete: [] },
+        roles: { create: [], update: [], delete: [] },
+        rolePermissions: { grant: [], revoke: [] },
+        assignments: { add: [], remove: [] }
+    };
+
+    const currentPermissions = new Map(current.permissions.map(permission => [permission.name, permission]));
+    const desiredPermissionNames = new Set(desired.permissions.map(permission => permission.name));
+    for (const permission of desired.permissions) {
+        const existing = currentPermissions.get(permission.name);
+        if (!existing) {
+            diff.permissions.create.push(permission);
+        } else if (existing.description !== permission.description) {
+            diff.permissions.update.push({
+                name: permission.name,
+                description: { from: existing.description, to: permission.description }
+            });
+        }
+    }
+    if (options.prune) {
+        diff.permissions.delete = current.permissions
+            .map(permission => permission.name)
+            .filter(name => !desiredPermissionNames.has(name) && !isSystemPermission(name));
+    }
+
+    const currentRoles = new Map(current.roles.map(role => [role.name, role]));
+    const desiredRoleNames = new Set(desired.roles.map(role => role.name));
+    for (const role of desired.roles) {
+        const existing = currentRoles.get(role.name);
+        if (!existing) {
+            diff.roles.create.push(role);
+        } else {
+            const changes: Record<string, { from: string | null; to: string | null }> = {};
+            if (existing.description !== role.description) {
+                changes.description = { from: existing.description, to: role.description };
+            }
+            if (existing.parent !== role.parent) {
+                changes.parent = { from: existing.parent, to: role.parent };
+            }
+            if (Object.keys(changes).length > 0) {
+                diff.roles.update.push({ name: role.name, changes });
+            }
+        }
+
+        const existingPermissions = new Set(existing?.permissions ?? []);
+        const permissions = new Set(role.permissions);
+        for (const permission of permissions) {
+            if (!existingPermissions.has(permission)) {
+                diff.rolePermissions.grant.push({ role: role.name, permission });
+            }
+        }
+        for (const permission of existingPermissions) {
+            if (!permissions.has(permission)) {
+                diff.rolePermissions.revoke.push({ role: role.name, permission });
+            }
+        }
+    }
+    if (options.prune) {
+        diff.roles.delete = current.roles
+            .map(role => role.name)
+            .filter(name => !desiredRoleNames.has(name) && !isBuiltInRole(name));
+    }
+
+    if (desired.assignments) {
+        const currentAssignments = new Map((current.assignments ?? []).map(assignment => [assignment.username, assignment.roles]));
+        for (const assignment of desired.assignments) {
+            const existingRoles = new Set(currentAssignments.get(assignment.username) ?? []);
+            const roles = new Set(assignment.roles);
+            for (const role of roles) {
+                if (!existingRoles.has(role)) {
+                    diff.assignments.add.push({ username: assignment.username, role });
+                }
+            }
+            for (const role of existingRoles) {
+                if (!roles.has(role)) {
+                    diff.assignments.remove.push({ username: assignment.username, role });
+                }
+            }
+        }
+    }
+
+    return diff;
+}
+
+/**
+ * Checks that a policy only references roles, permissions and users that will exist once it is imported,
+ * doesn't create a cycle in the role hierarchy and leaves SUPER_ADMIN's permissions unchanged. Users given new
+ * roles mustn't end up holding both roles of a constraint, counting the roles of their groups. Roles someone holds
+ * can't be given admin:all or made to inherit from a role requiring approval, since that grants it without approval.
+ *
+ * @returns A list of problems, empty if the policy can be imported
+ */
+function validatePolicyReferences(
+    current: RbacPolicy,
+    desired: RbacPolicy,
+    diff: PolicyDiff,
+    knownUsernames: Set<string>,
+    approvalRoles: Set<string>,
+    constraints: [string, string][],
+    groupRoles: Map<string, string[]>,
+    heldRoles: Set<string>
+): string[] {
+    const errors: string[] = [];
+    const deletedPermissions = new Set(diff.permissions.delete);
+    const deletedRoles = new Set(diff.roles.delete);
+
+    const finalPermissions = new Set([
+        ...current.permissions.map(permission => permission.name).filter(name => !deletedPermissions.has(name)),
+        ...desired.permissions.map(permission => permission.name)
+    ]);
+
+    // Parents after the import: as listed for roles in the policy, unchanged for the others that are kept
+    const finalParents = new Map<string, string | null>();
+    for (const role of current.roles) {
+        if (!deletedRoles.has(role.name)) {
+            finalParents.set(role.name, role.parent !== null && deletedRoles.has(role.parent) ? null : role.parent);
+        }
+    }
+    for (const role of desired.roles) {
+        finalParents.set(role.name, role.parent);
+    }
+
+    for (const role of desired.roles) {
+        for (const permission of role.permissions) {
+            if (!finalPermissions.has(permission)) {
+                errors.push(`Role ${role.name} grants unknown permission ${permission}`);
+            }
+        }
+        if (role.parent !== null && !finalParents.has(role.parent)) {
+            errors.push(`Role ${role.name} has unknown parent role ${role.parent}`);
+        }
+    }
+
+    for (const roleName of finalParents.keys()) {
+        const visited = new Set<string>([roleName]);
+        let ancestor = finalParents.get(roleName) ?? null;
+        while (ancestor !== null && !visited.has(ancestor)) {
+            visited.add(ancestor);
+            ancestor = finalParents.get(ancestor) ?? null;
+        }
+        if (ancestor === roleName) {
+            errors.push(`Role ${roleName} would inherit from itself`);
+        }
+    }
+
+    const superAdminChanged = [...diff.rolePermissions.grant, ...diff.rolePermissions.revoke]
+        .some(change => change.role === ROLES.SUPER_ADMIN);
+    if (superAdminChanged) {
+        errors.push(`${ROLES.SUPER_ADMIN} permissions cannot be modified`);
+    }
+
+    for (const assignment of desired.assignments ?? []) {
+        if (!knownUsernames.has(assignment.username)) {
+            errors.push(`Unknown user ${assignment.username}`);
+        }
+        for (const role of assignment.roles) {
+            if (!finalParents.has(role)) {
+                errors.push(`User ${assignment.username} is assigned unknown role ${role}`);
+            }
+        }
+    }
+
+    // Roles that require approval, directly or through a role they inherit from, are only granted by approving a request
+    for (const assignment of diff.assignments.add) {
+        const visited = new Set<string>();
+        let role: string | null = assignment.role;
+        while (role !== null && !visited.has(role)) {
+            if (approvalRoles.has(role) && !deletedRoles.has(role)) {
+                errors.push(`Role ${assignment.role} requires approval and cannot be assigned to ${assignment.username} by import`);
+                break;
+            }
+            visited.add(role);
+            role = finalParents.get(role) ?? null;
+        }
+    }
+
+    // Roles someone holds after the import, directly, through a group or on a resource, and the roles they inherit from
+    const heldAfter = new Set<string>();
+    for (const held of [...heldRoles, ...(desired.assignments ?? []).flatMap(assignment => assignment.roles)]) {
+        let role: string | null = held;
+        while (role !== null && !heldAfter.has(role) && finalParents.has(role)) {
+            heldAfter.add(role);
+            role = finalParents.get(role) ?? null;
+        }
+    }
+
+    const currentParents = new Map(current.roles.map(role => [role.name, role.parent]));
+    for (const update of diff.roles.update) {
+        if (!update.changes.parent || !heldAfter.has(update.name)) {
+            continue;
+        }
+        const inherited = new Set<string>();
+        let role = currentParents.get(update.name) ?? null;
+        while (role !== null && !inherited.has(role)) {
+            inherited.add(role);
+            role = currentParents.get(role) ?? null;
+        }
+        const visited = new Set<string>();
+        role = update.changes.parent.to;
+        while (role !== null && !visited.has(role)) {
+            if (approvalRoles.has(role) && !deletedRoles.has(role) && !inherited.has(role)) {
+                errors.push(`Role ${update.name} cannot inherit from ${role}, which requires approval, by import`);
+                break;
+            }
+            visited.add(role);
+            role = finalParents.get(role) ?? null;
+        }
+    }
+
+    for (const change of diff.rolePermissions.grant) {
+        if (change.permission === PERMISSIONS.ADMIN_ALL && change.role !== ROLES.SUPER_ADMIN && heldAfter.has(change.role)) {
+            errors.push(`Role ${change.role} is held and cannot be granted ${PERMISSIONS.ADMIN_ALL} by import`);
+        }
+    }
+
+    // Users who already hold conflicting roles are reported elsewhere; only refuse imports that give them new roles
+    const usersGivenRoles = new Set(diff.assignments.add.map(assignment => assignment.username));
+    for (const assignment of desired.assignments ?? []) {
+        if (!usersGivenRoles.has(assignment.username)) {
+            continue;
+        }
+        const held = new Set<string>();
+        for (const assigned of [...assignment.roles, ...(groupRoles.get(assignment.username) ?? [])]) {
+            let role: string | null = assigned;
+            while (role !== null && !held.has(role) && finalParents.has(role)) {
+                held.add(role);
+                role = finalParents.get(role) ?? null;
+            }
+        }
+        for (const [roleA, roleB] of constraints) {
+            if (held.has(roleA) && held.has(roleB)) {
+                errors.push(`User ${assignment.username} would hold conflicting roles ${roleA} and ${roleB}`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Works out who would hold admin:all once a valid policy is imported, from the final role hierarchy and permissions,
+ * the final direct assignments and the unchanged group assignments.
+ */
+async function getAdminHolderIdsAfterImport(
+    env: Env,
+    current: RbacPolicy,
+    desired: RbacPolicy,
+    diff: PolicyDiff,
+    userIds: Map<string, number>
+): Promise<number[]> {
+    const deletedRoles = new Set(diff.roles.delete);
+    const rolePermissions = new Map(current.roles.map(role => [role.name, role.permissions]));
+    const parents = new Map(current.roles.map(role => [role.name, role.parent]));
+    for (const role of desired.roles) {
+        rolePermissions.set(role.name, role.permissions);
+        parents.set(role.name, role.parent);
+    }
+
+    // Walk up the hierarchy, skipping deleted roles as their children are re-parented to their parents
+    const grantsAdmin = (roleName: string): boolean => {
+        let name: string | null = roleName;
+        const visited = new Set<string>();
+        while (name !== null && !visited.has(name)) {
+            visited.add(name);
+            if (!deletedRoles.has(name) && rolePermissions.get(name)?.includes(PERMISSIONS.ADMIN_ALL)) {
+                return true;
+            }
+            name = parents.get(name) ?? null;
+        }
+        return false;
+    };
+
+    const [directResult, groupResult] = await Promise.all([
+        env.usersDB
+            .prepare(`
+                SELECT ur.user_id as userId, u.Username as username, r.name as role
+                FROM user_roles ur
+                INNER JOIN User u ON ur.user_id = u.UserID
+                INNER JOIN roles r ON ur.role_id = r.id
+                WHERE ${ACTIVE_ROLE_ASSIGNMENT}
+            `)
+            .all<{ userId: number; username: string; role: string }>(),
+        env.usersDB
+            .prepare(`
+                SELECT gm.user_id as userId, r.name as role
+                FROM group_members gm
+                INNER JOIN group_roles gr ON gm.group_id = gr.group_id
+                INNER JOIN roles r ON gr.role_id = r.id
+            `)
+            .all<{ userId: number; role: string }>()
+    ]);
+
+    const listedRoles = new Map((desired.assignments ?? []).map(assignment => [assignment.username, new Set(assignment.roles)]));
+    const holders = new Set<number>();
+    for (const row of directResult.results) {
+        const roles = listedRoles.get(row.username);
+        if ((!roles || roles.has(row.role)) && !deletedRoles.has(row.role) && grantsAdmin(row.role)) {
+            holders.add(row.userId);
+        }
+    }
+    for (const change of diff.assignments.add) {
+        const userId = userIds.get(change.username);
+        if (userId !== undefined && grantsAdmin(change.role)) {
+            holders.add(userId);
+        }
+    }
+    for (const row of groupResult.results) {
+        if (!deletedRoles.has(row.role) && grantsAdmin(row.role)) {
+            holders.add(row.userId);
+        }
+    }
+
+    return [...holders].sort((a, b) => a - b);
+}
+
+/**
+ * Works out what importing a policy would change, without changing anything.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param desired - The policy to import, already checked for well-formed names and duplicates
+ * @param options - Set `prune` to delete roles and permissions missing from the policy
+ * @returns A promise that resolves to the changes and the IDs of the users who would hold admin:all afterwards,
+ *          or to the problems that prevent the import
+ * @throws Error if a database query fails
+ */
+export async function planPolicyImport(
+    env: Env,
+    desired: RbacPolicy,
+    options: { prune?: boolean } = {}
+): Promise<{ diff: PolicyDiff; adminHolderIds: number[] } | { errors: string[] }> {
+    const current = await exportPolicy(env, desired.assignments !== undefined);
+    const diff = diffPolicy(current, desired, options);
+
+    const userIds = new Map<string, number>();
+    for (const assignment of desired.assignments ?? []) {
+        const user = await env.usersDB
+            .prepare('SELECT UserID FROM User WHERE Username = ?')
+            .bind(assignment.username)
+            .first<{ UserID: number }>();
+        if (user) {
+            userIds.set(assignment.username, user.UserID);
+        }
+    }
+
+    const [approvalRoles, constraints, groupRoles, heldRoles] = await Promise.all([
+        env.usersDB
+            .prepare('SELECT name FROM roles WHERE requires_approval = 1')
+            .all<{ name: string }>(),
+        env.usersDB
+            .prepare(`
+                SELECT ra.name as roleA, rb.name as roleB
+                FROM role_constraints c
+                INNER JOIN roles ra ON c.role_a_id = ra.id
+                INNER JOIN roles rb ON c.role_b_id = rb.id
+            `)
+            .all<{ roleA: string; roleB: string }>(),
+        env.usersDB
+            .prepare(`
+                SELECT u.Username as username, r.name as role
+                FROM group_members gm
+                INNER JOIN User u ON gm.user_id = u.UserID
+                INNER JOIN group_roles gr ON gm.group_id = gr.group_id
+                INNER JOIN roles r ON gr.role_id = r.id
+            `)
+            .all<{ username: string; role: string }>(),
+        env.usersDB
+            .prepare(`
+                SELECT r.name
+                FROM roles r
+                WHERE EXISTS (
+                    SELECT 1 FROM user_roles ur
+                    WHERE ur.role_id = r.id AND (ur.expires_at IS NULL OR ur.expires_at > datetime('now'))
+                ) OR EXISTS (
+                    SELECT 1 FROM group_roles gr
+                    INNER JOIN group_members gm ON gr.group_id = gm.group_id
+                    WHERE gr.role_id = r.id
+                ) OR EXISTS (SELECT 1 FROM scoped_user_roles sr WHERE sr.role_id = r.id)
+            `)
+            .all<{ name: string }>()
+    ]);
+
+    const groupRolesByUser = new Map<string, string[]>();
+    for (const row of groupRoles.results) {
+        groupRolesByUser.set(row.username, [...(groupRolesByUser.get(row.username) ?? []), row.role]);
+    }
+
+    const errors = validatePolicyReferences(
+        current,
+        desired,
+        diff,
+        new Set(userIds.keys()),
+        new Set(approvalRoles.results.map(row => row.name)),
+        constraints.results.map(row => [row.roleA, row.roleB]),
+        groupRolesByUser,
+        new Set(heldRoles.results.map(row => row.name))
+    );
+    if (errors.length > 0) {
+        return { errors };
+    }
+
+    return { diff, adminHolderIds: await getAdminHolderIdsAfterImport(env, current, desired, diff, userIds) };
+}
+
+/**
+ * Whether a policy diff changes nothing.
+ */
+export function isEmptyPolicyDiff(diff: PolicyDiff): boolean {
+    return [
+        diff.permissions.create, diff.permissions.update, diff.permissions.delete,
+        diff.roles.create, diff.roles.update, diff.roles.delete,
+        diff.rolePermissions.grant, diff.rolePermissions.revoke,
+        diff.assignments.add, diff.assignments.remove
+    ].every(changes => changes.length === 0);
+}
+
+/**
+ * Applies a policy diff in a single D1 batch, so either every change is made or none is.
+ * Statements reference roles, permissions and users by name, which lets roles created in the batch be used
+ * as parents and granted permissions created in the same batch. Invalidates the cached permissions of every
+ * user whose permissions may have changed.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param diff - The changes to make, from planPolicyImport()
+ * @returns A promise that resolves to the number of users whose cached permissions were invalidated
+ * @throws Error if the database operation fails
+ */
+export async function applyPolicyDiff(env: Env, diff: PolicyDiff): Promise<number> {
+    try {
+        const db = env.usersDB;
+        const roleId = '(SELECT id FROM roles WHERE name = ?)';
+        const permissionId = '(SELECT id FROM permissions WHERE name = ?)';
+        const userId = '(SELECT UserID FROM User WHERE Username = ?)';
+
+        // Collect holders of every changed role before assignments disappear so their caches can be invalidated.
+        // Roles created by the import have no holders yet other than users whose assignments change.
+        const changedRoles = new Set<string>([
+            ...diff.roles.update.map(update => update.name),
+            ...diff.roles.delete,
+            ...diff.rolePermissions.grant.map(change => change.role),
+            ...diff.rolePermissions.revoke.map(change => change.role)
+        ]);
+        for (const permission of diff.permissions.delete) {
+            const granting = await db
+                .prepare(`
+                    SELECT r.name FROM role_permissions rp
+                    INNER JOIN roles r ON rp.role_id = r.id
+                    WHERE rp.permission_id = ${permissionId}
+                `)
+                .bind(permission)
+                .all<{ name: string }>();
+            granting.results.forEach(row => changedRoles.add(row.name));
+        }
+
+        const affectedUsers = new Set<number>();
+        for (const name of changedRoles) {
+            const role = await db.prepare('SELECT id FROM roles WHERE name = ?').bind(name).first<{ id: string }>();
+            if (role) {
+                (await getRoleHolderIds(env, role.id)).forEach(id => affectedUsers.add(id));
+            }
+        }
+        for (const change of [...diff.assignments.add, ...diff.assignments.remove]) {
+            const user = await db
+                .prepare('SELECT UserID FROM User WHERE Username = ?')
+                .bind(change.username)
+                .first<{ UserID: number }>();
+            if (user) {
+                affectedUsers.add(user.UserID);
+            }
+        }
+
+        const statements: D1PreparedStatement[] = [];
+        for (const permission of diff.permissions.create) {
+            statements.push(db
+                .prepare(`INSERT INTO permissions (id, name, description, created_at) VALUES (?, ?, ?, datetime('now'))`)
+                .bind(crypto.randomUUID(), permission.name, permission.description));
+        }
+        for (const update of diff.permissions.update) {
+            statements.push(db
+                .prepare('UPDATE permissions SET description = ? WHERE name = ?')
+                .bind(update.description.to, update.name));
+        }
+
+        // Create roles without parents first, then set parents, so a role can inherit from one created after it
+        for (const role of diff.roles.create) {
+            statements.push(db
+                .prepare(`INSERT INTO roles (id, name, description, created_at) VALUES (?, ?, ?, datetime('now'))`)
+                .bind(crypto.randomUUID(), role.name, role.description));
+        }
+        const parentUpdates: { name: string; parent: string | null }[] = [
+            ...diff.roles.create.filter(role => role.parent !== null),
+            ...diff.roles.update
+                .filter(update => update.changes.parent)
+                .map(update => ({ name: update.name, parent: update.changes.parent.to }))
+        ];
+        for (const update of parentUpdates) {
+            statements.push(db
+                .prepare(`UPDATE roles SET parent_role_id = ${roleId} WHERE name = ?`)
+                .bind(update.parent, update.name));
+        }
+        for (const update of diff.roles.update.filter(update => update.changes.description)) {
+            statements.push(db
+                .prepare('UPDATE roles SET description = ? WHERE name = ?')
+                .bind(update.changes.description.to, update.name));
+        }
+
+        for (const change of diff.rolePermissions.revoke) {
+            statements.push(db
+                .prepare(`DELETE FROM role_permissions WHERE role_id = ${roleId} AND permission_id = ${permissionId}`)
+                .bind(change.role, change.permission));
+        }
+        for (const change of diff.rolePermissions.grant) {
+            statements.push(db
+                .prepare(`
+                    INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+                    SELECT r.id, p.id FROM roles r, permissions p WHERE r.name = ? AND p.name = ?
+                `)
+                .bind(change.role, change.permission));
+        }
+
+        for (const change of diff.assignments.remove) {
+            statements.push(db
+                .prepare(`DELETE FROM user_roles WHERE user_id = ${userId} AND role_id = ${roleId}`)
+                .bind(change.username, change.role));
+        }
+        for (const change of diff.assignments.add) {
+            statements.push(db
+                .prepare(`
+                    INSERT OR IGNORE INTO user_roles (user_id, role_id, assigned_at)
+                    SELECT u.UserID, r.id, datetime('now') FROM User u, roles r WHERE u.Username = ? AND r.name = ?
+                `)
+                .bind(change.username, change.role));
+        }
+
+        // Deleted roles are removed the same way deleteRole() does, re-parenting their children
+        for (const name of diff.roles.delete) {
+            statements.push(
+                db.prepare(`UPDATE roles SET parent_role_id = (SELECT parent_role_id FROM roles WHERE name = ?) WHERE parent_role_id = ${roleId}`)
+                    .bind(name, name),
+                db.prepare(`DELETE FROM user_roles WHERE role_id = ${roleId}`).bind(name),
+                db.prepare(`DELETE FROM scoped_user_roles WHERE role_id = ${roleId}`).bind(name),
+                db.prepare(`DELETE FROM group_roles WHERE role_id = ${roleId}`).bind(name),
+                db.prepare(`DELETE FROM role_permissions WHERE role_id = ${roleId}`).bind(name),
+                db.prepare('DELETE FROM roles WHERE name = ?').bind(name)
+            );
+        }
+        for (const name of diff.permissions.delete) {
+            statements.push(
+                db.prepare(`DELETE FROM role_permissions WHERE permission_id = ${permissionId}`).bind(name),
+                db.prepare('DELETE FROM permissions WHERE name = ?').bind(name)
+            );
+        }
+
+        if (statements.length > 0) {
+            await db.batch(statements);
+        }
+
+        await Promise.all([...affectedUsers].map(id => invalidateCachedPermissions(env, id)));
+        return affectedUsers.size;
+    } catch (error) {
+        console.error('Error applying RBAC policy:', error);
+        throw new Error('Failed to apply RBAC policy');
+    }
+}
@@ -1,30 +1,60 @@
 import { Env } from '../env';
-import { Role } from '../types/rbac';
+import { Role, Permission, RoleAssignmentWindow } from '../types/rbac';
 import { invalidateCachedPermissions } from './cache';
+import { logRoleExpired } from './audit';
+import { findRoleConflict } from './constraints';
 
 /**
- * Assigns a role to a user. Uses INSERT OR IGNORE to prevent duplicate assignments.
+ * SQL condition matching user_roles rows (aliased `ur`) whose validity window includes the current time.
+ */
+export const ACTIVE_ROLE_ASSIGNMENT = `(ur.starts_at IS NULL OR ur.starts_at <= datetime('now'))
+            AND (ur.expires_at IS NULL OR ur.expires_at > datetime('now'))`;
+
+/**
+ * Assigns a role to a user, optionally only for a limited time.
+ * Assigning a role the user already holds keeps the original assignment date but replaces its validity window,
+ * so re-assigning without a window makes a temporary assignment permanent.
  * 
  * @param env - The environment configuration containing the database connection
  * @param userId - The ID of the user to assign the role to
  * @param roleId - The ID of the role to assign
+ * @param window - Optional start and expiry times of the assignment
  * @returns A promise that resolves when the role is assigned
- * @throws Error if the database operation fails
+ * @throws Error with code ROLE_CONFLICT if the user holds a role that is mutually exclusive with it,
+ *   or if the database operation fails
  */
-export async function assignRole(env: Env, userId: number, roleId: string): Promise<void> {
+export async function assignRole(
+    env: Env,
+    userId: number,
+    roleId: string,
+    window: RoleAssignmentWindow = {}
+): Promise<void> {
+    if (await findRoleConflict(env, roleId, { userId })) {
+        throw new Error('ROLE_CONFLICT');
+    }
+
     try {
         // Invalidate cache BEFORE DB write to prevent race condition where
         // a concurrent request reads old data and re-caches it
         await invalidateCachedPermissions(env, userId);
 
+        // datetime() normalises ISO timestamps to SQLite's format so they compare correctly with datetime('now')
         const query = `
-            INSERT OR IGNORE INTO user_roles (user_id, role_id, assigned_at)
-            VALUES (?, ?, datetime('now'))
+            INSERT INTO user_roles (user_id, role_id, assigned_at, starts_at, expires_at)
+            VALUES (?, ?, datetime('now'), datetime(?), datetime(?))
+            ON CONFLICT (user_id, role_id) DO UPDATE SET
+                starts_at = excluded.starts_at,
+                expires_at = excluded.expires_at
         `;
 
         const result = await env.usersDB
             .prepare(query)
-            .bind(userId, roleId)
+            .bind(
+                userId,
+                roleId,
+                window.startsAt?.toISOString() ?? null,
+                window.expiresAt?.toISOString() ?? null
+            )
             .run();
 
         if (!result.success) {
@@ -76,23 +106,31 @@ export async function removeRole(env: Env, userId: number, roleId: string): Prom
  * @param env - The environment configuration containing the database connection
  * @param name - The name of the role to create
  * @param description - Optional description for the role
+ * @param parentRoleId - Optional ID of a role whose permissions the new role inherits
+ * @param requiresApproval - Whether assigning the role needs a second administrator's approval
  * @returns A promise that resolves to the created Role object
  * @throws Error if the role name already exists or if the database operation fails
  */
-export async function createRole(env: Env, name: string, description?: string): Promise<Role> {
+export async function createRole(
+    env: Env,
+    name: string,
+    description?: string,
+    parentRoleId?: string,
+    requiresApproval = false
+): Promise<Role> {
     try {
         // Generate a unique ID for the role
         const roleId = crypto.randomUUID();
         const roleDescription = description || '';
         
         const query = `
-            INSERT INTO roles (id, name, description, created_at)
-            VALUES (?, ?, ?, datetime('now'))
+            INSERT INTO roles (id, name, description, parent_role_id, requires_approval, created_at)
+            VALUES (?, ?, ?, ?, ?, datetime('now'))
         `;
         
         const result = await env.usersDB
             .prepare(query)
-            .bind(roleId, name, roleDescription)
+            .bind(roleId, name, roleDescription, parentRoleId ?? null, requiresApproval ? 1 : 0)
             .run();
         
         if (!result.success) {
@@ -104,6 +142,8 @@ export async function createRole(env: Env, name: string, description?: string):
             id: roleId,
             name: name,
             description: roleDescription,
+            parentRoleId: parentRoleId ?? null,
+            requiresApproval,
             createdAt: new Date()
         };
     } catch (error: unknown) {
@@ -119,6 +159,486 @@ export async function createRole(env: Env, name: string, description?: string):
     }
 }
 
+/**
+ * Retrieves a role by its ID.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role
+ * @returns A promise that resolves to the Role, or null if it doesn't exist
+ */
+export async function getRoleById(env: Env, roleId: string): Promise<Role | null> {
+    const row = await env.usersDB
+        .prepare(`
+            SELECT id, name, description, parent_role_id as parentRoleId, requires_approval as requiresApproval,
+                   created_at as createdAt
+            FROM roles WHERE id = ?
+        `)
+        .bind(roleId)
+        .first<{
+            id: string;
+            name: string;
+            description: string;
+            parentRoleId: string | null;
+            requiresApproval: number;
+            createdAt: string;
+        }>();
+
+    if (!row) {
+        return null;
+    }
+
+    return {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        parentRoleId: row.parentRoleId,
+        requiresApproval: row.requiresApproval === 1,
+        createdAt: new Date(row.createdAt)
+    };
+}
+
+/**
+ * Gets the IDs of a role and every role that inherits from it, directly or indirectly.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role
+ * @returns A promise that resolves to the role ID followed by its descendants' IDs
+ */
+export async function getRoleDescendantIds(env: Env, roleId: string): Promise<string[]> {
+    const result = await env.usersDB
+        .prepare(`
+            WITH RECURSIVE descendants(id) AS (
+                SELECT ?
+                UNION
+                SELECT r.id
+                FROM roles r
+                INNER JOIN descendants d ON r.parent_role_id = d.id
+            )
+            SELECT id FROM descendants
+        `)
+        .bind(roleId)
+        .all<{ id: string }>();
+
+    return result.results.map(row => row.id);
+}
+
+/**
+ * Sets or clears the parent of a role. The role then inherits every permission of the parent and its ancestors.
+ * Invalidates the cached permissions of everyone holding the role or a role that inherits from it.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role to update
+ * @param parentRoleId - The ID of the new parent role, or null to stop inheriting
+ * @returns A promise that resolves when the parent is updated
+ * @throws Error with code ROLE_HIERARCHY_CYCLE if the parent is the role itself or one of its descendants
+ */
+export async function setRoleParent(env: Env, roleId: string, parentRoleId: string | null): Promise<void> {
+    if (parentRoleId !== null) {
+        const descendantIds = await getRoleDescendantIds(env, roleId);
+        if (descendantIds.includes(parentRoleId)) {
+            throw new Error('ROLE_HIERARCHY_CYCLE');
+        }
+    }
+
+    try {
+        const result = await env.usersDB
+            .prepare('UPDATE roles SET parent_role_id = ? WHERE id = ?')
+            .bind(parentRoleId, roleId)
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to update role parent');
+        }
+
+        await invalidateRoleMembersPermissions(env, roleId);
+    } catch (error) {
+        console.error('Error updating role parent:', error);
+        throw new Error('Failed to update role parent');
+    }
+}
+
+/**
+ * Updates a role's name, description and/or whether assigning it requires approval.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role to update
+ * @param updates - The fields to change; omitted fields are left as they are
+ * @returns A promise that resolves when the role is updated
+ * @throws Error with code DUPLICATE_ROLE_NAME if the new name is taken
+ */
+export async function updateRole(
+    env: Env,
+    roleId: string,
+    updates: { name?: string; description?: string; requiresApproval?: boolean }
+): Promise<void> {
+    try {
+        const result = await env.usersDB
+            .prepare(`
+                UPDATE roles
+                SET name = COALESCE(?, name),
+                    description = COALESCE(?, description),
+                    requires_approval = COALESCE(?, requires_approval)
+                WHERE id = ?
+            `)
+            .bind(
+                updates.name ?? null,
+                updates.description ?? null,
+                updates.requiresApproval === undefined ? null : (updates.requiresApproval ? 1 : 0),
+                roleId
+            )
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to update role');
+        }
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage.includes('UNIQUE constraint')) {
+            console.error('Role name already exists:', updates.name);
+            throw new Error('DUPLICATE_ROLE_NAME');
+        }
+        console.error('Error updating role:', error);
+        throw new Error('Failed to update role');
+    }
+}
+
+/**
+ * Gets the IDs of all users holding a role.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role
+ * @returns A promise that resolves to the user IDs
+ */
+export async function getRoleUserIds(env: Env, roleId: string): Promise<number[]> {
+    const result = await env.usersDB
+        .prepare('SELECT user_id FROM user_roles WHERE role_id = ?')
+        .bind(roleId)
+        .all<{ user_id: number }>();
+
+    return result.results.map(row => row.user_id);
+}
+
+/**
+ * Gets the IDs of all users holding a role or any role that inherits from it, directly or through a group.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role
+ * @returns A promise that resolves to the user IDs
+ */
+export async function getRoleHolderIds(env: Env, roleId: string): Promise<number[]> {
+    const result = await env.usersDB
+        .prepare(`
+            WITH RECURSIVE descendants(id) AS (
+                SELECT ?
+                UNION
+                SELECT r.id
+                FROM roles r
+                INNER JOIN descendants d ON r.parent_role_id = d.id
+            )
+            SELECT ur.user_id
+            FROM user_roles ur
+            INNER JOIN descendants d ON ur.role_id = d.id
+            UNION
+            SELECT gm.user_id
+            FROM group_members gm
+            INNER JOIN group_roles gr ON gm.group_id = gr.group_id
+            INNER JOIN descendants d ON gr.role_id = d.id
+        `)
+        .bind(roleId)
+        .all<{ user_id: number }>();
+
+    return result.results.map(row => row.user_id);
+}
+
+/**
+ * Invalidates the cached permissions of every user holding a role or a role that inherits from it.
+ * Must be called whenever the role's permissions change.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role
+ * @returns A promise that resolves to the number of affected users
+ */
+export async function invalidateRoleMembersPermissions(env: Env, roleId: string): Promise<number> {
+    const userIds = await getRoleHolderIds(env, roleId);
+    await Promise.all(userIds.map(userId => invalidateCachedPermissions(env, userId)));
+    return userIds.length;
+}
+
+/**
+ * Deletes a role along with its user assignments (global, scoped and through groups) and permission grants.
+ * Roles that inherited from it are re-parented to its parent, so they keep the rest of their inherited permissions.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role to delete
+ * @returns A promise that resolves to the number of users who held the role or a role inheriting from it
+ * @throws Error if the database operation fails
+ */
+export async function deleteRole(env: Env, roleId: string): Promise<number> {
+    try {
+        // Collect holders before the assignments disappear so their caches can be invalidated
+        const userIds = await getRoleHolderIds(env, roleId);
+
+        await env.usersDB.batch([
+            env.usersDB
+                .prepare('UPDATE roles SET parent_role_id = (SELECT parent_role_id FROM roles WHERE id = ?) WHERE parent_role_id = ?')
+                .bind(roleId, roleId),
+            env.usersDB.prepare('DELETE FROM user_roles WHERE role_id = ?').bind(roleId),
+            env.usersDB.prepare('DELETE FROM scoped_user_roles WHERE role_id = ?').bind(roleId),
+            env.usersDB.prepare('DELETE FROM group_roles WHERE role_id = ?').bind(roleId),
+            env.usersDB.prepare('DELETE FROM role_permissions WHERE role_id = ?').bind(roleId),
+            env.usersDB.prepare('DELETE FROM roles WHERE id = ?').bind(roleId)
+        ]);
+
+        await Promise.all(userIds.map(userId => invalidateCachedPermissions(env, userId)));
+        return userIds.length;
+    } catch (error) {
+        console.error('Error deleting role:', error);
+        throw new Error('Failed to delete role');
+    }
+}
+
+/**
+ * Retrieves the permissions granted to a role.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role
+ * @returns A promise that resolves to the role's permissions, ordered by name
+ * @throws Error if the database query fails
+ */
+export async function getRolePermissions(env: Env, roleId: string): Promise<Permission[]> {
+    try {
+        const result = await env.usersDB
+            .prepare(`
+                SELECT p.id, p.name, p.description, p.created_at as createdAt
+                FROM role_permissions rp
+                INNER JOIN permissions p ON rp.permission_id = p.id
+                WHERE rp.role_id = ?
+                ORDER BY p.name
+            `)
+            .bind(roleId)
+            .all<{ id: string; name: string; description: string; createdAt: string }>();
+
+        if (!result.success) {
+            throw new Error('Failed to retrieve role permissions');
+        }
+
+        return result.results.map(row => ({
+            id: row.id,
+            name: row.name,
+            description: row.description,
+            createdAt: new Date(row.createdAt)
+        }));
+    } catch (error) {
+        console.error('Error getting role permissions:', error);
+        throw new Error('Failed to retrieve role permissions');
+    }
+}
+
+/**
+ * Retrieves the permissions a role inherits from its ancestors but isn't granted directly.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role
+ * @returns A promise that resolves to the inherited permissions, ordered by name
+ * @throws Error if the database query fails
+ */
+export async function getInheritedRolePermissions(env: Env, roleId: string): Promise<Permission[]> {
+    try {
+        const result = await env.usersDB
+            .prepare(`
+                WITH RECURSIVE ancestors(id) AS (
+                    SELECT parent_role_id FROM roles WHERE id = ? AND parent_role_id IS NOT NULL
+                    UNION
+                    SELECT r.parent_role_id
+                    FROM roles r
+                    INNER JOIN ancestors a ON r.id = a.id
+                    WHERE r.parent_role_id IS NOT NULL
+                )
+                SELECT DISTINCT p.id, p.name, p.description, p.created_at as createdAt
+                FROM ancestors a
+                INNER JOIN role_permissions rp ON rp.role_id = a.id
+                INNER JOIN permissions p ON rp.permission_id = p.id
+                WHERE p.id NOT IN (SELECT permission_id FROM role_permissions WHERE role_id = ?)
+                ORDER BY p.name
+            `)
+            .bind(roleId, roleId)
+            .all<{ id: string; name: string; description: string; createdAt: string }>();
+
+        if (!result.success) {
+            throw new Error('Failed to retrieve inherited role permissions');
+        }
+
+        return result.results.map(row => ({
+            id: row.id,
+            name: row.name,
+            description: row.description,
+            createdAt: new Date(row.createdAt)
+        }));
+    } catch (error) {
+        console.error('Error getting inherited role permissions:', error);
+        throw new Error('Failed to retrieve inherited role permissions');
+    }
+}
+
+/**
+ * Retrieves the names of the permissions granted directly to each role and inherited from its ancestors.
+ * Used by role listings, so it reads the whole (small) roles and grants tables in two queries.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @returns A promise that resolves to a map from role ID to its direct and inherited permission names
+ * @throws Error if the database query fails
+ */
+export async function getAllRolePermissionNames(
+    env: Env
+): Promise<Map<string, { permissions: string[]; inheritedPermissions: string[] }>> {
+    const [rolesResult, grantsResult] = await Promise.all([
+        env.usersDB
+            .prepare('SELECT id, parent_role_id as parentRoleId FROM roles')
+            .all<{ id: string; parentRoleId: string | null }>(),
+        env.usersDB
+            .prepare(`
+                SELECT rp.role_id as roleId, p.name
+                FROM role_permissions rp
+                INNER JOIN permissions p ON rp.permission_id = p.id
+                ORDER BY p.name
+            `)
+            .all<{ roleId: string; name: string }>()
+    ]);
+
+    if (!rolesResult.success || !grantsResult.success) {
+        throw new Error('Failed to retrieve role permissions');
+    }
+
+    const parents = new Map(rolesResult.results.map(row => [row.id, row.parentRoleId]));
+    const direct = new Map<string, string[]>();
+    for (const row of grantsResult.results) {
+        const names = direct.get(row.roleId) ?? [];
+        names.push(row.name);
+        direct.set(row.roleId, names);
+    }
+
+    const summary = new Map<string, { permissions: string[]; inheritedPermissions: string[] }>();
+    for (const roleId of parents.keys()) {
+        const permissions = direct.get(roleId) ?? [];
+        const inherited = new Set<string>();
+        // Track visited roles so corrupt data with a cycle can't loop forever
+        const visited = new Set<string>([roleId]);
+        let ancestorId = parents.get(roleId) ?? null;
+        while (ancestorId !== null && !visited.has(ancestorId)) {
+            visited.add(ancestorId);
+            for (const name of direct.get(ancestorId) ?? []) {
+                if (!permissions.includes(name)) {
+                    inherited.add(name);
+                }
+            }
+            ancestorId = parents.get(ancestorId) ?? null;
+        }
+        summary.set(roleId, { permissions, inheritedPermissions: [...inherited].sort() });
+    }
+
+    return summary;
+}
+
+/**
+ * Grants a permission to a role and invalidates the cached permissions of the role's users.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role
+ * @param permissionId - The ID of the permission to grant
+ * @returns A promise that resolves to true if the permission was granted, false if the role already had it
+ * @throws Error if the database operation fails
+ */
+export async function grantPermissionToRole(env: Env, roleId: string, permissionId: string): Promise<boolean> {
+    try {
+        const result = await env.usersDB
+            .prepare('INSERT OR IGNORE INTO role_permissions (role_id, permission_id) VALUES (?, ?)')
+            .bind(roleId, permissionId)
+            .run();
+
+        const granted = (result.meta?.changes ?? 0) > 0;
+        if (granted) {
+            await invalidateRoleMembersPermissions(env, roleId);
+        }
+        return granted;
+    } catch (error) {
+        console.error('Error granting permission to role:', error);
+        throw new Error('Failed to grant permission to role');
+    }
+}
+
+/**
+ * Revokes a permission from a role and invalidates the cached permissions of the role's users.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param roleId - The ID of the role
+ * @param permissionId - The ID of the permission to revoke
+ * @returns A promise that resolves to true if the permission was revoked, false if the role didn't have it
+ * @throws Error if the database operation fails
+ */
+export async function revokePermissionFromRole(env: Env, roleId: string, permissionId: string): Promise<boolean> {
+    try {
+        const result = await env.usersDB
+            .prepare('DELETE FROM role_permissions WHERE role_id = ? AND permission_id = ?')
+            .bind(roleId, permissionId)
+            .run();
+
+        const revoked = (result.meta?.changes ?? 0) > 0;
+        if (revoked) {
+            await invalidateRoleMembersPermissions(env, roleId);
+        }
+        return revoked;
+    } catch (error) {
+        console.error('Error revoking permission from role:', error);
+        throw new Error('Failed to revoke permission from role');
+    }
+}
+
+/**
+ * Removes every role assignment whose expiry has passed, invalidates the affected users' cached permissions
+ * and records a ROLE_REMOVED audit entry with reason "expired" for each. Run by the worker's cron trigger.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @returns A promise that resolves to the number of assignments removed
+ * @throws Error if the database operation fails
+ */
+export async function removeExpiredRoleAssignments(env: Env): Promise<number> {
+    const result = await env.usersDB
+        .prepare(`
+            SELECT ur.user_id as userId, u.Username as username, ur.role_id as roleId, r.name as roleName,
+                   ur.expires_at as expiresAt
+            FROM user_roles ur
+            INNER JOIN roles r ON ur.role_id = r.id
+            LEFT JOIN User u ON ur.user_id = u.UserID
+            WHERE ur.expires_at IS NOT NULL AND ur.expires_at <= datetime('now')
+        `)
+        .all<{ userId: number; username: string | null; roleId: string; roleName: string; expiresAt: string }>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve expired role assignments');
+    }
+
+    const expired = result.results;
+    if (expired.length === 0) {
+        return 0;
+    }
+
+    // Match the expiry too, so an assignment renewed since the SELECT is left alone
+    await env.usersDB.batch(expired.map(row =>
+        env.usersDB
+            .prepare('DELETE FROM user_roles WHERE user_id = ? AND role_id = ? AND expires_at = ?')
+            .bind(row.userId, row.roleId, row.expiresAt)
+    ));
+
+    const userIds = [...new Set(expired.map(row => row.userId))];
+    await Promise.all(userIds.map(userId => invalidateCachedPermissions(env, userId)));
+
+    for (const row of expired) {
+        await logRoleExpired(env, row.userId, row.username ?? '', row.roleId, row.roleName, row.expiresAt);
+    }
+
+    return expired.length;
+}
+
 /**
  * Gets the ID of the MEMBER role for new user registration.
  * 
@@ -0,0 +1,178 @@
+import { Env } from '../env';
+import { ResourceScope, ScopedRole, SessionData } from '../types/rbac';
+import { findRoleConflict } from './constraints';
+import { createPermissionMatcher, getSessionUserId } from './permissions';
+
+/**
+ * Assigns a role to a user on a single resource. Uses INSERT OR IGNORE to prevent duplicate assignments.
+ * Scoped assignments only apply to permission checks made for that resource; they never grant global permissions.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user to assign the role to
+ * @param roleId - The ID of the role to assign
+ * @param scope - The resource the role applies to
+ * @returns A promise that resolves when the role is assigned
+ * @throws Error with code ROLE_CONFLICT if the user holds a role that is mutually exclusive with it, globally or on
+ *   the same resource, or if the database operation fails
+ */
+export async function assignScopedRole(env: Env, userId: number, roleId: string, scope: ResourceScope): Promise<void> {
+    if (await findRoleConflict(env, roleId, { userId, scope })) {
+        throw new Error('ROLE_CONFLICT');
+    }
+
+    try {
+        const result = await env.usersDB
+            .prepare(`
+                INSERT OR IGNORE INTO scoped_user_roles (user_id, role_id, scope_type, scope_id, assigned_at)
+                VALUES (?, ?, ?, ?, datetime('now'))
+            `)
+            .bind(userId, roleId, scope.type, scope.id)
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to assign scoped role to user');
+        }
+    } catch (error) {
+        console.error('Error assigning scoped role:', error);
+        throw new Error('Failed to assign scoped role to user');
+    }
+}
+
+/**
+ * Removes a role assignment on a single resource. Returns successfully even if it wasn't assigned (idempotent).
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user to remove the role from
+ * @param roleId - The ID of the role to remove
+ * @param scope - The resource the role applied to
+ * @returns A promise that resolves when the role is removed
+ * @throws Error if the database operation fails
+ */
+export async function removeScopedRole(env: Env, userId: number, roleId: string, scope: ResourceScope): Promise<void> {
+    try {
+        const result = await env.usersDB
+            .prepare('DELETE FROM scoped_user_roles WHERE user_id = ? AND role_id = ? AND scope_type = ? AND scope_id = ?')
+            .bind(userId, roleId, scope.type, scope.id)
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to remove scoped role from user');
+        }
+    } catch (error) {
+        console.error('Error removing scoped role:', error);
+        throw new Error('Failed to remove scoped role from user');
+    }
+}
+
+/**
+ * Retrieves all of a user's scoped role assignments.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user whose scoped roles to retrieve
+ * @returns A promise that resolves to the scoped roles, ordered by scope and role name
+ * @throws Error if the database query fails
+ */
+export async function getUserScopedRoles(env: Env, userId: number): Promise<ScopedRole[]> {
+    try {
+        const result = await env.usersDB
+            .prepare(`
+                SELECT r.id, r.name, r.description, r.parent_role_id as parentRoleId, r.created_at as createdAt,
+                       sur.scope_type as scopeType, sur.scope_id as scopeId, sur.assigned_at as assignedAt
+                FROM scoped_user_roles sur
+                INNER JOIN roles r ON sur.role_id = r.id
+                WHERE sur.user_id = ?
+                ORDER BY sur.scope_type, sur.scope_id, r.name
+            `)
+            .bind(userId)
+            .all<{
+                id: string;
+                name: string;
+                description: string;
+                parentRoleId: string | null;
+                createdAt: string;
+                scopeType: string;
+                scopeId: string;
+                assignedAt: string;
+            }>();
+
+        if (!result.success) {
+            throw new Error('Failed to retrieve scoped roles');
+        }
+
+        return result.results.map(row => ({
+            id: row.id,
+            name: row.name,
+            description: row.description,
+            parentRoleId: row.parentRoleId,
+            createdAt: new Date(row.createdAt),
+            scopeType: row.scopeType,
+            scopeId: row.scopeId,
+            assignedAt: new Date(row.assignedAt)
+        }));
+    } catch (error) {
+        console.error('Error getting scoped roles:', error);
+        throw new Error('Failed to retrieve scoped roles');
+    }
+}
+
+/**
+ * Retrieves the permissions a user holds on a single resource through scoped role assignments,
+ * including permissions inherited from parent roles. Global permissions are not included.
+ * Unlike global permissions these aren't cached, so changes apply immediately.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ * @param scope - The resource to check
+ * @returns A promise that resolves to the permission names granted on the resource
+ * @throws Error if the database query fails
+ */
+export async function getUserScopedPermissions(env: Env, userId: number, scope: ResourceScope): Promise<string[]> {
+    const result = await env.usersDB
+        .prepare(`
+            WITH RECURSIVE scoped_role_tree(role_id) AS (
+                SELECT role_id FROM scoped_user_roles WHERE user_id = ? AND scope_type = ? AND scope_id = ?
+                UNION
+                SELECT r.parent_role_id
+                FROM roles r
+                INNER JOIN scoped_role_tree t ON r.id = t.role_id
+                WHERE r.parent_role_id IS NOT NULL
+            )
+            SELECT DISTINCT p.name
+            FROM scoped_role_tree t
+            INNER JOIN role_permissions rp ON t.role_id = rp.role_id
+            INNER JOIN permissions p ON rp.permission_id = p.id
+        `)
+        .bind(userId, scope.type, scope.id)
+        .all<{ name: string }>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve scoped permissions');
+    }
+
+    return result.results.map(row => row.name);
+}
+
+/**
+ * Checks whether a session's user holds a permission on a resource through a scoped role assignment.
+ * Callers check global permissions first; this only consults scoped assignments.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param sessionData - The session whose user to check
+ * @param permission - The permission name to check for
+ * @param scope - The resource the permission is needed on
+ * @returns A promise that resolves to true if a scoped role grants the permission
+ * @throws Error if the database query fails
+ */
+export async function hasScopedPermission(
+    env: Env,
+    sessionData: SessionData,
+    permission: string,
+    scope: ResourceScope
+): Promise<boolean> {
+    const userId = await getSessionUserId(env, sessionData);
+    if (userId === null) {
+        return false;
+    }
+    const permissions = await getUserScopedPermissions(env, userId, scope);
+    return createPermissionMatcher(permissions).matches(permission);
+}
@@ -0,0 +1,61 @@
+/**
+ * Cron trigger handler for periodic maintenance.
+ * Configured with `[triggers] crons` in wrangler.toml.
+ */
+
+import { Env, getAuditCheckpointConfig, getRbacEnabled } from './env';
+import { removeExpiredRoleAssignments, expireRoleGrantRequests, createAuditCheckpoint } from './rbac';
+
+/**
+ * Signs a checkpoint of the audit log hash chain when AUDIT_CHECKPOINT_SECRET is set and the interval has passed.
+ * Then removes expired time-bound role assignments and expires role approval requests that weren't decided in time
+ * (when RBAC is enabled). Permission checks already ignore expired assignments and expired requests can't be
+ * approved; this cleans them up, invalidates the affected users' cached permissions and records the changes
+ * in the audit log.
+ *
+ * @param controller - The scheduled event
+ * @param env - The environment configuration
+ * @param ctx - The execution context, used to keep the cleanup running after the handler returns
+ */
+export async function handleScheduled(
+    controller: ScheduledController,
+    env: Env,
+    ctx: ExecutionContext
+): Promise<void> {
+    const checkpointConfig = getAuditCheckpointConfig(env);
+    if (checkpointConfig) {
+        ctx.waitUntil(
+            createAuditCheckpoint(env, checkpointConfig.secret, checkpointConfig.intervalSeconds)
+                .then(checkpoint => {
+                    if (checkpoint) {
+                        console.log(`Signed audit log checkpoint at entry ${checkpoint.sequence} (cron: ${controller.cron})`);
+                    }
+                })
+                .catch(error => console.error('Error creating audit log checkpoint:', error))
+        );
+    }
+
+    if (!getRbacEnabled(env)) {
+        return;
+    }
+
+    ctx.waitUntil(
+        removeExpiredRoleAssignments(env)
+            .then(removed => {
+                if (removed > 0) {
+                    console.log(`Removed ${removed} expired role assignment(s) (cron: ${controller.cron})`);
+                }
+            })
+            .catch(error => console.error('Error removing expired role assignments:', error))
+    );
+
+    ctx.waitUntil(
+        expireRoleGrantRequests(env)
+            .then(expired => {
+                if (expired > 0) {
+                    console.log(`Expired ${expired} role grant request(s) (cron: ${controller.cron})`);
+                }
+            })
+            .catch(error => console.error('Error expiring role grant requests:', error))
+    );
+}
@@ -1,10 +1,20 @@
 // session.ts
-import { Env, getRbacEnabled } from './env';
-import { getUserPermissions } from './rbac';
+import { Env, getRbacEnabled, getSessionPolicy, getIpLoggingEnabled } from './env';
+import { getUserPermissions, getIpAddressFromRequest } from './rbac';
 import { SessionData } from './types/rbac';
+import { UserSessionInfo } from './types/session';
 
-export async function createSession(env: Env, user: any): Promise<string> {
+/**
+ * Creates a session for a user.
+ *
+ * @param env - The environment configuration
+ * @param user - The user row to create the session for
+ * @param request - The login request, used to record the client's user agent (and IP address when
+ *   LOG_IP_ADDRESS is enabled) in the user's session index
+ */
+export async function createSession(env: Env, user: any, request?: Request): Promise<string> {
     const sessionData: SessionData = {
+        userId: user.UserID,
         username: user.Username,
         firstName: user.FirstName,
         lastName: user.LastName,
@@ -21,7 +31,24 @@ export async function createSession(env: Env, user: any): Promise<string> {
         }
     }
 
-    const sessionCreationRequest = new Request("https://session-state.d1.compact.workers.dev/create", {
+    // The session service enforces the idle and absolute timeouts
+    const { idleTimeoutSeconds, absoluteTimeoutSeconds } = getSessionPolicy(env);
+    const params = new URLSearchParams({
+        idleTimeout: idleTimeoutSeconds.toString(),
+        absoluteTimeout: absoluteTimeoutSeconds.toString(),
+        userId: String(user.UserID),
+    });
+    const userAgent = request?.headers.get('User-Agent');
+    if (userAgent) {
+        params.set('userAgent', userAgent);
+    }
+    const ip = request && getIpLoggingEnabled(env) ? getIpAddressFromRequest(request) : null;
+    if (ip) {
+        params.set('ip', ip);
+    }
+
+    const createSessionUrl = `https://session-state.d1.compact.workers.dev/create?${params}`;
+    const sessionCreationRequest = new Request(createSessionUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(sessionData),
@@ -46,3 +73,58 @@ export async function loadSession(env: Env, sessionId: string): Promise<any> {
     }
     return null;
 }
+
+/**
+ * Merges fields into an existing session's data.
+ *
+ * @param env - The environment configuration
+ * @param sessionId - The session to update
+ * @param data - The fields to set
+ */
+export async function updateSessionData(env: Env, sessionId: string, data: Partial<SessionData>): Promise<void> {
+    const updateUrl = `https://session-state.d1.compact.workers.dev/add/${sessionId}`;
+    const updateResponse = await env.sessionService.fetch(new Request(updateUrl, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+    }));
+    if (!updateResponse.ok) {
+        throw new Error(`Failed to update session: ${updateResponse.status}`);
+    }
+}
+
+/**
+ * Lists a user's active sessions, most recently used first.
+ *
+ * @param env - The environment configuration
+ * @param userId - The ID of the user
+ */
+export async function listUserSessions(env: Env, userId: number): Promise<UserSessionInfo[]> {
+    const listUrl = `https://session-state.d1.compact.workers.dev/user/${userId}/sessions`;
+    const listResponse = await env.sessionService.fetch(new Request(listUrl));
+    if (!listResponse.ok) {
+        throw new Error(`Failed to list sessions: ${listResponse.status}`);
+    }
+    return await listResponse.json() as UserSessionInfo[];
+}
+
+/**
+ * Revokes all of a user's sessions.
+ *
+ * @param env - The environment configuration
+ * @param userId - The ID of the user
+ * @param exceptSessionId - Optional session to keep, usually the caller's current session
+ * @returns The number of sessions revoked
+ */
+export async function revokeUserSessions(env: Env, userId: number, exceptSessionId?: string): Promise<number> {
+    let revokeUrl = `https://session-state.d1.compact.workers.dev/user/${userId}/sessions`;
+    if (exceptSessionId) {
+        revokeUrl += `?except=${encodeURIComponent(exceptSessionId)}`;
+    }
+    const revokeResponse = await env.sessionService.fetch(new Request(revokeUrl, { method: 'DELETE' }));
+    if (!revokeResponse.ok) {
+        throw new Error(`Failed to revoke sessions: ${revokeResponse.status}`);
+    }
+    const { deleted } = await revokeResponse.json() as { deleted: number };
+    return deleted;
+}
@@ -0,0 +1,208 @@
+/**
+ * Brute-force protection for password logins.
+ *
+ * Failed attempts are counted per account (username) and per client IP in KV
+ * via the session-state worker's cache routes. Once a counter reaches its limit,
+ * further attempts are refused for a lockout period that doubles with every
+ * additional failure, up to a configurable maximum.
+ *
+ * KV is eventually consistent and has no atomic increment, so concurrent
+ * attempts may occasionally be under-counted; the limits are a deterrent
+ * against credential stuffing rather than an exact quota.
+ */
+
+import { Env, getLoginThrottlePolicy } from './env';
+import {
+    LoginThrottlePolicy,
+    ThrottleScope,
+    ThrottleRecord,
+    ThrottleCheckResult,
+    ThrottleFailureResult
+} from './types/throttle';
+
+/** KV requires a TTL of at least 60 seconds */
+const MIN_KV_TTL_SECONDS = 60;
+
+/**
+ * Normalizes a username so case variations share one failure counter.
+ */
+function normalizeUsername(username: string): string {
+    return username.trim().toLowerCase();
+}
+
+function getThrottleCacheUrl(scope: ThrottleScope, key: string): string {
+    return `https://session-service/cache/${encodeURIComponent(`throttle:${scope}:${key}`)}`;
+}
+
+/**
+ * Returns the client IP used for per-IP throttling.
+ * Only the Cloudflare-provided header is trusted; X-Forwarded-For can be set by the client.
+ */
+export function getThrottleIp(request: Request): string | null {
+    return request.headers.get('CF-Connecting-IP');
+}
+
+/**
+ * Calculates how long to lock a counter after a failure.
+ *
+ * @param failures - Total failures including the one just recorded
+ * @param maxFailures - Failures allowed before the first lockout
+ * @param policy - The throttle policy
+ * @returns The lockout in seconds, or 0 if the limit has not been reached
+ */
+export function computeLockoutSeconds(failures: number, maxFailures: number, policy: LoginThrottlePolicy): number {
+    if (failures < maxFailures) {
+        return 0;
+    }
+    // Cap the exponent so large failure counts can't overflow
+    const exponent = Math.min(failures - maxFailures, 30);
+    return Math.min(policy.baseLockoutSeconds * 2 ** exponent, policy.maxLockoutSeconds);
+}
+
+async function getRecord(env: Env, scope: ThrottleScope, key: string, policy: LoginThrottlePolicy): Promise<ThrottleRecord | null> {
+    const response = await env.sessionService.fetch(new Request(getThrottleCacheUrl(scope, key), { method: 'GET' }));
+    if (!response.ok) {
+        return null;
+    }
+    const record = await response.json() as ThrottleRecord;
+    // KV expiry is approximate, so enforce the window here as well
+    const now = Date.now();
+    const locked = record.lockedUntil !== null && record.lockedUntil > now;
+    if (!locked && now - record.lastFailureAt > policy.failureWindowSeconds * 1000) {
+        return null;
+    }
+    return record;
+}
+
+async function putRecord(env: Env, scope: ThrottleScope, key: string, record: ThrottleRecord, policy: LoginThrottlePolicy): Promise<void> {
+    const lockRemaining = record.lockedUntil ? Math.ceil((record.lockedUntil - Date.now()) / 1000) : 0;
+    const ttl = Math.max(policy.failureWindowSeconds, lockRemaining, MIN_KV_TTL_SECONDS);
+    const response = await env.sessionService.fetch(
+        new Request(getThrottleCacheUrl(scope, key), {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ data: record, ttl }),
+        })
+    );
+    if (!response.ok) {
+        throw new Error(`Failed to store throttle record (status ${response.status})`);
+    }
+}
+
+async function deleteRecord(env: Env, scope: ThrottleScope, key: string): Promise<void> {
+    const response = await env.sessionService.fetch(new Request(getThrottleCacheUrl(scope, key), { method: 'DELETE' }));
+    if (!response.ok) {
+        throw new Error(`Failed to delete throttle record (status ${response.status})`);
+    }
+}
+
+/**
+ * Lists the counters that apply to a login attempt.
+ */
+function getTargets(username: string, ip: string | null, policy: LoginThrottlePolicy): { scope: ThrottleScope; key: string; maxFailures: number }[] {
+    const targets: { scope: ThrottleScope; key: string; maxFailures: number }[] = [
+        { scope: 'user', key: normalizeUsername(username), maxFailures: policy.maxFailuresPerUser },
+    ];
+    if (ip) {
+        targets.push({ scope: 'ip', key: ip, maxFailures: policy.maxFailuresPerIp });
+    }
+    return targets;
+}
+
+/**
+ * Checks whether a login attempt for an account from an IP may proceed.
+ * Fails open if the throttle store is unavailable so an outage doesn't block all logins.
+ *
+ * @param env - The environment configuration
+ * @param username - The username being logged into
+ * @param ip - The client IP, or null if unknown
+ */
+export async function checkLoginThrottle(env: Env, username: string, ip: string | null): Promise<ThrottleCheckResult> {
+    const policy = getLoginThrottlePolicy(env);
+    try {
+        const now = Date.now();
+        let result: ThrottleCheckResult = { allowed: true, retryAfterSeconds: 0 };
+        for (const target of getTargets(username, ip, policy)) {
+            const record = await getRecord(env, target.scope, target.key, policy);
+            if (record?.lockedUntil && record.lockedUntil > now) {
+                const retryAfterSeconds = Math.ceil((record.lockedUntil - now) / 1000);
+                if (retryAfterSeconds > result.retryAfterSeconds) {
+                    result = { allowed: false, retryAfterSeconds, scope: target.scope };
+                }
+            }
+        }
+        return result;
+    } catch (error) {
+        console.error('Error checking login throttle:', error);
+        return { allowed: true, retryAfterSeconds: 0 };
+    }
+}
+
+/**
+ * Records a failed login attempt against the account and the client IP.
+ * Unknown usernames are counted too, so lockout behaviour doesn't reveal which accounts exist.
+ *
+ * @param env - The environment configuration
+ * @param username - The username that failed to log in
+ * @param ip - The client IP, or null if unknown
+ * @returns Any lockouts started by this failure and how long the caller must wait
+ */
+export async function recordLoginFailure(env: Env, username: string, ip: string | null): Promise<ThrottleFailureResult> {
+    const policy = getLoginThrottlePolicy(env);
+    const result: ThrottleFailureResult = { lockouts: [], retryAfterSeconds: 0 };
+    try {
+        const now = Date.now();
+        for (const target of getTargets(username, ip, policy)) {
+            const existing = await getRecord(env, target.scope, target.key, policy);
+            const failures = (existing?.failures ?? 0) + 1;
+            const lockoutSeconds = computeLockoutSeconds(failures, target.maxFailures, policy);
+            const lockedUntil = lockoutSeconds > 0 ? now + lockoutSeconds * 1000 : null;
+
+            await putRecord(env, target.scope, target.key, { failures, lastFailureAt: now, lockedUntil }, policy);
+
+            if (lockoutSeconds > 0) {
+                result.lockouts.push({ scope: target.scope, failures, lockoutSeconds });
+                result.retryAfterSeconds = Math.max(result.retryAfterSeconds, lockoutSeconds);
+            }
+        }
+    } catch (error) {
+        console.error('Error recording login failure:', error);
+    }
+    return result;
+}
+
+/**
+ * Clears the failure counter for an account after a successful login.
+ * The IP counter is left alone so logging into one account can't reset an attack on others.
+ *
+ * @param env - The environment configuration
+ * @param username - The username that logged in
+ */
+export async function clearLoginFailures(env: Env, username: string): Promise<void> {
+    try {
+        await deleteRecord(env, 'user', normalizeUsername(username));
+    } catch (error) {
+        console.error('Error clearing login failures:', error);
+    }
+}
+
+/**
+ * Returns the current lockout state of an account.
+ *
+ * @param env - The environment configuration
+ * @param username - The username to check
+ * @returns The stored record, or null if the account has no recent failures
+ */
+export async function getAccountLockout(env: Env, username: string): Promise<ThrottleRecord | null> {
+    return getRecord(env, 'user', normalizeUsername(username), getLoginThrottlePolicy(env));
+}
+
+/**
+ * Removes an account lockout and resets its failure counter (administrative unlock).
+ *
+ * @param env - The environment configuration
+ * @param username - The username to unlock
+ */
+export async function unlockAccount(env: Env, username: string): Promise<void> {
+    await deleteRecord(env, 'user', normalizeUsername(username));
+}
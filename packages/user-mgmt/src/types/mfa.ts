@@ -0,0 +1,30 @@
+/**
+ * TOTP factor state for a user
+ */
+export interface TotpFactor {
+    userId: number;
+    secret: string;
+    enabled: boolean;
+    lastCounter: number | null;
+    confirmedAt: Date | null;
+    createdAt: Date;
+}
+
+/**
+ * MFA status summary returned to the client (never includes secrets)
+ */
+export interface MfaStatus {
+    totpEnabled: boolean;
+    totpPending: boolean;
+    backupCodesRemaining: number;
+}
+
+/**
+ * Data stored in KV for a login that has passed the password step but still
+ * needs a second factor
+ */
+export interface MfaPendingLogin {
+    userId: number;
+    username: string;
+    createdAt: number;
+}
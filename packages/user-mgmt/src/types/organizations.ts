@@ -0,0 +1,36 @@
+/**
+ * An organization (tenant workspace). Members hold roles within it through scoped role assignments.
+ */
+export interface Organization {
+    id: string;
+    name: string;
+    /** The user who created the organization; null if that account was deleted */
+    createdBy: number | null;
+    createdAt: Date;
+}
+
+/**
+ * A member of an organization and the roles they hold within it
+ */
+export interface OrganizationMember {
+    userId: number;
+    username: string;
+    firstName: string;
+    lastName: string;
+    joinedAt: Date;
+    roles: { id: string; name: string }[];
+}
+
+/**
+ * An invitation to join an organization with a role. The token itself is never stored.
+ */
+export interface OrganizationInvitation {
+    id: string;
+    orgId: string;
+    email: string;
+    roleId: string;
+    invitedBy: number | null;
+    createdAt: Date;
+    expiresAt: Date;
+    acceptedAt: Date | null;
+}
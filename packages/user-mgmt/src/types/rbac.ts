@@ -5,6 +5,10 @@ export interface Role {
     id: string;
     name: string;
     description: string;
+    /** Role whose permissions this role inherits, if any */
+    parentRoleId?: string | null;
+    /** Whether assigning the role to a user needs a second administrator's approval */
+    requiresApproval?: boolean;
     createdAt: Date;
 }
 
@@ -18,6 +22,256 @@ export interface Permission {
     createdAt: Date;
 }
 
+/**
+ * How a user holds a role: assigned to them directly, or through membership of a group
+ */
+export type RoleGrantSource =
+    | { type: 'direct' }
+    | { type: 'group'; groupId: string; groupName: string };
+
+/**
+ * A role as assigned to a user, with the assignment's optional validity window
+ */
+export interface AssignedRole extends Role {
+    /** When the direct assignment takes effect; null if it took effect when assigned or the role is only held through groups */
+    startsAt: Date | null;
+    /** When the direct assignment lapses; null if it never does or the role is only held through groups */
+    expiresAt: Date | null;
+    /** Every way the user holds the role */
+    sources: RoleGrantSource[];
+}
+
+/**
+ * A named set of users. Roles assigned to a group apply to all of its members.
+ */
+export interface Group {
+    id: string;
+    name: string;
+    description: string;
+    createdAt: Date;
+}
+
+/**
+ * A member of a group
+ */
+export interface GroupMember {
+    userId: number;
+    username: string;
+    addedAt: Date;
+}
+
+/**
+ * One way a user is granted a permission: a role they hold, directly or through a group, has the permission
+ * itself or inherits it from an ancestor role
+ */
+export interface PermissionGrant {
+    /** The granted permission name, which may be a wildcard pattern or admin:all */
+    permission: string;
+    /** The role the permission is granted to */
+    role: { id: string; name: string };
+    /** The role the user holds; the same as `role` unless the permission is inherited from an ancestor */
+    assignedRole: { id: string; name: string };
+    /** How the user holds `assignedRole` */
+    source: RoleGrantSource;
+}
+
+/**
+ * Why a user has or lacks a permission:
+ * - ADMIN_ALL: granted because the user has admin:all, which grants every permission
+ * - GRANTED: granted by one or more of the user's roles
+ * - NO_ROLES: missing because the user holds no roles currently in effect
+ * - NOT_GRANTED: missing because none of the user's roles grant it
+ */
+export type PermissionExplanationReason = 'ADMIN_ALL' | 'GRANTED' | 'NO_ROLES' | 'NOT_GRANTED';
+
+/**
+ * Explanation of whether a user has a permission, resolved the same way permission checks are
+ */
+export interface PermissionExplanation {
+    permission: string;
+    granted: boolean;
+    reason: PermissionExplanationReason;
+    /** The grants that match the permission, including admin:all and wildcard grants */
+    grants: PermissionGrant[];
+    /** The user's effective permissions, as used by permission checks */
+    permissions: string[];
+    /** The roles the user holds that are currently in effect */
+    roles: AssignedRole[];
+}
+
+/**
+ * A permission in an RBAC policy document
+ */
+export interface PolicyPermission {
+    name: string;
+    description: string;
+}
+
+/**
+ * A role in an RBAC policy document. Parent roles and permissions are referenced by name.
+ */
+export interface PolicyRole {
+    name: string;
+    description: string;
+    parent: string | null;
+    /** The permissions granted to the role itself, not those it inherits */
+    permissions: string[];
+}
+
+/**
+ * The roles assigned directly and globally to one user in an RBAC policy document
+ */
+export interface PolicyAssignment {
+    username: string;
+    roles: string[];
+}
+
+/**
+ * A portable description of the RBAC configuration. Everything is referenced by name rather than ID so the
+ * same document can be applied to different environments.
+ */
+export interface RbacPolicy {
+    version: number;
+    permissions: PolicyPermission[];
+    roles: PolicyRole[];
+    /** Only present when user assignments are exported or should be imported */
+    assignments?: PolicyAssignment[];
+}
+
+/**
+ * The changes importing an RBAC policy makes, by name
+ */
+export interface PolicyDiff {
+    permissions: {
+        create: PolicyPermission[];
+        update: { name: string; description: { from: string; to: string } }[];
+        delete: string[];
+    };
+    roles: {
+        create: PolicyRole[];
+        update: { name: string; changes: Record<string, { from: string | null; to: string | null }> }[];
+        delete: string[];
+    };
+    rolePermissions: {
+        grant: { role: string; permission: string }[];
+        revoke: { role: string; permission: string }[];
+    };
+    assignments: {
+        add: { username: string; role: string }[];
+        remove: { username: string; role: string }[];
+    };
+}
+
+/**
+ * A change that may take admin:all away from users, used to find who would still hold it afterwards.
+ * Each field describes one kind of change; fields that aren't set don't apply.
+ */
+export interface AdminAccessChange {
+    /** Removing a global role assigned directly to a user */
+    removeUserRole?: { userId: number; roleId: string };
+    /** Deleting a role, which re-parents the roles inheriting from it */
+    deleteRole?: string;
+    /** Revoking admin:all from a role */
+    revokeAdminFromRole?: string;
+    /** Changing the role a role inherits from; null for none */
+    reparentRole?: { roleId: string; parentRoleId: string | null };
+    deleteUser?: number;
+    removeGroupMember?: { groupId: string; userId: number };
+    removeGroupRole?: { groupId: string; roleId: string };
+    deleteGroup?: string;
+}
+
+/**
+ * Optional validity window for a role assignment
+ */
+export interface RoleAssignmentWindow {
+    startsAt?: Date;
+    expiresAt?: Date;
+}
+
+/**
+ * Identifies a single resource that a role can be granted on, e.g. `{ type: 'project', id: '42' }`
+ */
+export interface ResourceScope {
+    type: string;
+    id: string;
+}
+
+/**
+ * The state of a request for a role that requires approval. Pending requests that aren't decided in time expire.
+ */
+export type RoleGrantRequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'EXPIRED' | 'CANCELLED';
+
+/**
+ * A request to assign a role that requires approval, kept after it is decided as a record of who asked and who decided
+ */
+export interface RoleGrantRequest {
+    id: string;
+    userId: number;
+    username: string;
+    roleId: string;
+    roleName: string;
+    /** The resource the role is requested on; null for a global assignment */
+    scope: ResourceScope | null;
+    /** The validity window of the requested assignment */
+    startsAt: Date | null;
+    expiresAt: Date | null;
+    status: RoleGrantRequestStatus;
+    /** The user who made the request; null if that account was deleted */
+    requestedBy: number | null;
+    requestedAt: Date;
+    /** When the request expires if it is still pending */
+    requestExpiresAt: Date;
+    decidedBy: number | null;
+    decidedAt: Date | null;
+    /** The approver's or rejecter's note, if any */
+    note: string | null;
+}
+
+/**
+ * Two mutually exclusive roles (separation of duties). No user may hold both, directly, through a group or through
+ * a role inheriting from either.
+ */
+export interface RoleConstraint {
+    id: string;
+    /** The two roles, in ID order */
+    roles: [{ id: string; name: string }, { id: string; name: string }];
+    description: string;
+    /** The user who added the constraint; null if that account was deleted */
+    createdBy: number | null;
+    createdAt: Date;
+}
+
+/**
+ * Why granting a role to a user would break a role constraint
+ */
+export interface RoleConflict {
+    constraintId: string;
+    userId: number;
+    /** The constrained role being granted: the requested role or one it inherits from */
+    role: { id: string; name: string };
+    /** The constrained role the user already holds, directly, through a group or through a role inheriting from it */
+    conflictingRole: { id: string; name: string };
+}
+
+/**
+ * A user who holds both roles of a constraint
+ */
+export interface RoleConstraintViolation {
+    constraintId: string;
+    userId: number;
+    username: string;
+}
+
+/**
+ * A role assigned to a user on one resource rather than globally
+ */
+export interface ScopedRole extends Role {
+    scopeType: string;
+    scopeId: string;
+    assignedAt: Date;
+}
+
 /**
  * Represents the association between a user and a role
  */
@@ -31,11 +285,15 @@ export interface UserRole {
  * Enhanced session data that includes RBAC permissions and roles
  */
 export interface SessionData {
+    /** Missing from sessions created before the per-user session index existed */
+    userId?: number;
     username: string;
     firstName: string;
     lastName: string;
     permissions?: string[];
     roles?: Role[];
+    /** Organization that org-aware permission checks apply to when the route doesn't name one */
+    activeOrgId?: string;
 }
 
 /**
@@ -47,18 +305,57 @@ export type AuditAction =
     | 'ROLE_CREATED'
     | 'ROLE_UPDATED'
     | 'ROLE_DELETED'
+    | 'ROLE_PERMISSION_GRANTED'
+    | 'ROLE_PERMISSION_REVOKED'
     | 'PERMISSION_CREATED'
+    | 'PERMISSION_UPDATED'
     | 'PERMISSION_DELETED'
     | 'BOOTSTRAP_SUPER_ADMIN'
     | 'LOGIN_SUCCESS'
     | 'LOGIN_FAILURE'
     | 'LOGOUT'
-    | 'AUTHORIZATION_DENIED';
+    | 'AUTHORIZATION_DENIED'
+    | 'MFA_ENROLLMENT_STARTED'
+    | 'MFA_ENABLED'
+    | 'MFA_DISABLED'
+    | 'MFA_VERIFIED'
+    | 'MFA_VERIFICATION_FAILED'
+    | 'MFA_BACKUP_CODE_USED'
+    | 'MFA_BACKUP_CODES_REGENERATED'
+    | 'PASSKEY_REGISTERED'
+    | 'PASSKEY_RENAMED'
+    | 'PASSKEY_DELETED'
+    | 'ACCOUNT_LOCKED'
+    | 'ACCOUNT_UNLOCKED'
+    | 'EMAIL_VERIFICATION_SENT'
+    | 'EMAIL_VERIFIED'
+    | 'SESSION_REVOKED'
+    | 'SESSIONS_REVOKED'
+    | 'ORG_CREATED'
+    | 'ORG_MEMBER_ADDED'
+    | 'ORG_MEMBER_REMOVED'
+    | 'ORG_INVITATION_CREATED'
+    | 'GROUP_CREATED'
+    | 'GROUP_DELETED'
+    | 'GROUP_MEMBER_ADDED'
+    | 'GROUP_MEMBER_REMOVED'
+    | 'GROUP_ROLE_ASSIGNED'
+    | 'GROUP_ROLE_REMOVED'
+    | 'POLICY_IMPORTED'
+    | 'USER_DELETED'
+    | 'ROLE_GRANT_REQUESTED'
+    | 'ROLE_GRANT_APPROVED'
+    | 'ROLE_GRANT_REJECTED'
+    | 'ROLE_GRANT_EXPIRED'
+    | 'ROLE_GRANT_CANCELLED'
+    | 'ROLE_CONSTRAINT_CREATED'
+    | 'ROLE_CONSTRAINT_DELETED'
+    | 'AUDIT_LOGS_EXPORTED';
 
 /**
  * Target types for audit log entries
  */
-export type AuditTargetType = 'USER' | 'ROLE' | 'PERMISSION' | 'SYSTEM';
+export type AuditTargetType = 'USER' | 'ROLE' | 'PERMISSION' | 'GROUP' | 'ORGANIZATION' | 'SYSTEM';
 
 /**
  * Represents an entry in the audit log
@@ -75,6 +372,45 @@ export interface AuditLogEntry {
     details: string | null;
     ipAddress: string | null;
     success: boolean;
+    /** Position in the hash chain; null for entries written before the chain was introduced */
+    sequence: number | null;
+    /** Hash of the previous entry in the chain; null for the first entry */
+    previousHash: string | null;
+    /** SHA-256 of this entry's content and the previous hash, hex encoded */
+    hash: string | null;
+}
+
+/**
+ * A signed record of the audit log hash chain's head at a point in time
+ */
+export interface AuditCheckpoint {
+    id: string;
+    sequence: number;
+    hash: string;
+    signature: string;
+    createdAt: Date;
+}
+
+/**
+ * Why the audit log hash chain failed verification
+ */
+export type AuditChainBreakReason =
+    | 'MISSING_ENTRY'
+    | 'PREVIOUS_HASH_MISMATCH'
+    | 'HASH_MISMATCH'
+    | 'CHECKPOINT_MISMATCH'
+    | 'INVALID_CHECKPOINT_SIGNATURE';
+
+/**
+ * Result of walking the audit log hash chain. `brokenLink` is the first problem found, null if the chain is intact.
+ */
+export interface AuditChainVerification {
+    valid: boolean;
+    entriesChecked: number;
+    checkpointsChecked: number;
+    firstSequence: number | null;
+    lastSequence: number | null;
+    brokenLink: { sequence: number; entryId: string | null; reason: AuditChainBreakReason } | null;
 }
 
 /**
@@ -0,0 +1,17 @@
+/**
+ * An active session as reported by the session service's per-user index.
+ * Timestamps are epoch milliseconds.
+ */
+export interface UserSessionInfo {
+    sessionId: string;
+    /** User-Agent header of the client that logged in */
+    userAgent?: string;
+    /** Client IP address at login (only recorded when LOG_IP_ADDRESS is enabled) */
+    ip?: string;
+    createdAt: number;
+    lastSeenAt: number;
+    /** When the session ends if it stays idle */
+    expiresAt: number;
+    /** When the session ends regardless of activity */
+    absoluteExpiresAt: number;
+}
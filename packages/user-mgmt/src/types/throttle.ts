@@ -0,0 +1,50 @@
+/**
+ * Limits applied to failed login attempts
+ */
+export interface LoginThrottlePolicy {
+    /** Failures per account before the account is locked */
+    maxFailuresPerUser: number;
+    /** Failures per client IP before the IP is locked */
+    maxFailuresPerIp: number;
+    /** Length of the first lockout in seconds; doubles with every further failure */
+    baseLockoutSeconds: number;
+    /** Upper bound for a single lockout in seconds */
+    maxLockoutSeconds: number;
+    /** Failures older than this many seconds are forgotten */
+    failureWindowSeconds: number;
+}
+
+/**
+ * What a throttle record counts failures for
+ */
+export type ThrottleScope = 'user' | 'ip';
+
+/**
+ * Failure counter stored in KV for one account or IP
+ */
+export interface ThrottleRecord {
+    failures: number;
+    lastFailureAt: number;
+    lockedUntil: number | null;
+}
+
+/**
+ * Outcome of checking whether a login attempt may proceed
+ */
+export interface ThrottleCheckResult {
+    allowed: boolean;
+    /** Seconds until the next attempt is allowed (0 when allowed) */
+    retryAfterSeconds: number;
+    /** Which counter caused the block */
+    scope?: ThrottleScope;
+}
+
+/**
+ * Outcome of recording a failed login attempt
+ */
+export interface ThrottleFailureResult {
+    /** Lockouts that started with this failure */
+    lockouts: { scope: ThrottleScope; failures: number; lockoutSeconds: number }[];
+    /** Seconds until the next attempt is allowed (0 when not locked) */
+    retryAfterSeconds: number;
+}
@@ -0,0 +1,39 @@
+/**
+ * A registered WebAuthn credential (passkey)
+ */
+export interface WebAuthnCredential {
+    id: string;
+    userId: number;
+    publicKey: string;
+    algorithm: number;
+    signCount: number;
+    transports: string[];
+    name: string;
+    createdAt: Date;
+    lastUsedAt: Date | null;
+}
+
+/**
+ * Credential details safe to return to the client (no key material)
+ */
+export interface WebAuthnCredentialSummary {
+    id: string;
+    name: string;
+    transports: string[];
+    createdAt: Date;
+    lastUsedAt: Date | null;
+}
+
+/**
+ * Ceremony a challenge was issued for
+ */
+export type WebAuthnCeremony = 'registration' | 'authentication';
+
+/**
+ * Data stored in KV alongside an outstanding challenge
+ */
+export interface WebAuthnChallengeRecord {
+    ceremony: WebAuthnCeremony;
+    userId?: number;
+    createdAt: number;
+}
@@ -1,5 +1,5 @@
 // utils.ts
-import { Env } from './env';
+import { Env, getSessionPolicy } from './env';
 
 export function getSessionIdFromCookies(request: Request): string | null {
     const cookieHeader = request.headers.get('Cookie');
@@ -13,6 +13,14 @@ export function getSessionIdFromCookies(request: Request): string | null {
     return null;
 }
 
+/**
+ * Builds the Set-Cookie header value for a newly created session.
+ * The cookie lives as long as the session's absolute lifetime; the session service enforces the idle timeout.
+ */
+export function createSessionCookie(env: Env, sessionId: string): string {
+    return `cfw_session=${sessionId}; Secure; Path=/; SameSite=None; Max-Age=${getSessionPolicy(env).absoluteTimeoutSeconds}`;
+}
+
 // Additional utility functions for database operations
 export async function checkUserExists(env: Env, username: string): Promise<boolean> {
     const checkUserQuery = 'SELECT Username FROM User WHERE Username = ?';
@@ -39,6 +47,11 @@ export async function getUser(env: Env, username: string): Promise<any> {
     return result.length > 0 ? result[0] : null;
 }
 
+export async function getUserById(env: Env, userId: number): Promise<any> {
+    const query = 'SELECT * FROM User WHERE UserID = ?1';
+    return await env.usersDB.prepare(query).bind(userId).first();
+}
+
 export async function storeResetToken(env: Env, username: string, resetToken: string): Promise<void> {
     const updateQuery = 'UPDATE User SET ResetToken = ?, ResetTokenTime = ? WHERE Username = ?';
     await env.usersDB.prepare(updateQuery).bind(resetToken, Date.now(), username).run();
@@ -55,6 +68,40 @@ export async function updatePassword(env: Env, username: string, hashedPassword:
     await env.usersDB.prepare(updateQuery).bind(hashedPassword, username).run();
 }
 
+export async function updatePasswordHash(env: Env, userId: number, hashedPassword: string): Promise<void> {
+    const updateQuery = 'UPDATE User SET Password = ? WHERE UserID = ?';
+    await env.usersDB.prepare(updateQuery).bind(hashedPassword, userId).run();
+}
+
+export async function markEmailVerified(env: Env, userId: number): Promise<void> {
+    const updateQuery = "UPDATE User SET EmailVerified = 1, EmailVerifiedAt = datetime('now') WHERE UserID = ? AND EmailVerified = 0";
+    await env.usersDB.prepare(updateQuery).bind(userId).run();
+}
+
+/**
+ * Deletes a user with their role assignments, role requests they would receive, group and organization memberships,
+ * MFA settings and passkeys. Audit log entries are kept, and organizations, invitations, role constraints and other
+ * users' role requests they created or decided are kept without them. Cancel their pending role requests first.
+ */
+export async function deleteUser(env: Env, userId: number): Promise<void> {
+    await env.usersDB.batch([
+        env.usersDB.prepare('DELETE FROM user_roles WHERE user_id = ?').bind(userId),
+        env.usersDB.prepare('DELETE FROM scoped_user_roles WHERE user_id = ?').bind(userId),
+        env.usersDB.prepare('DELETE FROM group_members WHERE user_id = ?').bind(userId),
+        env.usersDB.prepare('DELETE FROM organization_members WHERE user_id = ?').bind(userId),
+        env.usersDB.prepare('UPDATE organizations SET created_by = NULL WHERE created_by = ?').bind(userId),
+        env.usersDB.prepare('UPDATE organization_invitations SET invited_by = NULL WHERE invited_by = ?').bind(userId),
+        env.usersDB.prepare('DELETE FROM role_grant_requests WHERE user_id = ?').bind(userId),
+        env.usersDB.prepare('UPDATE role_grant_requests SET requested_by = NULL WHERE requested_by = ?').bind(userId),
+        env.usersDB.prepare('UPDATE role_grant_requests SET decided_by = NULL WHERE decided_by = ?').bind(userId),
+        env.usersDB.prepare('UPDATE role_constraints SET created_by = NULL WHERE created_by = ?').bind(userId),
+        env.usersDB.prepare('DELETE FROM mfa_backup_codes WHERE user_id = ?').bind(userId),
+        env.usersDB.prepare('DELETE FROM user_mfa WHERE user_id = ?').bind(userId),
+        env.usersDB.prepare('DELETE FROM webauthn_credentials WHERE user_id = ?').bind(userId),
+        env.usersDB.prepare('DELETE FROM User WHERE UserID = ?').bind(userId)
+    ]);
+}
+
 export function isTokenExpired(env: Env, tokenTime: number): boolean {
     const millisecondsInMinute = 1000 * 60;
     const tokenExpirationTime = env.TOKEN_VALID_MINUTES * millisecondsInMinute;
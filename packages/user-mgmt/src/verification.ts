@@ -0,0 +1,162 @@
+/**
+ * Email address verification.
+ *
+ * Verification links carry a stateless token: a base64url JSON payload with the
+ * user ID, the email address and an expiry, followed by an HMAC-SHA256 signature
+ * keyed with EMAIL_VERIFICATION_SECRET. Binding the email address into the token
+ * means a link stops working if the account's address changes.
+ */
+
+import { Env, getEmailVerificationConfig } from './env';
+import { sendEmail } from './email';
+import { timingSafeEqual } from './auth';
+import { base64UrlEncode, base64UrlDecode } from './webauthn/encoding';
+
+/** Minimum seconds between verification emails for one account */
+export const VERIFICATION_RESEND_COOLDOWN_SECONDS = 60;
+
+/** Domain separation so the secret can't be used to sign other kinds of tokens */
+const TOKEN_PURPOSE = 'email-verification';
+
+/**
+ * Contents of a verification token
+ */
+interface VerificationTokenPayload {
+    uid: number;
+    email: string;
+    exp: number;
+}
+
+async function sign(secret: string, data: string): Promise<Uint8Array> {
+    const key = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${TOKEN_PURPOSE}.${data}`));
+    return new Uint8Array(signature);
+}
+
+/**
+ * Creates a signed verification token.
+ *
+ * @param secret - The signing secret
+ * @param userId - The ID of the user being verified
+ * @param email - The email address being verified
+ * @param ttlSeconds - How long the token stays valid
+ * @param now - Current time in milliseconds (for testing)
+ */
+export async function createEmailVerificationToken(
+    secret: string,
+    userId: number,
+    email: string,
+    ttlSeconds: number,
+    now: number = Date.now()
+): Promise<string> {
+    const payload: VerificationTokenPayload = { uid: userId, email, exp: now + ttlSeconds * 1000 };
+    const encodedPayload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+    const signature = await sign(secret, encodedPayload);
+    return `${encodedPayload}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * Verifies a verification token's signature and expiry.
+ *
+ * @param secret - The signing secret
+ * @param token - The token from the verification link
+ * @param now - Current time in milliseconds (for testing)
+ * @returns The user ID and email the token was issued for, or null if it is invalid or expired
+ */
+export async function verifyEmailVerificationToken(
+    secret: string,
+    token: string,
+    now: number = Date.now()
+): Promise<{ userId: number; email: string } | null> {
+    const parts = token.split('.');
+    if (parts.length !== 2) {
+        return null;
+    }
+    const [encodedPayload, encodedSignature] = parts;
+
+    try {
+        const expected = await sign(secret, encodedPayload);
+        if (!timingSafeEqual(expected, base64UrlDecode(encodedSignature))) {
+            return null;
+        }
+
+        const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload))) as VerificationTokenPayload;
+        if (typeof payload.uid !== 'number' || typeof payload.email !== 'string' || typeof payload.exp !== 'number') {
+            return null;
+        }
+        if (payload.exp < now) {
+            return null;
+        }
+        return { userId: payload.uid, email: payload.email };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Checks whether a user row has a verified email address.
+ */
+export function isEmailVerified(user: { EmailVerified?: unknown }): boolean {
+    return user.EmailVerified === 1;
+}
+
+/**
+ * Sends a verification link to a user.
+ *
+ * @param env - The environment configuration
+ * @param user - The user to send the link to
+ * @returns False if email verification is not configured, true once the email has been sent
+ */
+export async function sendVerificationEmail(
+    env: Env,
+    user: { UserID: number; Username: string; FirstName?: string; LastName?: string }
+): Promise<boolean> {
+    const config = getEmailVerificationConfig(env);
+    if (!config) {
+        return false;
+    }
+
+    const token = await createEmailVerificationToken(config.secret, user.UserID, user.Username, config.tokenTtlSeconds);
+    const separator = config.url.includes('?') ? '&' : '?';
+    const verificationLink = `${config.url}${separator}token=${encodeURIComponent(token)}`;
+    const toName = `${user.FirstName ?? ''} ${user.LastName ?? ''}`.trim();
+    const subject = 'Verify your email address';
+    const contentValue = `Click the following link to verify your email address: ${verificationLink}`;
+    await sendEmail(user.Username, toName, subject, contentValue, env);
+    return true;
+}
+
+/**
+ * Claims the right to send another verification email to a user, enforcing a cooldown
+ * so /resend-verification can't be used to flood a mailbox.
+ *
+ * @param env - The environment configuration
+ * @param userId - The ID of the user
+ * @returns True if an email may be sent now, false if one was sent recently
+ */
+export async function claimVerificationResend(env: Env, userId: number): Promise<boolean> {
+    const url = `https://session-service/cache/${encodeURIComponent(`verification:resend:${userId}`)}`;
+    try {
+        const existing = await env.sessionService.fetch(new Request(url, { method: 'GET' }));
+        if (existing.ok) {
+            return false;
+        }
+        await env.sessionService.fetch(
+            new Request(url, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ data: { sentAt: Date.now() }, ttl: VERIFICATION_RESEND_COOLDOWN_SECONDS }),
+            })
+        );
+        return true;
+    } catch (error) {
+        console.error('Error checking verification resend cooldown:', error);
+        return true;
+    }
+}
@@ -0,0 +1,111 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder.
+ *
+ * Only what WebAuthn needs is supported: unsigned/negative integers, byte and
+ * text strings, arrays, maps, tags (ignored) and simple values. Indefinite-length
+ * items and floats are rejected since authenticators don't emit them in the
+ * structures we parse. Maps are returned as `Map` because COSE keys use integer labels.
+ */
+
+export type CborValue = number | string | boolean | null | undefined | Uint8Array | CborValue[] | Map<CborValue, CborValue>;
+
+/**
+ * Result of decoding one CBOR item: the value and the offset just past it.
+ */
+export interface CborDecodeResult {
+    value: CborValue;
+    offset: number;
+}
+
+function readLength(data: Uint8Array, view: DataView, additional: number, offset: number): { length: number; offset: number } {
+    if (additional < 24) {
+        return { length: additional, offset };
+    }
+    if (offset + (1 << (additional - 24)) > data.length) {
+        throw new Error('CBOR: unexpected end of data');
+    }
+    switch (additional) {
+        case 24:
+            return { length: view.getUint8(offset), offset: offset + 1 };
+        case 25:
+            return { length: view.getUint16(offset), offset: offset + 2 };
+        case 26:
+            return { length: view.getUint32(offset), offset: offset + 4 };
+        case 27: {
+            const high = view.getUint32(offset);
+            const low = view.getUint32(offset + 4);
+            return { length: high * 0x100000000 + low, offset: offset + 8 };
+        }
+        default:
+            throw new Error('CBOR: unsupported length encoding');
+    }
+}
+
+/**
+ * Decodes a single CBOR item starting at `offset`.
+ *
+ * @param data - The encoded bytes
+ * @param offset - Where the item starts (defaults to 0)
+ * @returns The decoded value and the offset of the next byte
+ * @throws Error on malformed or unsupported input
+ */
+export function decodeCbor(data: Uint8Array, offset: number = 0): CborDecodeResult {
+    if (offset >= data.length) {
+        throw new Error('CBOR: unexpected end of data');
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const initial = data[offset];
+    const majorType = initial >> 5;
+    const additional = initial & 0x1f;
+    const header = readLength(data, view, additional, offset + 1);
+    const length = header.length;
+    let position = header.offset;
+
+    switch (majorType) {
+        case 0:
+            return { value: length, offset: position };
+        case 1:
+            return { value: -1 - length, offset: position };
+        case 2:
+        case 3: {
+            if (position + length > data.length) {
+                throw new Error('CBOR: unexpected end of data');
+            }
+            const bytes = data.slice(position, position + length);
+            return {
+                value: majorType === 2 ? bytes : new TextDecoder().decode(bytes),
+                offset: position + length,
+            };
+        }
+        case 4: {
+            const items: CborValue[] = [];
+            for (let i = 0; i < length; i++) {
+                const item = decodeCbor(data, position);
+                items.push(item.value);
+                position = item.offset;
+            }
+            return { value: items, offset: position };
+        }
+        case 5: {
+            const map = new Map<CborValue, CborValue>();
+            for (let i = 0; i < length; i++) {
+                const key = decodeCbor(data, position);
+                const value = decodeCbor(data, key.offset);
+                map.set(key.value, value.value);
+                position = value.offset;
+            }
+            return { value: map, offset: position };
+        }
+        case 6:
+            // Tags carry no meaning for the structures we parse; decode the tagged item
+            return decodeCbor(data, position);
+        case 7:
+            if (additional === 20) return { value: false, offset: position };
+            if (additional === 21) return { value: true, offset: position };
+            if (additional === 22) return { value: null, offset: position };
+            if (additional === 23) return { value: undefined, offset: position };
+            throw new Error('CBOR: unsupported simple value');
+        default:
+            throw new Error('CBOR: unsupported major type');
+    }
+}
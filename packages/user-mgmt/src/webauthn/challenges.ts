@@ -0,0 +1,77 @@
+/**
+ * WebAuthn challenge storage.
+ *
+ * Challenges are random 32-byte values stored in KV (via the session-state
+ * worker's cache routes) keyed by the challenge itself. The browser echoes the
+ * challenge inside clientDataJSON, so no extra token needs to round-trip. Each
+ * challenge is deleted as soon as it is looked up, making it single-use.
+ */
+
+import { Env } from '../env';
+import { WebAuthnCeremony, WebAuthnChallengeRecord } from '../types/webauthn';
+import { base64UrlEncode } from './encoding';
+
+/** Lifetime of a challenge in seconds (matches the ceremony timeout sent to the browser) */
+export const WEBAUTHN_CHALLENGE_TTL_SECONDS = 300;
+
+function getChallengeCacheUrl(challenge: string): string {
+    return `https://session-service/cache/${encodeURIComponent(`webauthn:challenge:${challenge}`)}`;
+}
+
+/**
+ * Generates and stores a new challenge.
+ *
+ * @param env - The environment configuration
+ * @param ceremony - Which ceremony the challenge is for
+ * @param userId - The user registering a credential (registration only)
+ * @returns The base64url-encoded challenge
+ */
+export async function createWebAuthnChallenge(env: Env, ceremony: WebAuthnCeremony, userId?: number): Promise<string> {
+    const challenge = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+    const record: WebAuthnChallengeRecord = { ceremony, userId, createdAt: Date.now() };
+
+    const response = await env.sessionService.fetch(
+        new Request(getChallengeCacheUrl(challenge), {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ data: record, ttl: WEBAUTHN_CHALLENGE_TTL_SECONDS }),
+        })
+    );
+    if (!response.ok) {
+        throw new Error(`Failed to store WebAuthn challenge (status ${response.status})`);
+    }
+
+    return challenge;
+}
+
+/**
+ * Looks up and deletes a challenge. Returns null if it is unknown, expired or
+ * was issued for a different ceremony.
+ *
+ * @param env - The environment configuration
+ * @param challenge - The base64url-encoded challenge from clientDataJSON
+ * @param ceremony - The ceremony being completed
+ */
+export async function consumeWebAuthnChallenge(
+    env: Env,
+    challenge: string,
+    ceremony: WebAuthnCeremony
+): Promise<WebAuthnChallengeRecord | null> {
+    const url = getChallengeCacheUrl(challenge);
+    try {
+        const response = await env.sessionService.fetch(new Request(url, { method: 'GET' }));
+        if (!response.ok) {
+            return null;
+        }
+        const record = await response.json() as WebAuthnChallengeRecord;
+        await env.sessionService.fetch(new Request(url, { method: 'DELETE' }));
+
+        if (record.ceremony !== ceremony || Date.now() - record.createdAt > WEBAUTHN_CHALLENGE_TTL_SECONDS * 1000) {
+            return null;
+        }
+        return record;
+    } catch (error) {
+        console.error('Error consuming WebAuthn challenge:', error);
+        return null;
+    }
+}
@@ -0,0 +1,161 @@
+import { Env } from '../env';
+import { WebAuthnCredential } from '../types/webauthn';
+
+/** Maximum length of a user-supplied passkey name */
+export const CREDENTIAL_NAME_MAX_LENGTH = 100;
+
+/**
+ * Database row shape for webauthn_credentials
+ */
+interface CredentialRow {
+    id: string;
+    user_id: number;
+    public_key: string;
+    algorithm: number;
+    sign_count: number;
+    transports: string | null;
+    name: string | null;
+    created_at: string;
+    last_used_at: string | null;
+}
+
+const CREDENTIAL_COLUMNS = 'id, user_id, public_key, algorithm, sign_count, transports, name, created_at, last_used_at';
+
+function toCredential(row: CredentialRow): WebAuthnCredential {
+    return {
+        id: row.id,
+        userId: row.user_id,
+        publicKey: row.public_key,
+        algorithm: row.algorithm,
+        signCount: row.sign_count,
+        transports: row.transports ? row.transports.split(',') : [],
+        name: row.name ?? '',
+        createdAt: new Date(row.created_at),
+        lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null,
+    };
+}
+
+/**
+ * Stores a newly registered credential.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param credential - The verified credential data
+ * @throws Error('DUPLICATE_CREDENTIAL') if the credential ID is already registered
+ */
+export async function storeCredential(
+    env: Env,
+    credential: { id: string; userId: number; publicKey: string; algorithm: number; signCount: number; transports: string[]; name: string }
+): Promise<void> {
+    try {
+        const result = await env.usersDB
+            .prepare(`
+                INSERT INTO webauthn_credentials (id, user_id, public_key, algorithm, sign_count, transports, name, created_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+            `)
+            .bind(
+                credential.id,
+                credential.userId,
+                credential.publicKey,
+                credential.algorithm,
+                credential.signCount,
+                credential.transports.join(','),
+                credential.name
+            )
+            .run();
+
+        if (!result.success) {
+            throw new Error('Failed to store credential');
+        }
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage.includes('UNIQUE constraint')) {
+            throw new Error('DUPLICATE_CREDENTIAL');
+        }
+        console.error('Error storing credential:', error);
+        throw new Error('Failed to store credential');
+    }
+}
+
+/**
+ * Retrieves a credential by its ID.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param credentialId - The base64url credential ID
+ * @returns The credential, or null if not registered
+ */
+export async function getCredentialById(env: Env, credentialId: string): Promise<WebAuthnCredential | null> {
+    const row = await env.usersDB
+        .prepare(`SELECT ${CREDENTIAL_COLUMNS} FROM webauthn_credentials WHERE id = ?`)
+        .bind(credentialId)
+        .first<CredentialRow>();
+
+    return row ? toCredential(row) : null;
+}
+
+/**
+ * Lists all credentials registered by a user, newest first.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The ID of the user
+ */
+export async function getUserCredentials(env: Env, userId: number): Promise<WebAuthnCredential[]> {
+    const result = await env.usersDB
+        .prepare(`SELECT ${CREDENTIAL_COLUMNS} FROM webauthn_credentials WHERE user_id = ? ORDER BY created_at DESC`)
+        .bind(userId)
+        .all<CredentialRow>();
+
+    if (!result.success) {
+        throw new Error('Failed to retrieve credentials');
+    }
+
+    return result.results.map(toCredential);
+}
+
+/**
+ * Records a successful authentication: stores the new signature counter and last-used time.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param credentialId - The base64url credential ID
+ * @param signCount - The counter reported by the authenticator
+ */
+export async function updateCredentialUsage(env: Env, credentialId: string, signCount: number): Promise<void> {
+    await env.usersDB
+        .prepare(`UPDATE webauthn_credentials SET sign_count = ?, last_used_at = datetime('now') WHERE id = ?`)
+        .bind(signCount, credentialId)
+        .run();
+}
+
+/**
+ * Renames a credential owned by a user.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The owner of the credential
+ * @param credentialId - The base64url credential ID
+ * @param name - The new display name
+ * @returns True if a credential was renamed, false if it doesn't exist or belongs to someone else
+ */
+export async function renameCredential(env: Env, userId: number, credentialId: string, name: string): Promise<boolean> {
+    const result = await env.usersDB
+        .prepare('UPDATE webauthn_credentials SET name = ? WHERE id = ? AND user_id = ?')
+        .bind(name, credentialId, userId)
+        .run();
+
+    return result.success && result.meta.changes === 1;
+}
+
+/**
+ * Deletes a credential owned by a user.
+ *
+ * @param env - The environment configuration containing the database connection
+ * @param userId - The owner of the credential
+ * @param credentialId - The base64url credential ID
+ * @returns True if a credential was deleted, false if it doesn't exist or belongs to someone else
+ */
+export async function deleteCredential(env: Env, userId: number, credentialId: string): Promise<boolean> {
+    const result = await env.usersDB
+        .prepare('DELETE FROM webauthn_credentials WHERE id = ? AND user_id = ?')
+        .bind(credentialId, userId)
+        .run();
+
+    return result.success && result.meta.changes === 1;
+}
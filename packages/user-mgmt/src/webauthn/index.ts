@@ -0,0 +1,51 @@
+/**
+ * WebAuthn module
+ *
+ * This module provides passkey registration and authentication ceremonies,
+ * challenge storage and credential management.
+ */
+
+// Export ceremony verification
+export {
+    verifyRegistrationResponse,
+    verifyAuthenticationResponse,
+    parseClientData,
+    parseAuthenticatorData,
+    importCosePublicKey,
+    derToRawEcdsaSignature,
+    SUPPORTED_ALGORITHMS,
+    type RelyingPartyExpectations,
+    type VerifiedRegistration
+} from './verify';
+
+// Export challenge storage
+export {
+    createWebAuthnChallenge,
+    consumeWebAuthnChallenge,
+    WEBAUTHN_CHALLENGE_TTL_SECONDS
+} from './challenges';
+
+// Export credential storage
+export {
+    storeCredential,
+    getCredentialById,
+    getUserCredentials,
+    updateCredentialUsage,
+    renameCredential,
+    deleteCredential,
+    CREDENTIAL_NAME_MAX_LENGTH
+} from './credentials';
+
+// Export encoding helpers
+export {
+    base64UrlEncode,
+    base64UrlDecode
+} from './encoding';
+
+// Re-export WebAuthn types for convenience
+export type {
+    WebAuthnCredential,
+    WebAuthnCredentialSummary,
+    WebAuthnCeremony,
+    WebAuthnChallengeRecord
+} from '../types/webauthn';
@@ -0,0 +1,345 @@
+/**
+ * WebAuthn ceremony verification (registration and authentication).
+ *
+ * Implements the relying-party checks from the WebAuthn Level 2 specification
+ * sections 7.1 and 7.2 for the subset this project supports:
+ * - Attestation conveyance "none" only (no attestation statement to verify)
+ * - ES256 (ECDSA P-256 / SHA-256) and RS256 (RSASSA-PKCS1-v1_5 / SHA-256) keys
+ *
+ * Every failed check throws an Error describing the problem. Handlers log the
+ * message and return a generic error so clients learn nothing about which check failed.
+ */
+
+import { decodeCbor, CborValue } from './cbor';
+import { base64UrlEncode, base64UrlDecode, bytesEqual, concatBytes, sha256 } from './encoding';
+
+/** COSE algorithm identifier for ES256 */
+export const COSE_ALG_ES256 = -7;
+
+/** COSE algorithm identifier for RS256 */
+export const COSE_ALG_RS256 = -257;
+
+/** COSE algorithms this relying party accepts, in order of preference */
+export const SUPPORTED_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_RS256];
+
+/** Authenticator data flag: user present */
+const FLAG_USER_PRESENT = 0x01;
+
+/** Authenticator data flag: user verified */
+const FLAG_USER_VERIFIED = 0x04;
+
+/** Authenticator data flag: attested credential data included */
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/**
+ * Parsed client data (the JSON the browser signs over)
+ */
+export interface ClientData {
+    type: string;
+    challenge: string;
+    origin: string;
+    crossOrigin?: boolean;
+}
+
+/**
+ * Parsed authenticator data
+ */
+export interface AuthenticatorData {
+    rpIdHash: Uint8Array;
+    flags: number;
+    signCount: number;
+    credentialId?: Uint8Array;
+    credentialPublicKey?: Uint8Array;
+}
+
+/**
+ * Relying party settings every ceremony is checked against
+ */
+export interface RelyingPartyExpectations {
+    rpId: string;
+    origins: string[];
+}
+
+/**
+ * Result of a successful registration ceremony
+ */
+export interface VerifiedRegistration {
+    credentialId: string;
+    publicKey: string;
+    algorithm: number;
+    signCount: number;
+}
+
+/**
+ * Decodes and parses clientDataJSON.
+ *
+ * @param clientDataJSON - The base64url-encoded clientDataJSON from the browser
+ */
+export function parseClientData(clientDataJSON: string): ClientData {
+    try {
+        const data = JSON.parse(new TextDecoder().decode(base64UrlDecode(clientDataJSON)));
+        if (typeof data.type !== 'string' || typeof data.challenge !== 'string' || typeof data.origin !== 'string') {
+            throw new Error('missing fields');
+        }
+        return data as ClientData;
+    } catch {
+        throw new Error('Invalid client data');
+    }
+}
+
+/**
+ * Parses the binary authenticator data structure.
+ *
+ * @param data - The raw authenticator data bytes
+ */
+export function parseAuthenticatorData(data: Uint8Array): AuthenticatorData {
+    if (data.length < 37) {
+        throw new Error('Authenticator data is too short');
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const result: AuthenticatorData = {
+        rpIdHash: data.slice(0, 32),
+        flags: data[32],
+        signCount: view.getUint32(33),
+    };
+
+    if (result.flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+        // aaguid (16 bytes) + credentialIdLength (2 bytes) + credentialId + COSE public key
+        if (data.length < 55) {
+            throw new Error('Attested credential data is too short');
+        }
+        const credentialIdLength = view.getUint16(53);
+        const credentialIdEnd = 55 + credentialIdLength;
+        if (data.length < credentialIdEnd) {
+            throw new Error('Attested credential data is too short');
+        }
+        result.credentialId = data.slice(55, credentialIdEnd);
+        try {
+            const { offset } = decodeCbor(data, credentialIdEnd);
+            result.credentialPublicKey = data.slice(credentialIdEnd, offset);
+        } catch {
+            throw new Error('Invalid credential public key');
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Imports a COSE_Key as a WebCrypto verification key.
+ *
+ * @param coseKey - The CBOR-encoded COSE_Key
+ * @returns The WebCrypto key and its COSE algorithm
+ */
+export async function importCosePublicKey(coseKey: Uint8Array): Promise<{ key: CryptoKey; algorithm: number }> {
+    let decoded: CborValue;
+    try {
+        decoded = decodeCbor(coseKey).value;
+    } catch {
+        throw new Error('Invalid credential public key');
+    }
+    if (!(decoded instanceof Map)) {
+        throw new Error('Invalid credential public key');
+    }
+
+    const keyType = decoded.get(1);
+    const algorithm = decoded.get(3);
+
+    if (keyType === 2 && algorithm === COSE_ALG_ES256) {
+        const curve = decoded.get(-1);
+        const x = decoded.get(-2);
+        const y = decoded.get(-3);
+        if (curve !== 1 || !(x instanceof Uint8Array) || !(y instanceof Uint8Array)) {
+            throw new Error('Unsupported EC2 key parameters');
+        }
+        const key = await crypto.subtle.importKey(
+            'jwk',
+            { kty: 'EC', crv: 'P-256', x: base64UrlEncode(x), y: base64UrlEncode(y) },
+            { name: 'ECDSA', namedCurve: 'P-256' },
+            false,
+            ['verify']
+        );
+        return { key, algorithm };
+    }
+
+    if (keyType === 3 && algorithm === COSE_ALG_RS256) {
+        const n = decoded.get(-1);
+        const e = decoded.get(-2);
+        if (!(n instanceof Uint8Array) || !(e instanceof Uint8Array)) {
+            throw new Error('Unsupported RSA key parameters');
+        }
+        const key = await crypto.subtle.importKey(
+            'jwk',
+            { kty: 'RSA', n: base64UrlEncode(n), e: base64UrlEncode(e), alg: 'RS256' },
+            { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+            false,
+            ['verify']
+        );
+        return { key, algorithm };
+    }
+
+    throw new Error('Unsupported public key algorithm');
+}
+
+/**
+ * Converts an ASN.1 DER-encoded ECDSA signature to the raw r||s form WebCrypto expects.
+ *
+ * @param der - The DER signature from the authenticator
+ * @param size - Byte length of each coordinate (32 for P-256)
+ */
+export function derToRawEcdsaSignature(der: Uint8Array, size: number = 32): Uint8Array {
+    // SEQUENCE { INTEGER r, INTEGER s }
+    if (der[0] !== 0x30) {
+        throw new Error('Invalid signature encoding');
+    }
+    let offset = der[1] & 0x80 ? 2 + (der[1] & 0x7f) : 2;
+    const readInteger = (): Uint8Array => {
+        if (der[offset] !== 0x02) {
+            throw new Error('Invalid signature encoding');
+        }
+        const length = der[offset + 1];
+        let value = der.slice(offset + 2, offset + 2 + length);
+        offset += 2 + length;
+        // Strip sign padding, then left-pad to the coordinate size
+        while (value.length > size && value[0] === 0) {
+            value = value.slice(1);
+        }
+        if (value.length > size) {
+            throw new Error('Invalid signature encoding');
+        }
+        const padded = new Uint8Array(size);
+        padded.set(value, size - value.length);
+        return padded;
+    };
+    const r = readInteger();
+    const s = readInteger();
+    return concatBytes(r, s);
+}
+
+/**
+ * Checks the parts of client data common to both ceremonies.
+ */
+function checkClientData(clientData: ClientData, expectedType: string, expectedChallenge: string, rp: RelyingPartyExpectations): void {
+    if (clientData.type !== expectedType) {
+        throw new Error('Unexpected ceremony type');
+    }
+    if (clientData.challenge !== expectedChallenge) {
+        throw new Error('Challenge mismatch');
+    }
+    if (!rp.origins.includes(clientData.origin)) {
+        throw new Error('Origin not allowed');
+    }
+}
+
+/**
+ * Checks the parts of authenticator data common to both ceremonies.
+ */
+async function checkAuthenticatorData(authData: AuthenticatorData, rp: RelyingPartyExpectations, requireUserVerification: boolean): Promise<void> {
+    const expectedRpIdHash = await sha256(new TextEncoder().encode(rp.rpId));
+    if (!bytesEqual(authData.rpIdHash, expectedRpIdHash)) {
+        throw new Error('RP ID mismatch');
+    }
+    if (!(authData.flags & FLAG_USER_PRESENT)) {
+        throw new Error('User presence required');
+    }
+    if (requireUserVerification && !(authData.flags & FLAG_USER_VERIFIED)) {
+        throw new Error('User verification required');
+    }
+}
+
+/**
+ * Verifies a registration (navigator.credentials.create) response.
+ *
+ * @param response - The base64url-encoded clientDataJSON and attestationObject
+ * @param expectedChallenge - The challenge issued for this ceremony
+ * @param rp - Relying party ID and allowed origins
+ * @returns The credential to store
+ */
+export async function verifyRegistrationResponse(
+    response: { clientDataJSON: string; attestationObject: string },
+    expectedChallenge: string,
+    rp: RelyingPartyExpectations
+): Promise<VerifiedRegistration> {
+    checkClientData(parseClientData(response.clientDataJSON), 'webauthn.create', expectedChallenge, rp);
+
+    let attestation: CborValue;
+    try {
+        attestation = decodeCbor(base64UrlDecode(response.attestationObject)).value;
+    } catch {
+        throw new Error('Invalid attestation object');
+    }
+    if (!(attestation instanceof Map)) {
+        throw new Error('Invalid attestation object');
+    }
+
+    // We request attestation "none", so browsers strip any attestation statement
+    const fmt = attestation.get('fmt');
+    const attStmt = attestation.get('attStmt');
+    if (fmt !== 'none' || !(attStmt instanceof Map) || attStmt.size !== 0) {
+        throw new Error('Unsupported attestation format');
+    }
+
+    const rawAuthData = attestation.get('authData');
+    if (!(rawAuthData instanceof Uint8Array)) {
+        throw new Error('Invalid attestation object');
+    }
+    const authData = parseAuthenticatorData(rawAuthData);
+    await checkAuthenticatorData(authData, rp, true);
+
+    if (!authData.credentialId || !authData.credentialPublicKey) {
+        throw new Error('Missing attested credential data');
+    }
+
+    // Importing validates the key and algorithm before we store it
+    const { algorithm } = await importCosePublicKey(authData.credentialPublicKey);
+
+    return {
+        credentialId: base64UrlEncode(authData.credentialId),
+        publicKey: base64UrlEncode(authData.credentialPublicKey),
+        algorithm,
+        signCount: authData.signCount,
+    };
+}
+
+/**
+ * Verifies an authentication (navigator.credentials.get) assertion.
+ *
+ * @param response - The base64url-encoded clientDataJSON, authenticatorData and signature
+ * @param expectedChallenge - The challenge issued for this ceremony
+ * @param rp - Relying party ID and allowed origins
+ * @param credential - The stored public key (base64url COSE_Key) and last known signature counter
+ * @returns The new signature counter reported by the authenticator
+ */
+export async function verifyAuthenticationResponse(
+    response: { clientDataJSON: string; authenticatorData: string; signature: string },
+    expectedChallenge: string,
+    rp: RelyingPartyExpectations,
+    credential: { publicKey: string; signCount: number }
+): Promise<{ signCount: number }> {
+    checkClientData(parseClientData(response.clientDataJSON), 'webauthn.get', expectedChallenge, rp);
+
+    const rawAuthData = base64UrlDecode(response.authenticatorData);
+    const authData = parseAuthenticatorData(rawAuthData);
+    // Passkey login replaces the password entirely, so the authenticator must verify the user
+    await checkAuthenticatorData(authData, rp, true);
+
+    const { key, algorithm } = await importCosePublicKey(base64UrlDecode(credential.publicKey));
+    const clientDataHash = await sha256(base64UrlDecode(response.clientDataJSON));
+    const signedData = concatBytes(rawAuthData, clientDataHash);
+    const signature = base64UrlDecode(response.signature);
+
+    const valid = algorithm === COSE_ALG_ES256
+        ? await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, derToRawEcdsaSignature(signature), signedData)
+        : await crypto.subtle.verify({ name: 'RSASSA-PKCS1-v1_5' }, key, signature, signedData);
+    if (!valid) {
+        throw new Error('Invalid signature');
+    }
+
+    // Authenticators that implement counters must report a strictly increasing value;
+    // anything else suggests a cloned authenticator. A zero counter means "not supported".
+    if ((authData.signCount !== 0 || credential.signCount !== 0) && authData.signCount <= credential.signCount) {
+        throw new Error('Signature counter did not increase');
+    }
+
+    return { signCount: authData.signCount };
+}
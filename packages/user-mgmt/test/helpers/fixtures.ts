@@ -112,4 +112,6 @@ export const ROLE_IDS = {
     SUPER_ADMIN: "role-super-admin",
     MEMBER: "role-member",
     MODERATOR: "role-moderator",
+    ORG_ADMIN: "role-org-admin",
+    ORG_MEMBER: "role-org-member",
 } as const;
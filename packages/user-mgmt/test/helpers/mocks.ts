@@ -102,6 +102,23 @@ export function createMockSessionService(): Fetcher {
                 });
             }
 
+            // Handle per-user session index routes
+            // GET /user/:userId/sessions - No indexed sessions
+            if (url.includes("/user/") && url.includes("/sessions") && method === "GET") {
+                return new Response(JSON.stringify([]), {
+                    status: 200,
+                    headers: { "Content-Type": "application/json" },
+                });
+            }
+
+            // DELETE /user/:userId/sessions - Report the revocation as done
+            if (url.includes("/user/") && url.includes("/sessions") && method === "DELETE") {
+                return new Response(JSON.stringify({ deleted: 0 }), {
+                    status: 200,
+                    headers: { "Content-Type": "application/json" },
+                });
+            }
+
             // Handle cache routes for permission caching
             // PUT /cache/:cacheKey - Return success for cache set operations
             if (url.includes("/cache/") && method === "PUT") {
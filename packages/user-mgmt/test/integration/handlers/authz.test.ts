@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { env } from "cloudflare:test";
+import { handleAuthzCheck } from "../../../src/handlers/authz";
+import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
+import { createMockEnv, createMockRequest } from "../../helpers/mocks";
+import { USER_IDS, USERNAMES } from "../../helpers/fixtures";
+
+// Type definitions for API responses
+interface CheckResponse {
+    authenticated: boolean;
+    allowed: boolean;
+    user: { userId: number; username: string } | null;
+    results: Record<string, boolean>;
+}
+
+const SECRET = "test-authz-secret";
+
+function createAuthzEnv() {
+    return createMockEnv({ AUTHZ_API_SECRET: SECRET });
+}
+
+function check(body: unknown, secret: string | null = SECRET): Request {
+    return createMockRequest("http://localhost/authz/check", {
+        method: "POST",
+        body,
+        headers: secret ? { Authorization: `Bearer ${secret}` } : {},
+    });
+}
+
+describe("Authorization Check Handler Integration Tests", () => {
+    beforeAll(async () => {
+        await setupTestDatabase();
+    });
+
+    afterAll(async () => {
+        await cleanupTestDatabase();
+    });
+
+    describe("caller authentication", () => {
+        it("should return 403 when no secret is configured", async () => {
+            const response = await handleAuthzCheck(
+                check({ sessionId: "member-session", permission: "users:read" }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should return 401 for a wrong or missing secret", async () => {
+            const wrong = await handleAuthzCheck(
+                check({ sessionId: "member-session", permission: "users:read" }, "wrong-secret"),
+                createAuthzEnv()
+            );
+            const missing = await handleAuthzCheck(
+                check({ sessionId: "member-session", permission: "users:read" }, null),
+                createAuthzEnv()
+            );
+
+            expect(wrong.status).toBe(401);
+            expect(missing.status).toBe(401);
+        });
+    });
+
+    describe("single checks", () => {
+        it("should allow a permission the session's user holds and identify the user", async () => {
+            const response = await handleAuthzCheck(
+                check({ sessionId: "member-session", permission: "users:read" }),
+                createAuthzEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as CheckResponse;
+            expect(body).toEqual({
+                authenticated: true,
+                allowed: true,
+                user: { userId: USER_IDS.member, username: USERNAMES.member },
+                results: { "users:read": true },
+            });
+        });
+
+        it("should answer each permission and record the denial", async () => {
+            const response = await handleAuthzCheck(
+                check({ sessionId: "member-session", permissions: ["users:read", "users:delete"] }),
+                createAuthzEnv()
+            );
+
+            const body = (await response.json()) as CheckResponse;
+            expect(body.allowed).toBe(false);
+            expect(body.results).toEqual({ "users:read": true, "users:delete": false });
+
+            // The denial is logged without blocking the response
+            await new Promise(resolve => setTimeout(resolve, 50));
+            const log = await env.usersDB
+                .prepare("SELECT COUNT(*) as count FROM audit_logs WHERE action = 'AUTHORIZATION_DENIED' AND actor_id = ? AND details = ?")
+                .bind(USER_IDS.member, JSON.stringify({ requiredPermission: "users:delete" }))
+                .first<{ count: number }>();
+            expect(log?.count).toBe(1);
+        });
+
+        it("should treat admin:all as every permission", async () => {
+            const response = await handleAuthzCheck(
+                check({ sessionId: "admin-session", permissions: ["reports:export", "users:delete"] }),
+                createAuthzEnv()
+            );
+
+            expect(((await response.json()) as CheckResponse).allowed).toBe(true);
+        });
+
+        it("should deny an unknown session", async () => {
+            const response = await handleAuthzCheck(
+                check({ sessionId: "no-such-session", permission: "users:read" }),
+                createAuthzEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as CheckResponse;
+            expect(body.authenticated).toBe(false);
+            expect(body.user).toBeNull();
+            expect(body.results).toEqual({ "users:read": false });
+        });
+
+        it("should reject a request without permissions", async () => {
+            const response = await handleAuthzCheck(check({ sessionId: "member-session" }), createAuthzEnv());
+
+            expect(response.status).toBe(400);
+        });
+
+        it("should reject a body that isn't a JSON object", async () => {
+            const malformed = new Request("http://localhost/authz/check", {
+                method: "POST",
+                body: "{not json",
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${SECRET}` },
+            });
+            const nullBody = new Request("http://localhost/authz/check", {
+                method: "POST",
+                body: "null",
+                headers: { "Content-Type": "application/json", Authorization: `Bearer ${SECRET}` },
+            });
+
+            expect((await handleAuthzCheck(malformed, createAuthzEnv())).status).toBe(400);
+            expect((await handleAuthzCheck(nullBody, createAuthzEnv())).status).toBe(400);
+            expect((await handleAuthzCheck(check(["users:read"]), createAuthzEnv())).status).toBe(400);
+        });
+
+        it("should reject a malformed session ID", async () => {
+            const response = await handleAuthzCheck(
+                check({ sessionId: "../admin-session", permission: "users:read" }),
+                createAuthzEnv()
+            );
+
+            expect(response.status).toBe(400);
+        });
+    });
+
+    describe("batch checks", () => {
+        it("should answer every check in order", async () => {
+            const response = await handleAuthzCheck(
+                check({
+                    checks: [
+                        { sessionId: "moderator-session", permission: "users:write" },
+                        { sessionId: "member-session", permission: "users:write" },
+                    ],
+                }),
+                createAuthzEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as { checks: CheckResponse[] };
+            expect(body.checks.map(c => c.allowed)).toEqual([true, false]);
+            expect(body.checks.map(c => c.user?.userId)).toEqual([USER_IDS.moderator, USER_IDS.member]);
+        });
+
+        it("should reject an empty batch", async () => {
+            const response = await handleAuthzCheck(check({ checks: [] }), createAuthzEnv());
+
+            expect(response.status).toBe(400);
+        });
+    });
+});
@@ -0,0 +1,363 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+    handleCreateOrganization,
+    handleListOrganizations,
+    handleGetOrganization,
+    handleListOrganizationMembers,
+    handleRemoveOrganizationMember,
+    handleCreateOrganizationInvitation,
+    handleAcceptOrganizationInvitation,
+    handleAssignOrganizationRole,
+    handleRemoveOrganizationRole,
+    handleActivateOrganization,
+} from "../../../src/handlers/orgs";
+import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
+import { createMockEnv, createMockRequest } from "../../helpers/mocks";
+import { ROLE_IDS, USER_IDS, USERNAMES } from "../../helpers/fixtures";
+
+// Type definitions for API responses
+interface OrganizationResponse {
+    organization: { id: string; name: string };
+}
+
+interface InvitationResponse {
+    invitation: { id: string; email: string; roleId: string };
+    emailSent: boolean;
+    token?: string;
+}
+
+interface MembersResponse {
+    members: { userId: number; roles: { id: string; name: string }[] }[];
+}
+
+const ADMIN = { cfw_session: "admin-session" };
+const MEMBER = { cfw_session: "member-session" };
+const MODERATOR = { cfw_session: "moderator-session" };
+
+async function createOrg(name: string): Promise<string> {
+    const response = await handleCreateOrganization(
+        createMockRequest("http://localhost/orgs", { method: "POST", body: { name }, cookies: ADMIN }),
+        createMockEnv()
+    );
+    expect(response.status).toBe(201);
+    return ((await response.json()) as OrganizationResponse).organization.id;
+}
+
+async function invite(orgId: string, email: string, cookies = ADMIN, roleId?: string): Promise<Response> {
+    return handleCreateOrganizationInvitation(
+        createMockRequest(`http://localhost/orgs/${orgId}/invitations`, {
+            method: "POST",
+            body: roleId ? { email, roleId } : { email },
+            cookies,
+        }),
+        createMockEnv()
+    );
+}
+
+async function accept(token: string, cookies: Record<string, string>): Promise<Response> {
+    return handleAcceptOrganizationInvitation(
+        createMockRequest("http://localhost/orgs/invitations/accept", { method: "POST", body: { token }, cookies }),
+        createMockEnv()
+    );
+}
+
+async function join(orgId: string, email: string, cookies: Record<string, string>, roleId?: string): Promise<void> {
+    const { token } = (await (await invite(orgId, email, ADMIN, roleId)).json()) as InvitationResponse;
+    expect((await accept(token!, cookies)).status).toBe(200);
+}
+
+// The moderator has no global organization permissions, so only the ORG_ADMIN role lets them manage one
+async function createModeratorOrg(name: string): Promise<string> {
+    const orgId = await createOrg(name);
+    await join(orgId, USERNAMES.moderator, MODERATOR, ROLE_IDS.ORG_ADMIN);
+    return orgId;
+}
+
+describe("Organization Handlers Integration Tests", () => {
+    beforeAll(async () => {
+        await setupTestDatabase();
+    });
+
+    afterAll(async () => {
+        await cleanupTestDatabase();
+    });
+
+    describe("handleCreateOrganization()", () => {
+        it("should return 401 when no session cookie", async () => {
+            const response = await handleCreateOrganization(
+                createMockRequest("http://localhost/orgs", { method: "POST", body: { name: "Acme" } }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(401);
+        });
+
+        it("should return 403 without orgs:create", async () => {
+            const response = await handleCreateOrganization(
+                createMockRequest("http://localhost/orgs", { method: "POST", body: { name: "Acme" }, cookies: MEMBER }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should reject a missing name", async () => {
+            const response = await handleCreateOrganization(
+                createMockRequest("http://localhost/orgs", { method: "POST", body: { name: " " }, cookies: ADMIN }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(400);
+        });
+
+        it("should return 400 for a body that isn't valid JSON", async () => {
+            const response = await handleCreateOrganization(
+                new Request("http://localhost/orgs", {
+                    method: "POST",
+                    body: "{not json",
+                    headers: { "Content-Type": "application/json", Cookie: "cfw_session=admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(400);
+        });
+
+        it("should list the new organization for its creator", async () => {
+            const orgId = await createOrg("Acme");
+
+            const response = await handleListOrganizations(
+                createMockRequest("http://localhost/orgs", { cookies: ADMIN }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as { organizations: { id: string }[] };
+            expect(body.organizations.map((o) => o.id)).toContain(orgId);
+        });
+    });
+
+    describe("invitations", () => {
+        it("should return the token when invitation emails aren't configured", async () => {
+            const orgId = await createOrg("Globex");
+
+            const response = await invite(orgId, USERNAMES.member);
+
+            expect(response.status).toBe(201);
+            const body = (await response.json()) as InvitationResponse;
+            expect(body.emailSent).toBe(false);
+            expect(body.token).toBeTruthy();
+            expect(body.invitation.roleId).toBe(ROLE_IDS.ORG_MEMBER);
+        });
+
+        it("should add the invitee as a member who can read but not manage the organization", async () => {
+            const orgId = await createOrg("Initech");
+            await join(orgId, USERNAMES.member, MEMBER);
+
+            const read = await handleGetOrganization(
+                createMockRequest(`http://localhost/orgs/${orgId}`, { cookies: MEMBER }),
+                createMockEnv()
+            );
+            const manage = await invite(orgId, USERNAMES.moderator, MEMBER);
+
+            expect(read.status).toBe(200);
+            expect(manage.status).toBe(403);
+        });
+
+        it("should reject an invitation accepted by a different user", async () => {
+            const orgId = await createOrg("Hooli");
+            const { token } = (await (await invite(orgId, USERNAMES.member)).json()) as InvitationResponse;
+
+            const response = await accept(token!, MODERATOR);
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should reject a token that was already used", async () => {
+            const orgId = await createOrg("Umbrella");
+            const { token } = (await (await invite(orgId, USERNAMES.member)).json()) as InvitationResponse;
+            await accept(token!, MEMBER);
+
+            const response = await accept(token!, MEMBER);
+
+            expect(response.status).toBe(400);
+        });
+
+        it("should return 409 when the invitee is already a member", async () => {
+            const orgId = await createOrg("Vandelay");
+
+            const response = await invite(orgId, USERNAMES.admin);
+
+            expect(response.status).toBe(409);
+        });
+
+        it("should not let an organization admin invite with a role they couldn't grant", async () => {
+            const orgId = await createModeratorOrg("Cyberdyne");
+
+            const response = await invite(orgId, USERNAMES.member, MODERATOR, ROLE_IDS.SUPER_ADMIN);
+
+            expect(response.status).toBe(403);
+        });
+    });
+
+    describe("per-organization roles", () => {
+        it("should let a user be admin in one organization and member in another", async () => {
+            const adminOrg = await createOrg("Stark");
+            const memberOrg = await createOrg("Wayne");
+            await join(adminOrg, USERNAMES.member, MEMBER);
+            await join(memberOrg, USERNAMES.member, MEMBER);
+
+            const assign = await handleAssignOrganizationRole(
+                createMockRequest(`http://localhost/orgs/${adminOrg}/members/${USER_IDS.member}/roles`, {
+                    method: "POST",
+                    body: { roleId: ROLE_IDS.ORG_ADMIN },
+                    cookies: ADMIN,
+                }),
+                createMockEnv()
+            );
+            expect(assign.status).toBe(200);
+
+            expect((await invite(adminOrg, USERNAMES.moderator, MEMBER)).status).toBe(201);
+            expect((await invite(memberOrg, USERNAMES.moderator, MEMBER)).status).toBe(403);
+        });
+
+        it("should not let an organization admin grant roles beyond their own access", async () => {
+            const orgId = await createModeratorOrg("Oscorp");
+            await join(orgId, USERNAMES.member, MEMBER);
+
+            const response = await handleAssignOrganizationRole(
+                createMockRequest(`http://localhost/orgs/${orgId}/members/${USER_IDS.member}/roles`, {
+                    method: "POST",
+                    body: { roleId: ROLE_IDS.SUPER_ADMIN },
+                    cookies: MODERATOR,
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should not let an organization admin manage another organization", async () => {
+            await createModeratorOrg("Tyrell");
+            const otherOrg = await createOrg("Weyland");
+            await join(otherOrg, USERNAMES.member, MEMBER);
+
+            const members = await handleListOrganizationMembers(
+                createMockRequest(`http://localhost/orgs/${otherOrg}/members`, { cookies: MODERATOR }),
+                createMockEnv()
+            );
+            const remove = await handleRemoveOrganizationMember(
+                createMockRequest(`http://localhost/orgs/${otherOrg}/members/${USER_IDS.member}`, {
+                    method: "DELETE",
+                    cookies: MODERATOR,
+                }),
+                createMockEnv()
+            );
+
+            expect(members.status).toBe(403);
+            expect(remove.status).toBe(403);
+        });
+
+        it("should remove a role within the organization", async () => {
+            const orgId = await createOrg("Soylent");
+            await join(orgId, USERNAMES.member, MEMBER);
+
+            const response = await handleRemoveOrganizationRole(
+                createMockRequest(`http://localhost/orgs/${orgId}/members/${USER_IDS.member}/roles/${ROLE_IDS.ORG_MEMBER}`, {
+                    method: "DELETE",
+                    cookies: ADMIN,
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const membersResponse = await handleListOrganizationMembers(
+                createMockRequest(`http://localhost/orgs/${orgId}/members`, { cookies: ADMIN }),
+                createMockEnv()
+            );
+            const { members } = (await membersResponse.json()) as MembersResponse;
+            expect(members.find((m) => m.userId === USER_IDS.member)?.roles).toEqual([]);
+        });
+
+        it("should refuse a role that is mutually exclusive with one the member holds", async () => {
+            const orgId = await createOrg("Cyberdyne");
+            await join(orgId, USERNAMES.member, MEMBER);
+            const mockEnv = createMockEnv();
+            await mockEnv.usersDB
+                .prepare("INSERT INTO role_constraints (id, role_a_id, role_b_id) VALUES ('constraint-org-admin', ?, ?)")
+                .bind(ROLE_IDS.MEMBER, ROLE_IDS.ORG_ADMIN)
+                .run();
+
+            const response = await handleAssignOrganizationRole(
+                createMockRequest(`http://localhost/orgs/${orgId}/members/${USER_IDS.member}/roles`, {
+                    method: "POST",
+                    body: { roleId: ROLE_IDS.ORG_ADMIN },
+                    cookies: ADMIN,
+                }),
+                mockEnv
+            );
+
+            expect(response.status).toBe(409);
+            expect(await response.json()).toMatchObject({ code: "ROLE_CONFLICT", conflictingRole: { id: ROLE_IDS.MEMBER } });
+
+            await mockEnv.usersDB.prepare("DELETE FROM role_constraints WHERE id = 'constraint-org-admin'").run();
+        });
+
+        it("should return 404 when assigning a role to a non-member", async () => {
+            const orgId = await createOrg("Massive Dynamic");
+
+            const response = await handleAssignOrganizationRole(
+                createMockRequest(`http://localhost/orgs/${orgId}/members/${USER_IDS.noRoles}/roles`, {
+                    method: "POST",
+                    body: { roleId: ROLE_IDS.ORG_MEMBER },
+                    cookies: ADMIN,
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe("handleRemoveOrganizationMember()", () => {
+        it("should let members leave an organization", async () => {
+            const orgId = await createOrg("Aperture");
+            await join(orgId, USERNAMES.member, MEMBER);
+
+            const response = await handleRemoveOrganizationMember(
+                createMockRequest(`http://localhost/orgs/${orgId}/members/${USER_IDS.member}`, {
+                    method: "DELETE",
+                    cookies: MEMBER,
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const read = await handleGetOrganization(
+                createMockRequest(`http://localhost/orgs/${orgId}`, { cookies: MEMBER }),
+                createMockEnv()
+            );
+            expect(read.status).toBe(403);
+        });
+    });
+
+    describe("handleActivateOrganization()", () => {
+        it("should only activate organizations the user belongs to", async () => {
+            const ownOrg = await createModeratorOrg("Black Mesa");
+            const otherOrg = await createOrg("Blue Sun");
+
+            const allowed = await handleActivateOrganization(
+                createMockRequest(`http://localhost/orgs/${ownOrg}/activate`, { method: "POST", cookies: MODERATOR }),
+                createMockEnv()
+            );
+            const denied = await handleActivateOrganization(
+                createMockRequest(`http://localhost/orgs/${otherOrg}/activate`, { method: "POST", cookies: MODERATOR }),
+                createMockEnv()
+            );
+
+            expect(allowed.status).toBe(200);
+            expect(((await allowed.json()) as { activeOrgId: string }).activeOrgId).toBe(ownOrg);
+            expect(denied.status).toBe(403);
+        });
+    });
+});
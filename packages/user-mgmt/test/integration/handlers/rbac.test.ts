@@ -3,10 +3,42 @@ import { env } from "cloudflare:test";
 import {
     handleListRoles,
     handleCreateRole,
+    handleGetRole,
+    handleUpdateRole,
+    handleDeleteRole,
+    handleGetRolePermissions,
+    handleGrantRolePermission,
+    handleRevokeRolePermission,
     handleListPermissions,
+    handleCreatePermission,
+    handleUpdatePermission,
+    handleDeletePermission,
     handleGetUserRoles,
+    handleExplainUserPermission,
     handleAssignRole,
     handleRemoveRole,
+    handleUnlockUser,
+    handleRevokeUserSessions,
+    handleCreateGroup,
+    handleGetGroup,
+    handleDeleteGroup,
+    handleAddGroupMember,
+    handleRemoveGroupMember,
+    handleAssignGroupRole,
+    handleRemoveGroupRole,
+    handleExportPolicy,
+    handleImportPolicy,
+    handleDeleteUser,
+    handleListRoleGrantRequests,
+    handleApproveRoleGrantRequest,
+    handleRejectRoleGrantRequest,
+    handleListRoleConstraints,
+    handleCreateRoleConstraint,
+    handleDeleteRoleConstraint,
+    handleListRoleConstraintViolations,
+    handleGetAuditLogs,
+    handleVerifyAuditLogs,
+    handleExportAuditLogs,
 } from "../../../src/handlers/rbac";
 import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
 import { createMockEnv, createMockRequest } from "../../helpers/mocks";
@@ -27,6 +59,7 @@ interface PermissionResponse {
 
 interface RolesListResponse {
     roles: RoleResponse[];
+    nextCursor: string | null;
 }
 
 interface PermissionsListResponse {
@@ -37,10 +70,52 @@ interface CreateRoleResponse {
     role: RoleResponse;
 }
 
+interface CreatePermissionResponse {
+    permission: PermissionResponse;
+}
+
 interface MessageResponse {
     message: string;
 }
 
+interface CreateGroupResponse {
+    group: { id: string; name: string };
+}
+
+interface AdminGuardResponse {
+    error: string;
+    code: "LAST_ADMIN" | "SELF_ADMIN_REMOVAL";
+    permission: string;
+}
+
+interface RoleGrantResponse {
+    message: string;
+    request: { id: string; status: string; userId: number; roleId: string; decidedBy: number | null; note: string | null };
+}
+
+interface RoleConstraintResponse {
+    constraint: { id: string; roles: { id: string; name: string }[] };
+    violations: { constraintId: string; userId: number; username: string }[];
+}
+
+interface RoleConflictResponse {
+    error: string;
+    code: "ROLE_CONFLICT";
+    userId: number;
+    role: { id: string; name: string };
+    conflictingRole: { id: string; name: string };
+}
+
+interface PolicyImportResponse {
+    dryRun: boolean;
+    diff: {
+        permissions: { create: { name: string }[] };
+        roles: { create: { name: string }[] };
+        rolePermissions: { grant: { role: string; permission: string }[] };
+    };
+    affectedUsers: number;
+}
+
 describe("RBAC Handlers Integration Tests", () => {
     beforeAll(async () => {
         await setupTestDatabase();
@@ -75,6 +150,61 @@ describe("RBAC Handlers Integration Tests", () => {
             expect(body.roles.map((r) => r.name)).toContain("SUPER_ADMIN");
             expect(body.roles.map((r) => r.name)).toContain("MEMBER");
         });
+
+        it("should page through roles with the returned cursor", async () => {
+            const listRoles = async (query: string) => {
+                const response = await handleListRoles(
+                    createMockRequest(`http://localhost/rbac/roles${query}`, {
+                        cookies: { cfw_session: "admin-session" },
+                    }),
+                    createMockEnv()
+                );
+                return (await response.json()) as RolesListResponse;
+            };
+            const all = await listRoles("");
+
+            const ids: string[] = [];
+            let page = await listRoles("?limit=2&cursor=");
+            for (;;) {
+                ids.push(...page.roles.map((r) => r.id));
+                if (!page.nextCursor) {
+                    break;
+                }
+                page = await listRoles(`?limit=2&cursor=${page.nextCursor}`);
+            }
+
+            expect([...ids].sort()).toEqual(all.roles.map((r) => r.id).sort());
+            expect(new Set(ids).size).toBe(ids.length);
+        });
+
+        it("should keep ordering roles by name when paging by offset", async () => {
+            const listNames = async (query: string) => {
+                const response = await handleListRoles(
+                    createMockRequest(`http://localhost/rbac/roles${query}`, {
+                        cookies: { cfw_session: "admin-session" },
+                    }),
+                    createMockEnv()
+                );
+                const body = (await response.json()) as RolesListResponse;
+                expect(body.nextCursor).toBeNull();
+                return body.roles.map((r) => r.name);
+            };
+            const all = await listNames("");
+
+            expect(all).toEqual([...all].sort());
+            expect(await listNames("?limit=2&offset=2")).toEqual(all.slice(2, 4));
+        });
+
+        it("should return 400 for a malformed cursor", async () => {
+            const response = await handleListRoles(
+                createMockRequest("http://localhost/rbac/roles?cursor=not-a-cursor", {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(400);
+        });
     });
 
     describe("handleCreateRole()", () => {
@@ -236,6 +366,70 @@ describe("RBAC Handlers Integration Tests", () => {
         });
     });
 
+    describe("handleExplainUserPermission()", () => {
+        it("should return 403 without roles:read", async () => {
+            const response = await handleExplainUserPermission(
+                createMockRequest(`http://localhost/rbac/users/${USER_IDS.member}/permissions/explain?permission=users:read`, {
+                    cookies: { cfw_session: "member-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should require the permission query parameter", async () => {
+            const response = await handleExplainUserPermission(
+                createMockRequest(`http://localhost/rbac/users/${USER_IDS.member}/permissions/explain`, {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(400);
+        });
+
+        it("should return 404 for a non-existent user", async () => {
+            const response = await handleExplainUserPermission(
+                createMockRequest("http://localhost/rbac/users/99999/permissions/explain?permission=users:read", {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(404);
+        });
+
+        it("should explain why a user lacks a permission", async () => {
+            const response = await handleExplainUserPermission(
+                createMockRequest(`http://localhost/rbac/users/${USER_IDS.member}/permissions/explain?permission=users:write`, {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as { granted: boolean; reason: string; permissions: string[] };
+            expect(body.granted).toBe(false);
+            expect(body.reason).toBe("NOT_GRANTED");
+            expect(body.permissions).toContain("users:read");
+        });
+
+        it("should show the role that grants a permission", async () => {
+            const response = await handleExplainUserPermission(
+                createMockRequest(`http://localhost/rbac/users/${USER_IDS.moderator}/permissions/explain?permission=users:write`, {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as { granted: boolean; grants: { role: { id: string } }[] };
+            expect(body.granted).toBe(true);
+            expect(body.grants.map(g => g.role.id)).toContain(ROLE_IDS.MODERATOR);
+        });
+    });
+
     describe("handleAssignRole()", () => {
         it("should return 403 when RBAC is disabled", async () => {
             const mockEnv = createMockEnv({ RBAC_ENABLED: "false" });
@@ -438,4 +632,1639 @@ describe("RBAC Handlers Integration Tests", () => {
             expect(response.status).toBe(400);
         });
     });
+
+    describe("handleUnlockUser()", () => {
+        it("should return 401 when no session cookie", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(
+                `http://localhost/rbac/users/${USER_IDS.noRoles}/unlock`,
+                { method: "POST" }
+            );
+
+            const response = await handleUnlockUser(request, mockEnv);
+
+            expect(response.status).toBe(401);
+        });
+
+        it("should return 403 when user lacks users:write permission", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(
+                `http://localhost/rbac/users/${USER_IDS.noRoles}/unlock`,
+                {
+                    method: "POST",
+                    cookies: { cfw_session: "member-session" },
+                }
+            );
+
+            const response = await handleUnlockUser(request, mockEnv);
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should return 404 for a non-existent user", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(
+                "http://localhost/rbac/users/99999/unlock",
+                {
+                    method: "POST",
+                    cookies: { cfw_session: "moderator-session" },
+                }
+            );
+
+            const response = await handleUnlockUser(request, mockEnv);
+
+            expect(response.status).toBe(404);
+        });
+
+        it("should unlock the user and record an audit event", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(
+                `http://localhost/rbac/users/${USER_IDS.noRoles}/unlock`,
+                {
+                    method: "POST",
+                    cookies: { cfw_session: "moderator-session" },
+                }
+            );
+
+            const response = await handleUnlockUser(request, mockEnv);
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as MessageResponse;
+            expect(body.message).toBe("User unlocked successfully");
+
+            const db = env.usersDB as D1Database;
+            const auditEntry = await db
+                .prepare("SELECT action, target_id FROM audit_logs WHERE action = 'ACCOUNT_UNLOCKED' ORDER BY timestamp DESC LIMIT 1")
+                .first<{ action: string; target_id: string }>();
+            expect(auditEntry?.target_id).toBe(String(USER_IDS.noRoles));
+        });
+    });
+
+    describe("handleRevokeUserSessions()", () => {
+        it("should return 403 when user lacks users:write permission", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(
+                `http://localhost/rbac/users/${USER_IDS.noRoles}/sessions/revoke`,
+                {
+                    method: "POST",
+                    cookies: { cfw_session: "member-session" },
+                }
+            );
+
+            const response = await handleRevokeUserSessions(request, mockEnv);
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should return 404 for a non-existent user", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(
+                "http://localhost/rbac/users/99999/sessions/revoke",
+                {
+                    method: "POST",
+                    cookies: { cfw_session: "moderator-session" },
+                }
+            );
+
+            const response = await handleRevokeUserSessions(request, mockEnv);
+
+            expect(response.status).toBe(404);
+        });
+
+        it("should revoke the user's sessions and record an audit event", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(
+                `http://localhost/rbac/users/${USER_IDS.noRoles}/sessions/revoke`,
+                {
+                    method: "POST",
+                    cookies: { cfw_session: "moderator-session" },
+                }
+            );
+
+            const response = await handleRevokeUserSessions(request, mockEnv);
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as MessageResponse;
+            expect(body.message).toBe("User sessions revoked successfully");
+
+            const db = env.usersDB as D1Database;
+            const auditEntry = await db
+                .prepare("SELECT action, target_id FROM audit_logs WHERE action = 'SESSIONS_REVOKED' ORDER BY timestamp DESC LIMIT 1")
+                .first<{ action: string; target_id: string }>();
+            expect(auditEntry?.target_id).toBe(String(USER_IDS.noRoles));
+        });
+    });
+
+    describe("handleGetRole()", () => {
+        it("should return 403 when user lacks roles:read permission", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MEMBER}`, {
+                cookies: { cfw_session: "member-session" },
+            });
+
+            const response = await handleGetRole(request, mockEnv);
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should return the role with its permissions", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MODERATOR}`, {
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleGetRole(request, mockEnv);
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as { role: RoleResponse; permissions: PermissionResponse[] };
+            expect(body.role.name).toBe("MODERATOR");
+            expect(body.permissions.map(p => p.name)).toEqual(["users:read", "users:write"]);
+        });
+
+        it("should return 404 for a non-existent role", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest("http://localhost/rbac/roles/no-such-role", {
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleGetRole(request, mockEnv);
+
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe("handleUpdateRole()", () => {
+        it("should return 403 when user lacks roles:write permission", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MODERATOR}`, {
+                method: "PUT",
+                body: { description: "Updated" },
+                cookies: { cfw_session: "member-session" },
+            });
+
+            const response = await handleUpdateRole(request, mockEnv);
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should refuse to rename a built-in role", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MEMBER}`, {
+                method: "PUT",
+                body: { name: "BASIC" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleUpdateRole(request, mockEnv);
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should return 409 when the new name is taken", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MODERATOR}`, {
+                method: "PUT",
+                body: { name: "MEMBER" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleUpdateRole(request, mockEnv);
+
+            expect(response.status).toBe(409);
+        });
+
+        it("should update the role and record an audit event", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MODERATOR}`, {
+                method: "PUT",
+                body: { description: "Moderates content" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleUpdateRole(request, mockEnv);
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as CreateRoleResponse;
+            expect(body.role.description).toBe("Moderates content");
+
+            const db = env.usersDB as D1Database;
+            const auditEntry = await db
+                .prepare("SELECT target_id FROM audit_logs WHERE action = 'ROLE_UPDATED' ORDER BY timestamp DESC LIMIT 1")
+                .first<{ target_id: string }>();
+            expect(auditEntry?.target_id).toBe(ROLE_IDS.MODERATOR);
+        });
+    });
+
+    describe("handleGrantRolePermission() / handleRevokeRolePermission()", () => {
+        it("should refuse to change SUPER_ADMIN permissions", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.SUPER_ADMIN}/permissions`, {
+                method: "DELETE",
+                body: { permissionName: "users:read" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleRevokeRolePermission(request, mockEnv);
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should grant and revoke a permission by name", async () => {
+            const mockEnv = createMockEnv();
+            const grantRequest = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MEMBER}/permissions`, {
+                method: "POST",
+                body: { permissionName: "roles:read" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const grantResponse = await handleGrantRolePermission(grantRequest, mockEnv);
+            expect(grantResponse.status).toBe(201);
+
+            const listResponse = await handleGetRolePermissions(
+                createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MEMBER}/permissions`, {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            const listBody = (await listResponse.json()) as PermissionsListResponse;
+            expect(listBody.permissions.map(p => p.name)).toContain("roles:read");
+
+            const revokeRequest = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MEMBER}/permissions`, {
+                method: "DELETE",
+                body: { permissionName: "roles:read" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const revokeResponse = await handleRevokeRolePermission(revokeRequest, mockEnv);
+            expect(revokeResponse.status).toBe(200);
+
+            const db = env.usersDB as D1Database;
+            const auditEntries = await db
+                .prepare("SELECT action FROM audit_logs WHERE action IN ('ROLE_PERMISSION_GRANTED', 'ROLE_PERMISSION_REVOKED') AND target_id = ?")
+                .bind(ROLE_IDS.MEMBER)
+                .all<{ action: string }>();
+            expect(auditEntries.results).toHaveLength(2);
+        });
+
+        it("should return 404 when revoking a permission the role doesn't have", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MEMBER}/permissions`, {
+                method: "DELETE",
+                body: { permissionName: "roles:write" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleRevokeRolePermission(request, mockEnv);
+
+            expect(response.status).toBe(404);
+        });
+    });
+
+    describe("handleDeleteRole()", () => {
+        it("should refuse to delete a built-in role", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.SUPER_ADMIN}`, {
+                method: "DELETE",
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleDeleteRole(request, mockEnv);
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should delete a role and remove it from its users", async () => {
+            const mockEnv = createMockEnv();
+            const db = env.usersDB as D1Database;
+            await db.prepare("INSERT INTO roles (id, name, description) VALUES ('role-temporary', 'TEMPORARY', 'Temporary role')").run();
+            await db.prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, 'role-temporary')").bind(USER_IDS.noRoles).run();
+
+            const request = createMockRequest("http://localhost/rbac/roles/role-temporary", {
+                method: "DELETE",
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleDeleteRole(request, mockEnv);
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as { affectedUsers: number };
+            expect(body.affectedUsers).toBe(1);
+
+            const remaining = await db
+                .prepare("SELECT COUNT(*) as count FROM user_roles WHERE role_id = 'role-temporary'")
+                .first<{ count: number }>();
+            expect(remaining?.count).toBe(0);
+        });
+    });
+
+    describe("handleCreatePermission()", () => {
+        it("should return 403 when user lacks permissions:write permission", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest("http://localhost/rbac/permissions", {
+                method: "POST",
+                body: { name: "reports:read" },
+                cookies: { cfw_session: "member-session" },
+            });
+
+            const response = await handleCreatePermission(request, mockEnv);
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should reject names that are not in resource:action form", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest("http://localhost/rbac/permissions", {
+                method: "POST",
+                body: { name: "Reports Read" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleCreatePermission(request, mockEnv);
+
+            expect(response.status).toBe(400);
+        });
+
+        it("should return 409 when the permission already exists", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest("http://localhost/rbac/permissions", {
+                method: "POST",
+                body: { name: "users:read" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleCreatePermission(request, mockEnv);
+
+            expect(response.status).toBe(409);
+        });
+
+        it("should create the permission and record an audit event", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest("http://localhost/rbac/permissions", {
+                method: "POST",
+                body: { name: "reports:read", description: "View reports" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleCreatePermission(request, mockEnv);
+
+            expect(response.status).toBe(201);
+            const body = (await response.json()) as CreatePermissionResponse;
+            expect(body.permission.name).toBe("reports:read");
+
+            const db = env.usersDB as D1Database;
+            const auditEntry = await db
+                .prepare("SELECT target_id FROM audit_logs WHERE action = 'PERMISSION_CREATED' ORDER BY timestamp DESC LIMIT 1")
+                .first<{ target_id: string }>();
+            expect(auditEntry?.target_id).toBe(body.permission.id);
+        });
+    });
+
+    describe("handleUpdatePermission()", () => {
+        it("should refuse to rename a system permission", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest("http://localhost/rbac/permissions/perm-users-read", {
+                method: "PUT",
+                body: { name: "people:read" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleUpdatePermission(request, mockEnv);
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should allow updating a system permission's description", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest("http://localhost/rbac/permissions/perm-users-read", {
+                method: "PUT",
+                body: { description: "Read any user profile" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleUpdatePermission(request, mockEnv);
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as CreatePermissionResponse;
+            expect(body.permission.description).toBe("Read any user profile");
+        });
+    });
+
+    describe("handleDeletePermission()", () => {
+        it("should refuse to delete a system permission", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest("http://localhost/rbac/permissions/perm-users-read", {
+                method: "DELETE",
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleDeletePermission(request, mockEnv);
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should only delete a permission granted to roles when forced", async () => {
+            const mockEnv = createMockEnv();
+            const db = env.usersDB as D1Database;
+            await db.prepare("INSERT INTO permissions (id, name, description) VALUES ('perm-reports-export', 'reports:export', 'Export reports')").run();
+            await db.prepare("INSERT INTO role_permissions (role_id, permission_id) VALUES (?, 'perm-reports-export')").bind(ROLE_IDS.MODERATOR).run();
+
+            const refused = await handleDeletePermission(
+                createMockRequest("http://localhost/rbac/permissions/perm-reports-export", {
+                    method: "DELETE",
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            expect(refused.status).toBe(409);
+            const refusedBody = (await refused.json()) as { roleIds: string[] };
+            expect(refusedBody.roleIds).toEqual([ROLE_IDS.MODERATOR]);
+
+            const forced = await handleDeletePermission(
+                createMockRequest("http://localhost/rbac/permissions/perm-reports-export?force=true", {
+                    method: "DELETE",
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            expect(forced.status).toBe(200);
+
+            const remaining = await db
+                .prepare("SELECT COUNT(*) as count FROM role_permissions WHERE permission_id = 'perm-reports-export'")
+                .first<{ count: number }>();
+            expect(remaining?.count).toBe(0);
+
+            const auditEntry = await db
+                .prepare("SELECT target_id FROM audit_logs WHERE action = 'PERMISSION_DELETED' ORDER BY timestamp DESC LIMIT 1")
+                .first<{ target_id: string }>();
+            expect(auditEntry?.target_id).toBe("perm-reports-export");
+        });
+    });
+
+    describe("Role hierarchy", () => {
+        it("should list direct and inherited permissions of a child role", async () => {
+            const mockEnv = createMockEnv();
+            const createResponse = await handleCreateRole(
+                createMockRequest("http://localhost/rbac/roles", {
+                    method: "POST",
+                    body: { name: "JUNIOR_MODERATOR", parentRoleId: ROLE_IDS.MEMBER },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            expect(createResponse.status).toBe(201);
+            const { role } = (await createResponse.json()) as CreateRoleResponse;
+
+            const response = await handleListRoles(
+                createMockRequest("http://localhost/rbac/roles", {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            const body = (await response.json()) as {
+                roles: (RoleResponse & { permissions: string[]; inheritedPermissions: string[] })[];
+            };
+            const listed = body.roles.find(r => r.id === role.id);
+            expect(listed?.permissions).toEqual([]);
+            expect(listed?.inheritedPermissions).toEqual(["users:read"]);
+        });
+
+        it("should return 400 when the new parent would create a cycle", async () => {
+            const mockEnv = createMockEnv();
+            const db = env.usersDB as D1Database;
+            await db.prepare("INSERT INTO roles (id, name, parent_role_id) VALUES ('role-cycle-child', 'CYCLE_CHILD', ?)").bind(ROLE_IDS.MODERATOR).run();
+
+            const request = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MODERATOR}`, {
+                method: "PUT",
+                body: { parentRoleId: "role-cycle-child" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleUpdateRole(request, mockEnv);
+
+            expect(response.status).toBe(400);
+        });
+
+        it("should change the parent and record it in the audit log", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MODERATOR}`, {
+                method: "PUT",
+                body: { parentRoleId: ROLE_IDS.MEMBER },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleUpdateRole(request, mockEnv);
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as { role: RoleResponse & { parentRoleId: string | null } };
+            expect(body.role.parentRoleId).toBe(ROLE_IDS.MEMBER);
+
+            const db = env.usersDB as D1Database;
+            const auditEntry = await db
+                .prepare("SELECT details FROM audit_logs WHERE action = 'ROLE_UPDATED' AND details LIKE '%parentRoleId%' LIMIT 1")
+                .first<{ details: string }>();
+            expect(JSON.parse(auditEntry!.details).changes.parentRoleId).toEqual({ from: null, to: ROLE_IDS.MEMBER });
+        });
+    });
+
+    describe("Scoped role assignments", () => {
+        it("should reject a scope type without a scope ID", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(`http://localhost/rbac/users/${USER_IDS.member}/roles`, {
+                method: "POST",
+                body: { roleId: ROLE_IDS.MODERATOR, scopeType: "project" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleAssignRole(request, mockEnv);
+
+            expect(response.status).toBe(400);
+        });
+
+        it("should assign, list and remove a role on a single resource", async () => {
+            const mockEnv = createMockEnv();
+            const assignResponse = await handleAssignRole(
+                createMockRequest(`http://localhost/rbac/users/${USER_IDS.member}/roles`, {
+                    method: "POST",
+                    body: { roleId: ROLE_IDS.MODERATOR, scopeType: "project", scopeId: "42" },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            expect(assignResponse.status).toBe(200);
+
+            const listResponse = await handleGetUserRoles(
+                createMockRequest(`http://localhost/rbac/users/${USER_IDS.member}/roles`, {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            const listBody = (await listResponse.json()) as {
+                roles: RoleResponse[];
+                scopedRoles: (RoleResponse & { scopeType: string; scopeId: string })[];
+            };
+            expect(listBody.roles.map(r => r.name)).not.toContain("MODERATOR");
+            expect(listBody.scopedRoles).toEqual([
+                expect.objectContaining({ id: ROLE_IDS.MODERATOR, scopeType: "project", scopeId: "42" }),
+            ]);
+
+            const removeResponse = await handleRemoveRole(
+                createMockRequest(
+                    `http://localhost/rbac/users/${USER_IDS.member}/roles/${ROLE_IDS.MODERATOR}?scopeType=project&scopeId=42`,
+                    {
+                        method: "DELETE",
+                        cookies: { cfw_session: "admin-session" },
+                    }
+                ),
+                mockEnv
+            );
+            expect(removeResponse.status).toBe(200);
+
+            const db = env.usersDB as D1Database;
+            const remaining = await db
+                .prepare("SELECT COUNT(*) as count FROM scoped_user_roles WHERE user_id = ?")
+                .bind(USER_IDS.member)
+                .first<{ count: number }>();
+            expect(remaining?.count).toBe(0);
+        });
+    });
+
+    describe("Time-bound role assignments", () => {
+        it("should reject an expiry in the past", async () => {
+            const mockEnv = createMockEnv();
+            const request = createMockRequest(`http://localhost/rbac/users/${USER_IDS.noRoles}/roles`, {
+                method: "POST",
+                body: { roleId: ROLE_IDS.MODERATOR, expiresAt: "2020-01-01T00:00:00Z" },
+                cookies: { cfw_session: "admin-session" },
+            });
+
+            const response = await handleAssignRole(request, mockEnv);
+
+            expect(response.status).toBe(400);
+        });
+
+        it("should assign a role until its expiry and list the expiry", async () => {
+            const mockEnv = createMockEnv();
+            const expiresAt = new Date(Date.now() + 86400_000);
+            expiresAt.setUTCMilliseconds(0);
+
+            const assignResponse = await handleAssignRole(
+                createMockRequest(`http://localhost/rbac/users/${USER_IDS.noRoles}/roles`, {
+                    method: "POST",
+                    body: { roleId: ROLE_IDS.MODERATOR, expiresAt: expiresAt.toISOString() },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            expect(assignResponse.status).toBe(200);
+
+            const listResponse = await handleGetUserRoles(
+                createMockRequest(`http://localhost/rbac/users/${USER_IDS.noRoles}/roles`, {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            const body = (await listResponse.json()) as { roles: (RoleResponse & { expiresAt: string | null })[] };
+            const moderator = body.roles.find(r => r.id === ROLE_IDS.MODERATOR);
+            expect(moderator?.expiresAt).toBe(expiresAt.toISOString());
+        });
+    });
+
+    describe("Groups", () => {
+        async function createGroup(name: string): Promise<string> {
+            const response = await handleCreateGroup(
+                createMockRequest("http://localhost/rbac/groups", {
+                    method: "POST",
+                    body: { name },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+            expect(response.status).toBe(201);
+            return ((await response.json()) as CreateGroupResponse).group.id;
+        }
+
+        it("should return 403 when creating a group without groups:write", async () => {
+            const response = await handleCreateGroup(
+                createMockRequest("http://localhost/rbac/groups", {
+                    method: "POST",
+                    body: { name: "Support" },
+                    cookies: { cfw_session: "moderator-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should return 400 for a body that isn't valid JSON", async () => {
+            const response = await handleCreateGroup(
+                new Request("http://localhost/rbac/groups", {
+                    method: "POST",
+                    body: "{not json",
+                    headers: { "Content-Type": "application/json", Cookie: "cfw_session=admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(400);
+        });
+
+        it("should return 409 for a duplicate group name", async () => {
+            await createGroup("Duplicates");
+
+            const response = await handleCreateGroup(
+                createMockRequest("http://localhost/rbac/groups", {
+                    method: "POST",
+                    body: { name: "Duplicates" },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(409);
+        });
+
+        it("should grant a group's role to its members and show the group as the source", async () => {
+            const mockEnv = createMockEnv();
+            const groupId = await createGroup("Moderation Team");
+
+            const assign = await handleAssignGroupRole(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}/roles`, {
+                    method: "POST",
+                    body: { roleId: ROLE_IDS.MODERATOR },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            const add = await handleAddGroupMember(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}/members`, {
+                    method: "POST",
+                    body: { userId: USER_IDS.noRoles },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            expect(assign.status).toBe(200);
+            expect(add.status).toBe(200);
+
+            const listResponse = await handleGetUserRoles(
+                createMockRequest(`http://localhost/rbac/users/${USER_IDS.noRoles}/roles`, {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            const body = (await listResponse.json()) as { roles: (RoleResponse & { sources: unknown[] })[] };
+            const moderator = body.roles.find(r => r.id === ROLE_IDS.MODERATOR);
+            expect(moderator?.sources).toContainEqual({ type: "group", groupId, groupName: "Moderation Team" });
+
+            const remove = await handleRemoveGroupMember(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}/members/${USER_IDS.noRoles}`, {
+                    method: "DELETE",
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            expect(remove.status).toBe(200);
+        });
+
+        it("should list the group's members and roles", async () => {
+            const mockEnv = createMockEnv();
+            const groupId = await createGroup("Readers");
+            await handleAssignGroupRole(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}/roles`, {
+                    method: "POST",
+                    body: { roleId: ROLE_IDS.MEMBER },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            await handleAddGroupMember(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}/members`, {
+                    method: "POST",
+                    body: { userId: USER_IDS.member },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+
+            const response = await handleGetGroup(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}`, {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as { members: { userId: number }[]; roles: RoleResponse[] };
+            expect(body.members.map(m => m.userId)).toEqual([USER_IDS.member]);
+            expect(body.roles.map(r => r.id)).toEqual([ROLE_IDS.MEMBER]);
+
+            const removeRole = await handleRemoveGroupRole(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}/roles/${ROLE_IDS.MEMBER}`, {
+                    method: "DELETE",
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            expect(removeRole.status).toBe(200);
+            expect(((await removeRole.json()) as { affectedUsers: number }).affectedUsers).toBe(1);
+        });
+
+        it("should return 403 when adding a member without roles:assign", async () => {
+            const groupId = await createGroup("Locked");
+
+            const response = await handleAddGroupMember(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}/members`, {
+                    method: "POST",
+                    body: { userId: USER_IDS.moderator },
+                    cookies: { cfw_session: "moderator-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(403);
+        });
+
+        it("should return 404 for an unknown group, user or role", async () => {
+            const groupId = await createGroup("Lookups");
+
+            const unknownGroup = await handleAddGroupMember(
+                createMockRequest("http://localhost/rbac/groups/non-existent/members", {
+                    method: "POST",
+                    body: { userId: USER_IDS.member },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+            const unknownUser = await handleAddGroupMember(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}/members`, {
+                    method: "POST",
+                    body: { userId: 99999 },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+            const unknownRole = await handleAssignGroupRole(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}/roles`, {
+                    method: "POST",
+                    body: { roleId: "non-existent" },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(unknownGroup.status).toBe(404);
+            expect(unknownUser.status).toBe(404);
+            expect(unknownRole.status).toBe(404);
+        });
+
+        it("should delete a group", async () => {
+            const groupId = await createGroup("Disposable");
+
+            const response = await handleDeleteGroup(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}`, {
+                    method: "DELETE",
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const getResponse = await handleGetGroup(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}`, {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+            expect(getResponse.status).toBe(404);
+        });
+    });
+
+    describe("Policy import/export", () => {
+        const policy = {
+            version: 1,
+            permissions: [{ name: "reports:read", description: "Read reports" }],
+            roles: [{ name: "REPORT_VIEWER", description: "Views reports", permissions: ["reports:read", "users:read"] }],
+        };
+
+        function importRequest(body: unknown, query = "", session = "admin-session"): Request {
+            return createMockRequest(`http://localhost/rbac/policy/import${query}`, {
+                method: "POST",
+                body,
+                cookies: { cfw_session: session },
+            });
+        }
+
+        it("should return 403 without the required permissions", async () => {
+            const exportResponse = await handleExportPolicy(
+                createMockRequest("http://localhost/rbac/policy", { cookies: { cfw_session: "moderator-session" } }),
+                createMockEnv()
+            );
+            const importResponse = await handleImportPolicy(importRequest(policy, "", "moderator-session"), createMockEnv());
+
+            expect(exportResponse.status).toBe(403);
+            expect(importResponse.status).toBe(403);
+        });
+
+        it("should return 400 for a body that isn't valid JSON", async () => {
+            const response = await handleImportPolicy(
+                new Request("http://localhost/rbac/policy/import", {
+                    method: "POST",
+                    body: "{not json",
+                    headers: { "Content-Type": "application/json", Cookie: "cfw_session=admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(400);
+            expect(((await response.json()) as { error: string }).error).toBe("Invalid JSON body");
+        });
+
+        it("should export the configuration", async () => {
+            const response = await handleExportPolicy(
+                createMockRequest("http://localhost/rbac/policy?includeAssignments=true", {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as { version: number; roles: { name: string }[]; assignments: unknown[] };
+            expect(body.version).toBe(1);
+            expect(body.roles.map(r => r.name)).toContain("SUPER_ADMIN");
+            expect(body.assignments).toContainEqual({ username: "admin@test.com", roles: ["SUPER_ADMIN"] });
+        });
+
+        it("should report every problem with an invalid policy", async () => {
+            const response = await handleImportPolicy(
+                importRequest({
+                    version: 1,
+                    permissions: [{ name: "Not A Permission" }],
+                    roles: [{ name: "REPORT_VIEWER", permissions: ["missing:permission"] }, { name: "REPORT_VIEWER" }],
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(400);
+            const body = (await response.json()) as { error: string; details: string[] };
+            expect(body.error).toBe("Invalid policy");
+            expect(body.details).toHaveLength(2);
+        });
+
+        it("should show the changes without applying them on a dry run", async () => {
+            const response = await handleImportPolicy(importRequest(policy, "?dryRun=true"), createMockEnv());
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as PolicyImportResponse;
+            expect(body.dryRun).toBe(true);
+            expect(body.diff.roles.create.map(r => r.name)).toEqual(["REPORT_VIEWER"]);
+            expect(body.diff.rolePermissions.grant).toEqual([
+                { role: "REPORT_VIEWER", permission: "reports:read" },
+                { role: "REPORT_VIEWER", permission: "users:read" },
+            ]);
+            const role = await env.usersDB.prepare("SELECT id FROM roles WHERE name = 'REPORT_VIEWER'").first();
+            expect(role).toBeNull();
+        });
+
+        it("should apply the policy and record it in the audit log", async () => {
+            const response = await handleImportPolicy(importRequest(policy), createMockEnv());
+
+            expect(response.status).toBe(200);
+            expect(((await response.json()) as PolicyImportResponse).dryRun).toBe(false);
+            const role = await env.usersDB.prepare("SELECT id FROM roles WHERE name = 'REPORT_VIEWER'").first();
+            expect(role).not.toBeNull();
+            const log = await env.usersDB
+                .prepare("SELECT COUNT(*) as count FROM audit_logs WHERE action = 'POLICY_IMPORTED' AND actor_id = ?")
+                .bind(USER_IDS.admin)
+                .first<{ count: number }>();
+            expect(log?.count).toBe(1);
+
+            // Importing the same policy again changes nothing
+            const again = await handleImportPolicy(importRequest(policy), createMockEnv());
+            const body = (await again.json()) as PolicyImportResponse;
+            expect(body.diff.roles.create).toEqual([]);
+            expect(body.diff.rolePermissions.grant).toEqual([]);
+        });
+    });
+
+    describe("Admin guardrails", () => {
+        function removeSuperAdmin(userId: number, query = ""): Request {
+            return createMockRequest(`http://localhost/rbac/users/${userId}/roles/${ROLE_IDS.SUPER_ADMIN}${query}`, {
+                method: "DELETE",
+                cookies: { cfw_session: "admin-session" },
+            });
+        }
+
+        it("should refuse to remove SUPER_ADMIN from the last admin", async () => {
+            const response = await handleRemoveRole(removeSuperAdmin(USER_IDS.admin, "?confirm=true"), createMockEnv());
+
+            expect(response.status).toBe(409);
+            const body = (await response.json()) as AdminGuardResponse;
+            expect(body.code).toBe("LAST_ADMIN");
+            expect(body.permission).toBe("admin:all");
+            const assignment = await env.usersDB
+                .prepare("SELECT 1 FROM user_roles WHERE user_id = ? AND role_id = ?")
+                .bind(USER_IDS.admin, ROLE_IDS.SUPER_ADMIN)
+                .first();
+            expect(assignment).not.toBeNull();
+        });
+
+        it("should refuse to delete the last admin", async () => {
+            const response = await handleDeleteUser(
+                createMockRequest(`http://localhost/rbac/users/${USER_IDS.admin}?confirm=true`, {
+                    method: "DELETE",
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(409);
+            expect(((await response.json()) as AdminGuardResponse).code).toBe("LAST_ADMIN");
+        });
+
+        it("should require confirmation before admins remove their own admin:all", async () => {
+            const mockEnv = createMockEnv();
+            await env.usersDB
+                .prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)")
+                .bind(USER_IDS.moderator, ROLE_IDS.SUPER_ADMIN)
+                .run();
+
+            const unconfirmed = await handleRemoveRole(removeSuperAdmin(USER_IDS.admin), mockEnv);
+            expect(unconfirmed.status).toBe(409);
+            expect(((await unconfirmed.json()) as AdminGuardResponse).code).toBe("SELF_ADMIN_REMOVAL");
+
+            const confirmed = await handleRemoveRole(removeSuperAdmin(USER_IDS.admin, "?confirm=true"), mockEnv);
+            expect(confirmed.status).toBe(200);
+
+            // Restore the admin and remove the second one
+            await env.usersDB
+                .prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)")
+                .bind(USER_IDS.admin, ROLE_IDS.SUPER_ADMIN)
+                .run();
+            const removeOther = await handleRemoveRole(removeSuperAdmin(USER_IDS.moderator), createMockEnv());
+            expect(removeOther.status).toBe(200);
+        });
+
+        it("should refuse to remove a group's admin role from the last admins holding it", async () => {
+            const mockEnv = createMockEnv();
+            const createResponse = await handleCreateGroup(
+                createMockRequest("http://localhost/rbac/groups", {
+                    method: "POST",
+                    body: { name: "Admins" },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            const groupId = ((await createResponse.json()) as CreateGroupResponse).group.id;
+            await env.usersDB
+                .prepare("INSERT INTO group_roles (group_id, role_id) VALUES (?, ?)")
+                .bind(groupId, ROLE_IDS.SUPER_ADMIN)
+                .run();
+            await env.usersDB
+                .prepare("INSERT INTO group_members (group_id, user_id) VALUES (?, ?)")
+                .bind(groupId, USER_IDS.moderator)
+                .run();
+            await env.usersDB
+                .prepare("DELETE FROM user_roles WHERE user_id = ? AND role_id = ?")
+                .bind(USER_IDS.admin, ROLE_IDS.SUPER_ADMIN)
+                .run();
+
+            const response = await handleRemoveGroupRole(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}/roles/${ROLE_IDS.SUPER_ADMIN}`, {
+                    method: "DELETE",
+                    cookies: { cfw_session: "moderator-session" },
+                }),
+                mockEnv
+            );
+
+            expect(response.status).toBe(409);
+            expect(((await response.json()) as AdminGuardResponse).code).toBe("LAST_ADMIN");
+
+            // Restore the admin and remove the group
+            await env.usersDB
+                .prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)")
+                .bind(USER_IDS.admin, ROLE_IDS.SUPER_ADMIN)
+                .run();
+            const deleteResponse = await handleDeleteGroup(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}`, {
+                    method: "DELETE",
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            expect(deleteResponse.status).toBe(200);
+        });
+
+        it("should refuse to re-parent the role through which the last admin holds admin:all", async () => {
+            const deputyRoleId = "role-deputy-admin";
+            await env.usersDB.batch([
+                env.usersDB
+                    .prepare("INSERT INTO roles (id, name, description, parent_role_id) VALUES (?, 'DEPUTY_ADMIN', '', ?)")
+                    .bind(deputyRoleId, ROLE_IDS.SUPER_ADMIN),
+                env.usersDB
+                    .prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)")
+                    .bind(USER_IDS.admin, deputyRoleId),
+                env.usersDB
+                    .prepare("DELETE FROM user_roles WHERE user_id = ? AND role_id = ?")
+                    .bind(USER_IDS.admin, ROLE_IDS.SUPER_ADMIN),
+            ]);
+
+            const response = await handleUpdateRole(
+                createMockRequest(`http://localhost/rbac/roles/${deputyRoleId}?confirm=true`, {
+                    method: "PUT",
+                    body: { parentRoleId: null },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(409);
+            expect(((await response.json()) as AdminGuardResponse).code).toBe("LAST_ADMIN");
+            const role = await env.usersDB
+                .prepare("SELECT parent_role_id FROM roles WHERE id = ?")
+                .bind(deputyRoleId)
+                .first<{ parent_role_id: string | null }>();
+            expect(role?.parent_role_id).toBe(ROLE_IDS.SUPER_ADMIN);
+
+            // Restore the admin and remove the role
+            await env.usersDB.batch([
+                env.usersDB
+                    .prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)")
+                    .bind(USER_IDS.admin, ROLE_IDS.SUPER_ADMIN),
+                env.usersDB.prepare("DELETE FROM user_roles WHERE role_id = ?").bind(deputyRoleId),
+                env.usersDB.prepare("DELETE FROM roles WHERE id = ?").bind(deputyRoleId),
+            ]);
+        });
+
+        it("should refuse a policy import that leaves no admin", async () => {
+            const response = await handleImportPolicy(
+                createMockRequest("http://localhost/rbac/policy/import?dryRun=true", {
+                    method: "POST",
+                    body: { version: 1, permissions: [], roles: [], assignments: [{ username: "admin@test.com", roles: [] }] },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(409);
+            expect(((await response.json()) as AdminGuardResponse).code).toBe("LAST_ADMIN");
+        });
+
+        it("should delete a user who isn't the last admin", async () => {
+            const inserted = await env.usersDB
+                .prepare("INSERT INTO User (Username, Password, FirstName, LastName) VALUES (?, ?, ?, ?)")
+                .bind("deleteme@test.com", "hashed_password", "Delete", "Me")
+                .run();
+            const userId = Number(inserted.meta.last_row_id);
+            await env.usersDB
+                .prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)")
+                .bind(userId, ROLE_IDS.MEMBER)
+                .run();
+
+            const forbidden = await handleDeleteUser(
+                createMockRequest(`http://localhost/rbac/users/${userId}`, {
+                    method: "DELETE",
+                    cookies: { cfw_session: "moderator-session" },
+                }),
+                createMockEnv()
+            );
+            expect(forbidden.status).toBe(403);
+
+            const response = await handleDeleteUser(
+                createMockRequest(`http://localhost/rbac/users/${userId}`, {
+                    method: "DELETE",
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const user = await env.usersDB.prepare("SELECT 1 FROM User WHERE UserID = ?").bind(userId).first();
+            const roles = await env.usersDB.prepare("SELECT 1 FROM user_roles WHERE user_id = ?").bind(userId).first();
+            expect(user).toBeNull();
+            expect(roles).toBeNull();
+        });
+    });
+
+    describe("Role approval", () => {
+        const APPROVER_ROLE_ID = "role-approver";
+
+        function requestSuperAdmin(userId: number): Request {
+            return createMockRequest(`http://localhost/rbac/users/${userId}/roles`, {
+                method: "POST",
+                body: { roleId: ROLE_IDS.SUPER_ADMIN },
+                cookies: { cfw_session: "admin-session" },
+            });
+        }
+
+        function decide(requestId: string, action: "approve" | "reject", session: string, body?: unknown): Request {
+            return createMockRequest(`http://localhost/rbac/role-requests/${requestId}/${action}`, {
+                method: "POST",
+                body,
+                cookies: { cfw_session: session },
+            });
+        }
+
+        beforeAll(async () => {
+            // The moderator becomes a second approver
+            await env.usersDB.batch([
+                env.usersDB
+                    .prepare("INSERT INTO roles (id, name, description) VALUES (?, 'APPROVER', 'Approves role requests')")
+                    .bind(APPROVER_ROLE_ID),
+                env.usersDB
+                    .prepare("INSERT INTO role_permissions (role_id, permission_id) VALUES (?, 'perm-roles-approve')")
+                    .bind(APPROVER_ROLE_ID),
+                env.usersDB
+                    .prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)")
+                    .bind(USER_IDS.moderator, APPROVER_ROLE_ID),
+            ]);
+        });
+
+        afterAll(async () => {
+            await env.usersDB.batch([
+                env.usersDB.prepare("DELETE FROM user_roles WHERE role_id = ?").bind(APPROVER_ROLE_ID),
+                env.usersDB.prepare("DELETE FROM role_permissions WHERE role_id = ?").bind(APPROVER_ROLE_ID),
+                env.usersDB.prepare("DELETE FROM roles WHERE id = ?").bind(APPROVER_ROLE_ID),
+                env.usersDB
+                    .prepare("DELETE FROM user_roles WHERE user_id = ? AND role_id = ?")
+                    .bind(USER_IDS.member, ROLE_IDS.SUPER_ADMIN),
+            ]);
+        });
+
+        it("should create a pending request instead of assigning a role that requires approval", async () => {
+            const response = await handleAssignRole(requestSuperAdmin(USER_IDS.member), createMockEnv());
+
+            expect(response.status).toBe(202);
+            const body = (await response.json()) as RoleGrantResponse;
+            expect(body.request.status).toBe("PENDING");
+            const assignment = await env.usersDB
+                .prepare("SELECT 1 FROM user_roles WHERE user_id = ? AND role_id = ?")
+                .bind(USER_IDS.member, ROLE_IDS.SUPER_ADMIN)
+                .first();
+            expect(assignment).toBeNull();
+
+            const duplicate = await handleAssignRole(requestSuperAdmin(USER_IDS.member), createMockEnv());
+            expect(duplicate.status).toBe(409);
+        });
+
+        it("should only let a second approver decide the request", async () => {
+            const list = await handleListRoleGrantRequests(
+                createMockRequest("http://localhost/rbac/role-requests?status=PENDING", {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+            const { requests } = (await list.json()) as { requests: RoleGrantResponse["request"][] };
+            const pending = requests.find(r => r.userId === USER_IDS.member)!;
+
+            const byRequester = await handleApproveRoleGrantRequest(decide(pending.id, "approve", "admin-session"), createMockEnv());
+            expect(byRequester.status).toBe(403);
+            const withoutPermission = await handleApproveRoleGrantRequest(decide(pending.id, "approve", "member-session"), createMockEnv());
+            expect(withoutPermission.status).toBe(403);
+
+            const approved = await handleApproveRoleGrantRequest(
+                decide(pending.id, "approve", "moderator-session", { note: "Covering on-call" }),
+                createMockEnv()
+            );
+            expect(approved.status).toBe(200);
+            const body = (await approved.json()) as RoleGrantResponse;
+            expect(body.request.status).toBe("APPROVED");
+            expect(body.request.decidedBy).toBe(USER_IDS.moderator);
+            expect(body.request.note).toBe("Covering on-call");
+
+            const assignment = await env.usersDB
+                .prepare("SELECT 1 FROM user_roles WHERE user_id = ? AND role_id = ?")
+                .bind(USER_IDS.member, ROLE_IDS.SUPER_ADMIN)
+                .first();
+            expect(assignment).not.toBeNull();
+
+            const again = await handleRejectRoleGrantRequest(decide(pending.id, "reject", "moderator-session"), createMockEnv());
+            expect(again.status).toBe(409);
+
+            const trail = await env.usersDB
+                .prepare("SELECT action FROM audit_logs WHERE details LIKE ? ORDER BY action")
+                .bind(`%${pending.id}%`)
+                .all<{ action: string }>();
+            expect(trail.results.map((row: { action: string }) => row.action)).toEqual(["ROLE_GRANT_APPROVED", "ROLE_GRANT_REQUESTED"]);
+        });
+
+        it("should leave the role unassigned when the request is rejected", async () => {
+            const created = await handleAssignRole(requestSuperAdmin(USER_IDS.noRoles), createMockEnv());
+            const { request } = (await created.json()) as RoleGrantResponse;
+
+            const rejected = await handleRejectRoleGrantRequest(decide(request.id, "reject", "moderator-session"), createMockEnv());
+
+            expect(rejected.status).toBe(200);
+            expect(((await rejected.json()) as RoleGrantResponse).request.status).toBe("REJECTED");
+            const assignment = await env.usersDB
+                .prepare("SELECT 1 FROM user_roles WHERE user_id = ? AND role_id = ?")
+                .bind(USER_IDS.noRoles, ROLE_IDS.SUPER_ADMIN)
+                .first();
+            expect(assignment).toBeNull();
+        });
+
+        it("should refuse to approve an expired request", async () => {
+            const created = await handleAssignRole(requestSuperAdmin(USER_IDS.noRoles), createMockEnv());
+            const { request } = (await created.json()) as RoleGrantResponse;
+            await env.usersDB
+                .prepare("UPDATE role_grant_requests SET request_expires_at = datetime('now', '-1 minute') WHERE id = ?")
+                .bind(request.id)
+                .run();
+
+            const response = await handleApproveRoleGrantRequest(decide(request.id, "approve", "moderator-session"), createMockEnv());
+
+            expect(response.status).toBe(409);
+        });
+
+        it("should require roles:approve to make a role inherit from one that requires approval or grant it admin:all", async () => {
+            const reparent = await handleUpdateRole(
+                createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MEMBER}`, {
+                    method: "PUT",
+                    body: { parentRoleId: ROLE_IDS.SUPER_ADMIN },
+                    cookies: { cfw_session: "role-manager-session" },
+                }),
+                createMockEnv()
+            );
+            const grant = await handleGrantRolePermission(
+                createMockRequest(`http://localhost/rbac/roles/${ROLE_IDS.MEMBER}/permissions`, {
+                    method: "POST",
+                    body: { permissionName: "admin:all" },
+                    cookies: { cfw_session: "role-manager-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(reparent.status).toBe(403);
+            expect(grant.status).toBe(403);
+            const member = await env.usersDB
+                .prepare("SELECT parent_role_id FROM roles WHERE id = ?")
+                .bind(ROLE_IDS.MEMBER)
+                .first<{ parent_role_id: string | null }>();
+            expect(member?.parent_role_id).toBeNull();
+            const adminGrant = await env.usersDB
+                .prepare("SELECT 1 FROM role_permissions WHERE role_id = ? AND permission_id = 'perm-admin-all'")
+                .bind(ROLE_IDS.MEMBER)
+                .first();
+            expect(adminGrant).toBeNull();
+        });
+
+        it("should let a user with roles:approve make a held role inherit from one that requires approval", async () => {
+            await env.usersDB.batch([
+                env.usersDB.prepare("INSERT INTO roles (id, name, description) VALUES ('role-standby-admin', 'STANDBY_ADMIN', '')"),
+                env.usersDB
+                    .prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, 'role-standby-admin')")
+                    .bind(USER_IDS.noRoles),
+            ]);
+
+            const response = await handleUpdateRole(
+                createMockRequest("http://localhost/rbac/roles/role-standby-admin", {
+                    method: "PUT",
+                    body: { parentRoleId: ROLE_IDS.SUPER_ADMIN },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const role = await env.usersDB
+                .prepare("SELECT parent_role_id FROM roles WHERE id = 'role-standby-admin'")
+                .first<{ parent_role_id: string | null }>();
+            expect(role?.parent_role_id).toBe(ROLE_IDS.SUPER_ADMIN);
+
+            await env.usersDB.batch([
+                env.usersDB.prepare("DELETE FROM user_roles WHERE role_id = 'role-standby-admin'"),
+                env.usersDB.prepare("DELETE FROM roles WHERE id = 'role-standby-admin'"),
+            ]);
+        });
+
+        it("should refuse to assign a role that requires approval to a group", async () => {
+            const mockEnv = createMockEnv();
+            const createResponse = await handleCreateGroup(
+                createMockRequest("http://localhost/rbac/groups", {
+                    method: "POST",
+                    body: { name: "Would-be admins" },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+            const groupId = ((await createResponse.json()) as CreateGroupResponse).group.id;
+
+            const response = await handleAssignGroupRole(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}/roles`, {
+                    method: "POST",
+                    body: { roleId: ROLE_IDS.SUPER_ADMIN },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+
+            expect(response.status).toBe(403);
+            await handleDeleteGroup(
+                createMockRequest(`http://localhost/rbac/groups/${groupId}`, {
+                    method: "DELETE",
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                mockEnv
+            );
+        });
+    });
+
+    describe("Role constraints", () => {
+        function createConstraint(session: string, body: unknown): Request {
+            return createMockRequest("http://localhost/rbac/role-constraints", {
+                method: "POST",
+                body,
+                cookies: { cfw_session: session },
+            });
+        }
+
+        afterAll(async () => {
+            await env.usersDB.batch([
+                env.usersDB.prepare("DELETE FROM role_constraints"),
+                env.usersDB
+                    .prepare("DELETE FROM user_roles WHERE user_id = ? AND role_id = ?")
+                    .bind(USER_IDS.member, ROLE_IDS.MODERATOR),
+            ]);
+        });
+
+        it("should create a constraint and refuse invalid or duplicate ones", async () => {
+            const forbidden = await handleCreateRoleConstraint(
+                createConstraint("member-session", { roleId: ROLE_IDS.MEMBER, conflictingRoleId: ROLE_IDS.MODERATOR }),
+                createMockEnv()
+            );
+            expect(forbidden.status).toBe(403);
+
+            const created = await handleCreateRoleConstraint(
+                createConstraint("admin-session", {
+                    roleId: ROLE_IDS.MODERATOR,
+                    conflictingRoleId: ROLE_IDS.MEMBER,
+                    description: "Moderators act for members",
+                }),
+                createMockEnv()
+            );
+            expect(created.status).toBe(201);
+            const body = (await created.json()) as RoleConstraintResponse;
+            expect(body.constraint.roles.map(role => role.name)).toEqual(["MEMBER", "MODERATOR"]);
+            expect(body.violations).toEqual([]);
+
+            const duplicate = await handleCreateRoleConstraint(
+                createConstraint("admin-session", { roleId: ROLE_IDS.MEMBER, conflictingRoleId: ROLE_IDS.MODERATOR }),
+                createMockEnv()
+            );
+            expect(duplicate.status).toBe(409);
+
+            const sameRole = await handleCreateRoleConstraint(
+                createConstraint("admin-session", { roleId: ROLE_IDS.MEMBER, conflictingRoleId: ROLE_IDS.MEMBER }),
+                createMockEnv()
+            );
+            expect(sameRole.status).toBe(400);
+
+            const unknownRole = await handleCreateRoleConstraint(
+                createConstraint("admin-session", { roleId: ROLE_IDS.MEMBER, conflictingRoleId: "no-such-role" }),
+                createMockEnv()
+            );
+            expect(unknownRole.status).toBe(404);
+        });
+
+        it("should refuse an assignment conflicting with a role the user holds, naming that role", async () => {
+            const response = await handleAssignRole(
+                createMockRequest(`http://localhost/rbac/users/${USER_IDS.member}/roles`, {
+                    method: "POST",
+                    body: { roleId: ROLE_IDS.MODERATOR },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(409);
+            const body = (await response.json()) as RoleConflictResponse;
+            expect(body.code).toBe("ROLE_CONFLICT");
+            expect(body.userId).toBe(USER_IDS.member);
+            expect(body.role.name).toBe("MODERATOR");
+            expect(body.conflictingRole.name).toBe("MEMBER");
+            expect(body.error).toContain("MEMBER");
+        });
+
+        it("should refuse a scoped assignment conflicting with a role the user holds globally", async () => {
+            const response = await handleAssignRole(
+                createMockRequest(`http://localhost/rbac/users/${USER_IDS.member}/roles`, {
+                    method: "POST",
+                    body: { roleId: ROLE_IDS.MODERATOR, scopeType: "project", scopeId: "project-1" },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(409);
+            expect(((await response.json()) as RoleConflictResponse).conflictingRole.name).toBe("MEMBER");
+        });
+
+        it("should refuse a parent change that would give a holder of the role both roles", async () => {
+            await env.usersDB.batch([
+                env.usersDB.prepare("INSERT INTO roles (id, name, description) VALUES ('role-helper', 'HELPER', '')"),
+                env.usersDB
+                    .prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, 'role-helper')")
+                    .bind(USER_IDS.member),
+            ]);
+
+            const response = await handleUpdateRole(
+                createMockRequest("http://localhost/rbac/roles/role-helper", {
+                    method: "PUT",
+                    body: { parentRoleId: ROLE_IDS.MODERATOR },
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(409);
+            const body = (await response.json()) as RoleConflictResponse;
+            expect(body.userId).toBe(USER_IDS.member);
+            expect(body.role.name).toBe("MODERATOR");
+            expect(body.conflictingRole.name).toBe("MEMBER");
+            expect((await env.usersDB.prepare("SELECT parent_role_id FROM roles WHERE id = 'role-helper'").first())?.parent_role_id).toBeNull();
+
+            await env.usersDB.prepare("DELETE FROM roles WHERE id = 'role-helper'").run();
+        });
+
+        it("should report users who already hold both roles", async () => {
+            await env.usersDB
+                .prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)")
+                .bind(USER_IDS.member, ROLE_IDS.MODERATOR)
+                .run();
+
+            const response = await handleListRoleConstraintViolations(
+                createMockRequest("http://localhost/rbac/role-constraints/violations", {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as Pick<RoleConstraintResponse, "violations"> & { limit: number; nextCursor: string | null };
+            expect(body.violations.map(violation => violation.userId)).toEqual([USER_IDS.member]);
+            expect(body).toMatchObject({ limit: 100, offset: 0, nextCursor: null });
+        });
+
+        it("should delete a constraint and log its lifecycle", async () => {
+            const list = await handleListRoleConstraints(
+                createMockRequest("http://localhost/rbac/role-constraints", {
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+            const { constraints, nextCursor } = (await list.json()) as {
+                constraints: RoleConstraintResponse["constraint"][];
+                nextCursor: string | null;
+            };
+            expect(constraints).toHaveLength(1);
+            expect(nextCursor).toBeNull();
+
+            const deleteConstraint = () => handleDeleteRoleConstraint(
+                createMockRequest(`http://localhost/rbac/role-constraints/${constraints[0].id}`, {
+                    method: "DELETE",
+                    cookies: { cfw_session: "admin-session" },
+                }),
+                createMockEnv()
+            );
+            expect((await deleteConstraint()).status).toBe(200);
+            expect((await deleteConstraint()).status).toBe(404);
+
+            const trail = await env.usersDB
+                .prepare("SELECT action FROM audit_logs WHERE details LIKE ? ORDER BY action")
+                .bind(`%${constraints[0].id}%`)
+                .all<{ action: string }>();
+            expect(trail.results.map((row: { action: string }) => row.action)).toEqual(["ROLE_CONSTRAINT_CREATED", "ROLE_CONSTRAINT_DELETED"]);
+        });
+    });
+
+    describe("handleGetAuditLogs()", () => {
+        it("should page through entries newest first with the returned cursor", async () => {
+            const getLogs = async (query: string) => {
+                const response = await handleGetAuditLogs(
+                    createMockRequest(`http://localhost/rbac/audit-logs${query}`, {
+                        cookies: { cfw_session: "admin-session" },
+                    }),
+                    createMockEnv()
+                );
+                return (await response.json()) as {
+                    logs: { id: string; timestamp: string }[];
+                    limit: number;
+                    offset: number;
+                    nextCursor: string | null;
+                };
+            };
+            const all = await getLogs("?limit=1000");
+
+            const first = await getLogs("?limit=3");
+            const second = await getLogs(`?limit=3&cursor=${first.nextCursor}`);
+
+            expect([...first.logs, ...second.logs].map(log => log.id)).toEqual(all.logs.slice(0, 6).map(log => log.id));
+            expect(second).toMatchObject({ limit: 3, offset: 0 });
+            expect(all.nextCursor).toBeNull();
+            expect((await getLogs("?limit=3&offset=3")).logs.map(log => log.id)).toEqual(second.logs.map(log => log.id));
+        });
+    });
+
+    describe("Audit log verification", () => {
+        function verify(session: string, query = ""): Request {
+            return createMockRequest(`http://localhost/rbac/audit-logs/verify${query}`, {
+                cookies: { cfw_session: session },
+            });
+        }
+
+        it("should report an intact chain of the entries logged by earlier requests", async () => {
+            const response = await handleVerifyAuditLogs(verify("admin-session"), createMockEnv());
+
+            expect(response.status).toBe(200);
+            const body = (await response.json()) as { valid: boolean; entriesChecked: number; brokenLink: unknown };
+            expect(body.valid).toBe(true);
+            expect(body.entriesChecked).toBeGreaterThan(0);
+            expect(body.brokenLink).toBeNull();
+        });
+
+        it("should require admin:all and valid dates", async () => {
+            expect((await handleVerifyAuditLogs(verify("member-session"), createMockEnv())).status).toBe(403);
+            expect((await handleVerifyAuditLogs(verify("admin-session", "?startDate=yesterday"), createMockEnv())).status).toBe(400);
+        });
+    });
+
+    describe("Audit log export", () => {
+        function exportLogs(session: string, query = ""): Request {
+            return createMockRequest(`http://localhost/rbac/audit-logs/export${query}`, {
+                cookies: { cfw_session: session },
+            });
+        }
+
+        it("should stream the filtered entries as a download and record the export", async () => {
+            const mockEnv = createMockEnv();
+
+            const response = await handleExportAuditLogs(exportLogs("admin-session", "?format=ndjson&action=ROLE_CONSTRAINT_CREATED"), mockEnv);
+
+            expect(response.status).toBe(200);
+            expect(response.headers.get("Content-Type")).toBe("application/x-ndjson");
+            expect(response.headers.get("Content-Disposition")).toMatch(/^attachment; filename="audit-logs-\d{4}-\d{2}-\d{2}\.ndjson"$/);
+            const entries = (await response.text()).trimEnd().split("\n").map(line => JSON.parse(line) as { action: string });
+            expect(entries.length).toBeGreaterThan(0);
+            expect(entries.every(entry => entry.action === "ROLE_CONSTRAINT_CREATED")).toBe(true);
+
+            const exported = await mockEnv.usersDB
+                .prepare("SELECT actor_id, details FROM audit_logs WHERE action = 'AUDIT_LOGS_EXPORTED'")
+                .first<{ actor_id: number; details: string }>();
+            expect(exported?.actor_id).toBe(USER_IDS.admin);
+            expect(JSON.parse(exported!.details)).toEqual({ format: "ndjson", filters: { action: "ROLE_CONSTRAINT_CREATED" } });
+        });
+
+        it("should serve CSV", async () => {
+            const response = await handleExportAuditLogs(exportLogs("admin-session", "?format=csv"), createMockEnv());
+
+            expect(response.headers.get("Content-Type")).toBe("text/csv; charset=utf-8");
+            expect(await response.text()).toMatch(/^id,timestamp,action,/);
+        });
+
+        it("should require admin:all and a known format", async () => {
+            expect((await handleExportAuditLogs(exportLogs("member-session", "?format=csv"), createMockEnv())).status).toBe(403);
+            expect((await handleExportAuditLogs(exportLogs("admin-session"), createMockEnv())).status).toBe(400);
+            expect((await handleExportAuditLogs(exportLogs("admin-session", "?format=xml"), createMockEnv())).status).toBe(400);
+        });
+    });
 });
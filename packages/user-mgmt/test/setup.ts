@@ -12,6 +12,8 @@ const schemaSQL = `
         LastName TEXT,
         ResetToken TEXT,
         ResetTokenTime DATETIME,
+        EmailVerified INTEGER DEFAULT 0,
+        EmailVerifiedAt DATETIME,
         CreatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
     );
 
@@ -19,6 +21,8 @@ const schemaSQL = `
         id TEXT PRIMARY KEY,
         name TEXT NOT NULL UNIQUE,
         description TEXT,
+        parent_role_id TEXT REFERENCES roles(id) ON DELETE SET NULL,
+        requires_approval INTEGER NOT NULL DEFAULT 0,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
 
@@ -33,6 +37,8 @@ const schemaSQL = `
         user_id INTEGER NOT NULL,
         role_id TEXT NOT NULL,
         assigned_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        starts_at DATETIME,
+        expires_at DATETIME,
         PRIMARY KEY (user_id, role_id),
         FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE,
         FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE
@@ -46,6 +52,104 @@ const schemaSQL = `
         FOREIGN KEY (permission_id) REFERENCES permissions(id) ON DELETE CASCADE
     );
 
+    CREATE TABLE IF NOT EXISTS scoped_user_roles (
+        user_id INTEGER NOT NULL,
+        role_id TEXT NOT NULL,
+        scope_type TEXT NOT NULL,
+        scope_id TEXT NOT NULL,
+        assigned_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, role_id, scope_type, scope_id),
+        FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE,
+        FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS organizations (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_by INTEGER REFERENCES User(UserID) ON DELETE SET NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS organization_members (
+        org_id TEXT NOT NULL,
+        user_id INTEGER NOT NULL,
+        joined_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (org_id, user_id),
+        FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS organization_invitations (
+        id TEXT PRIMARY KEY,
+        org_id TEXT NOT NULL,
+        email TEXT NOT NULL,
+        role_id TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        invited_by INTEGER REFERENCES User(UserID) ON DELETE SET NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL,
+        accepted_at DATETIME,
+        FOREIGN KEY (org_id) REFERENCES organizations(id) ON DELETE CASCADE,
+        FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS groups (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS group_members (
+        group_id TEXT NOT NULL,
+        user_id INTEGER NOT NULL,
+        added_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (group_id, user_id),
+        FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS group_roles (
+        group_id TEXT NOT NULL,
+        role_id TEXT NOT NULL,
+        assigned_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (group_id, role_id),
+        FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE,
+        FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS role_grant_requests (
+        id TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        role_id TEXT NOT NULL,
+        scope_type TEXT,
+        scope_id TEXT,
+        starts_at DATETIME,
+        expires_at DATETIME,
+        requested_by INTEGER REFERENCES User(UserID) ON DELETE SET NULL,
+        requested_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        request_expires_at DATETIME NOT NULL,
+        status TEXT NOT NULL DEFAULT 'PENDING',
+        decided_by INTEGER REFERENCES User(UserID) ON DELETE SET NULL,
+        decided_at DATETIME,
+        note TEXT,
+        FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE,
+        FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS role_constraints (
+        id TEXT PRIMARY KEY,
+        role_a_id TEXT NOT NULL,
+        role_b_id TEXT NOT NULL,
+        description TEXT,
+        created_by INTEGER REFERENCES User(UserID) ON DELETE SET NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (role_a_id, role_b_id),
+        CHECK (role_a_id < role_b_id),
+        FOREIGN KEY (role_a_id) REFERENCES roles(id) ON DELETE CASCADE,
+        FOREIGN KEY (role_b_id) REFERENCES roles(id) ON DELETE CASCADE
+    );
+
     CREATE INDEX IF NOT EXISTS idx_user_username ON User(Username);
     CREATE INDEX IF NOT EXISTS idx_user_roles_user_id ON user_roles(user_id);
     CREATE INDEX IF NOT EXISTS idx_user_roles_role_id ON user_roles(role_id);
@@ -61,11 +165,55 @@ const schemaSQL = `
         target_name TEXT,
         details TEXT,
         ip_address TEXT,
-        success INTEGER DEFAULT 1
+        success INTEGER DEFAULT 1,
+        seq INTEGER,
+        prev_hash TEXT,
+        hash TEXT
     );
 
     CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp);
     CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_seq ON audit_logs(seq);
+
+    CREATE TABLE IF NOT EXISTS audit_checkpoints (
+        id TEXT PRIMARY KEY,
+        seq INTEGER NOT NULL,
+        hash TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS user_mfa (
+        user_id INTEGER PRIMARY KEY,
+        totp_secret TEXT NOT NULL,
+        totp_enabled INTEGER DEFAULT 0,
+        totp_last_counter INTEGER,
+        confirmed_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS mfa_backup_codes (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        user_id INTEGER NOT NULL,
+        code_hash TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        used_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS webauthn_credentials (
+        id TEXT PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        public_key TEXT NOT NULL,
+        algorithm INTEGER NOT NULL,
+        sign_count INTEGER DEFAULT 0,
+        transports TEXT,
+        name TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_used_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES User(UserID) ON DELETE CASCADE
+    );
 `;
 
 /**
@@ -80,13 +228,21 @@ const seedDataSQL = `
         ('perm-users-delete', 'users:delete', 'Delete users'),
         ('perm-roles-assign', 'roles:assign', 'Assign roles to users'),
         ('perm-roles-read', 'roles:read', 'View roles and permissions'),
-        ('perm-roles-write', 'roles:write', 'Create and manage roles');
+        ('perm-roles-write', 'roles:write', 'Create and manage roles'),
+        ('perm-permissions-write', 'permissions:write', 'Create, update and delete permissions'),
+        ('perm-orgs-create', 'orgs:create', 'Create organizations'),
+        ('perm-orgs-read', 'orgs:read', 'View an organization and its members'),
+        ('perm-orgs-manage', 'orgs:manage', 'Invite and remove organization members and manage their roles'),
+        ('perm-groups-write', 'groups:write', 'Create and delete groups'),
+        ('perm-roles-approve', 'roles:approve', 'Approve or reject requests for roles that require approval');
 
     -- Insert default roles
-    INSERT INTO roles (id, name, description) VALUES
-        ('role-super-admin', 'SUPER_ADMIN', 'Full system administrator'),
-        ('role-member', 'MEMBER', 'Basic member access'),
-        ('role-moderator', 'MODERATOR', 'Moderator with limited permissions');
+    INSERT INTO roles (id, name, description, requires_approval) VALUES
+        ('role-super-admin', 'SUPER_ADMIN', 'Full system administrator', 1),
+        ('role-member', 'MEMBER', 'Basic member access', 0),
+        ('role-moderator', 'MODERATOR', 'Moderator with limited permissions', 0),
+        ('role-org-admin', 'ORG_ADMIN', 'Organization administrator', 0),
+        ('role-org-member', 'ORG_MEMBER', 'Organization member', 0);
 
     -- Assign permissions to SUPER_ADMIN role (all permissions)
     INSERT INTO role_permissions (role_id, permission_id)
@@ -100,6 +256,14 @@ const seedDataSQL = `
     INSERT INTO role_permissions (role_id, permission_id)
     SELECT 'role-moderator', id FROM permissions WHERE name IN ('users:read', 'users:write');
 
+    -- Assign permissions to ORG_ADMIN role (orgs:read, orgs:manage)
+    INSERT INTO role_permissions (role_id, permission_id)
+    SELECT 'role-org-admin', id FROM permissions WHERE name IN ('orgs:read', 'orgs:manage');
+
+    -- Assign permissions to ORG_MEMBER role (only orgs:read)
+    INSERT INTO role_permissions (role_id, permission_id)
+    SELECT 'role-org-member', id FROM permissions WHERE name = 'orgs:read';
+
     -- Insert test users
     INSERT INTO User (UserID, Username, Password, FirstName, LastName) VALUES
         (1, 'admin@test.com', 'hashed_password', 'Admin', 'User'),
@@ -150,6 +314,19 @@ export async function cleanupTestDatabase(): Promise<void> {
     const db = env.usersDB as D1Database;
 
     await db.prepare("DELETE FROM audit_logs").run();
+    await db.prepare("DELETE FROM audit_checkpoints").run();
+    await db.prepare("DELETE FROM webauthn_credentials").run();
+    await db.prepare("DELETE FROM mfa_backup_codes").run();
+    await db.prepare("DELETE FROM user_mfa").run();
+    await db.prepare("DELETE FROM role_constraints").run();
+    await db.prepare("DELETE FROM role_grant_requests").run();
+    await db.prepare("DELETE FROM group_roles").run();
+    await db.prepare("DELETE FROM group_members").run();
+    await db.prepare("DELETE FROM groups").run();
+    await db.prepare("DELETE FROM organization_invitations").run();
+    await db.prepare("DELETE FROM organization_members").run();
+    await db.prepare("DELETE FROM organizations").run();
+    await db.prepare("DELETE FROM scoped_user_roles").run();
     await db.prepare("DELETE FROM user_roles").run();
     await db.prepare("DELETE FROM role_permissions").run();
     await db.prepare("DELETE FROM roles").run();
@@ -171,6 +348,8 @@ export const TEST_DATA = {
         superAdmin: { id: "role-super-admin", name: "SUPER_ADMIN" },
         member: { id: "role-member", name: "MEMBER" },
         moderator: { id: "role-moderator", name: "MODERATOR" },
+        orgAdmin: { id: "role-org-admin", name: "ORG_ADMIN" },
+        orgMember: { id: "role-org-member", name: "ORG_MEMBER" },
     },
     permissions: {
         adminAll: { id: "perm-admin-all", name: "admin:all" },
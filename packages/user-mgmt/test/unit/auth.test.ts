@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+    hashPassword,
+    comparePassword,
+    needsRehash,
+    timingSafeEqual,
+} from "../../src/auth";
+
+/**
+ * Builds a hash in the legacy `salt:hex` SHA-256 format for migration tests.
+ */
+async function legacyHash(password: string, salt: string): Promise<string> {
+    const data = new TextEncoder().encode(salt + password);
+    const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+    const hashHex = Array.from(new Uint8Array(hashBuffer))
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("");
+    return `${salt}:${hashHex}`;
+}
+
+describe("Password Hashing", () => {
+    describe("hashPassword()", () => {
+        it("should produce a versioned PBKDF2 hash", async () => {
+            const hash = await hashPassword("correct horse", 1000);
+            expect(hash).toMatch(/^\$pbkdf2-sha256\$1000\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/);
+        });
+
+        it("should use a random salt for each hash", async () => {
+            const first = await hashPassword("same password", 1000);
+            const second = await hashPassword("same password", 1000);
+            expect(first).not.toBe(second);
+        });
+    });
+
+    describe("comparePassword()", () => {
+        it("should verify a PBKDF2 hash", async () => {
+            const hash = await hashPassword("s3cret!", 1000);
+            expect(await comparePassword("s3cret!", hash)).toBe(true);
+            expect(await comparePassword("wrong", hash)).toBe(false);
+        });
+
+        it("should verify a legacy salt:hex hash", async () => {
+            const hash = await legacyHash("legacy-pass", "12345678");
+            expect(await comparePassword("legacy-pass", hash)).toBe(true);
+            expect(await comparePassword("other-pass", hash)).toBe(false);
+        });
+
+        it("should reject malformed hashes", async () => {
+            expect(await comparePassword("anything", "")).toBe(false);
+            expect(await comparePassword("anything", "$pbkdf2-sha256$abc$x$y")).toBe(false);
+            expect(await comparePassword("anything", "$unknown$1000$x$y")).toBe(false);
+            expect(await comparePassword("anything", "no-separator")).toBe(false);
+        });
+    });
+
+    describe("needsRehash()", () => {
+        it("should flag legacy hashes", async () => {
+            const hash = await legacyHash("legacy-pass", "12345678");
+            expect(needsRehash(hash, 1000)).toBe(true);
+        });
+
+        it("should flag hashes with fewer iterations than configured", async () => {
+            const hash = await hashPassword("s3cret!", 1000);
+            expect(needsRehash(hash, 2000)).toBe(true);
+            expect(needsRehash(hash, 1000)).toBe(false);
+        });
+
+        it("should not downgrade hashes with more iterations than configured", async () => {
+            const hash = await hashPassword("s3cret!", 2000);
+            expect(needsRehash(hash, 1000)).toBe(false);
+        });
+    });
+
+    describe("timingSafeEqual()", () => {
+        it("should compare byte arrays", () => {
+            expect(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 3]))).toBe(true);
+            expect(timingSafeEqual(new Uint8Array([1, 2, 3]), new Uint8Array([1, 2, 4]))).toBe(false);
+            expect(timingSafeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2, 3]))).toBe(false);
+        });
+    });
+});
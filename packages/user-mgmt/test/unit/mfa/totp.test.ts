@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+    base32Encode,
+    base32Decode,
+    generateTotp,
+    verifyTotp,
+    buildOtpAuthUri,
+    generateTotpSecret,
+} from "../../../src/mfa/totp";
+import {
+    generateBackupCodes,
+    hashBackupCode,
+} from "../../../src/mfa/backup-codes";
+
+/** RFC 6238 Appendix B test secret: ASCII "12345678901234567890" */
+const RFC_SECRET = base32Encode(new TextEncoder().encode("12345678901234567890"));
+
+describe("MFA TOTP Module", () => {
+    describe("base32", () => {
+        it("should round-trip arbitrary bytes", () => {
+            const bytes = new Uint8Array([0, 1, 2, 250, 255, 128, 64]);
+            expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+        });
+
+        it("should encode the RFC 6238 secret", () => {
+            expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+        });
+
+        it("should reject invalid characters", () => {
+            expect(() => base32Decode("ABC1")).toThrow();
+        });
+    });
+
+    describe("generateTotp()", () => {
+        it("should match the RFC 6238 SHA-1 test vectors", async () => {
+            expect(await generateTotp(RFC_SECRET, 59 * 1000, 8)).toBe("94287082");
+            expect(await generateTotp(RFC_SECRET, 1111111109 * 1000, 8)).toBe("07081804");
+            expect(await generateTotp(RFC_SECRET, 1111111111 * 1000, 8)).toBe("14050471");
+            expect(await generateTotp(RFC_SECRET, 1234567890 * 1000, 8)).toBe("89005924");
+            expect(await generateTotp(RFC_SECRET, 2000000000 * 1000, 8)).toBe("69279037");
+        });
+    });
+
+    describe("verifyTotp()", () => {
+        it("should accept the current code and return its counter", async () => {
+            const secret = generateTotpSecret();
+            const now = 1700000000000;
+            const code = await generateTotp(secret, now);
+            expect(await verifyTotp(secret, code, null, now)).toBe(Math.floor(now / 30000));
+        });
+
+        it("should tolerate one step of clock drift", async () => {
+            const secret = generateTotpSecret();
+            const now = 1700000000000;
+            const previous = await generateTotp(secret, now - 30000);
+            expect(await verifyTotp(secret, previous, null, now)).not.toBeNull();
+        });
+
+        it("should reject codes at or before the last used counter", async () => {
+            const secret = generateTotpSecret();
+            const now = 1700000000000;
+            const code = await generateTotp(secret, now);
+            const counter = await verifyTotp(secret, code, null, now);
+            expect(await verifyTotp(secret, code, counter, now)).toBeNull();
+        });
+
+        it("should reject malformed codes", async () => {
+            const secret = generateTotpSecret();
+            expect(await verifyTotp(secret, "abcdef")).toBeNull();
+            expect(await verifyTotp(secret, "12345")).toBeNull();
+        });
+    });
+
+    describe("buildOtpAuthUri()", () => {
+        it("should build an otpauth URI with issuer and account", () => {
+            const uri = buildOtpAuthUri("JBSWY3DPEHPK3PXP", "user@test.com", "Test App");
+            expect(uri.startsWith("otpauth://totp/Test%20App%3Auser%40test.com?")).toBe(true);
+            const params = new URL(uri).searchParams;
+            expect(params.get("secret")).toBe("JBSWY3DPEHPK3PXP");
+            expect(params.get("issuer")).toBe("Test App");
+            expect(params.get("digits")).toBe("6");
+            expect(params.get("period")).toBe("30");
+        });
+    });
+
+    describe("backup codes", () => {
+        it("should generate unique formatted codes", () => {
+            const codes = generateBackupCodes(10);
+            expect(codes).toHaveLength(10);
+            expect(new Set(codes).size).toBe(10);
+            codes.forEach((code) => expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/));
+        });
+
+        it("should hash codes independent of formatting", async () => {
+            expect(await hashBackupCode("ABCDE-FGHIJ")).toBe(await hashBackupCode("abcdefghij"));
+        });
+    });
+});
@@ -3,6 +3,7 @@ import {
     requirePermission,
     requireAnyPermission,
     requireAllPermissions,
+    requireOrgPermission,
     requireAuth,
 } from "../../../src/middleware/rbac";
 import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
@@ -14,6 +15,8 @@ import {
     createMemberSessionData,
 } from "../../helpers/mocks";
 import { RequestWithSession } from "../../../src/middleware/session";
+import { assignScopedRole } from "../../../src/rbac/scopes";
+import { ROLE_IDS, USER_IDS } from "../../helpers/fixtures";
 
 // Mock the audit logging to prevent D1 writes from escaping test isolation
 vi.mock("../../../src/rbac", async (importOriginal) => {
@@ -135,6 +138,84 @@ describe("RBAC Middleware", () => {
         });
     });
 
+    describe("requirePermission() with scopeFrom", () => {
+        it("should allow access through a role assigned on the request's resource", async () => {
+            const env = createMockEnv({ RBAC_ENABLED: "true" });
+            await assignScopedRole(env, USER_IDS.member, ROLE_IDS.MODERATOR, { type: "project", id: "42" });
+            const sessionData = createMemberSessionData({ userId: USER_IDS.member });
+            const middleware = requirePermission("users:write", {
+                scopeFrom: (req) => ({ type: "project", id: new URL(req.url).pathname.split("/")[2] }),
+            });
+
+            const allowed = await middleware(
+                createMockRequestWithSession("http://localhost/projects/42", sessionData) as RequestWithSession,
+                env
+            );
+            const denied = await middleware(
+                createMockRequestWithSession("http://localhost/projects/43", sessionData) as RequestWithSession,
+                env
+            );
+
+            expect(allowed).toBeUndefined();
+            expect(denied?.status).toBe(403);
+        });
+
+        it("should only check global permissions when no scope is extracted", async () => {
+            const env = createMockEnv({ RBAC_ENABLED: "true" });
+            const sessionData = createMemberSessionData({ userId: USER_IDS.member });
+            const middleware = requirePermission("users:write", { scopeFrom: () => null });
+
+            const result = await middleware(
+                createMockRequestWithSession("http://localhost/projects/42", sessionData) as RequestWithSession,
+                env
+            );
+
+            expect(result?.status).toBe(403);
+        });
+    });
+
+    describe("requireOrgPermission()", () => {
+        it("should use the roles held in the organization named by the route", async () => {
+            const env = createMockEnv({ RBAC_ENABLED: "true" });
+            await assignScopedRole(env, USER_IDS.member, ROLE_IDS.ORG_ADMIN, { type: "org", id: "org-a" });
+            await assignScopedRole(env, USER_IDS.member, ROLE_IDS.ORG_MEMBER, { type: "org", id: "org-b" });
+            const sessionData = createMemberSessionData({ userId: USER_IDS.member });
+            const middleware = requireOrgPermission("orgs:manage");
+
+            const adminRequest = createMockRequestWithSession("http://localhost/orgs/org-a", sessionData) as RequestWithSession;
+            adminRequest.params = { orgId: "org-a" };
+            const memberRequest = createMockRequestWithSession("http://localhost/orgs/org-b", sessionData) as RequestWithSession;
+            memberRequest.params = { orgId: "org-b" };
+
+            expect(await middleware(adminRequest, env)).toBeUndefined();
+            expect((await middleware(memberRequest, env))?.status).toBe(403);
+        });
+
+        it("should fall back to the session's active organization", async () => {
+            const env = createMockEnv({ RBAC_ENABLED: "true" });
+            await assignScopedRole(env, USER_IDS.member, ROLE_IDS.ORG_ADMIN, { type: "org", id: "org-c" });
+            const middleware = requireOrgPermission("orgs:manage");
+
+            const active = await middleware(
+                createMockRequestWithSession(
+                    "http://localhost/projects",
+                    createMemberSessionData({ userId: USER_IDS.member, activeOrgId: "org-c" })
+                ) as RequestWithSession,
+                env
+            );
+            const noActive = await middleware(
+                createMockRequestWithSession(
+                    "http://localhost/projects",
+                    createMemberSessionData({ userId: USER_IDS.member })
+                ) as RequestWithSession,
+                env
+            );
+
+            expect(active).toBeUndefined();
+            expect(noActive?.status).toBe(403);
+        });
+    });
+
     describe("requireAnyPermission()", () => {
         it("should return 401 when no session data exists", async () => {
             const env = createMockEnv({ RBAC_ENABLED: "true" });
@@ -309,6 +390,27 @@ describe("RBAC Middleware", () => {
 
             expect(result).toBeUndefined();
         });
+
+        it("should apply wildcard grants to every required permission", async () => {
+            const env = createMockEnv({ RBAC_ENABLED: "true" });
+            const sessionData = createSessionData(["users:*", "*:read"]);
+            const request = createMockRequestWithSession(
+                "http://localhost/test",
+                sessionData
+            );
+
+            const allowed = await requireAllPermissions([
+                "users:write",
+                "roles:read",
+            ])(request as RequestWithSession, env);
+            const denied = await requireAllPermissions([
+                "users:write",
+                "roles:write",
+            ])(request as RequestWithSession, env);
+
+            expect(allowed).toBeUndefined();
+            expect(denied?.status).toBe(403);
+        });
     });
 
     describe("requireAuth()", () => {
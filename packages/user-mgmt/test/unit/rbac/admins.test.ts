@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { getAdminHolderIds } from "../../../src/rbac/admins";
+import { assignRole, createRole, deleteRole, removeRole } from "../../../src/rbac/roles";
+import { createGroup, addGroupMember, assignRoleToGroup, deleteGroup } from "../../../src/rbac/groups";
+import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
+import { createMockEnv } from "../../helpers/mocks";
+import { ROLE_IDS, USER_IDS } from "../../helpers/fixtures";
+
+describe("RBAC Admin Holders Module", () => {
+    beforeAll(async () => {
+        await setupTestDatabase();
+    });
+
+    afterAll(async () => {
+        await cleanupTestDatabase();
+    });
+
+    describe("getAdminHolderIds()", () => {
+        it("should return the users holding admin:all", async () => {
+            expect(await getAdminHolderIds(createMockEnv())).toEqual([USER_IDS.admin]);
+        });
+
+        it("should leave out users who would lose admin:all through a change", async () => {
+            const mockEnv = createMockEnv();
+
+            expect(await getAdminHolderIds(mockEnv, {
+                removeUserRole: { userId: USER_IDS.admin, roleId: ROLE_IDS.SUPER_ADMIN },
+            })).toEqual([]);
+            expect(await getAdminHolderIds(mockEnv, { deleteUser: USER_IDS.admin })).toEqual([]);
+            expect(await getAdminHolderIds(mockEnv, { revokeAdminFromRole: ROLE_IDS.SUPER_ADMIN })).toEqual([]);
+            expect(await getAdminHolderIds(mockEnv, { deleteRole: ROLE_IDS.SUPER_ADMIN })).toEqual([]);
+
+            // Nothing was actually changed
+            expect(await getAdminHolderIds(mockEnv)).toEqual([USER_IDS.admin]);
+        });
+
+        it("should keep users whose role is re-parented to an admin role when its parent is deleted", async () => {
+            const mockEnv = createMockEnv();
+            const middle = await createRole(mockEnv, "ADMIN_MIDDLE", "", ROLE_IDS.SUPER_ADMIN);
+            const leaf = await createRole(mockEnv, "ADMIN_LEAF", "", middle.id);
+            await assignRole(mockEnv, USER_IDS.member, leaf.id);
+
+            expect(await getAdminHolderIds(mockEnv)).toEqual([USER_IDS.admin, USER_IDS.member]);
+            expect(await getAdminHolderIds(mockEnv, { deleteRole: middle.id })).toEqual([USER_IDS.admin, USER_IDS.member]);
+            expect(await getAdminHolderIds(mockEnv, { deleteRole: leaf.id })).toEqual([USER_IDS.admin]);
+
+            await deleteRole(mockEnv, leaf.id);
+            await deleteRole(mockEnv, middle.id);
+        });
+
+        it("should follow a role's new parent when it is re-parented", async () => {
+            const mockEnv = createMockEnv();
+            const deputy = await createRole(mockEnv, "DEPUTY_ADMIN", "", ROLE_IDS.SUPER_ADMIN);
+            const assistant = await createRole(mockEnv, "ASSISTANT_ADMIN", "", deputy.id);
+            await assignRole(mockEnv, USER_IDS.member, assistant.id);
+            await assignRole(mockEnv, USER_IDS.noRoles, ROLE_IDS.MEMBER);
+
+            expect(await getAdminHolderIds(mockEnv, {
+                reparentRole: { roleId: deputy.id, parentRoleId: null },
+            })).toEqual([USER_IDS.admin]);
+            expect(await getAdminHolderIds(mockEnv, {
+                reparentRole: { roleId: ROLE_IDS.MEMBER, parentRoleId: deputy.id },
+            })).toEqual([USER_IDS.admin, USER_IDS.member, USER_IDS.noRoles]);
+
+            await removeRole(mockEnv, USER_IDS.noRoles, ROLE_IDS.MEMBER);
+            await deleteRole(mockEnv, assistant.id);
+            await deleteRole(mockEnv, deputy.id);
+        });
+
+        it("should apply a re-parented role and a deleted role in the same change", async () => {
+            const mockEnv = createMockEnv();
+            const middle = await createRole(mockEnv, "ADMIN_MIDDLE", "", ROLE_IDS.SUPER_ADMIN);
+            const leaf = await createRole(mockEnv, "ADMIN_LEAF", "", middle.id);
+            const standby = await createRole(mockEnv, "STANDBY_ADMIN");
+            await assignRole(mockEnv, USER_IDS.member, leaf.id);
+            await assignRole(mockEnv, USER_IDS.noRoles, standby.id);
+
+            expect(await getAdminHolderIds(mockEnv, {
+                deleteRole: middle.id,
+                reparentRole: { roleId: standby.id, parentRoleId: ROLE_IDS.SUPER_ADMIN },
+            })).toEqual([USER_IDS.admin, USER_IDS.member, USER_IDS.noRoles]);
+            expect(await getAdminHolderIds(mockEnv, {
+                deleteRole: ROLE_IDS.SUPER_ADMIN,
+                reparentRole: { roleId: standby.id, parentRoleId: middle.id },
+            })).toEqual([]);
+
+            await deleteRole(mockEnv, standby.id);
+            await deleteRole(mockEnv, leaf.id);
+            await deleteRole(mockEnv, middle.id);
+        });
+
+        it("should count admin:all granted through a group", async () => {
+            const mockEnv = createMockEnv();
+            const group = await createGroup(mockEnv, "Administrators");
+            await assignRoleToGroup(mockEnv, group.id, ROLE_IDS.SUPER_ADMIN);
+            await addGroupMember(mockEnv, group.id, USER_IDS.noRoles);
+
+            expect(await getAdminHolderIds(mockEnv, {
+                removeUserRole: { userId: USER_IDS.admin, roleId: ROLE_IDS.SUPER_ADMIN },
+            })).toEqual([USER_IDS.noRoles]);
+            expect(await getAdminHolderIds(mockEnv, {
+                removeGroupMember: { groupId: group.id, userId: USER_IDS.noRoles },
+            })).toEqual([USER_IDS.admin]);
+            expect(await getAdminHolderIds(mockEnv, {
+                removeGroupRole: { groupId: group.id, roleId: ROLE_IDS.SUPER_ADMIN },
+            })).toEqual([USER_IDS.admin]);
+            expect(await getAdminHolderIds(mockEnv, { deleteGroup: group.id })).toEqual([USER_IDS.admin]);
+
+            await deleteGroup(mockEnv, group.id);
+        });
+
+        it("should ignore assignments that have expired", async () => {
+            const mockEnv = createMockEnv();
+            await assignRole(mockEnv, USER_IDS.moderator, ROLE_IDS.SUPER_ADMIN, {
+                startsAt: new Date("2020-01-01T00:00:00Z"),
+                expiresAt: new Date("2020-02-01T00:00:00Z"),
+            });
+
+            expect(await getAdminHolderIds(mockEnv)).toEqual([USER_IDS.admin]);
+
+            await removeRole(mockEnv, USER_IDS.moderator, ROLE_IDS.SUPER_ADMIN);
+        });
+    });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+    roleRequiresApproval,
+    createRoleGrantRequest,
+    getRoleGrantRequest,
+    listRoleGrantRequests,
+    decideRoleGrantRequest,
+    expireRoleGrantRequests,
+    cancelUserRoleGrantRequests,
+} from "../../../src/rbac/approvals";
+import { deleteUser } from "../../../src/utils";
+import { createRole, deleteRole, removeRole } from "../../../src/rbac/roles";
+import { getUserPermissionsFromDB } from "../../../src/rbac/permissions";
+import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
+import { createMockEnv } from "../../helpers/mocks";
+import { ROLE_IDS, USER_IDS } from "../../helpers/fixtures";
+
+const TTL_SECONDS = 60 * 60;
+
+describe("RBAC Role Grant Approvals Module", () => {
+    beforeAll(async () => {
+        await setupTestDatabase();
+    });
+
+    afterAll(async () => {
+        await cleanupTestDatabase();
+    });
+
+    describe("roleRequiresApproval()", () => {
+        it("should require approval for flagged roles and roles inheriting from them", async () => {
+            const mockEnv = createMockEnv();
+            const child = await createRole(mockEnv, "DEPUTY_ADMIN", "", ROLE_IDS.SUPER_ADMIN);
+
+            expect(await roleRequiresApproval(mockEnv, ROLE_IDS.SUPER_ADMIN)).toBe(true);
+            expect(await roleRequiresApproval(mockEnv, child.id)).toBe(true);
+            expect(await roleRequiresApproval(mockEnv, ROLE_IDS.MEMBER)).toBe(false);
+
+            await deleteRole(mockEnv, child.id);
+        });
+
+        it("should honour the flag on roles created with it", async () => {
+            const mockEnv = createMockEnv();
+            const role = await createRole(mockEnv, "BILLING_ADMIN", "", undefined, true);
+
+            expect(role.requiresApproval).toBe(true);
+            expect(await roleRequiresApproval(mockEnv, role.id)).toBe(true);
+
+            await deleteRole(mockEnv, role.id);
+        });
+    });
+
+    describe("createRoleGrantRequest()", () => {
+        it("should create a pending request without assigning the role", async () => {
+            const mockEnv = createMockEnv();
+
+            const request = await createRoleGrantRequest(mockEnv, USER_IDS.member, ROLE_IDS.SUPER_ADMIN, USER_IDS.admin, TTL_SECONDS);
+
+            expect(request.status).toBe("PENDING");
+            expect(request.roleName).toBe("SUPER_ADMIN");
+            expect(request.requestedBy).toBe(USER_IDS.admin);
+            expect(request.requestExpiresAt.getTime()).toBeGreaterThan(Date.now());
+            expect(await getUserPermissionsFromDB(mockEnv, USER_IDS.member)).not.toContain("admin:all");
+            expect((await listRoleGrantRequests(mockEnv, "PENDING", 10, 0)).map(r => r.id)).toContain(request.id);
+        });
+
+        it("should refuse a second pending request for the same assignment", async () => {
+            await expect(
+                createRoleGrantRequest(createMockEnv(), USER_IDS.member, ROLE_IDS.SUPER_ADMIN, USER_IDS.admin, TTL_SECONDS)
+            ).rejects.toThrow("DUPLICATE_ROLE_GRANT_REQUEST");
+        });
+    });
+
+    describe("decideRoleGrantRequest()", () => {
+        it("should refuse decisions by the requester or the user receiving the role", async () => {
+            const mockEnv = createMockEnv();
+            const [pending] = await listRoleGrantRequests(mockEnv, "PENDING", 1, 0);
+
+            await expect(decideRoleGrantRequest(mockEnv, pending.id, USER_IDS.admin, true)).rejects.toThrow("ROLE_GRANT_SELF_APPROVAL");
+            await expect(decideRoleGrantRequest(mockEnv, pending.id, USER_IDS.member, true)).rejects.toThrow("ROLE_GRANT_SELF_APPROVAL");
+            expect((await getRoleGrantRequest(mockEnv, pending.id))?.status).toBe("PENDING");
+        });
+
+        it("should assign the role once approved, and only decide a request once", async () => {
+            const mockEnv = createMockEnv();
+            const [pending] = await listRoleGrantRequests(mockEnv, "PENDING", 1, 0);
+
+            const approved = await decideRoleGrantRequest(mockEnv, pending.id, USER_IDS.moderator, true, "Covering on-call");
+
+            expect(approved.status).toBe("APPROVED");
+            expect(approved.decidedBy).toBe(USER_IDS.moderator);
+            expect(approved.note).toBe("Covering on-call");
+            expect(await getUserPermissionsFromDB(mockEnv, USER_IDS.member)).toContain("admin:all");
+            await expect(decideRoleGrantRequest(mockEnv, pending.id, USER_IDS.moderator, false)).rejects.toThrow("ROLE_GRANT_REQUEST_NOT_PENDING");
+
+            await removeRole(mockEnv, USER_IDS.member, ROLE_IDS.SUPER_ADMIN);
+        });
+
+        it("should not assign the role when rejected", async () => {
+            const mockEnv = createMockEnv();
+            const request = await createRoleGrantRequest(mockEnv, USER_IDS.noRoles, ROLE_IDS.SUPER_ADMIN, USER_IDS.admin, TTL_SECONDS);
+
+            const rejected = await decideRoleGrantRequest(mockEnv, request.id, USER_IDS.moderator, false);
+
+            expect(rejected.status).toBe("REJECTED");
+            expect(await getUserPermissionsFromDB(mockEnv, USER_IDS.noRoles)).toEqual([]);
+        });
+
+        it("should throw for unknown requests", async () => {
+            await expect(decideRoleGrantRequest(createMockEnv(), "no-such-request", USER_IDS.moderator, true))
+                .rejects.toThrow("ROLE_GRANT_REQUEST_NOT_FOUND");
+        });
+    });
+
+    describe("expireRoleGrantRequests()", () => {
+        it("should expire pending requests that weren't decided in time and log each", async () => {
+            const mockEnv = createMockEnv();
+            const request = await createRoleGrantRequest(mockEnv, USER_IDS.moderator, ROLE_IDS.SUPER_ADMIN, USER_IDS.admin, TTL_SECONDS);
+            await mockEnv.usersDB
+                .prepare("UPDATE role_grant_requests SET request_expires_at = datetime('now', '-1 minute') WHERE id = ?")
+                .bind(request.id)
+                .run();
+
+            await expect(decideRoleGrantRequest(mockEnv, request.id, USER_IDS.member, true)).rejects.toThrow("ROLE_GRANT_REQUEST_NOT_PENDING");
+            expect(await expireRoleGrantRequests(mockEnv)).toBe(1);
+            expect((await getRoleGrantRequest(mockEnv, request.id))?.status).toBe("EXPIRED");
+            expect(await expireRoleGrantRequests(mockEnv)).toBe(0);
+
+            const auditEntry = await mockEnv.usersDB
+                .prepare("SELECT actor_username as actorUsername FROM audit_logs WHERE action = 'ROLE_GRANT_EXPIRED' AND details LIKE ?")
+                .bind(`%${request.id}%`)
+                .first<{ actorUsername: string }>();
+            expect(auditEntry?.actorUsername).toBe("SYSTEM");
+        });
+    });
+
+    describe("cancelUserRoleGrantRequests()", () => {
+        it("should cancel the requests a deleted user made or would receive, so deletion leaves none pending", async () => {
+            const mockEnv = createMockEnv();
+            const leaverId = 90;
+            await mockEnv.usersDB
+                .prepare("INSERT INTO User (UserID, Username, Password, FirstName, LastName) VALUES (?, 'leaver@test.com', 'x', 'Leaving', 'User')")
+                .bind(leaverId)
+                .run();
+            const made = await createRoleGrantRequest(mockEnv, USER_IDS.noRoles, ROLE_IDS.SUPER_ADMIN, leaverId, TTL_SECONDS);
+            const received = await createRoleGrantRequest(mockEnv, leaverId, ROLE_IDS.SUPER_ADMIN, USER_IDS.admin, TTL_SECONDS);
+
+            expect(await cancelUserRoleGrantRequests(mockEnv, leaverId, USER_IDS.admin, "admin@test.com")).toBe(2);
+            await deleteUser(mockEnv, leaverId);
+
+            const cancelled = await getRoleGrantRequest(mockEnv, made.id);
+            expect(cancelled).toMatchObject({ status: "CANCELLED", requestedBy: null, decidedBy: USER_IDS.admin });
+            await expect(decideRoleGrantRequest(mockEnv, made.id, USER_IDS.moderator, true)).rejects.toThrow("ROLE_GRANT_REQUEST_NOT_PENDING");
+            expect(await getRoleGrantRequest(mockEnv, received.id)).toBeNull();
+
+            const auditEntries = await mockEnv.usersDB
+                .prepare("SELECT COUNT(*) as count FROM audit_logs WHERE action = 'ROLE_GRANT_CANCELLED' AND (details LIKE ? OR details LIKE ?)")
+                .bind(`%${made.id}%`, `%${received.id}%`)
+                .first<{ count: number }>();
+            expect(auditEntries?.count).toBe(2);
+        });
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import { verifyAuditChain, createAuditCheckpoint, getLatestAuditCheckpoint } from "../../../src/rbac/audit-chain";
+import { logAuditEvent, getAuditLogs } from "../../../src/rbac/audit";
+import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
+import { createMockEnv } from "../../helpers/mocks";
+import { USER_IDS, USERNAMES } from "../../helpers/fixtures";
+
+const SECRET = "test-checkpoint-secret";
+
+async function logEvents(count: number): Promise<void> {
+    const mockEnv = createMockEnv();
+    for (let i = 0; i < count; i++) {
+        await logAuditEvent(mockEnv, {
+            action: "ROLE_ASSIGNED",
+            actorId: USER_IDS.admin,
+            actorUsername: USERNAMES.admin,
+            targetType: "USER",
+            targetId: USER_IDS.member.toString(),
+            details: JSON.stringify({ index: i }),
+        });
+    }
+}
+
+describe("RBAC Audit Log Hash Chain Module", () => {
+    beforeAll(async () => {
+        await setupTestDatabase();
+    });
+
+    beforeEach(async () => {
+        const mockEnv = createMockEnv();
+        await mockEnv.usersDB.batch([
+            mockEnv.usersDB.prepare("DELETE FROM audit_logs"),
+            mockEnv.usersDB.prepare("DELETE FROM audit_checkpoints"),
+        ]);
+    });
+
+    afterAll(async () => {
+        await cleanupTestDatabase();
+    });
+
+    describe("logAuditEvent()", () => {
+        it("should link each entry to the previous one and return the hashes", async () => {
+            await logEvents(3);
+
+            const logs = (await getAuditLogs(createMockEnv())).sort((a, b) => a.sequence! - b.sequence!);
+
+            expect(logs.map(log => log.sequence)).toEqual([1, 2, 3]);
+            expect(logs[0].previousHash).toBeNull();
+            expect(logs[1].previousHash).toBe(logs[0].hash);
+            expect(logs[2].previousHash).toBe(logs[1].hash);
+            expect(logs[2].hash).toMatch(/^[0-9a-f]{64}$/);
+        });
+
+        it("should keep the chain intact when entries are logged concurrently", async () => {
+            const mockEnv = createMockEnv();
+
+            await Promise.all([1, 2, 3].map(index =>
+                logAuditEvent(mockEnv, { action: "USER_DELETED", targetType: "USER", targetId: String(index) })
+            ));
+
+            const verification = await verifyAuditChain(mockEnv, null);
+            expect(verification).toMatchObject({ valid: true, entriesChecked: 3, lastSequence: 3 });
+        });
+    });
+
+    describe("verifyAuditChain()", () => {
+        it("should report an edited entry", async () => {
+            await logEvents(3);
+            const mockEnv = createMockEnv();
+            await mockEnv.usersDB.prepare("UPDATE audit_logs SET details = '{}' WHERE seq = 2").run();
+
+            const verification = await verifyAuditChain(mockEnv, null);
+
+            expect(verification.valid).toBe(false);
+            expect(verification.brokenLink).toMatchObject({ sequence: 2, reason: "HASH_MISMATCH" });
+            expect(verification.entriesChecked).toBe(1);
+        });
+
+        it("should report a deleted entry", async () => {
+            await logEvents(3);
+            const mockEnv = createMockEnv();
+            await mockEnv.usersDB.prepare("DELETE FROM audit_logs WHERE seq = 2").run();
+
+            const verification = await verifyAuditChain(mockEnv, null);
+
+            expect(verification.brokenLink).toEqual({ sequence: 2, entryId: null, reason: "MISSING_ENTRY" });
+        });
+
+        it("should only walk entries in the date range", async () => {
+            await logEvents(2);
+            const mockEnv = createMockEnv();
+            await mockEnv.usersDB.prepare("UPDATE audit_logs SET timestamp = datetime('now', '-2 days') WHERE seq = 1").run();
+
+            // The edit breaks the first entry, but it is outside the range and the second still links to its hash
+            const verification = await verifyAuditChain(mockEnv, null, { startDate: new Date(Date.now() - 60 * 60 * 1000) });
+
+            expect(verification).toMatchObject({ valid: true, entriesChecked: 1, firstSequence: 2 });
+            expect((await verifyAuditChain(mockEnv, null)).brokenLink?.reason).toBe("HASH_MISMATCH");
+        });
+    });
+
+    describe("createAuditCheckpoint()", () => {
+        it("should sign the chain's head, and only once the chain has grown", async () => {
+            await logEvents(2);
+            const mockEnv = createMockEnv();
+
+            const checkpoint = await createAuditCheckpoint(mockEnv, SECRET, 0);
+
+            expect(checkpoint).toMatchObject({ sequence: 2 });
+            expect(await getLatestAuditCheckpoint(mockEnv)).toEqual(checkpoint);
+            expect(await createAuditCheckpoint(mockEnv, SECRET, 0)).toBeNull();
+            await logEvents(1);
+            expect(await createAuditCheckpoint(mockEnv, SECRET, 3600)).toBeNull();
+            expect(await verifyAuditChain(mockEnv, SECRET)).toMatchObject({ valid: true, checkpointsChecked: 1 });
+        });
+
+        it("should detect entries removed from the end of the chain", async () => {
+            await logEvents(3);
+            const mockEnv = createMockEnv();
+            await createAuditCheckpoint(mockEnv, SECRET, 0);
+            await mockEnv.usersDB.prepare("DELETE FROM audit_logs WHERE seq = 3").run();
+
+            expect((await verifyAuditChain(mockEnv, null)).valid).toBe(true);
+            expect((await verifyAuditChain(mockEnv, SECRET)).brokenLink).toEqual({ sequence: 3, entryId: null, reason: "MISSING_ENTRY" });
+        });
+
+        it("should detect a checkpoint that wasn't signed with the secret", async () => {
+            await logEvents(1);
+            const mockEnv = createMockEnv();
+            await createAuditCheckpoint(mockEnv, "another-secret", 0);
+
+            expect((await verifyAuditChain(mockEnv, SECRET)).brokenLink?.reason).toBe("INVALID_CHECKPOINT_SIGNATURE");
+        });
+
+        it("should refuse to sign a broken chain", async () => {
+            await logEvents(2);
+            const mockEnv = createMockEnv();
+            await mockEnv.usersDB.prepare("UPDATE audit_logs SET action = 'USER_DELETED' WHERE seq = 1").run();
+
+            expect(await createAuditCheckpoint(mockEnv, SECRET, 0)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createAuditLogExportStream } from "../../../src/rbac/audit-export";
+import { logAuditEvent } from "../../../src/rbac/audit";
+import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
+import { createMockEnv } from "../../helpers/mocks";
+import { USER_IDS, USERNAMES } from "../../helpers/fixtures";
+
+const BULK_ENTRIES = 1200;
+
+describe("RBAC Audit Log Export Module", () => {
+    beforeAll(async () => {
+        await setupTestDatabase();
+        const mockEnv = createMockEnv();
+
+        // More entries than fit in one page, all with the same timestamp, so pages must be split by ID
+        await mockEnv.usersDB
+            .prepare(`
+                INSERT INTO audit_logs (id, timestamp, action, target_type, target_id)
+                WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < ?)
+                SELECT printf('bulk-%05d', i), '2020-01-01 00:00:00', 'USER_DELETED', 'USER', CAST(i AS TEXT) FROM n
+            `)
+            .bind(BULK_ENTRIES)
+            .run();
+
+        await logAuditEvent(mockEnv, {
+            action: "ROLE_CREATED",
+            actorId: USER_IDS.admin,
+            actorUsername: USERNAMES.admin,
+            targetType: "ROLE",
+            targetId: "role-formula",
+            targetName: "=HYPERLINK(\"http://example.com\")",
+            details: JSON.stringify({ description: "Line one\nline, two" }),
+        });
+    });
+
+    afterAll(async () => {
+        await cleanupTestDatabase();
+    });
+
+    it("should export every matching entry as NDJSON, oldest first, across pages", async () => {
+        const text = await new Response(createAuditLogExportStream(createMockEnv(), {}, "ndjson")).text();
+
+        const entries = text.trimEnd().split("\n").map(line => JSON.parse(line) as { id: string; action: string });
+        expect(entries).toHaveLength(BULK_ENTRIES + 1);
+        expect(new Set(entries.map(entry => entry.id)).size).toBe(BULK_ENTRIES + 1);
+        expect(entries[0].id).toBe("bulk-00001");
+        expect(entries[BULK_ENTRIES].action).toBe("ROLE_CREATED");
+    });
+
+    it("should apply the filters", async () => {
+        const text = await new Response(
+            createAuditLogExportStream(createMockEnv(), { action: "ROLE_CREATED", startDate: new Date("2021-01-01") }, "ndjson")
+        ).text();
+
+        expect(text.trimEnd().split("\n")).toHaveLength(1);
+    });
+
+    it("should export CSV with a header row, escaping and defusing formulas", async () => {
+        const text = await new Response(createAuditLogExportStream(createMockEnv(), { targetType: "ROLE" }, "csv")).text();
+
+        const [header, row] = text.split("\r\n");
+        expect(header).toBe("id,timestamp,action,actorId,actorUsername,targetType,targetId,targetName,details,ipAddress,success,sequence,previousHash,hash");
+        expect(row).toContain(`,"'=HYPERLINK(""http://example.com"")",`);
+        expect(text).toContain(`"{""description"":""Line one\\nline, two""}"`);
+        expect(text.endsWith("\r\n")).toBe(true);
+    });
+});
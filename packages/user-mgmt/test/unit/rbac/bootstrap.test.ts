@@ -46,6 +46,33 @@ describe("RBAC Bootstrap Module", () => {
             expect(rolesAfter.map((r) => r.name)).not.toContain("SUPER_ADMIN");
         });
 
+        it("should assign SUPER_ADMIN role without confirmation flag when email is verified", async () => {
+            const mockEnv = createMockEnv({
+                SUPER_ADMIN_EMAIL: USERNAMES.noRoles,
+                SUPER_ADMIN_EMAIL_CONFIRMED: "false",
+            });
+            const db = env.usersDB as D1Database;
+            await db
+                .prepare("UPDATE User SET EmailVerified = 1, EmailVerifiedAt = datetime('now') WHERE UserID = ?")
+                .bind(USER_IDS.noRoles)
+                .run();
+
+            await bootstrapSuperAdmin(mockEnv);
+
+            const rolesAfter = await getUserRoles(mockEnv, USER_IDS.noRoles);
+            expect(rolesAfter.map((r) => r.name)).toContain("SUPER_ADMIN");
+
+            // Cleanup: remove the role assignment and verification for other tests
+            await db
+                .prepare("DELETE FROM user_roles WHERE user_id = ? AND role_id = ?")
+                .bind(USER_IDS.noRoles, ROLE_IDS.SUPER_ADMIN)
+                .run();
+            await db
+                .prepare("UPDATE User SET EmailVerified = 0, EmailVerifiedAt = NULL WHERE UserID = ?")
+                .bind(USER_IDS.noRoles)
+                .run();
+        });
+
         it("should skip when user with email is not found", async () => {
             const mockEnv = createMockEnv({
                 SUPER_ADMIN_EMAIL: "nonexistent@test.com",
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+    listRoleConstraints,
+    getRoleConstraint,
+    createRoleConstraint,
+    deleteRoleConstraint,
+    getRoleConstraintViolations,
+    listRoleConstraintViolations,
+    findRoleConflict,
+    findReparentConflict,
+} from "../../../src/rbac/constraints";
+import { decodePageCursor } from "../../../src/rbac/pagination";
+import { createRole, assignRole } from "../../../src/rbac/roles";
+import { assignScopedRole } from "../../../src/rbac/scopes";
+import { createGroup, addGroupMember, assignRoleToGroup } from "../../../src/rbac/groups";
+import { createRoleGrantRequest, decideRoleGrantRequest, getRoleGrantRequest } from "../../../src/rbac/approvals";
+import { getUserRoles } from "../../../src/rbac/permissions";
+import { Role } from "../../../src/types/rbac";
+import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
+import { createMockEnv } from "../../helpers/mocks";
+import { USER_IDS, USERNAMES } from "../../helpers/fixtures";
+
+describe("RBAC Role Constraints Module", () => {
+    let creator: Role;
+    let approver: Role;
+    let seniorApprover: Role;
+
+    beforeAll(async () => {
+        await setupTestDatabase();
+        const mockEnv = createMockEnv();
+        creator = await createRole(mockEnv, "PAYMENTS_CREATOR");
+        approver = await createRole(mockEnv, "PAYMENTS_APPROVER");
+        seniorApprover = await createRole(mockEnv, "SENIOR_PAYMENTS_APPROVER", "", approver.id);
+    });
+
+    afterAll(async () => {
+        await cleanupTestDatabase();
+    });
+
+    describe("createRoleConstraint()", () => {
+        it("should make two roles mutually exclusive", async () => {
+            const mockEnv = createMockEnv();
+
+            const constraint = await createRoleConstraint(mockEnv, approver.id, creator.id, "Four-eyes rule", USER_IDS.admin);
+
+            expect(constraint.roles.map(role => role.name).sort()).toEqual(["PAYMENTS_APPROVER", "PAYMENTS_CREATOR"]);
+            expect(constraint.description).toBe("Four-eyes rule");
+            expect(constraint.createdBy).toBe(USER_IDS.admin);
+            expect(await getRoleConstraint(mockEnv, constraint.id)).toEqual(constraint);
+            expect(await listRoleConstraints(mockEnv)).toEqual([constraint]);
+        });
+
+        it("should refuse the same pair in either order", async () => {
+            await expect(createRoleConstraint(createMockEnv(), creator.id, approver.id)).rejects.toThrow("DUPLICATE_ROLE_CONSTRAINT");
+        });
+
+        it("should refuse a role paired with itself or a role it inherits from", async () => {
+            const mockEnv = createMockEnv();
+
+            await expect(createRoleConstraint(mockEnv, creator.id, creator.id)).rejects.toThrow("INVALID_ROLE_CONSTRAINT");
+            await expect(createRoleConstraint(mockEnv, seniorApprover.id, approver.id)).rejects.toThrow("INVALID_ROLE_CONSTRAINT");
+        });
+    });
+
+    describe("enforcement", () => {
+        it("should refuse to assign a role conflicting with one the user holds, directly or by inheritance", async () => {
+            const mockEnv = createMockEnv();
+            await assignRole(mockEnv, USER_IDS.noRoles, creator.id);
+
+            await expect(assignRole(mockEnv, USER_IDS.noRoles, approver.id)).rejects.toThrow("ROLE_CONFLICT");
+            await expect(assignRole(mockEnv, USER_IDS.noRoles, seniorApprover.id)).rejects.toThrow("ROLE_CONFLICT");
+            expect((await getUserRoles(mockEnv, USER_IDS.noRoles)).map(role => role.id)).toEqual([creator.id]);
+        });
+
+        it("should name the role being granted and the one it conflicts with", async () => {
+            const conflict = await findRoleConflict(createMockEnv(), seniorApprover.id, { userId: USER_IDS.noRoles });
+
+            expect(conflict).toMatchObject({
+                userId: USER_IDS.noRoles,
+                role: { id: approver.id, name: "PAYMENTS_APPROVER" },
+                conflictingRole: { id: creator.id, name: "PAYMENTS_CREATOR" },
+            });
+            expect(await findRoleConflict(createMockEnv(), approver.id, { userId: USER_IDS.member })).toBeNull();
+        });
+
+        it("should check group memberships and group role assignments", async () => {
+            const mockEnv = createMockEnv();
+            const approvers = await createGroup(mockEnv, "payment-approvers");
+            await assignRoleToGroup(mockEnv, approvers.id, approver.id);
+
+            await expect(addGroupMember(mockEnv, approvers.id, USER_IDS.noRoles)).rejects.toThrow("ROLE_CONFLICT");
+
+            await addGroupMember(mockEnv, approvers.id, USER_IDS.member);
+            const creators = await createGroup(mockEnv, "payment-creators");
+            await addGroupMember(mockEnv, creators.id, USER_IDS.member);
+            await expect(assignRoleToGroup(mockEnv, creators.id, creator.id)).rejects.toThrow("ROLE_CONFLICT");
+        });
+
+        it("should not approve a request for a conflicting role, leaving it pending", async () => {
+            const mockEnv = createMockEnv();
+            const request = await createRoleGrantRequest(mockEnv, USER_IDS.noRoles, approver.id, USER_IDS.admin, 3600);
+
+            await expect(decideRoleGrantRequest(mockEnv, request.id, USER_IDS.moderator, true)).rejects.toThrow("ROLE_CONFLICT");
+            expect((await getRoleGrantRequest(mockEnv, request.id))?.status).toBe("PENDING");
+        });
+    });
+
+    describe("scoped assignments", () => {
+        it("should refuse a scoped role conflicting with a global role or a role on the same resource", async () => {
+            const mockEnv = createMockEnv();
+            const ledger = { type: "ledger", id: "ledger-1" };
+
+            await expect(assignScopedRole(mockEnv, USER_IDS.noRoles, approver.id, ledger)).rejects.toThrow("ROLE_CONFLICT");
+
+            await assignScopedRole(mockEnv, USER_IDS.moderator, creator.id, ledger);
+            await expect(assignScopedRole(mockEnv, USER_IDS.moderator, seniorApprover.id, ledger)).rejects.toThrow("ROLE_CONFLICT");
+            await expect(assignRole(mockEnv, USER_IDS.moderator, approver.id)).rejects.toThrow("ROLE_CONFLICT");
+        });
+
+        it("should allow conflicting roles on different resources", async () => {
+            const mockEnv = createMockEnv();
+
+            await assignScopedRole(mockEnv, USER_IDS.moderator, approver.id, { type: "ledger", id: "ledger-2" });
+
+            expect(await getRoleConstraintViolations(mockEnv)).toEqual([]);
+        });
+    });
+
+    describe("getRoleConstraintViolations()", () => {
+        it("should report users who held both roles before the constraint was added", async () => {
+            const mockEnv = createMockEnv();
+            const [constraint] = await listRoleConstraints(mockEnv);
+            await mockEnv.usersDB
+                .prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)")
+                .bind(USER_IDS.member, creator.id)
+                .run();
+
+            expect(await getRoleConstraintViolations(mockEnv, constraint.id)).toEqual([
+                { constraintId: constraint.id, userId: USER_IDS.member, username: USERNAMES.member },
+            ]);
+            expect(await getRoleConstraintViolations(mockEnv, "no-such-constraint")).toEqual([]);
+        });
+
+        it("should page through violations with a cursor", async () => {
+            const mockEnv = createMockEnv();
+            const [constraint] = await listRoleConstraints(mockEnv);
+            await mockEnv.usersDB
+                .prepare("INSERT INTO user_roles (user_id, role_id) VALUES (?, ?)")
+                .bind(USER_IDS.noRoles, approver.id)
+                .run();
+
+            const first = await listRoleConstraintViolations(mockEnv, { limit: 1, offset: 0, keyset: true }, constraint.id);
+            const second = await listRoleConstraintViolations(
+                mockEnv,
+                { limit: 1, offset: 0, after: decodePageCursor(first.nextCursor!)!, keyset: true },
+                constraint.id
+            );
+            const last = await listRoleConstraintViolations(
+                mockEnv,
+                { limit: 1, offset: 0, after: decodePageCursor(second.nextCursor!)!, keyset: true },
+                constraint.id
+            );
+
+            expect(first.violations.map(violation => violation.userId)).toEqual([USER_IDS.member]);
+            expect(second.violations.map(violation => violation.userId)).toEqual([USER_IDS.noRoles]);
+            expect(last).toEqual({ violations: [], nextCursor: null });
+
+            await mockEnv.usersDB
+                .prepare("DELETE FROM user_roles WHERE user_id = ? AND role_id = ?")
+                .bind(USER_IDS.noRoles, approver.id)
+                .run();
+        });
+    });
+
+    describe("findReparentConflict()", () => {
+        it("should report holders of the role who would newly inherit a conflicting role", async () => {
+            const mockEnv = createMockEnv();
+            const clerk = await createRole(mockEnv, "PAYMENTS_CLERK");
+            await assignRole(mockEnv, USER_IDS.member, clerk.id);
+            await assignRole(mockEnv, USER_IDS.noRoles, clerk.id);
+
+            // The member already holds both roles, so only the other holder is reported
+            expect(await findReparentConflict(mockEnv, clerk.id, approver.id)).toMatchObject({
+                userId: USER_IDS.noRoles,
+                role: { id: approver.id },
+                conflictingRole: { id: creator.id },
+            });
+            expect(await findReparentConflict(mockEnv, clerk.id, creator.id)).toBeNull();
+        });
+
+        it("should count holders of roles inheriting from it, on the resource they hold them on", async () => {
+            const mockEnv = createMockEnv();
+            const ledgerClerk = await createRole(mockEnv, "LEDGER_CLERK");
+            const trainee = await createRole(mockEnv, "LEDGER_TRAINEE", "", ledgerClerk.id);
+            await assignScopedRole(mockEnv, USER_IDS.moderator, trainee.id, { type: "ledger", id: "ledger-1" });
+
+            // The moderator is a creator on ledger-1, where the trainee role would make them an approver
+            expect(await findReparentConflict(mockEnv, ledgerClerk.id, approver.id)).toMatchObject({
+                userId: USER_IDS.moderator,
+                role: { id: approver.id },
+            });
+            expect(await findReparentConflict(mockEnv, ledgerClerk.id, creator.id)).toBeNull();
+        });
+    });
+
+    describe("deleteRoleConstraint()", () => {
+        it("should allow the roles to be held together again", async () => {
+            const mockEnv = createMockEnv();
+            const [constraint] = await listRoleConstraints(mockEnv);
+
+            expect(await deleteRoleConstraint(mockEnv, constraint.id)).toBe(true);
+            await assignRole(mockEnv, USER_IDS.noRoles, approver.id);
+
+            expect(await getRoleConstraintViolations(mockEnv)).toEqual([]);
+            expect(await deleteRoleConstraint(mockEnv, constraint.id)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import {
+    createGroup,
+    getGroupById,
+    getGroupMembers,
+    addGroupMember,
+    removeGroupMember,
+    assignRoleToGroup,
+    removeRoleFromGroup,
+    deleteGroup,
+} from "../../../src/rbac/groups";
+import { getUserPermissionsFromDB, getUserRoles } from "../../../src/rbac/permissions";
+import { assignRole, removeRole } from "../../../src/rbac/roles";
+import { getPermissionsCacheKey } from "../../../src/rbac/cache";
+import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
+import { createMockEnv, createMockSessionService } from "../../helpers/mocks";
+import { ROLE_IDS, USER_IDS, USERNAMES } from "../../helpers/fixtures";
+
+/**
+ * Creates a mock Env whose session service records the permission cache keys it was asked to delete.
+ */
+function createSpyEnv() {
+    const sessionService = createMockSessionService();
+    const fetch = vi.fn(sessionService.fetch);
+    const invalidatedKeys = () =>
+        fetch.mock.calls
+            .map(([input]) => input as Request)
+            .filter((request) => request.method === "DELETE" && request.url.includes("/cache/"))
+            .map((request) => decodeURIComponent(request.url.split("/cache/")[1]));
+    return { mockEnv: createMockEnv({ sessionService: { ...sessionService, fetch } }), invalidatedKeys };
+}
+
+describe("RBAC Groups Module", () => {
+    beforeAll(async () => {
+        await setupTestDatabase();
+    });
+
+    afterAll(async () => {
+        await cleanupTestDatabase();
+    });
+
+    describe("createGroup()", () => {
+        it("should create a group that can be retrieved", async () => {
+            const mockEnv = createMockEnv();
+
+            const group = await createGroup(mockEnv, "Support", "Support staff");
+
+            expect(await getGroupById(mockEnv, group.id)).toMatchObject({ name: "Support", description: "Support staff" });
+        });
+
+        it("should reject a duplicate name", async () => {
+            const mockEnv = createMockEnv();
+            await createGroup(mockEnv, "Billing");
+
+            await expect(createGroup(mockEnv, "Billing")).rejects.toThrow("DUPLICATE_GROUP_NAME");
+        });
+    });
+
+    describe("group-granted permissions", () => {
+        it("should grant a group's roles to its members", async () => {
+            const mockEnv = createMockEnv();
+            const group = await createGroup(mockEnv, "Moderators");
+            await assignRoleToGroup(mockEnv, group.id, ROLE_IDS.MODERATOR);
+
+            await addGroupMember(mockEnv, group.id, USER_IDS.noRoles);
+
+            expect((await getUserPermissionsFromDB(mockEnv, USER_IDS.noRoles)).sort()).toEqual(["users:read", "users:write"]);
+            expect((await getGroupMembers(mockEnv, group.id)).map(m => m.username)).toEqual([USERNAMES.noRoles]);
+
+            await removeGroupMember(mockEnv, group.id, USER_IDS.noRoles);
+
+            expect(await getUserPermissionsFromDB(mockEnv, USER_IDS.noRoles)).toEqual([]);
+        });
+
+        it("should revoke the permissions when the role is removed from the group", async () => {
+            const mockEnv = createMockEnv();
+            const group = await createGroup(mockEnv, "Temporary");
+            await addGroupMember(mockEnv, group.id, USER_IDS.noRoles);
+            await assignRoleToGroup(mockEnv, group.id, ROLE_IDS.MEMBER);
+
+            expect(await removeRoleFromGroup(mockEnv, group.id, ROLE_IDS.MEMBER)).toBe(1);
+
+            expect(await getUserPermissionsFromDB(mockEnv, USER_IDS.noRoles)).toEqual([]);
+        });
+    });
+
+    describe("getUserRoles()", () => {
+        it("should list each source of a role held both directly and through a group", async () => {
+            const mockEnv = createMockEnv();
+            const group = await createGroup(mockEnv, "Members");
+            await assignRoleToGroup(mockEnv, group.id, ROLE_IDS.MEMBER);
+            await addGroupMember(mockEnv, group.id, USER_IDS.noRoles);
+            await assignRole(mockEnv, USER_IDS.noRoles, ROLE_IDS.MEMBER);
+
+            const roles = await getUserRoles(mockEnv, USER_IDS.noRoles);
+
+            expect(roles).toHaveLength(1);
+            expect(roles[0].sources).toEqual([
+                { type: "direct" },
+                { type: "group", groupId: group.id, groupName: "Members" },
+            ]);
+
+            await removeRole(mockEnv, USER_IDS.noRoles, ROLE_IDS.MEMBER);
+            expect((await getUserRoles(mockEnv, USER_IDS.noRoles))[0].sources).toEqual([
+                { type: "group", groupId: group.id, groupName: "Members" },
+            ]);
+            await deleteGroup(mockEnv, group.id);
+        });
+    });
+
+    describe("cache invalidation", () => {
+        it("should invalidate the cached permissions of a user whose membership changes", async () => {
+            const { mockEnv, invalidatedKeys } = createSpyEnv();
+            const group = await createGroup(mockEnv, "Cached");
+
+            await addGroupMember(mockEnv, group.id, USER_IDS.member);
+            await removeGroupMember(mockEnv, group.id, USER_IDS.member);
+
+            expect(invalidatedKeys()).toEqual([
+                getPermissionsCacheKey(USER_IDS.member),
+                getPermissionsCacheKey(USER_IDS.member),
+            ]);
+        });
+
+        it("should invalidate every member's cached permissions when the group's roles change or it is deleted", async () => {
+            const { mockEnv, invalidatedKeys } = createSpyEnv();
+            const group = await createGroup(mockEnv, "Everyone");
+            await addGroupMember(mockEnv, group.id, USER_IDS.member);
+            await addGroupMember(mockEnv, group.id, USER_IDS.moderator);
+            const afterSetup = invalidatedKeys().length;
+
+            expect(await assignRoleToGroup(mockEnv, group.id, ROLE_IDS.MEMBER)).toBe(2);
+            expect(await deleteGroup(mockEnv, group.id)).toBe(2);
+
+            expect(invalidatedKeys().slice(afterSetup).sort()).toEqual([
+                getPermissionsCacheKey(USER_IDS.member),
+                getPermissionsCacheKey(USER_IDS.member),
+                getPermissionsCacheKey(USER_IDS.moderator),
+                getPermissionsCacheKey(USER_IDS.moderator),
+            ].sort());
+            expect(await getGroupById(mockEnv, group.id)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+    createOrganization,
+    getOrganizationById,
+    getUserOrganizations,
+    isOrganizationMember,
+    getOrganizationMembers,
+    removeOrganizationMember,
+    getOrganizationPermissions,
+    createOrganizationInvitation,
+    acceptOrganizationInvitation,
+} from "../../../src/rbac/organizations";
+import { getUserScopedRoles } from "../../../src/rbac/scopes";
+import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
+import { createMockEnv } from "../../helpers/mocks";
+import { ROLE_IDS, USER_IDS, USERNAMES } from "../../helpers/fixtures";
+
+const ONE_DAY_SECONDS = 24 * 60 * 60;
+
+describe("RBAC Organizations Module", () => {
+    beforeAll(async () => {
+        await setupTestDatabase();
+    });
+
+    afterAll(async () => {
+        await cleanupTestDatabase();
+    });
+
+    describe("createOrganization()", () => {
+        it("should make the creator a member with the ORG_ADMIN role in it", async () => {
+            const mockEnv = createMockEnv();
+
+            const org = await createOrganization(mockEnv, "Acme", USER_IDS.moderator);
+
+            expect(await getOrganizationById(mockEnv, org.id)).toMatchObject({ name: "Acme", createdBy: USER_IDS.moderator });
+            expect(await isOrganizationMember(mockEnv, org.id, USER_IDS.moderator)).toBe(true);
+            const members = await getOrganizationMembers(mockEnv, org.id);
+            expect(members).toHaveLength(1);
+            expect(members[0].roles).toEqual([{ id: ROLE_IDS.ORG_ADMIN, name: "ORG_ADMIN" }]);
+        });
+    });
+
+    describe("getOrganizationPermissions()", () => {
+        it("should combine global permissions with the roles held in that organization only", async () => {
+            const mockEnv = createMockEnv();
+            const acme = await createOrganization(mockEnv, "Acme", USER_IDS.member);
+            const globex = await createOrganization(mockEnv, "Globex", USER_IDS.admin);
+
+            expect((await getOrganizationPermissions(mockEnv, USER_IDS.member, acme.id)).sort()).toEqual([
+                "orgs:manage",
+                "orgs:read",
+                "users:read",
+            ]);
+            expect(await getOrganizationPermissions(mockEnv, USER_IDS.member, globex.id)).toEqual(["users:read"]);
+        });
+    });
+
+    describe("invitations", () => {
+        it("should add the invitee with the invited role", async () => {
+            const mockEnv = createMockEnv();
+            const org = await createOrganization(mockEnv, "Initech", USER_IDS.admin);
+            const { invitation, token } = await createOrganizationInvitation(
+                mockEnv, org.id, USERNAMES.noRoles, ROLE_IDS.ORG_MEMBER, USER_IDS.admin, ONE_DAY_SECONDS
+            );
+
+            const accepted = await acceptOrganizationInvitation(mockEnv, token, USER_IDS.noRoles, "NoRoles@Test.com");
+
+            expect(accepted.id).toBe(invitation.id);
+            expect((await getUserOrganizations(mockEnv, USER_IDS.noRoles)).map(o => o.id)).toContain(org.id);
+            expect(await getOrganizationPermissions(mockEnv, USER_IDS.noRoles, org.id)).toEqual(["orgs:read"]);
+        });
+
+        it("should only be accepted once", async () => {
+            const mockEnv = createMockEnv();
+            const org = await createOrganization(mockEnv, "Hooli", USER_IDS.admin);
+            const { token } = await createOrganizationInvitation(
+                mockEnv, org.id, USERNAMES.noRoles, ROLE_IDS.ORG_MEMBER, USER_IDS.admin, ONE_DAY_SECONDS
+            );
+
+            await acceptOrganizationInvitation(mockEnv, token, USER_IDS.noRoles, USERNAMES.noRoles);
+
+            await expect(
+                acceptOrganizationInvitation(mockEnv, token, USER_IDS.noRoles, USERNAMES.noRoles)
+            ).rejects.toThrow("INVALID_INVITATION");
+        });
+
+        it("should reject an invitation issued to another email address", async () => {
+            const mockEnv = createMockEnv();
+            const org = await createOrganization(mockEnv, "Umbrella", USER_IDS.admin);
+            const { token } = await createOrganizationInvitation(
+                mockEnv, org.id, USERNAMES.noRoles, ROLE_IDS.ORG_MEMBER, USER_IDS.admin, ONE_DAY_SECONDS
+            );
+
+            await expect(
+                acceptOrganizationInvitation(mockEnv, token, USER_IDS.member, USERNAMES.member)
+            ).rejects.toThrow("INVITATION_EMAIL_MISMATCH");
+            expect(await isOrganizationMember(mockEnv, org.id, USER_IDS.member)).toBe(false);
+        });
+
+        it("should reject an expired invitation", async () => {
+            const mockEnv = createMockEnv();
+            const org = await createOrganization(mockEnv, "Vandelay", USER_IDS.admin);
+            const { token } = await createOrganizationInvitation(
+                mockEnv, org.id, USERNAMES.noRoles, ROLE_IDS.ORG_MEMBER, USER_IDS.admin, -60
+            );
+
+            await expect(
+                acceptOrganizationInvitation(mockEnv, token, USER_IDS.noRoles, USERNAMES.noRoles)
+            ).rejects.toThrow("INVALID_INVITATION");
+        });
+
+        it("should reject an unknown token", async () => {
+            await expect(
+                acceptOrganizationInvitation(createMockEnv(), "not-a-token", USER_IDS.noRoles, USERNAMES.noRoles)
+            ).rejects.toThrow("INVALID_INVITATION");
+        });
+    });
+
+    describe("removeOrganizationMember()", () => {
+        it("should remove the member's roles in that organization", async () => {
+            const mockEnv = createMockEnv();
+            const org = await createOrganization(mockEnv, "Stark", USER_IDS.moderator);
+
+            expect(await removeOrganizationMember(mockEnv, org.id, USER_IDS.moderator)).toBe(true);
+
+            expect(await isOrganizationMember(mockEnv, org.id, USER_IDS.moderator)).toBe(false);
+            const scopedRoles = await getUserScopedRoles(mockEnv, USER_IDS.moderator);
+            expect(scopedRoles.some(role => role.scopeId === org.id)).toBe(false);
+        });
+
+        it("should report whether the user was a member", async () => {
+            const mockEnv = createMockEnv();
+            const org = await createOrganization(mockEnv, "Wayne", USER_IDS.admin);
+
+            expect(await removeOrganizationMember(mockEnv, org.id, USER_IDS.noRoles)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { encodePageCursor, decodePageCursor, getNextPageCursor } from "../../../src/rbac/pagination";
+import { listGroups } from "../../../src/rbac/groups";
+import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
+import { createMockEnv } from "../../helpers/mocks";
+
+describe("RBAC Pagination Module", () => {
+    beforeAll(async () => {
+        await setupTestDatabase();
+        const mockEnv = createMockEnv();
+        // Two groups share a timestamp, so the page boundary falls between rows ordered by ID
+        await mockEnv.usersDB.batch([
+            mockEnv.usersDB.prepare("INSERT INTO groups (id, name, created_at) VALUES ('group-c', 'charlie', '2024-01-01 00:00:00')"),
+            mockEnv.usersDB.prepare("INSERT INTO groups (id, name, created_at) VALUES ('group-a', 'alpha', '2024-01-02 00:00:00')"),
+            mockEnv.usersDB.prepare("INSERT INTO groups (id, name, created_at) VALUES ('group-b', 'bravo', '2024-01-02 00:00:00')"),
+        ]);
+    });
+
+    afterAll(async () => {
+        await cleanupTestDatabase();
+    });
+
+    describe("encodePageCursor() / decodePageCursor()", () => {
+        it("should round-trip a position at second precision", () => {
+            const cursor = encodePageCursor({ timestamp: new Date("2024-05-06T07:08:09.999Z"), id: "entry-1" });
+
+            expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+            expect(decodePageCursor(cursor)).toEqual({ timestamp: new Date("2024-05-06T07:08:09Z"), id: "entry-1" });
+        });
+
+        it("should reject malformed cursors", () => {
+            const encode = (value: unknown) => btoa(JSON.stringify(value));
+
+            expect(decodePageCursor("not a cursor")).toBeNull();
+            expect(decodePageCursor(encode({ timestamp: "2024-05-06 07:08:09", id: "entry-1" }))).toBeNull();
+            expect(decodePageCursor(encode(["2024-05-06T07:08:09Z", "entry-1"]))).toBeNull();
+            expect(decodePageCursor(encode(["2024-05-06 07:08:09", 1]))).toBeNull();
+        });
+    });
+
+    describe("getNextPageCursor()", () => {
+        it("should continue after the last item of a full page, without repeating or skipping rows", async () => {
+            const mockEnv = createMockEnv();
+
+            const first = await listGroups(mockEnv, { limit: 2, offset: 0, keyset: true });
+            const cursor = getNextPageCursor(first, 2, group => ({ timestamp: group.createdAt, id: group.id }));
+            const second = await listGroups(mockEnv, { limit: 2, offset: 0, after: decodePageCursor(cursor!)!, keyset: true });
+
+            expect(first.map(group => group.id)).toEqual(["group-c", "group-a"]);
+            expect(second.map(group => group.id)).toEqual(["group-b"]);
+            expect(getNextPageCursor(second, 2, group => ({ timestamp: group.createdAt, id: group.id }))).toBeNull();
+        });
+    });
+
+    describe("pageClauses()", () => {
+        it("should keep the name order for pages requested by offset", async () => {
+            const groups = await listGroups(createMockEnv(), { limit: 2, offset: 1, keyset: false });
+
+            expect(groups.map(group => group.name)).toEqual(["bravo", "charlie"]);
+        });
+    });
+});
@@ -1,12 +1,17 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import {
     getUserPermissions,
+    getSessionPermissions,
     hasPermission,
+    createPermissionMatcher,
+    isValidPermissionName,
     getUserRoles,
+    explainUserPermission,
 } from "../../../src/rbac/permissions";
+import { removeRole, assignRole, createRole, deleteRole } from "../../../src/rbac/roles";
 import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
 import { createMockEnv } from "../../helpers/mocks";
-import { PERMISSION_NAMES, USER_IDS, ROLE_FIXTURES } from "../../helpers/fixtures";
+import { PERMISSION_NAMES, USER_IDS, ROLE_FIXTURES, ROLE_IDS } from "../../helpers/fixtures";
 
 describe("RBAC Permissions Module", () => {
     beforeAll(async () => {
@@ -51,6 +56,47 @@ describe("RBAC Permissions Module", () => {
             expect(hasPermission(permissions, "USERS:READ")).toBe(false);
             expect(hasPermission(permissions, "Users:Read")).toBe(false);
         });
+
+        it("should let a trailing wildcard match one or more segments", () => {
+            const permissions = ["users:*"];
+            expect(hasPermission(permissions, "users:read")).toBe(true);
+            expect(hasPermission(permissions, "users:profile:write")).toBe(true);
+            expect(hasPermission(permissions, "users")).toBe(false);
+            expect(hasPermission(permissions, "roles:read")).toBe(false);
+        });
+
+        it("should let an inner wildcard match exactly one segment", () => {
+            expect(hasPermission(["reports:*:read"], "reports:sales:read")).toBe(true);
+            expect(hasPermission(["reports:*:read"], "reports:sales:write")).toBe(false);
+            expect(hasPermission(["reports:*:read"], "reports:sales:eu:read")).toBe(false);
+            expect(hasPermission(["*:read"], "users:read")).toBe(true);
+            expect(hasPermission(["*:read"], "reports:sales:read")).toBe(false);
+        });
+    });
+
+    describe("createPermissionMatcher()", () => {
+        it("should match exact and wildcard grants with one precomputed matcher", () => {
+            const matcher = createPermissionMatcher(["roles:read", "users:*"]);
+            expect(matcher.matches("roles:read")).toBe(true);
+            expect(matcher.matches("users:delete")).toBe(true);
+            expect(matcher.matches("roles:write")).toBe(false);
+        });
+    });
+
+    describe("isValidPermissionName()", () => {
+        it("should accept names and wildcard patterns", () => {
+            expect(isValidPermissionName("users:read")).toBe(true);
+            expect(isValidPermissionName("reports:*:read")).toBe(true);
+            expect(isValidPermissionName("*:read")).toBe(true);
+        });
+
+        it("should reject malformed patterns", () => {
+            expect(isValidPermissionName("users")).toBe(false);
+            expect(isValidPermissionName("users:re*")).toBe(false);
+            expect(isValidPermissionName("users::read")).toBe(false);
+            expect(isValidPermissionName("*:*")).toBe(false);
+            expect(isValidPermissionName("Users:Read")).toBe(false);
+        });
     });
 
     describe("getUserPermissions()", () => {
@@ -107,6 +153,52 @@ describe("RBAC Permissions Module", () => {
         });
     });
 
+    describe("getSessionPermissions()", () => {
+        const baseSession = { firstName: "Test", lastName: "User", permissions: ["admin:all"] };
+
+        it("should ignore the permissions snapshot stored in the session", async () => {
+            const mockEnv = createMockEnv();
+            const permissions = await getSessionPermissions(mockEnv, {
+                ...baseSession,
+                userId: USER_IDS.member,
+                username: "member@test.com",
+            });
+
+            expect(permissions).toEqual([PERMISSION_NAMES.USERS_READ]);
+        });
+
+        it("should resolve sessions without a user ID by username", async () => {
+            const mockEnv = createMockEnv();
+            const permissions = await getSessionPermissions(mockEnv, {
+                ...baseSession,
+                username: "member@test.com",
+            });
+
+            expect(permissions).toEqual([PERMISSION_NAMES.USERS_READ]);
+        });
+
+        it("should return empty array when the user no longer exists", async () => {
+            const mockEnv = createMockEnv();
+            const permissions = await getSessionPermissions(mockEnv, {
+                ...baseSession,
+                username: "deleted@test.com",
+            });
+
+            expect(permissions).toEqual([]);
+        });
+
+        it("should reflect a role removed after login", async () => {
+            const mockEnv = createMockEnv();
+            const session = { ...baseSession, userId: USER_IDS.noRoles, username: "noroles@test.com" };
+            await assignRole(mockEnv, USER_IDS.noRoles, ROLE_IDS.MEMBER);
+            expect(await getSessionPermissions(mockEnv, session)).toEqual([PERMISSION_NAMES.USERS_READ]);
+
+            await removeRole(mockEnv, USER_IDS.noRoles, ROLE_IDS.MEMBER);
+
+            expect(await getSessionPermissions(mockEnv, session)).toEqual([]);
+        });
+    });
+
     describe("getUserRoles()", () => {
         it("should return SUPER_ADMIN role for admin user", async () => {
             const mockEnv = createMockEnv();
@@ -150,4 +242,67 @@ describe("RBAC Permissions Module", () => {
             expect(roles).toEqual([]);
         });
     });
+
+    describe("explainUserPermission()", () => {
+        it("should explain a grant through admin:all", async () => {
+            const explanation = await explainUserPermission(createMockEnv(), USER_IDS.admin, "reports:export");
+
+            expect(explanation.granted).toBe(true);
+            expect(explanation.reason).toBe("ADMIN_ALL");
+            expect(explanation.permissions).toEqual([PERMISSION_NAMES.ADMIN_ALL]);
+            expect(explanation.grants).toEqual([
+                {
+                    permission: PERMISSION_NAMES.ADMIN_ALL,
+                    role: { id: ROLE_IDS.SUPER_ADMIN, name: "SUPER_ADMIN" },
+                    assignedRole: { id: ROLE_IDS.SUPER_ADMIN, name: "SUPER_ADMIN" },
+                    source: { type: "direct" },
+                },
+            ]);
+        });
+
+        it("should explain a grant through a directly assigned role", async () => {
+            const explanation = await explainUserPermission(createMockEnv(), USER_IDS.moderator, PERMISSION_NAMES.USERS_WRITE);
+
+            expect(explanation.granted).toBe(true);
+            expect(explanation.reason).toBe("GRANTED");
+            expect(explanation.grants).toHaveLength(1);
+            expect(explanation.grants[0].role.id).toBe(ROLE_IDS.MODERATOR);
+        });
+
+        it("should show the role a permission is inherited through", async () => {
+            const mockEnv = createMockEnv();
+            const child = await createRole(mockEnv, "EXPLAIN_CHILD", undefined, ROLE_IDS.MODERATOR);
+            await assignRole(mockEnv, USER_IDS.noRoles, child.id);
+
+            const explanation = await explainUserPermission(mockEnv, USER_IDS.noRoles, PERMISSION_NAMES.USERS_WRITE);
+
+            expect(explanation.granted).toBe(true);
+            expect(explanation.grants).toEqual([
+                {
+                    permission: PERMISSION_NAMES.USERS_WRITE,
+                    role: { id: ROLE_IDS.MODERATOR, name: "MODERATOR" },
+                    assignedRole: { id: child.id, name: "EXPLAIN_CHILD" },
+                    source: { type: "direct" },
+                },
+            ]);
+            await deleteRole(mockEnv, child.id);
+        });
+
+        it("should explain a missing permission", async () => {
+            const explanation = await explainUserPermission(createMockEnv(), USER_IDS.member, PERMISSION_NAMES.USERS_WRITE);
+
+            expect(explanation.granted).toBe(false);
+            expect(explanation.reason).toBe("NOT_GRANTED");
+            expect(explanation.grants).toEqual([]);
+            expect(explanation.permissions).toEqual([PERMISSION_NAMES.USERS_READ]);
+            expect(explanation.roles.map(role => role.name)).toEqual(["MEMBER"]);
+        });
+
+        it("should report a user without roles", async () => {
+            const explanation = await explainUserPermission(createMockEnv(), USER_IDS.noRoles, PERMISSION_NAMES.USERS_READ);
+
+            expect(explanation.granted).toBe(false);
+            expect(explanation.reason).toBe("NO_ROLES");
+        });
+    });
 });
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { exportPolicy, diffPolicy, planPolicyImport, isEmptyPolicyDiff, applyPolicyDiff } from "../../../src/rbac/policy";
+import { getUserPermissionsFromDB } from "../../../src/rbac/permissions";
+import { createRoleConstraint, deleteRoleConstraint } from "../../../src/rbac/constraints";
+import { RbacPolicy, PolicyDiff } from "../../../src/types/rbac";
+import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
+import { createMockEnv } from "../../helpers/mocks";
+import { ROLE_IDS, USER_IDS, USERNAMES } from "../../helpers/fixtures";
+
+/**
+ * Plans and applies a policy, failing the test if the policy is rejected.
+ */
+async function importPolicy(policy: RbacPolicy, options: { prune?: boolean } = {}): Promise<PolicyDiff> {
+    const mockEnv = createMockEnv();
+    const plan = await planPolicyImport(mockEnv, policy, options);
+    if ("errors" in plan) {
+        throw new Error(plan.errors.join("; "));
+    }
+    await applyPolicyDiff(mockEnv, plan.diff);
+    return plan.diff;
+}
+
+describe("RBAC Policy Module", () => {
+    beforeAll(async () => {
+        await setupTestDatabase();
+    });
+
+    afterAll(async () => {
+        await cleanupTestDatabase();
+    });
+
+    describe("exportPolicy()", () => {
+        it("should export roles with their own permissions, referenced by name", async () => {
+            const policy = await exportPolicy(createMockEnv());
+
+            expect(policy.version).toBe(1);
+            expect(policy.assignments).toBeUndefined();
+            expect(policy.permissions).toContainEqual({ name: "users:read", description: "View user information" });
+            expect(policy.roles).toContainEqual({
+                name: "MODERATOR",
+                description: "Moderator with limited permissions",
+                parent: null,
+                permissions: ["users:read", "users:write"],
+            });
+        });
+
+        it("should include each user's directly assigned roles on request", async () => {
+            const policy = await exportPolicy(createMockEnv(), true);
+
+            expect(policy.assignments).toContainEqual({ username: USERNAMES.member, roles: ["MEMBER"] });
+            expect(policy.assignments?.some(a => a.username === USERNAMES.noRoles)).toBe(false);
+        });
+    });
+
+    describe("diffPolicy()", () => {
+        it("should find no changes when importing the current configuration", async () => {
+            const current = await exportPolicy(createMockEnv(), true);
+
+            expect(isEmptyPolicyDiff(diffPolicy(current, current, { prune: true }))).toBe(true);
+        });
+
+        it("should only delete unlisted roles and permissions when pruning, never built-in ones", async () => {
+            const current = await exportPolicy(createMockEnv());
+            const desired: RbacPolicy = { version: 1, permissions: [], roles: [] };
+            current.permissions.push({ name: "reports:export", description: "" });
+            current.roles.push({ name: "AUDITOR", description: "", parent: null, permissions: [] });
+
+            expect(diffPolicy(current, desired).roles.delete).toEqual([]);
+            const pruned = diffPolicy(current, desired, { prune: true });
+            expect(pruned.roles.delete).toEqual(["AUDITOR"]);
+            expect(pruned.permissions.delete).toEqual(["reports:export"]);
+        });
+    });
+
+    describe("planPolicyImport()", () => {
+        it("should reject references to roles, permissions and users that won't exist", async () => {
+            const plan = await planPolicyImport(createMockEnv(), {
+                version: 1,
+                permissions: [],
+                roles: [{ name: "AUDITOR", description: "", parent: "NO_SUCH_ROLE", permissions: ["no:such"] }],
+                assignments: [{ username: "nobody@test.com", roles: ["MEMBER"] }],
+            });
+
+            expect(plan).toEqual({
+                errors: [
+                    "Role AUDITOR grants unknown permission no:such",
+                    "Role AUDITOR has unknown parent role NO_SUCH_ROLE",
+                    "Unknown user nobody@test.com",
+                ],
+            });
+        });
+
+        it("should reject a cycle in the role hierarchy and changes to SUPER_ADMIN", async () => {
+            const current = await exportPolicy(createMockEnv());
+            const superAdmin = current.roles.find(r => r.name === "SUPER_ADMIN")!;
+
+            const plan = await planPolicyImport(createMockEnv(), {
+                version: 1,
+                permissions: [],
+                roles: [
+                    { name: "MEMBER", description: "", parent: "MODERATOR", permissions: ["users:read"] },
+                    { name: "MODERATOR", description: "", parent: "MEMBER", permissions: ["users:write"] },
+                    { ...superAdmin, permissions: ["admin:all"] },
+                ],
+            });
+
+            expect("errors" in plan && plan.errors).toEqual(expect.arrayContaining([
+                "Role MEMBER would inherit from itself",
+                "Role MODERATOR would inherit from itself",
+                "SUPER_ADMIN permissions cannot be modified",
+            ]));
+        });
+
+        it("should reject assignments of roles that require approval", async () => {
+            const plan = await planPolicyImport(createMockEnv(), {
+                version: 1,
+                permissions: [],
+                roles: [{ name: "DEPUTY_ADMIN", description: "", parent: "SUPER_ADMIN", permissions: [] }],
+                assignments: [{ username: USERNAMES.noRoles, roles: ["SUPER_ADMIN", "DEPUTY_ADMIN"] }],
+            });
+
+            expect(plan).toEqual({
+                errors: [
+                    `Role SUPER_ADMIN requires approval and cannot be assigned to ${USERNAMES.noRoles} by import`,
+                    `Role DEPUTY_ADMIN requires approval and cannot be assigned to ${USERNAMES.noRoles} by import`,
+                ],
+            });
+        });
+        it("should reject giving a held role admin:all or a parent that requires approval", async () => {
+            const plan = await planPolicyImport(createMockEnv(), {
+                version: 1,
+                permissions: [],
+                roles: [
+                    { name: "MEMBER", description: "Basic member access", parent: "SUPER_ADMIN", permissions: ["users:read"] },
+                    { name: "MODERATOR", description: "", parent: null, permissions: ["users:read", "users:write", "admin:all"] },
+                    { name: "STANDBY_ADMIN", description: "", parent: "SUPER_ADMIN", permissions: ["admin:all"] },
+                ],
+            });
+
+            expect(plan).toEqual({
+                errors: [
+                    "Role MEMBER cannot inherit from SUPER_ADMIN, which requires approval, by import",
+                    "Role MODERATOR is held and cannot be granted admin:all by import",
+                ],
+            });
+        });
+
+        it("should reject assignments that give a user mutually exclusive roles", async () => {
+            const mockEnv = createMockEnv();
+            const constraint = await createRoleConstraint(mockEnv, ROLE_IDS.MEMBER, ROLE_IDS.MODERATOR);
+
+            const plan = await planPolicyImport(mockEnv, {
+                version: 1,
+                permissions: [],
+                roles: [],
+                assignments: [{ username: USERNAMES.member, roles: ["MEMBER", "MODERATOR"] }],
+            });
+
+            expect(plan).toEqual({
+                errors: [`User ${USERNAMES.member} would hold conflicting roles MEMBER and MODERATOR`],
+            });
+            await deleteRoleConstraint(mockEnv, constraint.id);
+        });
+    });
+
+    describe("applyPolicyDiff()", () => {
+        it("should create permissions and roles, including a parent listed after its child", async () => {
+            const diff = await importPolicy({
+                version: 1,
+                permissions: [{ name: "reports:read", description: "Read reports" }],
+                roles: [
+                    { name: "REPORT_EDITOR", description: "", parent: "REPORT_VIEWER", permissions: [] },
+                    { name: "REPORT_VIEWER", description: "Views reports", parent: null, permissions: ["reports:read"] },
+                ],
+                assignments: [{ username: USERNAMES.noRoles, roles: ["REPORT_EDITOR"] }],
+            });
+
+            expect(diff.roles.create.map(r => r.name)).toEqual(["REPORT_EDITOR", "REPORT_VIEWER"]);
+            expect(await getUserPermissionsFromDB(createMockEnv(), USER_IDS.noRoles)).toEqual(["reports:read"]);
+
+            const exported = await exportPolicy(createMockEnv());
+            expect(exported.roles).toContainEqual({
+                name: "REPORT_EDITOR",
+                description: "",
+                parent: "REPORT_VIEWER",
+                permissions: [],
+            });
+        });
+
+        it("should replace a listed role's permissions and a listed user's roles", async () => {
+            await importPolicy({
+                version: 1,
+                permissions: [],
+                roles: [{ name: "MEMBER", description: "Basic member access", parent: null, permissions: ["users:read", "orgs:read"] }],
+                assignments: [{ username: USERNAMES.moderator, roles: ["MEMBER"] }],
+            });
+
+            expect((await getUserPermissionsFromDB(createMockEnv(), USER_IDS.member)).sort()).toEqual(["orgs:read", "users:read"]);
+            expect((await getUserPermissionsFromDB(createMockEnv(), USER_IDS.moderator)).sort()).toEqual(["orgs:read", "users:read"]);
+        });
+
+        it("should delete pruned roles and keep built-in ones", async () => {
+            const current = await exportPolicy(createMockEnv());
+
+            const diff = await importPolicy({
+                version: 1,
+                permissions: current.permissions,
+                roles: current.roles.filter(r => !r.name.startsWith("REPORT_")),
+            }, { prune: true });
+
+            expect(diff.roles.delete).toEqual(["REPORT_EDITOR", "REPORT_VIEWER"]);
+            const roles = (await exportPolicy(createMockEnv())).roles.map(r => r.name);
+            expect(roles).not.toContain("REPORT_VIEWER");
+            expect(roles).toContain("SUPER_ADMIN");
+            expect(await getUserPermissionsFromDB(createMockEnv(), USER_IDS.noRoles)).toEqual([]);
+        });
+    });
+});
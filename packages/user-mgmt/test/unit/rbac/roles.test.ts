@@ -6,8 +6,12 @@ import {
     createRole,
     getDefaultRoleId,
     assignDefaultRole,
+    setRoleParent,
+    deleteRole,
+    getInheritedRolePermissions,
+    removeExpiredRoleAssignments,
 } from "../../../src/rbac/roles";
-import { getUserRoles } from "../../../src/rbac/permissions";
+import { getUserRoles, getUserPermissionsFromDB } from "../../../src/rbac/permissions";
 import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
 import { createMockEnv } from "../../helpers/mocks";
 import { ROLE_IDS, USER_IDS } from "../../helpers/fixtures";
@@ -180,4 +184,98 @@ describe("RBAC Roles Module", () => {
             await db.prepare("DELETE FROM User WHERE UserID = ?").bind(100).run();
         });
     });
+
+    describe("setRoleParent()", () => {
+        it("should grant the permissions of every ancestor role", async () => {
+            const mockEnv = createMockEnv();
+            const db = env.usersDB as D1Database;
+            const editor = await createRole(mockEnv, "EDITOR");
+            const seniorEditor = await createRole(mockEnv, "SENIOR_EDITOR", undefined, editor.id);
+            await setRoleParent(mockEnv, editor.id, ROLE_IDS.MODERATOR);
+            await db.prepare("INSERT INTO User (UserID, Username) VALUES (101, 'editor@test.com')").run();
+            await assignRole(mockEnv, 101, seniorEditor.id);
+
+            const permissions = await getUserPermissionsFromDB(mockEnv, 101);
+            expect(permissions.sort()).toEqual(["users:read", "users:write"]);
+
+            const inherited = await getInheritedRolePermissions(mockEnv, seniorEditor.id);
+            expect(inherited.map(p => p.name)).toEqual(["users:read", "users:write"]);
+
+            // Deleting the middle role keeps the rest of the chain
+            await deleteRole(mockEnv, editor.id);
+            expect((await getUserPermissionsFromDB(mockEnv, 101)).sort()).toEqual(["users:read", "users:write"]);
+
+            // Cleanup
+            await deleteRole(mockEnv, seniorEditor.id);
+            await db.prepare("DELETE FROM User WHERE UserID = ?").bind(101).run();
+        });
+
+        it("should reject a parent that would create a cycle", async () => {
+            const mockEnv = createMockEnv();
+            const parent = await createRole(mockEnv, "CYCLE_PARENT");
+            const child = await createRole(mockEnv, "CYCLE_CHILD", undefined, parent.id);
+
+            await expect(setRoleParent(mockEnv, parent.id, child.id)).rejects.toThrow("ROLE_HIERARCHY_CYCLE");
+            await expect(setRoleParent(mockEnv, parent.id, parent.id)).rejects.toThrow("ROLE_HIERARCHY_CYCLE");
+
+            // Cleanup
+            await deleteRole(mockEnv, child.id);
+            await deleteRole(mockEnv, parent.id);
+        });
+    });
+
+    describe("time-bound assignments", () => {
+        it("should ignore assignments outside their validity window", async () => {
+            const mockEnv = createMockEnv();
+            const db = env.usersDB as D1Database;
+            await db.prepare("INSERT INTO User (UserID, Username) VALUES (102, 'temp@test.com')").run();
+
+            await assignRole(mockEnv, 102, ROLE_IDS.MODERATOR, { startsAt: new Date(Date.now() + 3600_000) });
+            expect(await getUserPermissionsFromDB(mockEnv, 102)).toEqual([]);
+            expect(await getUserRoles(mockEnv, 102)).toEqual([]);
+            const pending = await getUserRoles(mockEnv, 102, { includePending: true });
+            expect(pending).toHaveLength(1);
+            expect(pending[0].startsAt).toBeInstanceOf(Date);
+
+            await assignRole(mockEnv, 102, ROLE_IDS.MODERATOR, { expiresAt: new Date(Date.now() - 1000) });
+            expect(await getUserPermissionsFromDB(mockEnv, 102)).toEqual([]);
+
+            // Re-assigning without a window makes the assignment permanent
+            await assignRole(mockEnv, 102, ROLE_IDS.MODERATOR);
+            expect((await getUserPermissionsFromDB(mockEnv, 102)).sort()).toEqual(["users:read", "users:write"]);
+
+            // Cleanup
+            await db.prepare("DELETE FROM user_roles WHERE user_id = ?").bind(102).run();
+            await db.prepare("DELETE FROM User WHERE UserID = ?").bind(102).run();
+        });
+    });
+
+    describe("removeExpiredRoleAssignments()", () => {
+        it("should delete expired assignments and audit them as expired", async () => {
+            const mockEnv = createMockEnv();
+            const db = env.usersDB as D1Database;
+            await db.prepare("INSERT INTO User (UserID, Username) VALUES (103, 'expired@test.com')").run();
+            await assignRole(mockEnv, 103, ROLE_IDS.MODERATOR, { expiresAt: new Date(Date.now() - 1000) });
+            await assignRole(mockEnv, 103, ROLE_IDS.MEMBER, { expiresAt: new Date(Date.now() + 3600_000) });
+
+            const removed = await removeExpiredRoleAssignments(mockEnv);
+
+            expect(removed).toBe(1);
+            const remaining = await db
+                .prepare("SELECT role_id FROM user_roles WHERE user_id = ?")
+                .bind(103)
+                .all<{ role_id: string }>();
+            expect(remaining.results.map(r => r.role_id)).toEqual([ROLE_IDS.MEMBER]);
+
+            const auditEntry = await db
+                .prepare("SELECT actor_username, details FROM audit_logs WHERE action = 'ROLE_REMOVED' AND target_id = '103'")
+                .first<{ actor_username: string; details: string }>();
+            expect(auditEntry?.actor_username).toBe("SYSTEM");
+            expect(JSON.parse(auditEntry!.details)).toMatchObject({ roleId: ROLE_IDS.MODERATOR, reason: "expired" });
+
+            // Cleanup
+            await db.prepare("DELETE FROM user_roles WHERE user_id = ?").bind(103).run();
+            await db.prepare("DELETE FROM User WHERE UserID = ?").bind(103).run();
+        });
+    });
 });
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import {
+    assignScopedRole,
+    removeScopedRole,
+    getUserScopedRoles,
+    getUserScopedPermissions,
+    hasScopedPermission,
+} from "../../../src/rbac/scopes";
+import { getUserPermissions } from "../../../src/rbac/permissions";
+import { setupTestDatabase, cleanupTestDatabase } from "../../setup";
+import { createMockEnv, createSessionData } from "../../helpers/mocks";
+import { ROLE_IDS, USER_IDS } from "../../helpers/fixtures";
+
+const PROJECT_42 = { type: "project", id: "42" };
+const PROJECT_43 = { type: "project", id: "43" };
+
+describe("RBAC Scopes Module", () => {
+    beforeAll(async () => {
+        await setupTestDatabase();
+    });
+
+    afterAll(async () => {
+        await cleanupTestDatabase();
+    });
+
+    describe("assignScopedRole()", () => {
+        it("should grant the role's permissions on that resource only", async () => {
+            const mockEnv = createMockEnv();
+
+            await assignScopedRole(mockEnv, USER_IDS.noRoles, ROLE_IDS.MODERATOR, PROJECT_42);
+
+            expect((await getUserScopedPermissions(mockEnv, USER_IDS.noRoles, PROJECT_42)).sort()).toEqual([
+                "users:read",
+                "users:write",
+            ]);
+            expect(await getUserScopedPermissions(mockEnv, USER_IDS.noRoles, PROJECT_43)).toEqual([]);
+            expect(await getUserPermissions(mockEnv, USER_IDS.noRoles)).toEqual([]);
+        });
+
+        it("should be listed with its scope", async () => {
+            const mockEnv = createMockEnv();
+
+            const scopedRoles = await getUserScopedRoles(mockEnv, USER_IDS.noRoles);
+
+            expect(scopedRoles).toHaveLength(1);
+            expect(scopedRoles[0]).toMatchObject({ name: "MODERATOR", scopeType: "project", scopeId: "42" });
+        });
+    });
+
+    describe("hasScopedPermission()", () => {
+        it("should check the session user's roles on the resource", async () => {
+            const mockEnv = createMockEnv();
+            const sessionData = createSessionData([], { userId: USER_IDS.noRoles });
+
+            expect(await hasScopedPermission(mockEnv, sessionData, "users:write", PROJECT_42)).toBe(true);
+            expect(await hasScopedPermission(mockEnv, sessionData, "users:write", PROJECT_43)).toBe(false);
+            expect(await hasScopedPermission(mockEnv, sessionData, "roles:write", PROJECT_42)).toBe(false);
+        });
+    });
+
+    describe("removeScopedRole()", () => {
+        it("should remove the assignment on that resource", async () => {
+            const mockEnv = createMockEnv();
+
+            await removeScopedRole(mockEnv, USER_IDS.noRoles, ROLE_IDS.MODERATOR, PROJECT_42);
+
+            expect(await getUserScopedRoles(mockEnv, USER_IDS.noRoles)).toEqual([]);
+            expect(await getUserScopedPermissions(mockEnv, USER_IDS.noRoles, PROJECT_42)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { createSession, revokeUserSessions } from "../../src/session";
+import { createSessionCookie } from "../../src/utils";
+import { Env, getSessionPolicy } from "../../src/env";
+
+/**
+ * Creates a minimal mock Env whose session service records the requests it receives.
+ */
+function createTestEnv(requests: Request[], overrides: Partial<Env> = {}): Env {
+    return {
+        usersDB: {} as D1Database,
+        sessionService: {
+            fetch: async (input: RequestInfo | URL) => {
+                const request = input as Request;
+                requests.push(request);
+                if (request.method === "DELETE") {
+                    return new Response(JSON.stringify({ deleted: 2 }), { status: 200 });
+                }
+                return new Response("new-session-id", { status: 201 });
+            },
+        } as Fetcher,
+        EMAIL_FROM: "test@test.com",
+        EMAIL_FROM_NAME: "Test",
+        FORGOT_PASSWORD_URL: "https://test.com/reset",
+        TOKEN_VALID_MINUTES: 60,
+        EMAIL_DKIM_DOMAIN: "test.com",
+        EMAIL_DKIM_SELECTOR: "test",
+        EMAIL_DKIM_PRIVATE_KEY: "test-key",
+        RBAC_ENABLED: "false",
+        ...overrides,
+    };
+}
+
+const USER = { UserID: 2, Username: "member@test.com", FirstName: "Member", LastName: "User" };
+
+describe("Session Module", () => {
+    describe("getSessionPolicy()", () => {
+        it("should fall back to defaults for missing or invalid values", () => {
+            const env = createTestEnv([], { SESSION_IDLE_TIMEOUT_SECONDS: "abc" });
+
+            expect(getSessionPolicy(env)).toEqual({ idleTimeoutSeconds: 1800, absoluteTimeoutSeconds: 86400 });
+        });
+
+        it("should never allow an idle timeout longer than the absolute timeout", () => {
+            const env = createTestEnv([], {
+                SESSION_IDLE_TIMEOUT_SECONDS: "7200",
+                SESSION_ABSOLUTE_TIMEOUT_SECONDS: "3600",
+            });
+
+            expect(getSessionPolicy(env)).toEqual({ idleTimeoutSeconds: 3600, absoluteTimeoutSeconds: 3600 });
+        });
+    });
+
+    describe("createSession()", () => {
+        it("should pass the configured expiry policy to the session service", async () => {
+            const requests: Request[] = [];
+            const env = createTestEnv(requests, {
+                SESSION_IDLE_TIMEOUT_SECONDS: "600",
+                SESSION_ABSOLUTE_TIMEOUT_SECONDS: "43200",
+            });
+
+            const sessionId = await createSession(env, USER);
+
+            expect(sessionId).toBe("new-session-id");
+            const url = new URL(requests[0].url);
+            expect(url.pathname).toBe("/create");
+            expect(url.searchParams.get("idleTimeout")).toBe("600");
+            expect(url.searchParams.get("absoluteTimeout")).toBe("43200");
+        });
+
+        it("should add the session to the user's index with the client details", async () => {
+            const requests: Request[] = [];
+            const env = createTestEnv(requests, { LOG_IP_ADDRESS: "true" });
+            const login = new Request("http://localhost/login", {
+                headers: { "User-Agent": "Mozilla/5.0 (Test)", "CF-Connecting-IP": "192.0.2.1" },
+            });
+
+            await createSession(env, USER, login);
+
+            const url = new URL(requests[0].url);
+            expect(url.searchParams.get("userId")).toBe("2");
+            expect(url.searchParams.get("userAgent")).toBe("Mozilla/5.0 (Test)");
+            expect(url.searchParams.get("ip")).toBe("192.0.2.1");
+            expect(await requests[0].json()).toMatchObject({ userId: 2, username: "member@test.com" });
+        });
+
+        it("should not record the client IP unless IP logging is enabled", async () => {
+            const requests: Request[] = [];
+            const env = createTestEnv(requests);
+            const login = new Request("http://localhost/login", {
+                headers: { "CF-Connecting-IP": "192.0.2.1" },
+            });
+
+            await createSession(env, USER, login);
+
+            expect(new URL(requests[0].url).searchParams.has("ip")).toBe(false);
+        });
+    });
+
+    describe("revokeUserSessions()", () => {
+        it("should keep the excluded session and return the revoked count", async () => {
+            const requests: Request[] = [];
+            const env = createTestEnv(requests);
+
+            const revoked = await revokeUserSessions(env, 2, "current-session");
+
+            expect(revoked).toBe(2);
+            const url = new URL(requests[0].url);
+            expect(requests[0].method).toBe("DELETE");
+            expect(url.pathname).toBe("/user/2/sessions");
+            expect(url.searchParams.get("except")).toBe("current-session");
+        });
+    });
+
+    describe("createSessionCookie()", () => {
+        it("should keep the cookie for the absolute session lifetime", () => {
+            const env = createTestEnv([], { SESSION_ABSOLUTE_TIMEOUT_SECONDS: "43200" });
+
+            expect(createSessionCookie(env, "abc")).toBe("cfw_session=abc; Secure; Path=/; SameSite=None; Max-Age=43200");
+        });
+    });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+    computeLockoutSeconds,
+    checkLoginThrottle,
+    recordLoginFailure,
+    clearLoginFailures,
+    unlockAccount,
+    getThrottleIp,
+} from "../../src/throttle";
+import { Env, getLoginThrottlePolicy } from "../../src/env";
+
+/**
+ * Creates a session service backed by an in-memory map, mimicking the /cache routes.
+ */
+function createInMemorySessionService(store: Map<string, unknown>): Fetcher {
+    return {
+        fetch: async (input: RequestInfo | URL) => {
+            const request = input as Request;
+            const key = decodeURIComponent(new URL(request.url).pathname.split("/cache/")[1]);
+            if (request.method === "PUT") {
+                const body = await request.json() as { data: unknown };
+                store.set(key, body.data);
+                return new Response("Cache set", { status: 200 });
+            }
+            if (request.method === "DELETE") {
+                store.delete(key);
+                return new Response("Cache deleted", { status: 200 });
+            }
+            if (!store.has(key)) {
+                return new Response("Cache miss", { status: 404 });
+            }
+            return new Response(JSON.stringify(store.get(key)), { status: 200 });
+        },
+    } as Fetcher;
+}
+
+/**
+ * Creates a minimal mock Env with a configurable session service.
+ */
+function createTestEnv(sessionService: Fetcher, overrides: Partial<Env> = {}): Env {
+    return {
+        usersDB: {} as D1Database,
+        sessionService,
+        EMAIL_FROM: "test@test.com",
+        EMAIL_FROM_NAME: "Test",
+        FORGOT_PASSWORD_URL: "https://test.com/reset",
+        TOKEN_VALID_MINUTES: 60,
+        EMAIL_DKIM_DOMAIN: "test.com",
+        EMAIL_DKIM_SELECTOR: "test",
+        EMAIL_DKIM_PRIVATE_KEY: "test-key",
+        RBAC_ENABLED: "true",
+        LOGIN_MAX_FAILURES: "3",
+        LOGIN_IP_MAX_FAILURES: "5",
+        LOGIN_LOCKOUT_SECONDS: "60",
+        LOGIN_MAX_LOCKOUT_SECONDS: "600",
+        ...overrides,
+    };
+}
+
+describe("Login Throttle Module", () => {
+    describe("getLoginThrottlePolicy()", () => {
+        it("should fall back to defaults for missing or invalid values", () => {
+            const env = createTestEnv({} as Fetcher, {
+                LOGIN_MAX_FAILURES: undefined,
+                LOGIN_IP_MAX_FAILURES: "abc",
+                LOGIN_LOCKOUT_SECONDS: "-5",
+                LOGIN_MAX_LOCKOUT_SECONDS: undefined,
+            });
+
+            expect(getLoginThrottlePolicy(env)).toEqual({
+                maxFailuresPerUser: 5,
+                maxFailuresPerIp: 20,
+                baseLockoutSeconds: 60,
+                maxLockoutSeconds: 3600,
+                failureWindowSeconds: 900,
+            });
+        });
+
+        it("should never allow a maximum lockout shorter than the first lockout", () => {
+            const env = createTestEnv({} as Fetcher, { LOGIN_LOCKOUT_SECONDS: "120", LOGIN_MAX_LOCKOUT_SECONDS: "30" });
+
+            expect(getLoginThrottlePolicy(env).maxLockoutSeconds).toBe(120);
+        });
+    });
+
+    describe("computeLockoutSeconds()", () => {
+        const policy = getLoginThrottlePolicy(createTestEnv({} as Fetcher));
+
+        it("should not lock before the limit is reached", () => {
+            expect(computeLockoutSeconds(2, 3, policy)).toBe(0);
+        });
+
+        it("should double the lockout for each failure past the limit", () => {
+            expect(computeLockoutSeconds(3, 3, policy)).toBe(60);
+            expect(computeLockoutSeconds(4, 3, policy)).toBe(120);
+            expect(computeLockoutSeconds(5, 3, policy)).toBe(240);
+        });
+
+        it("should cap the lockout at the maximum", () => {
+            expect(computeLockoutSeconds(10, 3, policy)).toBe(600);
+            expect(computeLockoutSeconds(1000, 3, policy)).toBe(600);
+        });
+    });
+
+    describe("getThrottleIp()", () => {
+        it("should only trust CF-Connecting-IP", () => {
+            const request = new Request("http://localhost/login", {
+                headers: { "X-Forwarded-For": "10.0.0.1" },
+            });
+
+            expect(getThrottleIp(request)).toBeNull();
+            expect(getThrottleIp(new Request("http://localhost/login", {
+                headers: { "CF-Connecting-IP": "192.0.2.1" },
+            }))).toBe("192.0.2.1");
+        });
+    });
+
+    describe("failure tracking", () => {
+        let store: Map<string, unknown>;
+        let env: Env;
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+            vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+            store = new Map();
+            env = createTestEnv(createInMemorySessionService(store));
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should lock an account after the configured number of failures", async () => {
+            expect((await recordLoginFailure(env, "user@test.com", null)).lockouts).toHaveLength(0);
+            expect((await recordLoginFailure(env, "user@test.com", null)).lockouts).toHaveLength(0);
+
+            const result = await recordLoginFailure(env, "user@test.com", null);
+
+            expect(result.lockouts).toEqual([{ scope: "user", failures: 3, lockoutSeconds: 60 }]);
+            expect(result.retryAfterSeconds).toBe(60);
+            expect(await checkLoginThrottle(env, "user@test.com", null)).toEqual({
+                allowed: false,
+                retryAfterSeconds: 60,
+                scope: "user",
+            });
+        });
+
+        it("should share one counter across username case variations", async () => {
+            await recordLoginFailure(env, "User@Test.com", null);
+            await recordLoginFailure(env, "user@test.com ", null);
+            await recordLoginFailure(env, "USER@TEST.COM", null);
+
+            expect((await checkLoginThrottle(env, "user@test.com", null)).allowed).toBe(false);
+        });
+
+        it("should allow login again once the lockout expires", async () => {
+            for (let i = 0; i < 3; i++) {
+                await recordLoginFailure(env, "user@test.com", null);
+            }
+
+            vi.advanceTimersByTime(61 * 1000);
+
+            expect((await checkLoginThrottle(env, "user@test.com", null)).allowed).toBe(true);
+        });
+
+        it("should lock a client IP across different accounts", async () => {
+            for (let i = 0; i < 5; i++) {
+                await recordLoginFailure(env, `user${i}@test.com`, "192.0.2.1");
+            }
+
+            const result = await checkLoginThrottle(env, "someone-else@test.com", "192.0.2.1");
+
+            expect(result.allowed).toBe(false);
+            expect(result.scope).toBe("ip");
+            expect((await checkLoginThrottle(env, "someone-else@test.com", "192.0.2.2")).allowed).toBe(true);
+        });
+
+        it("should clear the account counter but keep the IP counter on success", async () => {
+            await recordLoginFailure(env, "user@test.com", "192.0.2.1");
+            await clearLoginFailures(env, "user@test.com");
+
+            expect(store.has("throttle:user:user@test.com")).toBe(false);
+            expect(store.has("throttle:ip:192.0.2.1")).toBe(true);
+        });
+
+        it("should lift a lockout when the account is unlocked", async () => {
+            for (let i = 0; i < 3; i++) {
+                await recordLoginFailure(env, "user@test.com", null);
+            }
+
+            await unlockAccount(env, "user@test.com");
+
+            expect((await checkLoginThrottle(env, "user@test.com", null)).allowed).toBe(true);
+        });
+
+        it("should fail open when the throttle store is unavailable", async () => {
+            const failingEnv = createTestEnv({
+                fetch: async () => { throw new Error("Service unavailable"); },
+            } as unknown as Fetcher);
+            const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+            expect(await checkLoginThrottle(failingEnv, "user@test.com", null)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+            expect((await recordLoginFailure(failingEnv, "user@test.com", null)).lockouts).toHaveLength(0);
+
+            consoleSpy.mockRestore();
+        });
+    });
+});
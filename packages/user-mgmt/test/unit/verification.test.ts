@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+    createEmailVerificationToken,
+    verifyEmailVerificationToken,
+    isEmailVerified,
+} from "../../src/verification";
+import { base64UrlEncode } from "../../src/webauthn/encoding";
+
+const SECRET = "test-verification-secret";
+const NOW = Date.parse("2025-01-01T00:00:00Z");
+
+describe("Email Verification Module", () => {
+    describe("verification tokens", () => {
+        it("should round-trip the user ID and email", async () => {
+            const token = await createEmailVerificationToken(SECRET, 42, "user@test.com", 3600, NOW);
+
+            expect(await verifyEmailVerificationToken(SECRET, token, NOW)).toEqual({
+                userId: 42,
+                email: "user@test.com",
+            });
+        });
+
+        it("should be URL-safe", async () => {
+            const token = await createEmailVerificationToken(SECRET, 42, "user+tag@test.com", 3600, NOW);
+
+            expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+        });
+
+        it("should reject expired tokens", async () => {
+            const token = await createEmailVerificationToken(SECRET, 42, "user@test.com", 3600, NOW);
+
+            expect(await verifyEmailVerificationToken(SECRET, token, NOW + 3601 * 1000)).toBeNull();
+        });
+
+        it("should reject tokens signed with a different secret", async () => {
+            const token = await createEmailVerificationToken("other-secret", 42, "user@test.com", 3600, NOW);
+
+            expect(await verifyEmailVerificationToken(SECRET, token, NOW)).toBeNull();
+        });
+
+        it("should reject tokens with a modified payload", async () => {
+            const token = await createEmailVerificationToken(SECRET, 42, "user@test.com", 3600, NOW);
+            const [, signature] = token.split(".");
+            const forgedPayload = base64UrlEncode(
+                new TextEncoder().encode(JSON.stringify({ uid: 1, email: "admin@test.com", exp: NOW + 3600 * 1000 }))
+            );
+
+            expect(await verifyEmailVerificationToken(SECRET, `${forgedPayload}.${signature}`, NOW)).toBeNull();
+        });
+
+        it("should reject malformed tokens", async () => {
+            expect(await verifyEmailVerificationToken(SECRET, "", NOW)).toBeNull();
+            expect(await verifyEmailVerificationToken(SECRET, "not-a-token", NOW)).toBeNull();
+            expect(await verifyEmailVerificationToken(SECRET, "a.b.c", NOW)).toBeNull();
+        });
+    });
+
+    describe("isEmailVerified()", () => {
+        it("should only treat EmailVerified = 1 as verified", () => {
+            expect(isEmailVerified({ EmailVerified: 1 })).toBe(true);
+            expect(isEmailVerified({ EmailVerified: 0 })).toBe(false);
+            expect(isEmailVerified({ EmailVerified: null })).toBe(false);
+            expect(isEmailVerified({})).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import {
+    verifyRegistrationResponse,
+    verifyAuthenticationResponse,
+    derToRawEcdsaSignature,
+    parseAuthenticatorData,
+} from "../../../src/webauthn/verify";
+import { decodeCbor } from "../../../src/webauthn/cbor";
+import { base64UrlEncode, base64UrlDecode, concatBytes, sha256 } from "../../../src/webauthn/encoding";
+
+const RP = { rpId: "example.com", origins: ["https://app.example.com"] };
+const CHALLENGE = base64UrlEncode(new Uint8Array(32).fill(7));
+
+/**
+ * Minimal CBOR encoder covering the types authenticators emit in attestation objects.
+ */
+function encodeCbor(value: unknown): Uint8Array {
+    const head = (major: number, length: number): Uint8Array => {
+        if (length < 24) return new Uint8Array([(major << 5) | length]);
+        if (length < 0x100) return new Uint8Array([(major << 5) | 24, length]);
+        return new Uint8Array([(major << 5) | 25, length >> 8, length & 0xff]);
+    };
+    if (typeof value === "number") {
+        return value >= 0 ? head(0, value) : head(1, -1 - value);
+    }
+    if (typeof value === "string") {
+        const bytes = new TextEncoder().encode(value);
+        return concatBytes(head(3, bytes.length), bytes);
+    }
+    if (value instanceof Uint8Array) {
+        return concatBytes(head(2, value.length), value);
+    }
+    if (value instanceof Map) {
+        const parts: Uint8Array[] = [head(5, value.size)];
+        for (const [key, entry] of value) {
+            parts.push(encodeCbor(key), encodeCbor(entry));
+        }
+        return concatBytes(...parts);
+    }
+    throw new Error("unsupported");
+}
+
+/**
+ * Converts a raw r||s ECDSA signature into the DER form authenticators produce.
+ */
+function rawToDerSignature(raw: Uint8Array): Uint8Array {
+    const integer = (bytes: Uint8Array): Uint8Array => {
+        let start = 0;
+        while (start < bytes.length - 1 && bytes[start] === 0) start++;
+        let value: Uint8Array = bytes.slice(start);
+        if (value[0] & 0x80) value = concatBytes(new Uint8Array([0]), value);
+        return concatBytes(new Uint8Array([0x02, value.length]), value);
+    };
+    const body = concatBytes(integer(raw.slice(0, 32)), integer(raw.slice(32)));
+    return concatBytes(new Uint8Array([0x30, body.length]), body);
+}
+
+function clientData(type: string, challenge: string, origin: string = RP.origins[0]): string {
+    return base64UrlEncode(new TextEncoder().encode(JSON.stringify({ type, challenge, origin })));
+}
+
+async function authenticatorData(flags: number, signCount: number, attested?: { credentialId: Uint8Array; coseKey: Uint8Array }): Promise<Uint8Array> {
+    const rpIdHash = await sha256(new TextEncoder().encode(RP.rpId));
+    const counter = new Uint8Array(4);
+    new DataView(counter.buffer).setUint32(0, signCount);
+    const parts = [rpIdHash, new Uint8Array([flags]), counter];
+    if (attested) {
+        const length = new Uint8Array([attested.credentialId.length >> 8, attested.credentialId.length & 0xff]);
+        parts.push(new Uint8Array(16), length, attested.credentialId, attested.coseKey);
+    }
+    return concatBytes(...parts);
+}
+
+describe("WebAuthn Verification", () => {
+    let keyPair: CryptoKeyPair;
+    let coseKey: Uint8Array;
+    const credentialId = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]);
+
+    beforeAll(async () => {
+        keyPair = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"]) as CryptoKeyPair;
+        const jwk = await crypto.subtle.exportKey("jwk", keyPair.publicKey) as JsonWebKey;
+        coseKey = encodeCbor(new Map<number, unknown>([
+            [1, 2],
+            [3, -7],
+            [-1, 1],
+            [-2, base64UrlDecode(jwk.x!)],
+            [-3, base64UrlDecode(jwk.y!)],
+        ]));
+    });
+
+    async function registrationResponse(flags: number = 0x45, fmt: string = "none") {
+        const authData = await authenticatorData(flags, 0, { credentialId, coseKey });
+        const attestationObject = encodeCbor(new Map<string, unknown>([
+            ["fmt", fmt],
+            ["attStmt", new Map()],
+            ["authData", authData],
+        ]));
+        return {
+            clientDataJSON: clientData("webauthn.create", CHALLENGE),
+            attestationObject: base64UrlEncode(attestationObject),
+        };
+    }
+
+    async function assertion(signCount: number, flags: number = 0x05, challenge: string = CHALLENGE) {
+        const authData = await authenticatorData(flags, signCount);
+        const clientDataJSON = clientData("webauthn.get", challenge);
+        const signed = concatBytes(authData, await sha256(base64UrlDecode(clientDataJSON)));
+        const raw = new Uint8Array(await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, keyPair.privateKey, signed));
+        return {
+            clientDataJSON,
+            authenticatorData: base64UrlEncode(authData),
+            signature: base64UrlEncode(rawToDerSignature(raw)),
+        };
+    }
+
+    describe("encoding", () => {
+        it("should round-trip base64url without padding", () => {
+            const bytes = new Uint8Array([0xfb, 0xff, 0x00, 0x10]);
+            const encoded = base64UrlEncode(bytes);
+            expect(encoded).not.toMatch(/[+/=]/);
+            expect(base64UrlDecode(encoded)).toEqual(bytes);
+        });
+
+        it("should decode CBOR maps with integer and text keys", () => {
+            const { value } = decodeCbor(encodeCbor(new Map<unknown, unknown>([[1, 2], [-7, "a"], ["b", new Uint8Array([9])]])));
+            expect(value).toBeInstanceOf(Map);
+            const map = value as Map<unknown, unknown>;
+            expect(map.get(1)).toBe(2);
+            expect(map.get(-7)).toBe("a");
+            expect(map.get("b")).toEqual(new Uint8Array([9]));
+        });
+
+        it("should convert DER signatures to raw form", () => {
+            const raw = new Uint8Array(64).map((_, i) => (i === 0 || i === 32 ? 0x80 : i));
+            expect(derToRawEcdsaSignature(rawToDerSignature(raw))).toEqual(raw);
+        });
+
+        it("should reject truncated authenticator data", () => {
+            expect(() => parseAuthenticatorData(new Uint8Array(10))).toThrow();
+        });
+    });
+
+    describe("registration", () => {
+        it("should accept a valid none-attestation response", async () => {
+            const result = await verifyRegistrationResponse(await registrationResponse(), CHALLENGE, RP);
+            expect(result.credentialId).toBe(base64UrlEncode(credentialId));
+            expect(result.algorithm).toBe(-7);
+            expect(result.signCount).toBe(0);
+        });
+
+        it("should reject a mismatched challenge", async () => {
+            await expect(verifyRegistrationResponse(await registrationResponse(), "other", RP)).rejects.toThrow("Challenge mismatch");
+        });
+
+        it("should reject a disallowed origin", async () => {
+            const response = await registrationResponse();
+            response.clientDataJSON = clientData("webauthn.create", CHALLENGE, "https://evil.example");
+            await expect(verifyRegistrationResponse(response, CHALLENGE, RP)).rejects.toThrow("Origin not allowed");
+        });
+
+        it("should require user verification", async () => {
+            await expect(verifyRegistrationResponse(await registrationResponse(0x41), CHALLENGE, RP)).rejects.toThrow("User verification required");
+        });
+
+        it("should reject attestation formats other than none", async () => {
+            await expect(verifyRegistrationResponse(await registrationResponse(0x45, "packed"), CHALLENGE, RP)).rejects.toThrow("Unsupported attestation format");
+        });
+    });
+
+    describe("authentication", () => {
+        it("should accept a valid assertion and return the new counter", async () => {
+            const { publicKey } = await verifyRegistrationResponse(await registrationResponse(), CHALLENGE, RP);
+            const result = await verifyAuthenticationResponse(await assertion(5), CHALLENGE, RP, { publicKey, signCount: 4 });
+            expect(result.signCount).toBe(5);
+        });
+
+        it("should accept authenticators that do not implement counters", async () => {
+            const { publicKey } = await verifyRegistrationResponse(await registrationResponse(), CHALLENGE, RP);
+            const result = await verifyAuthenticationResponse(await assertion(0), CHALLENGE, RP, { publicKey, signCount: 0 });
+            expect(result.signCount).toBe(0);
+        });
+
+        it("should reject a counter that did not increase", async () => {
+            const { publicKey } = await verifyRegistrationResponse(await registrationResponse(), CHALLENGE, RP);
+            await expect(verifyAuthenticationResponse(await assertion(3), CHALLENGE, RP, { publicKey, signCount: 3 }))
+                .rejects.toThrow("Signature counter did not increase");
+        });
+
+        it("should reject a tampered signature", async () => {
+            const { publicKey } = await verifyRegistrationResponse(await registrationResponse(), CHALLENGE, RP);
+            const response = await assertion(1);
+            response.clientDataJSON = clientData("webauthn.get", CHALLENGE, RP.origins[0] + "/");
+            await expect(verifyAuthenticationResponse(response, CHALLENGE, { ...RP, origins: [RP.origins[0] + "/"] }, { publicKey, signCount: 0 }))
+                .rejects.toThrow("Invalid signature");
+        });
+
+        it("should reject an assertion without user verification", async () => {
+            const { publicKey } = await verifyRegistrationResponse(await registrationResponse(), CHALLENGE, RP);
+            await expect(verifyAuthenticationResponse(await assertion(1, 0x01), CHALLENGE, RP, { publicKey, signCount: 0 }))
+                .rejects.toThrow("User verification required");
+        });
+    });
+});